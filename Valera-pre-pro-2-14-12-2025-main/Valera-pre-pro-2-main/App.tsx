@@ -1,20 +1,39 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import JSZip from 'jszip';
 import { TimelineManager } from './components/TimelineManager';
 import { VideoAudioHub } from './components/VideoAudioHub';
 import { SettingsPanel } from './components/SettingsPanel';
 import { PatrickAssistant } from './components/PatrickAssistant';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { PackageImportModal } from './components/PackageImportModal';
+import { SnapshotPanel } from './components/SnapshotPanel';
+import { UsageDashboard } from './components/UsageDashboard';
+import { EditImportModal } from './components/EditImportModal';
+import { VideoRenderModal } from './components/VideoRenderModal';
+import { SubtitleExportModal } from './components/SubtitleExportModal';
+import { FountainImportModal } from './components/FountainImportModal';
+import { SubtitleImportModal } from './components/SubtitleImportModal';
 import { telegramService } from './services/telegramService';
-import { loadProjectFromIDB, saveProjectToIDB } from './services/storageService';
+import { loadProjectFromIDB, saveProjectToIDB, scheduleProjectSave, flushProjectSaves, listProjects, createProject, renameProject, duplicateProject, deleteProject, migrateLegacySession, getActiveProjectId, setActiveProjectId, pruneOrphanImages } from './services/storageService';
+import { listSnapshots, createSnapshot, deleteSnapshot, getSnapshotData } from './services/snapshotService';
 import { generateProjectPDF } from './services/pdfService';
 import { generateProjectPPTX } from './services/pptxService';
-import { generateDaVinciXML, generateEDL, generateDaVinciPythonScript } from './services/davinciService';
-import { generateSRT } from './services/srtService';
-import { hasValidKey, saveKey, setActiveProvider, ApiProvider } from './services/geminiService';
+import { generateDaVinciXML, generateEDL, generateDaVinciPythonScript, importEDL } from './services/davinciService';
+import { generateSRT, generateVTT, generateASS, parseSubtitleFile, ImportedCue } from './services/srtService';
+import { generatePremiereXML } from './services/premiereService';
+import { generateOTIO, importOTIO } from './services/otioService';
+import { TimelineImportResult } from './services/conformService';
+import { FountainImport, parseFountain, buildFountainImport, generateFountain } from './services/fountainService';
+import { generateFDX } from './services/fdxService';
+import { buildReports, tableToCSV, tablesToXLSX } from './services/reportService';
+import { hasInlineImages, ingestInlineImages, applyImageRefs, resolveImageBlob, hydrateProjectImages, collectImageRefs } from './services/imageStore';
+import { PackageManifest, PackageImportResult, PACKAGE_MANIFEST_FILE, PACKAGE_PROJECT_FILE, PACKAGE_AUDIO_FOLDER, assetFileName, sceneFileName, mediaFileName, safeFileName, voiceOverFileName, musicBedFileName, importProjectPackage, mergeProjectData } from './services/packageService';
+import { hasValidKey, saveKey, setActiveProvider, ApiProvider } from './services/aiProvider';
+import { onUsageRecorded } from './services/geminiService';
 import { INITIAL_PROJECT_STATE, THEME_PRESETS, MODEL_IMAGE_FLASH, MODEL_IMAGE_PRO, OPENROUTER_IMAGE_MODELS, INITIAL_VALERA_MESSAGES } from './constants';
-import { ProjectData, AppSettings, TimelineFrame, Character, TimelineSettings, ChatMessage, LabAssetSuggestion, TimelineSuggestion, DirectorAction, GenerationLogEntry } from './types';
-import { Clapperboard, Monitor, Settings as SettingsIcon, Film, Loader2, Download, Maximize, FileText, Presentation, Package, Captions, ListVideo, Code, Send, Bot, Key, ArrowRight, ExternalLink, Globe, Server, Check } from 'lucide-react';
+import { ProjectData, AppSettings, TimelineFrame, Character, TimelineSettings, ChatMessage, LabAssetSuggestion, TimelineSuggestion, DirectorAction, GenerationLogEntry, ProjectSummary, ProjectSnapshot } from './types';
+import { Clapperboard, Monitor, Settings as SettingsIcon, Film, Loader2, Download, Maximize, FileText, Presentation, Package, Captions, ListVideo, Code, Send, Bot, Key, ArrowRight, ExternalLink, Globe, Server, Check, FolderOpen, PackageOpen, History, Coins, Scissors, Video, ScrollText, Sheet, Subtitles } from 'lucide-react';
 
 const App: React.FC = () => {
   const [projectData, setProjectData] = useState<ProjectData>(INITIAL_PROJECT_STATE);
@@ -25,7 +44,27 @@ const App: React.FC = () => {
     showAssistant: true,
     chatFontSize: 12
   });
-  const [activeTab, setActiveTab] = useState<'studio' | 'hub' | 'settings'>('studio');
+  const [activeTab, setActiveTab] = useState<'studio' | 'hub' | 'settings' | 'projects'>('studio');
+  const [activeProjectId, setActiveProjectIdState] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const workspaceInitRef = useRef<Promise<void> | null>(null); // StrictMode runs the init effect twice
+  const activeProjectIdRef = useRef<string | null>(null); // For callbacks that outlive a project switch
+  const usageRouteRef = useRef<Promise<void>>(Promise.resolve()); // Serialises writes to inactive projects
+  const isIngestingRef = useRef(false);
+  const packageInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string, result: PackageImportResult } | null>(null);
+  const editInputRef = useRef<HTMLInputElement>(null);
+  const fountainInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const [pendingConform, setPendingConform] = useState<{ fileName: string, result: TimelineImportResult } | null>(null);
+  const [pendingFountain, setPendingFountain] = useState<{ fileName: string, result: FountainImport } | null>(null);
+  const [pendingSubtitles, setPendingSubtitles] = useState<{ fileName: string, cues: ImportedCue[] } | null>(null);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isVideoRenderOpen, setIsVideoRenderOpen] = useState(false);
+  const [isSubtitlesOpen, setIsSubtitlesOpen] = useState(false);
+  const [isReportsMenuOpen, setIsReportsMenuOpen] = useState(false);
   const [isDriveConnected, setIsDriveConnected] = useState(false); // Mock state
   const [isLoading, setIsLoading] = useState(true);
   const [hasKey, setHasKey] = useState(false);
@@ -57,6 +96,188 @@ const App: React.FC = () => {
       localStorage.setItem('valera_app_settings', JSON.stringify(settings));
   }, [settings]);
 
+  useEffect(() => { activeProjectIdRef.current = activeProjectId; }, [activeProjectId]);
+
+  // Every AI call lands in the usage log of the project it was started in (see UsageDashboard).
+  // Calls that finish after a project switch are written to their project in storage.
+  useEffect(() => onUsageRecorded((entry, projectId) => {
+      if (!projectId || projectId === activeProjectIdRef.current) {
+          setProjectData(p => ({ ...p, usageLog: [...(p.usageLog || []), entry] }));
+          return;
+      }
+      usageRouteRef.current = usageRouteRef.current.then(async () => {
+          const data = await loadProjectFromIDB(projectId);
+          if (!data) return; // Deleted meanwhile
+          await saveProjectToIDB({ ...data, usageLog: [...(data.usageLog || []), entry] }, projectId);
+      }).catch(e => console.warn(`Usage entry for project ${projectId} was not saved`, e));
+  }), []);
+
+  // --- PROJECT WORKSPACE ---
+  const refreshProjects = () => listProjects().then(setProjects);
+
+  const restoreGreeting = (data: ProjectData): ProjectData => {
+      // RESTORE GREETING FIX: 
+      const isDemoProject = data.timeline.length === 1 && data.timeline[0].title === "Demo Scene";
+      const hasEmptyHistory = !data.directorHistory || data.directorHistory.length === 0;
+
+      if (isDemoProject || hasEmptyHistory) {
+          return { ...data, directorHistory: INITIAL_VALERA_MESSAGES };
+      }
+      return data;
+  };
+
+  const activateProject = (id: string, data: ProjectData) => {
+      setActiveProjectId(id);
+      setActiveProjectIdState(id);
+      setProjectData(restoreGreeting(data));
+  };
+
+  /**
+   * Loads a project, reporting corrupted data instead of throwing.
+   */
+  const safeLoadProject = async (id: string): Promise<ProjectData | null> => {
+      try {
+          return await loadProjectFromIDB(id);
+      } catch (e: any) {
+          console.error(`Project ${id} could not be loaded`, e);
+          alert(e.message || "Project data is corrupted.");
+          return null;
+      }
+  };
+
+  /**
+   * Opens the last active project. Moves the legacy single-slot session into the
+   * workspace first, skips projects that fail to load, and creates a fresh project
+   * if nothing can be opened.
+   */
+  const openWorkspace = async () => {
+      await migrateLegacySession();
+      const activeId = getActiveProjectId();
+      const data = activeId ? await safeLoadProject(activeId) : null;
+      if (activeId && data) {
+          activateProject(activeId, data);
+      } else {
+          const existing = (await listProjects()).filter(p => p.id !== activeId);
+          let opened = false;
+          for (const summary of existing) {
+              const fallback = await safeLoadProject(summary.id);
+              if (fallback) {
+                  activateProject(summary.id, fallback);
+                  opened = true;
+                  break;
+              }
+          }
+          if (!opened) {
+              const created = await createProject(INITIAL_PROJECT_STATE.meta.appName, INITIAL_PROJECT_STATE);
+              activateProject(created.id, INITIAL_PROJECT_STATE);
+          }
+      }
+      await refreshProjects();
+  };
+
+  const handleOpenProject = async (id: string) => {
+      if (id === activeProjectId) {
+          setActiveTab('studio');
+          return;
+      }
+      if (activeProjectId) await saveProjectToIDB(projectData, activeProjectId);
+      const data = await safeLoadProject(id);
+      if (!data) {
+          showNotify("Project could not be loaded", "info");
+          return;
+      }
+      activateProject(id, data);
+      setActiveTab('studio');
+      showNotify(`Opened ${data.meta?.appName || 'project'}`, "success");
+  };
+
+  const handleCreateProject = async (name: string) => {
+      if (activeProjectId) await saveProjectToIDB(projectData, activeProjectId);
+      const fresh: ProjectData = { ...INITIAL_PROJECT_STATE, meta: { ...INITIAL_PROJECT_STATE.meta, appName: name } };
+      const created = await createProject(name, fresh);
+      activateProject(created.id, fresh);
+      await refreshProjects();
+      setActiveTab('studio');
+      showNotify(`Created ${name}`, "success");
+  };
+
+  const handleRenameProject = async (id: string, name: string) => {
+      if (id === activeProjectId) {
+          // Autosave picks up the new name from the live state
+          setProjectData(p => ({ ...p, meta: { ...p.meta, appName: name } }));
+      } else {
+          await renameProject(id, name);
+          await refreshProjects();
+      }
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+      if (id === activeProjectId) await saveProjectToIDB(projectData, id);
+      const copy = await duplicateProject(id);
+      await refreshProjects();
+      showNotify(`Duplicated as ${copy.name}`, "success");
+  };
+
+  const handleDeleteProject = async (id: string) => {
+      // The open project's unsaved images stay, unless it is the one being deleted
+      await deleteProject(id, id === activeProjectId ? [] : collectImageRefs(projectData));
+      if (id === activeProjectId) {
+          setActiveProjectIdState(null);
+          await openWorkspace();
+      } else {
+          await refreshProjects();
+      }
+      showNotify("Project deleted", "success");
+  };
+
+  // --- SNAPSHOTS ---
+  const refreshSnapshots = (projectId: string | null = activeProjectId) => {
+      if (!projectId) return Promise.resolve();
+      return listSnapshots(projectId).then(setSnapshots);
+  };
+
+  /**
+   * Stores the current state of the active project. Auto snapshots are taken before destructive actions.
+   */
+  const takeSnapshot = async (name: string, kind: ProjectSnapshot['kind'] = 'manual') => {
+      if (!activeProjectId) return;
+      // Nothing to lose in an empty project
+      if (kind === 'auto' && projectData.timeline.length === 0 && projectData.references.length === 0) return;
+      try {
+          await createSnapshot(activeProjectId, projectData, name, kind);
+          await refreshSnapshots();
+          if (kind === 'manual') showNotify("Snapshot saved", "success");
+      } catch (e) {
+          console.error("Snapshot failed", e);
+          if (kind === 'manual') showNotify("Snapshot failed", "info");
+      }
+  };
+
+  const handleOpenSnapshots = () => {
+      refreshSnapshots();
+      setIsSnapshotsOpen(true);
+  };
+
+  const handleRestoreSnapshot = async (snapshot: ProjectSnapshot) => {
+      let data: ProjectData;
+      try {
+          data = getSnapshotData(snapshot);
+      } catch (e: any) {
+          alert(e.message || "Snapshot data is corrupted.");
+          return;
+      }
+      await takeSnapshot(`Before restoring "${snapshot.name}"`, 'auto');
+      setProjectData(restoreGreeting(data));
+      setIsSnapshotsOpen(false);
+      showNotify(`Restored ${snapshot.name}`, "success");
+  };
+
+  const handleDeleteSnapshot = async (snapshotId: string) => {
+      await deleteSnapshot(snapshotId);
+      await refreshSnapshots();
+      pruneOrphanImages(collectImageRefs(projectData));
+  };
+
   // Init Logic
   useEffect(() => {
     telegramService.init();
@@ -71,32 +292,37 @@ const App: React.FC = () => {
     setHasKey(true);
 
     // 2. Load Data if Key Exists
-    loadProjectFromIDB().then(data => {
-      if (data) {
-          // RESTORE GREETING FIX: 
-          const isDemoProject = data.timeline.length === 1 && data.timeline[0].title === "Demo Scene";
-          const hasEmptyHistory = !data.directorHistory || data.directorHistory.length === 0;
-
-          if (isDemoProject || hasEmptyHistory) {
-              data.directorHistory = INITIAL_VALERA_MESSAGES;
-          }
-          setProjectData(data);
-      } else {
-          setProjectData(INITIAL_PROJECT_STATE);
-      }
-      
+    if (!workspaceInitRef.current) workspaceInitRef.current = openWorkspace();
+    workspaceInitRef.current.then(() => {
       setTimeout(() => {
           setIsLoading(false);
       }, 2000);
     });
   }, []);
 
-  // Autosave
+  // Move freshly generated / uploaded base64 images into the blob store.
+  // The state keeps only references; anything added while ingesting is picked up on the next pass.
   useEffect(() => {
-    if (!isLoading && (hasKey || isSkipped)) {
-      saveProjectToIDB(projectData);
+    if (isIngestingRef.current || !hasInlineImages(projectData)) return;
+    isIngestingRef.current = true;
+    ingestInlineImages(projectData)
+      .then(refs => setProjectData(prev => applyImageRefs(prev, refs)))
+      .finally(() => { isIngestingRef.current = false; });
+  }, [projectData]);
+
+  // Autosave (debounced and written in order, see storageService)
+  useEffect(() => {
+    if (!isLoading && (hasKey || isSkipped) && activeProjectId) {
+      scheduleProjectSave(projectData, activeProjectId);
     }
-  }, [projectData, isLoading, hasKey, isSkipped]);
+  }, [projectData, isLoading, hasKey, isSkipped, activeProjectId]);
+
+  // Start the pending autosave when the tab closes instead of dropping it
+  useEffect(() => {
+    const flush = () => { flushProjectSaves(); };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
 
   // Apply Theme
   useEffect(() => {
@@ -136,10 +362,7 @@ const App: React.FC = () => {
       // Still set the model in settings if they chose one, even if they skip key
       setSettings(prev => ({ ...prev, imageModel: authModel, apiProvider: authProvider }));
       // Load project data manually since we skipped the key check effect
-      loadProjectFromIDB().then(data => {
-          if (data) setProjectData(data);
-          else setProjectData(INITIAL_PROJECT_STATE);
-      });
+      openWorkspace();
   };
 
   const downloadBlob = (blob: Blob, fileName: string) => {
@@ -174,36 +397,77 @@ const App: React.FC = () => {
     try {
         const zip = new JSZip();
         
+        // Source (image reference / URL) -> path inside the ZIP, read back by "Open Package"
+        const manifest: PackageManifest = {};
+
         // 1. ACTIVE ASSETS (Current Project)
         const imgFolder = zip.folder("images");
-        projectData.references.forEach(char => {
-            if (char.image) {
-                const safeName = (char.name || "Asset").replace(/[^a-z0-9]/gi, '_');
-                imgFolder?.file(`${safeName}.png`, char.image.split(',')[1], {base64: true});
+        for (const [idx, char] of projectData.references.entries()) {
+            const blob = await resolveImageBlob(char.image);
+            if (blob && char.image) {
+                const fileName = assetFileName(char, idx);
+                imgFolder?.file(fileName, blob);
+                manifest[char.image] = manifest[char.image] || `images/${fileName}`;
+            }
+        }
+        for (const [idx, frame] of projectData.timeline.entries()) {
+            const blob = await resolveImageBlob(frame.image);
+            if (blob && frame.image) {
+                const fileName = sceneFileName(frame, idx);
+                imgFolder?.file(fileName, blob);
+                manifest[frame.image] = manifest[frame.image] || `images/${fileName}`;
+            }
+        }
+
+        // 1b. AUDIO (Voice-over per scene, music beds), named as the timelines reference them
+        const audioFolder = zip.folder(PACKAGE_AUDIO_FOLDER);
+        for (const [idx, frame] of projectData.timeline.entries()) {
+            const blob = frame.voiceOver && await resolveImageBlob(frame.voiceOver.src);
+            if (blob && frame.voiceOver) {
+                const fileName = voiceOverFileName(frame, idx);
+                audioFolder?.file(fileName, blob);
+                manifest[frame.voiceOver.src] = manifest[frame.voiceOver.src] || `${PACKAGE_AUDIO_FOLDER}/${fileName}`;
             }
-        });
-        projectData.timeline.forEach((frame, idx) => {
-            if (frame.image) {
-                const safeTitle = (frame.title || `Scene_${idx+1}`).replace(/[^a-z0-9]/gi, '_');
-                imgFolder?.file(`Scene_${idx+1}_${safeTitle}.png`, frame.image.split(',')[1], {base64: true});
+        }
+        for (const [idx, bed] of (projectData.musicBeds || []).entries()) {
+            const blob = await resolveImageBlob(bed.src);
+            if (blob) {
+                const fileName = musicBedFileName(bed, idx);
+                audioFolder?.file(fileName, blob);
+                manifest[bed.src] = manifest[bed.src] || `${PACKAGE_AUDIO_FOLDER}/${fileName}`;
             }
-        });
+        }
 
         // 2. HISTORY ASSETS (All generations)
         if (projectData.generationLog && projectData.generationLog.length > 0) {
             const histFolder = zip.folder("history_generations");
-            projectData.generationLog.forEach((log, i) => {
-                if (log.imageData) {
+            for (const [i, log] of projectData.generationLog.entries()) {
+                const blob = await resolveImageBlob(log.imageData);
+                if (blob) {
                     const dateStr = new Date(log.timestamp).toISOString().replace(/[:.]/g, '-');
-                    const safeSrc = (log.sourceName || "gen").replace(/[^a-z0-9]/gi, '_');
+                    const safeSrc = safeFileName(log.sourceName, "gen");
                     // Ensure unique filenames
-                    histFolder?.file(`${dateStr}_${i}_${safeSrc}.png`, log.imageData.split(',')[1], {base64: true});
+                    const fileName = `${dateStr}_${i}_${safeSrc}.png`;
+                    histFolder?.file(fileName, blob);
+                    manifest[log.imageData] = manifest[log.imageData] || `history_generations/${fileName}`;
                 }
-            });
+            }
         }
+
+        // 2b. Remaining versions & references (history variants not in the generation log)
+        for (const ref of collectImageRefs(projectData)) {
+            if (manifest[ref]) continue;
+            const blob = await resolveImageBlob(ref);
+            if (blob) {
+                const path = mediaFileName(ref, blob.type);
+                zip.file(path, blob);
+                manifest[ref] = path;
+            }
+        }
+        zip.file(PACKAGE_MANIFEST_FILE, JSON.stringify(manifest, null, 2));
         
         // 3. Project Data (JSON)
-        zip.file("project_data.json", JSON.stringify(projectData, null, 2));
+        zip.file(PACKAGE_PROJECT_FILE, JSON.stringify(projectData, null, 2));
 
         // 4. Director Chat Log
         if (projectData.directorHistory && projectData.directorHistory.length > 0) {
@@ -224,13 +488,30 @@ const App: React.FC = () => {
         const daVinciXML = generateDaVinciXML(projectData);
         zip.file("timeline.fcpxml", daVinciXML);
 
+        // 6b. Premiere Pro: FCP7 XML (XMEML)
+        zip.file("timeline_premiere.xml", generatePremiereXML(projectData));
+
         // 7. DaVinci: EDL (Fallback 2 - Universal)
         const edl = generateEDL(projectData);
         zip.file("timeline.edl", edl);
 
-        // 8. Subtitles (SRT)
+        // 7b. OpenTimelineIO (Resolve 18+, Premiere via plugin, Nuke Studio, ...)
+        zip.file("timeline.otio", generateOTIO(projectData));
+
+        // 8. Subtitles (SRT, WebVTT, ASS)
         const srtContent = generateSRT(projectData);
         zip.file("subtitles.srt", srtContent);
+        zip.file("subtitles.vtt", generateVTT(projectData));
+        zip.file("subtitles.ass", generateASS(projectData));
+
+        // 8a. Shot list & breakdown (CSV)
+        const [shotList, breakdown] = buildReports(projectData);
+        zip.file("shot_list.csv", tableToCSV(shotList));
+        zip.file("breakdown.csv", tableToCSV(breakdown));
+
+        // 8b. Screenplay (Fountain + Final Draft)
+        zip.file("screenplay.fountain", generateFountain(projectData));
+        zip.file("screenplay.fdx", generateFDX(projectData));
 
         // 9. Instructions
         const installText = `
@@ -241,12 +522,23 @@ This ZIP contains everything you need for editing in DaVinci Resolve, Premiere P
 
 [FOLDERS]
 /images              -> Clean assets used in the current timeline
+/audio               -> Voice-over (VO_*) and music beds (Music_*) placed on A1/A2
 /history_generations -> All AI generated variants and drafts (Backup)
+/media               -> Remaining image versions and references
 
 [FILES]
-project_data.json    -> Raw data backup
+project_data.json    -> Raw data backup (re-open with "Open Package" in Valera)
+media_manifest.json  -> Links the images above back to project_data.json
 director_chat.txt    -> Full correspondence with AI Director
 subtitles.srt        -> Dialogue subtitle file
+subtitles.vtt        -> WebVTT subtitles (web players, YouTube)
+subtitles.ass        -> Styled subtitles (Aegisub, VLC, mpv)
+shot_list.csv        -> Shot list with timecodes, cast, locations and props
+breakdown.csv        -> Scenes and screen time per asset
+screenplay.fountain  -> Script for Highland, Slugline, Fade In, WriterDuet (re-import with "Import Screenplay")
+screenplay.fdx       -> Final Draft script
+timeline_premiere.xml -> Premiere Pro sequence (FCP7 XML)
+timeline.otio        -> OpenTimelineIO timeline (edit it, then "Import Edit" in Valera to conform)
 
 ----------------------------------------------------------------
 OPTION 1: AUTOMATED IMPORT (DaVinci Resolve - FASTEST)
@@ -274,6 +566,25 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
 1. Import all images from the 'images' folder into your Media Pool manually.
 2. Go to File -> Import -> Timeline...
 3. Select 'timeline.edl'.
+4. After editing, export the cut as an EDL (CMX 3600) and load it with "Import Edit" in Valera.
+   Clips are matched by their file names, so keep the Scene_N_*.png names.
+
+----------------------------------------------------------------
+OPTION 4: PREMIERE PRO (FCP7 XML)
+----------------------------------------------------------------
+1. Extract the ZIP.
+2. In Premiere, go to File -> Import... and select 'timeline_premiere.xml'.
+3. Use "Link Media" and point to the 'images' folder if clips show as offline.
+   Dialogue is on the sequence markers; descriptions are in the clip Description/Comment columns.
+
+----------------------------------------------------------------
+OPTION 5: OPENTIMELINEIO (OTIO)
+----------------------------------------------------------------
+1. Extract the ZIP.
+2. In DaVinci (18+), go to File -> Import -> Timeline... and select 'timeline.otio'.
+   Other tools: use their OTIO importer or adapter.
+3. After editing, export the cut as OTIO and load it with "Import Edit" in Valera
+   to bring the new scene order and durations back into the storyboard.
 `;
         zip.file("README_IMPORT.txt", installText);
 
@@ -286,10 +597,118 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
     }
   };
 
+  // --- PACKAGE IMPORT ---
+  const handlePackageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      showNotify("Reading package...", "info");
+      try {
+          const result = await importProjectPackage(file);
+          setPendingImport({ fileName: file.name, result });
+      } catch (err: any) {
+          console.error(err);
+          alert(`Could not open package: ${err.message || err}`);
+      }
+  };
+
+  const handleImportAsNew = async () => {
+      if (!pendingImport) return;
+      const { project } = pendingImport.result;
+      if (activeProjectId) await saveProjectToIDB(projectData, activeProjectId);
+      const created = await createProject(project.meta?.appName || pendingImport.fileName.replace(/\.zip$/i, ''), project);
+      activateProject(created.id, { ...project, meta: { ...project.meta, appName: created.name } });
+      await refreshProjects();
+      setPendingImport(null);
+      setActiveTab('studio');
+      showNotify(`Opened ${created.name}`, "success");
+  };
+
+  const handleImportMerge = async () => {
+      if (!pendingImport) return;
+      const { project } = pendingImport.result;
+      await takeSnapshot(`Before merging ${pendingImport.fileName}`, 'auto');
+      setProjectData(prev => mergeProjectData(prev, project));
+      setPendingImport(null);
+      showNotify(`Merged ${project.timeline.length} scenes and ${project.references.length} assets`, "success");
+  };
+
+  // --- EDIT IMPORT (CONFORM) ---
+  const handleEditSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const text = await file.text();
+          const ext = file.name.split('.').pop()?.toLowerCase();
+          if (ext === 'edl') setPendingConform({ fileName: file.name, result: importEDL(text, projectData) });
+          else if (ext === 'otio' || ext === 'json') setPendingConform({ fileName: file.name, result: importOTIO(text, projectData) });
+          else throw new Error(`Unsupported file type .${ext}`);
+      } catch (err: any) {
+          console.error(err);
+          alert(`Could not import edit: ${err.message || err}`);
+      }
+  };
+
+  const handleApplyConform = async (keepRemoved: boolean) => {
+      if (!pendingConform) return;
+      const { fileName, result } = pendingConform;
+      await takeSnapshot(`Before importing ${fileName}`, 'auto');
+      setProjectData(prev => ({ ...prev, timeline: keepRemoved ? [...result.frames, ...result.removed] : result.frames }));
+      setPendingConform(null);
+      showNotify(`Timeline conformed to ${fileName}`, "success");
+  };
+
+  const handleFountainSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const script = parseFountain(await file.text());
+          if (script.scenes.length === 0) throw new Error('No scene headings or action found.');
+          setPendingFountain({ fileName: file.name, result: buildFountainImport(script, projectData.references, currentAspectRatio) });
+      } catch (err: any) {
+          console.error(err);
+          alert(`Could not import screenplay: ${err.message || err}`);
+      }
+  };
+
+  const handleApplyFountain = async (frames: TimelineFrame[], newAssets: Character[], replaceTimeline: boolean) => {
+      if (!pendingFountain) return;
+      await takeSnapshot(`Before importing ${pendingFountain.fileName}`, 'auto');
+      setProjectData(prev => ({
+          ...prev,
+          references: [...prev.references, ...newAssets],
+          timeline: replaceTimeline ? frames : [...prev.timeline, ...frames]
+      }));
+      setPendingFountain(null);
+      showNotify(`Imported ${frames.length} scenes and ${newAssets.length} new assets`, "success");
+  };
+
+  const handleSubtitlesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          setPendingSubtitles({ fileName: file.name, cues: parseSubtitleFile(await file.text()) });
+      } catch (err: any) {
+          console.error(err);
+          alert(`Could not import subtitles: ${err.message || err}`);
+      }
+  };
+
+  const handleApplySubtitles = async (timeline: TimelineFrame[], summary: string) => {
+      if (!pendingSubtitles) return;
+      await takeSnapshot(`Before importing ${pendingSubtitles.fileName}`, 'auto');
+      setProjectData(prev => ({ ...prev, timeline }));
+      setPendingSubtitles(null);
+      showNotify(summary, "success");
+  };
+
   const handleExportPDF = async () => {
       showNotify("Generating PDF Report...", "info");
       try {
-          const doc = await generateProjectPDF(projectData);
+          const doc = await generateProjectPDF(await hydrateProjectImages(projectData));
           doc.save('valera_report.pdf'); // jspdf handles download
           showNotify("PDF Exported", "success");
       } catch (e) {
@@ -298,10 +717,25 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
       }
   };
 
+  const handleExportReports = async (format: 'xlsx' | 'shots-csv' | 'breakdown-csv') => {
+      setIsReportsMenuOpen(false);
+      const [shotList, breakdown] = buildReports(projectData);
+      const date = new Date().toISOString().slice(0, 10);
+      try {
+          if (format === 'xlsx') downloadBlob(await tablesToXLSX([shotList, breakdown]), `Valera_Shot_List_${date}.xlsx`);
+          else if (format === 'shots-csv') downloadBlob(new Blob([tableToCSV(shotList)], { type: 'text/csv;charset=utf-8' }), `Valera_Shot_List_${date}.csv`);
+          else downloadBlob(new Blob([tableToCSV(breakdown)], { type: 'text/csv;charset=utf-8' }), `Valera_Breakdown_${date}.csv`);
+          showNotify("Report Exported", "success");
+      } catch (e) {
+          console.error(e);
+          showNotify("Report Export Failed", "info");
+      }
+  };
+
   const handleExportPPTX = async () => {
       showNotify("Generating Presentation...", "info");
       try {
-          await generateProjectPPTX(projectData);
+          await generateProjectPPTX(await hydrateProjectImages(projectData));
           showNotify("PPTX Exported", "success");
       } catch (e) {
           console.error(e);
@@ -521,6 +955,10 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
                     <button onClick={() => setActiveTab('settings')} className={`px-4 py-1.5 rounded-md text-[11px] font-bold uppercase transition-all flex items-center gap-1.5 ${activeTab === 'settings' ? 'bg-[var(--bg-card)] text-[var(--text-main)] shadow-sm border border-[var(--border-color)]' : 'text-[var(--text-muted)] hover:text-[var(--text-main)] hover:bg-[var(--bg-header)]'}`}>
                         <SettingsIcon size={14}/> Settings
                     </button>
+                    <div className="w-px bg-[var(--border-color)] my-1"></div>
+                    <button onClick={() => { refreshProjects(); setActiveTab('projects'); }} className={`px-4 py-1.5 rounded-md text-[11px] font-bold uppercase transition-all flex items-center gap-1.5 ${activeTab === 'projects' ? 'bg-[var(--bg-card)] text-[var(--text-main)] shadow-sm border border-[var(--border-color)]' : 'text-[var(--text-muted)] hover:text-[var(--text-main)] hover:bg-[var(--bg-header)]'}`}>
+                        <FolderOpen size={14}/> Projects
+                    </button>
                 </div>
 
                 {/* Right: Export & Tools */}
@@ -538,6 +976,29 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
                         <Package size={14} /> Export
                     </button>
 
+                    <button onClick={() => packageInputRef.current?.click()} className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all" title="Open Project Package">
+                        <PackageOpen size={16} />
+                    </button>
+                    <input type="file" ref={packageInputRef} className="hidden" accept=".zip,application/zip" onChange={handlePackageSelected} />
+                    <button onClick={() => editInputRef.current?.click()} className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all" title="Import Edit (OTIO/EDL)">
+                        <Scissors size={16} />
+                    </button>
+                    <input type="file" ref={editInputRef} className="hidden" accept=".otio,.json,.edl" onChange={handleEditSelected} />
+                    <button onClick={() => fountainInputRef.current?.click()} className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all" title="Import Screenplay (Fountain)">
+                        <ScrollText size={16} />
+                    </button>
+                    <input type="file" ref={fountainInputRef} className="hidden" accept=".fountain,.spmd,.txt" onChange={handleFountainSelected} />
+                    <button onClick={() => subtitleInputRef.current?.click()} className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all" title="Import Subtitles (SRT/VTT): new scenes or re-time to a recorded VO">
+                        <Subtitles size={16} />
+                    </button>
+                    <input type="file" ref={subtitleInputRef} className="hidden" accept=".srt,.vtt" onChange={handleSubtitlesSelected} />
+                    <button onClick={handleOpenSnapshots} className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all" title="Snapshots & Restore Points">
+                        <History size={16} />
+                    </button>
+                    <button onClick={() => setIsUsageOpen(true)} className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all" title="API Usage & Cost">
+                        <Coins size={16} />
+                    </button>
+
                     <div className="w-px h-5 bg-[var(--border-color)] mx-1"></div>
 
                     {/* Documentation Exports */}
@@ -547,6 +1008,26 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
                     <button onClick={handleExportPPTX} className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all" title="Export PPTX Deck">
                         <Presentation size={16} />
                     </button>
+                    <div className="relative">
+                        <button onClick={() => setIsReportsMenuOpen(o => !o)} className={`p-1.5 hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all ${isReportsMenuOpen ? 'text-[var(--accent)] bg-[var(--bg-input)]' : 'text-[var(--text-muted)]'}`} title="Shot List & Breakdown (XLSX/CSV)">
+                            <Sheet size={16} />
+                        </button>
+                        {isReportsMenuOpen && (
+                            <div className="absolute top-full right-0 mt-1 w-52 bg-[var(--bg-card)] border border-[var(--border-color)] rounded-md shadow-2xl z-50 py-1 animate-fade-in">
+                                {([['xlsx', 'Shot List + Breakdown (XLSX)'], ['shots-csv', 'Shot List (CSV)'], ['breakdown-csv', 'Breakdown (CSV)']] as const).map(([format, label]) => (
+                                    <button key={format} onClick={() => handleExportReports(format)} className="w-full text-left px-3 py-1.5 text-[11px] text-[var(--text-main)] hover:bg-[var(--bg-input)] hover:text-[var(--accent)]">
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <button onClick={() => setIsSubtitlesOpen(true)} className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all" title="Export Subtitles (SRT/VTT/ASS)">
+                        <Captions size={16} />
+                    </button>
+                    <button onClick={() => setIsVideoRenderOpen(true)} className="p-1.5 text-[var(--text-muted)] hover:text-[var(--accent)] hover:bg-[var(--bg-input)] rounded-md transition-all" title="Render Animatic Video (MP4/WebM)">
+                        <Video size={16} />
+                    </button>
                     
                     <div className="w-px h-5 bg-[var(--border-color)] mx-1"></div>
                     
@@ -567,12 +1048,16 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
         <div className="flex-1 overflow-hidden relative">
             {activeTab === 'studio' && (
                 <TimelineManager 
+                    projectId={activeProjectId}
                     frames={projectData.timeline}
                     characters={projectData.references}
                     settings={projectData.timelineSettings}
+                    subtitleSettings={projectData.subtitleSettings}
                     onUpdate={updateTimeline}
                     onUpdateSettings={(s) => setProjectData(p => ({...p, timelineSettings: s}))}
                     onUpdateAssets={updateCharacters}
+                    musicBeds={projectData.musicBeds || []}
+                    onUpdateMusicBeds={(beds) => setProjectData(p => ({ ...p, musicBeds: beds }))}
                     imageModel={settings.imageModel}
                     isDriveConnected={isDriveConnected}
                     onNotify={showNotify}
@@ -621,6 +1106,7 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
                     onHandleDirectorAction={(action) => {
                         console.log("Director Action", action);
                     }}
+                    onBeforeDestructiveAction={(label) => takeSnapshot(label, 'auto')}
                     chatFontSize={settings.chatFontSize}
                     onLogGeneration={(entry) => setProjectData(p => ({...p, generationLog: [entry, ...(p.generationLog || [])]}))}
                     generationLog={projectData.generationLog}
@@ -630,6 +1116,18 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
             )}
             
             {activeTab === 'hub' && <VideoAudioHub />}
+
+            {activeTab === 'projects' && (
+                <ProjectBrowser
+                    projects={projects}
+                    activeProjectId={activeProjectId}
+                    onOpen={handleOpenProject}
+                    onCreate={handleCreateProject}
+                    onRename={handleRenameProject}
+                    onDuplicate={handleDuplicateProject}
+                    onDelete={handleDeleteProject}
+                />
+            )}
             
             {activeTab === 'settings' && (
                 <SettingsPanel 
@@ -638,8 +1136,8 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
                     onExportZip={handleExportZip}
                     onExportPDF={handleExportPDF}
                     onExportPPTX={handleExportPPTX}
-                    onSaveDB={() => saveProjectToIDB(projectData).then(() => showNotify("Saved to DB", "success"))}
-                    onLoadDB={() => loadProjectFromIDB().then(d => { if(d) setProjectData(d); showNotify("Loaded from DB", "success"); })}
+                    onSaveDB={() => activeProjectId && saveProjectToIDB(projectData, activeProjectId).then(() => showNotify("Saved to DB", "success"))}
+                    onLoadDB={() => activeProjectId && safeLoadProject(activeProjectId).then(d => { if(d) { setProjectData(d); showNotify("Loaded from DB", "success"); } })}
                     isDriveConnected={isDriveConnected}
                     onConnectDrive={() => setIsDriveConnected(true)}
                 />
@@ -654,6 +1152,95 @@ OPTION 3: UNIVERSAL IMPORT (EDL)
             </div>
         )}
 
+        {/* Package Import */}
+        {pendingImport && (
+            <PackageImportModal
+                fileName={pendingImport.fileName}
+                result={pendingImport.result}
+                onOpenAsNew={handleImportAsNew}
+                onMerge={handleImportMerge}
+                onClose={() => setPendingImport(null)}
+            />
+        )}
+
+        {/* Edit Import */}
+        {pendingConform && (
+            <EditImportModal
+                fileName={pendingConform.fileName}
+                result={pendingConform.result}
+                onApply={handleApplyConform}
+                onClose={() => setPendingConform(null)}
+            />
+        )}
+
+        {pendingFountain && (
+            <FountainImportModal
+                fileName={pendingFountain.fileName}
+                result={pendingFountain.result}
+                library={projectData.references}
+                timelineLength={projectData.timeline.length}
+                onApply={handleApplyFountain}
+                onClose={() => setPendingFountain(null)}
+            />
+        )}
+
+        {pendingSubtitles && (
+            <SubtitleImportModal
+                fileName={pendingSubtitles.fileName}
+                cues={pendingSubtitles.cues}
+                timeline={projectData.timeline}
+                library={projectData.references}
+                fps={projectData.timelineSettings.fps || 24}
+                aspectRatio={currentAspectRatio}
+                onApply={handleApplySubtitles}
+                onClose={() => setPendingSubtitles(null)}
+            />
+        )}
+
+        {/* Snapshots */}
+        {isSnapshotsOpen && (
+            <SnapshotPanel
+                snapshots={snapshots}
+                current={projectData}
+                onCreate={(name) => takeSnapshot(name)}
+                onRestore={handleRestoreSnapshot}
+                onDelete={handleDeleteSnapshot}
+                onClose={() => setIsSnapshotsOpen(false)}
+            />
+        )}
+
+        {isUsageOpen && (
+            <UsageDashboard
+                project={projectData}
+                onClearLog={() => setProjectData(p => ({ ...p, usageLog: [] }))}
+                onClose={() => setIsUsageOpen(false)}
+            />
+        )}
+
+        {isVideoRenderOpen && (
+            <VideoRenderModal
+                project={projectData}
+                onRendered={(blob, fileName) => {
+                    downloadBlob(blob, fileName);
+                    setIsVideoRenderOpen(false);
+                    showNotify('Animatic rendered', 'success');
+                }}
+                onClose={() => setIsVideoRenderOpen(false)}
+            />
+        )}
+
+        {isSubtitlesOpen && (
+            <SubtitleExportModal
+                project={projectData}
+                onUpdateSettings={(subtitleSettings) => setProjectData(p => ({ ...p, subtitleSettings }))}
+                onExport={(blob, fileName) => {
+                    downloadBlob(blob, fileName);
+                    showNotify('Subtitles exported', 'success');
+                }}
+                onClose={() => setIsSubtitlesOpen(false)}
+            />
+        )}
+
         {/* Vel Assistant */}
         {settings.showAssistant && activeTab === 'studio' && !isDirectorFullScreen && (
             <PatrickAssistant 
@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { TimelineFrame, TimelineSettings, MusicBed, KenBurnsMotion, Character, SubtitleSettings } from '../types';
+import { buildShots, findShotIndex, kenBurnsTransform, formatPlayhead, KEN_BURNS_OPTIONS, PLAYBACK_SPEEDS } from '../services/animaticService';
+import { buildSubtitleCues, cueText, getSubtitleSettings } from '../services/srtService';
+import { layoutAudio } from '../services/audioService';
+import { resolveImageUrl } from '../services/imageStore';
+import { StoredImage } from './StoredImage';
+import { X, Play, Pause, SkipBack, SkipForward, Repeat, Volume2, VolumeX, Move, Captions, Clapperboard } from 'lucide-react';
+
+interface Props {
+  frames: TimelineFrame[];
+  musicBeds: MusicBed[];
+  settings?: TimelineSettings;
+  characters?: Character[]; // Speaker labels for subtitles
+  subtitleSettings?: SubtitleSettings;
+  startFrameId?: string | null;
+  onUpdateFrame: (id: string, updates: Partial<TimelineFrame>) => void;
+  onClose: () => void;
+}
+
+interface PlayerAudio {
+  key: string;
+  src: string;
+  start: number; // Seconds on the timeline
+  end: number;
+  sourceIn: number; // Seconds into the file
+  volume: number;
+}
+
+// Audio further off than this from the playhead is re-seeked
+const AUDIO_DRIFT = 0.2;
+
+/**
+ * Real-time playback of the storyboard: scene durations, Ken Burns moves,
+ * dialogue subtitles and attached audio, with scrubbing, loop and speed.
+ */
+export const AnimaticPlayer: React.FC<Props> = ({ frames, musicBeds, settings, characters = [], subtitleSettings, startFrameId, onUpdateFrame, onClose }) => {
+  const fps = settings?.fps || 24;
+  const width = settings?.width || 1920;
+  const height = settings?.height || 1080;
+
+  const shots = useMemo(() => buildShots(frames), [frames]);
+  const cues = useMemo(
+    () => buildSubtitleCues({ timeline: frames, references: characters, timelineSettings: settings, subtitleSettings }),
+    [frames, characters, settings, subtitleSettings]
+  );
+  const { speakerLabels } = getSubtitleSettings({ subtitleSettings });
+  const total = shots.length > 0 ? shots[shots.length - 1].end : 0;
+
+  const audioClips = useMemo<PlayerAudio[]>(() => {
+    const layout = layoutAudio({ timeline: frames, musicBeds }, fps);
+    return [...layout.voiceOver.map(c => ({ ...c, key: `vo_${c.id}` })), ...layout.music.map(c => ({ ...c, key: `mu_${c.id}` }))]
+      .map(c => ({
+        key: c.key,
+        src: c.clip.src,
+        start: c.startFrame / fps,
+        end: (c.startFrame + c.durationFrames) / fps,
+        sourceIn: c.sourceInFrames / fps,
+        volume: c.volume
+      }));
+  }, [frames, musicBeds, fps]);
+
+  const [time, setTime] = useState(() => shots.find(s => s.frame.id === startFrameId)?.start || 0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(false);
+  const [kenBurnsOn, setKenBurnsOn] = useState(true);
+  const [subtitlesOn, setSubtitlesOn] = useState(true);
+  const [muted, setMuted] = useState(false);
+
+  const timeRef = useRef(time);
+  const audioElsRef = useRef(new Map<string, HTMLAudioElement>());
+
+  const seek = (t: number) => {
+    const clamped = Math.min(Math.max(0, t), total);
+    timeRef.current = clamped;
+    setTime(clamped);
+  };
+
+  // Warm the image cache so shots don't flash empty on first play
+  useEffect(() => {
+    frames.forEach(f => { if (f.image) resolveImageUrl(f.image); });
+  }, [frames]);
+
+  // One <audio> per placed clip; rebuilt only when files change, not on retiming
+  const audioFiles = audioClips.map(c => `${c.key}=${c.src}`).join('|');
+  useEffect(() => {
+    let cancelled = false;
+    const els = audioElsRef.current;
+    audioClips.forEach(async clip => {
+      const url = await resolveImageUrl(clip.src);
+      if (cancelled || !url) return;
+      const el = new Audio(url);
+      el.preload = 'auto';
+      els.set(clip.key, el);
+    });
+    return () => {
+      cancelled = true;
+      els.forEach(el => { el.pause(); el.removeAttribute('src'); });
+      els.clear();
+    };
+  }, [audioFiles]);
+
+  // Playback clock
+  useEffect(() => {
+    if (!isPlaying || total <= 0) return;
+    let last = performance.now();
+    let raf = 0;
+    const tick = (now: number) => {
+      const dt = (now - last) / 1000;
+      last = now;
+      let t = timeRef.current + dt * speed;
+      if (t >= total) {
+        if (loop) {
+          t = t % total;
+        } else {
+          t = total;
+          setIsPlaying(false);
+        }
+      }
+      timeRef.current = t;
+      setTime(t);
+      if (t < total || loop) raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [isPlaying, speed, loop, total]);
+
+  // Keep every audio element on the playhead
+  useEffect(() => {
+    audioClips.forEach(clip => {
+      const el = audioElsRef.current.get(clip.key);
+      if (!el) return;
+      const inside = time >= clip.start && time < clip.end;
+      if (!isPlaying || !inside) {
+        if (!el.paused) el.pause();
+        return;
+      }
+      const expected = clip.sourceIn + (time - clip.start);
+      if (Math.abs(el.currentTime - expected) > AUDIO_DRIFT) el.currentTime = expected;
+      el.playbackRate = speed;
+      el.volume = Math.min(1, Math.max(0, clip.volume));
+      el.muted = muted;
+      if (el.paused) el.play().catch(() => {});
+    });
+  }, [time, isPlaying, speed, muted, audioClips]);
+
+  const togglePlay = () => {
+    if (!isPlaying && timeRef.current >= total) seek(0);
+    setIsPlaying(p => !p);
+  };
+
+  const shotIndex = findShotIndex(shots, time);
+  const shot = shotIndex >= 0 ? shots[shotIndex] : null;
+
+  const stepShot = (direction: -1 | 1) => {
+    if (!shot) return;
+    // "Back" restarts the current shot unless the playhead is already at its head
+    const target = direction === -1 && time - shot.start > 0.25 ? shotIndex : shotIndex + direction;
+    seek(shots[Math.min(Math.max(0, target), shots.length - 1)].start);
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement)?.tagName === 'SELECT') return;
+      if (e.code === 'Space') { e.preventDefault(); togglePlay(); }
+      else if (e.key === 'ArrowLeft') stepShot(-1);
+      else if (e.key === 'ArrowRight') stepShot(1);
+      else if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const motion = shot?.frame.kenBurns || 'none';
+  const progress = shot ? (time - shot.start) / Math.max(0.001, shot.end - shot.start) : 0;
+  const kb = kenBurnsTransform(kenBurnsOn ? motion : 'none', progress);
+  const cue = subtitlesOn ? cues.find(c => time >= c.start && time < c.end) : undefined;
+
+  const toggleClass = (on: boolean) => `p-1.5 rounded transition-colors ${on ? 'text-[var(--accent)] bg-[var(--accent)]/10' : 'text-gray-500 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/95 flex flex-col animate-fade-in">
+      <div className="px-4 py-2 flex items-center gap-2 border-b border-[#222]">
+        <Clapperboard size={16} className="text-[var(--accent)]"/>
+        <h3 className="text-xs font-bold text-gray-200 uppercase tracking-widest flex-1 truncate">
+          Animatic {shot && <span className="text-gray-500 normal-case tracking-normal ml-2">{shot.index + 1}. {shot.frame.title}</span>}
+        </h3>
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-white"><X size={18}/></button>
+      </div>
+
+      {/* Stage */}
+      <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+        <div className="relative overflow-hidden bg-[#111] shadow-2xl max-w-full max-h-full" style={{ aspectRatio: `${width} / ${height}`, height: '100%' }}>
+          {shot?.frame.image ? (
+            <StoredImage
+              src={shot.frame.image}
+              className="absolute inset-0 w-full h-full object-cover"
+              style={{ transform: `translate(${kb.x * 100}%, ${kb.y * 100}%) scale(${kb.scale})` }}
+              alt={shot.frame.title}
+            />
+          ) : shot && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center p-8 text-center gap-2">
+              <span className="text-sm font-bold text-gray-300">{shot.frame.title}</span>
+              <span className="text-xs text-gray-500 max-w-lg line-clamp-4">{shot.frame.description}</span>
+            </div>
+          )}
+          {cue && (
+            <div className="absolute left-0 right-0 bottom-[6%] flex justify-center px-[8%] pointer-events-none">
+              <span className="bg-black/70 text-white text-center font-semibold px-3 py-1 rounded whitespace-pre-line" style={{ fontSize: 'clamp(12px, 2.4vh, 28px)', textShadow: '0 1px 2px #000' }}>{cueText(cue, speakerLabels)}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Scrubber */}
+      <div className="px-4">
+        <div className="relative h-6 flex items-center">
+          <div className="absolute inset-x-0 h-1.5 top-1/2 -translate-y-1/2 flex rounded overflow-hidden pointer-events-none">
+            {shots.map(s => (
+              <div key={s.frame.id} className={`h-full border-r border-black ${s.index === shotIndex ? 'bg-[var(--accent)]/60' : 'bg-[#333]'}`} style={{ width: `${((s.end - s.start) / Math.max(total, 0.001)) * 100}%` }}></div>
+            ))}
+          </div>
+          <input
+            type="range" min={0} max={total} step={1 / fps}
+            value={time}
+            onChange={(e) => seek(parseFloat(e.target.value))}
+            className="relative w-full accent-[var(--accent)] bg-transparent cursor-pointer"
+          />
+        </div>
+      </div>
+
+      {/* Transport */}
+      <div className="px-4 py-3 flex items-center gap-3 border-t border-[#222]">
+        <button onClick={() => stepShot(-1)} className="p-1.5 text-gray-400 hover:text-white" title="Previous shot (←)"><SkipBack size={16}/></button>
+        <button onClick={togglePlay} disabled={total <= 0} className="p-2 rounded-full bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 disabled:opacity-40" title="Play / Pause (Space)">
+          {isPlaying ? <Pause size={16} fill="currentColor"/> : <Play size={16} fill="currentColor"/>}
+        </button>
+        <button onClick={() => stepShot(1)} className="p-1.5 text-gray-400 hover:text-white" title="Next shot (→)"><SkipForward size={16}/></button>
+        <span className="text-[11px] font-mono text-gray-300">{formatPlayhead(time, fps)} <span className="text-gray-600">/ {formatPlayhead(total, fps)}</span></span>
+
+        <div className="flex-1"></div>
+
+        {shot && (
+          <label className="flex items-center gap-1.5 text-[10px] text-gray-500 font-bold uppercase">
+            <Move size={12}/>
+            <select
+              value={motion}
+              onChange={(e) => onUpdateFrame(shot.frame.id, { kenBurns: e.target.value as KenBurnsMotion })}
+              className="bg-[#111] border border-[#333] rounded px-1.5 py-1 text-[10px] text-white outline-none focus:border-[var(--accent)]"
+              title="Camera move for this shot"
+            >
+              {KEN_BURNS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </label>
+        )}
+        <button onClick={() => setKenBurnsOn(v => !v)} className={toggleClass(kenBurnsOn)} title="Ken Burns moves"><Move size={14}/></button>
+        <button onClick={() => setSubtitlesOn(v => !v)} className={toggleClass(subtitlesOn)} title="Subtitles"><Captions size={14}/></button>
+        <button onClick={() => setLoop(v => !v)} className={toggleClass(loop)} title="Loop"><Repeat size={14}/></button>
+        <button onClick={() => setMuted(v => !v)} className={toggleClass(!muted)} title={audioClips.length > 0 ? 'Audio' : 'No audio attached'}>
+          {muted ? <VolumeX size={14}/> : <Volume2 size={14}/>}
+        </button>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(parseFloat(e.target.value))}
+          className="bg-[#111] border border-[#333] rounded px-1.5 py-1 text-[10px] text-white font-mono outline-none focus:border-[var(--accent)]"
+          title="Playback speed"
+        >
+          {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
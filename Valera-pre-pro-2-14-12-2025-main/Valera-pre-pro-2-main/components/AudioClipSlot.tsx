@@ -0,0 +1,79 @@
+import React, { useRef, useState } from 'react';
+import { AudioClip } from '../types';
+import { readAudioFile, volumeToDb } from '../services/audioService';
+import { useImageSrc } from './StoredImage';
+import { Upload, Trash2, Volume2, RefreshCw } from 'lucide-react';
+
+interface Props {
+  clip?: AudioClip;
+  emptyLabel: string;
+  onAttach: (clip: AudioClip) => void; // New file; callers keep their own fields (e.g. music bed span)
+  onVolumeChange: (volume: number) => void;
+  onRemove: () => void;
+}
+
+export const formatAudioDuration = (seconds: number) => {
+  const s = Math.max(0, Math.round(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+/**
+ * One attached sound file: upload/replace, preview player and volume.
+ */
+export const AudioClipSlot: React.FC<Props> = ({ clip, emptyLabel, onAttach, onVolumeChange, onRemove }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+  const url = useImageSrc(clip?.src);
+  const volume = clip?.volume ?? 1;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    try {
+      onAttach(await readAudioFile(file));
+    } catch (err: any) {
+      alert(`Could not attach audio: ${err.message || err}`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <input type="file" ref={inputRef} className="hidden" accept="audio/*" onChange={handleFile} />
+      {!clip ? (
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={isReading}
+          className="w-full py-2 rounded-md border border-dashed border-[var(--border-color)] text-[10px] font-bold uppercase text-[var(--text-muted)] hover:text-[var(--accent)] hover:border-[var(--accent)] flex items-center justify-center gap-1.5 disabled:opacity-50"
+        >
+          {isReading ? <RefreshCw size={11} className="animate-spin"/> : <Upload size={11}/>} {emptyLabel}
+        </button>
+      ) : (
+        <div className="p-2 bg-[var(--bg-input)] rounded-md border border-[var(--border-color)] space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="flex-1 text-[10px] text-[var(--text-main)] font-bold truncate" title={clip.name}>{clip.name}</span>
+            <span className="text-[9px] text-[var(--text-muted)] font-mono">{formatAudioDuration(clip.duration)}</span>
+            <button onClick={() => inputRef.current?.click()} disabled={isReading} className="p-1 text-[var(--text-muted)] hover:text-[var(--accent)]" title="Replace file">
+              {isReading ? <RefreshCw size={11} className="animate-spin"/> : <Upload size={11}/>}
+            </button>
+            <button onClick={onRemove} className="p-1 text-[var(--text-muted)] hover:text-red-400" title="Remove"><Trash2 size={11}/></button>
+          </div>
+          {url && <audio src={url} controls className="w-full h-7" />}
+          <label className="flex items-center gap-2 text-[9px] text-[var(--text-muted)] font-bold uppercase">
+            <Volume2 size={10}/>
+            <input
+              type="range" min={0} max={1} step={0.05}
+              value={volume}
+              onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
+              className="flex-1 accent-[var(--accent)]"
+            />
+            <span className="font-mono w-12 text-right">{volume > 0 ? `${volumeToDb(volume).toFixed(1)}dB` : 'mute'}</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
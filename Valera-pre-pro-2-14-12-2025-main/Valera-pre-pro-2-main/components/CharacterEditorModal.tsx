@@ -1,9 +1,11 @@
 
 import React, { useRef, useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { Character } from '../types';
+import { Character, UsageSource, LayerObject } from '../types';
 import { generateImage, enhancePrompt } from '../services/geminiService';
+import { importLayeredPsd } from '../services/psdService';
 import { driveService } from '../services/driveService';
+import { resolveImageUrl, storeLayerImages, layerDocumentFor } from '../services/imageStore';
 import { X, Save, RefreshCw, Wand2, PenTool, Type, Undo, Image as ImageIcon, Sparkles, Download, Eraser, MousePointer, Square, Circle, Paperclip, ArrowRight, ZoomIn, ZoomOut, Move, Trash, Shapes, Plus, PanelLeftClose, PanelLeftOpen, Brush, Crop, Maximize, Scaling, Percent, LayoutTemplate, Monitor, Smartphone, Grid, Layers, Eye, EyeOff, Lock, Unlock, ArrowUp, ArrowDown, ChevronDown, ChevronUp } from 'lucide-react';
 import { EDITOR_FONTS } from '../constants';
 
@@ -37,11 +39,18 @@ interface ImageObj extends BaseObject {
     type: 'image'; 
     x: number; y: number; w: number; h: number; 
     src: string; 
+    opacity?: number;
     // Removed internal crop to prevent distortion. We use the DocSize as the crop frame.
 }
 interface TextObject extends BaseObject { type: 'text'; x: number; y: number; text: string; fontFamily: string; fontSize: number; }
 type CanvasObject = PathObject | ShapeObject | TextObject | ArrowObject | ImageObj;
 
+// Layer documents store the editor objects field for field (see LayerDocument in types)
+const toLayerObject = (obj: CanvasObject): LayerObject => ({ ...obj });
+// Asset layers saved by the image editor may hold masks, which this editor does not draw
+const CANVAS_OBJECT_TYPES = ['path', 'rect', 'circle', 'arrow', 'image', 'text'];
+const isCanvasObject = (obj: LayerObject): obj is LayerObject & CanvasObject => CANVAS_OBJECT_TYPES.includes(obj.type);
+
 const hexToRgba = (hex: string, alpha: number) => {
     let c: any;
     if(/^#([A-Fa-f0-9]{3}){1,2}$/.test(hex)){
@@ -154,43 +163,58 @@ export const CharacterEditorModal: React.FC<Props> = ({ character, isOpen, onClo
 
   // Initialize
   useEffect(() => {
-    if (isOpen && character.image && objects.length === 0) {
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      img.src = character.image;
-      img.onload = () => {
-        if (!containerRef.current) return;
+    const saved = layerDocumentFor(character.image, character.layers);
+    if (isOpen && saved && objects.length === 0) {
+      // Reopen the saved layers; image layers are stored as references and drawn from displayable URLs
+      Promise.all(saved.objects.map(async o => o.src ? { ...o, src: await resolveImageUrl(o.src) } : o)).then(restored => {
+        setDocSize(saved.docSize);
+        if (containerRef.current) {
+          const { w, h } = saved.docSize;
+          const scale = Math.min((containerRef.current.clientWidth - 60) / w, (containerRef.current.clientHeight - 60) / h, 1);
+          setView({ scale, x: (containerRef.current.clientWidth - w * scale) / 2, y: (containerRef.current.clientHeight - h * scale) / 2 });
+        }
+        if (saved.filters) setCorrections(prev => ({ ...prev, ...saved.filters }));
+        setObjects(restored.filter(isCanvasObject));
+      });
+    } else if (isOpen && character.image && objects.length === 0) {
+      resolveImageUrl(character.image).then(src => {
+        const img = new Image();
+        img.crossOrigin = "anonymous";
+        img.src = src;
+        img.onload = () => {
+          if (!containerRef.current) return;
         
-        const initW = img.naturalWidth > 100 ? img.naturalWidth : 1920;
-        const initH = img.naturalHeight > 100 ? img.naturalHeight : 1080;
-        setDocSize({ w: initW, h: initH });
-
-        const cw = containerRef.current.clientWidth;
-        const ch = containerRef.current.clientHeight;
-        const padding = 60;
-        const scale = Math.min((cw - padding) / initW, (ch - padding) / initH, 1);
-        const centerX = (cw - initW * scale) / 2;
-        const centerY = (ch - initH * scale) / 2;
-        setView({ scale, x: centerX, y: centerY });
-
-        const newImgObj: ImageObj = {
-            id: 'main-image',
-            type: 'image',
-            name: 'Main Image',
-            color: '#fff',
-            lineWidth: 0,
-            visible: true,
-            locked: false,
-            src: character.image!,
-            x: 0, 
-            y: 0,
-            w: img.naturalWidth,
-            h: img.naturalHeight
-        };
+          const initW = img.naturalWidth > 100 ? img.naturalWidth : 1920;
+          const initH = img.naturalHeight > 100 ? img.naturalHeight : 1080;
+          setDocSize({ w: initW, h: initH });
+
+          const cw = containerRef.current.clientWidth;
+          const ch = containerRef.current.clientHeight;
+          const padding = 60;
+          const scale = Math.min((cw - padding) / initW, (ch - padding) / initH, 1);
+          const centerX = (cw - initW * scale) / 2;
+          const centerY = (ch - initH * scale) / 2;
+          setView({ scale, x: centerX, y: centerY });
+
+          const newImgObj: ImageObj = {
+              id: 'main-image',
+              type: 'image',
+              name: 'Main Image',
+              color: '#fff',
+              lineWidth: 0,
+              visible: true,
+              locked: false,
+              src: src,
+              x: 0, 
+              y: 0,
+              w: img.naturalWidth,
+              h: img.naturalHeight
+          };
         
-        setObjects([newImgObj]);
-        imageCache.set('main-image', img);
-      };
+          setObjects([newImgObj]);
+          imageCache.set('main-image', img);
+        };
+      });
     }
   }, [isOpen, character.image]);
 
@@ -323,6 +347,7 @@ export const CharacterEditorModal: React.FC<Props> = ({ character, isOpen, onClo
             if (img.complete) {
                 ctx.save();
                 applyFilter(ctx);
+                ctx.globalAlpha = imgObj.opacity ?? 1;
                 ctx.drawImage(img, imgObj.x, imgObj.y, imgObj.w, imgObj.h);
                 ctx.restore();
             }
@@ -751,9 +776,41 @@ export const CharacterEditorModal: React.FC<Props> = ({ character, isOpen, onClo
       setSelectedId(newText.id);
   };
 
+  // PSD layers go on top of the stack, centred on the document; group names are kept as prefixes
+  const handleImportPSD = async (file: File) => {
+      try {
+          const psd = importLayeredPsd(await file.arrayBuffer());
+          const dx = Math.round((docSize.w - psd.width) / 2);
+          const dy = Math.round((docSize.h - psd.height) / 2);
+          const stamp = Date.now();
+          const layers: CanvasObject[] = psd.layers.map((layer, i): CanvasObject => {
+              const base = { id: `${stamp}-${i}`, name: layer.name, lineWidth: 0, visible: !layer.hidden, locked: false };
+              if (layer.text) {
+                  const { text, x, y, fontFamily, fontSize, color } = layer.text;
+                  return { ...base, type: 'text', color, text, fontFamily, fontSize, x: x + dx, y: y + dy };
+              }
+              return { ...base, type: 'image', color: '#fff', src: layer.src, x: layer.x + dx, y: layer.y + dy, w: layer.w, h: layer.h, opacity: layer.opacity };
+          });
+          if (layers.length === 0) { onNotify?.("The PSD has no layers with pixels", "info"); return; }
+
+          setObjects(prev => [...prev, ...layers]);
+          setTool('select');
+          setSelectedId(null);
+          onNotify?.(`Imported ${layers.length} layers from ${file.name}${psd.skipped.length ? ` (${psd.skipped.length} adjustment or empty layers skipped)` : ''}`, "success");
+      } catch (e: any) {
+          console.error(e);
+          onNotify?.(e?.message ? `PSD import failed: ${e.message}` : "PSD import failed", "info");
+      }
+  };
+
   const handleAddImage = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
+      if (/\.psd$/i.test(file.name)) {
+          handleImportPSD(file);
+          e.target.value = '';
+          return;
+      }
       const reader = new FileReader();
       reader.onload = (ev) => {
           const src = ev.target?.result as string;
@@ -848,7 +905,9 @@ export const CharacterEditorModal: React.FC<Props> = ({ character, isOpen, onClo
              const img = imageCache.get(i.id) || new Image();
              if(!img.src) img.src = i.src;
              // Draw exact size, clipping happens by canvas boundary naturally
+             tCtx.globalAlpha = i.opacity ?? 1;
              tCtx.drawImage(img, i.x, i.y, i.w, i.h);
+             tCtx.globalAlpha = 1;
          } else if (obj.type === 'rect') {
              const s = obj as ShapeObject; tCtx.strokeStyle = s.color; tCtx.lineWidth = s.lineWidth;
              tCtx.strokeRect(s.x, s.y, s.w, s.h);
@@ -872,7 +931,9 @@ export const CharacterEditorModal: React.FC<Props> = ({ character, isOpen, onClo
       });
 
       const finalImage = tempCanvas.toDataURL('image/png');
-      onUpdate({ ...character, image: finalImage, description: prompt, additionalReferences: references });
+      // The layer stack goes along with the flat image, so reopening it keeps everything editable
+      const layers = await storeLayerImages({ image: finalImage, docSize, objects: objects.map(toLayerObject), filters: corrections }, id => imageCache.get(id));
+      onUpdate({ ...character, image: finalImage, description: prompt, additionalReferences: references, layers });
       if (isDriveConnected) {
           onNotify?.("Uploading Edit...", "info");
           const filename = `Edit_${character.name}_${Date.now()}.png`;
@@ -882,7 +943,9 @@ export const CharacterEditorModal: React.FC<Props> = ({ character, isOpen, onClo
       onClose();
   };
   
-  const handleEnhancePrompt = async () => { setIsEnhancing(true); try { setPrompt(await enhancePrompt(prompt)); } catch (e) { console.error(e); } finally { setIsEnhancing(false); } };
+  const usageSource: UsageSource = { type: 'asset', id: character.id, name: character.name };
+
+  const handleEnhancePrompt = async () => { setIsEnhancing(true); try { setPrompt(await enhancePrompt(prompt, undefined, usageSource)); } catch (e) { console.error(e); } finally { setIsEnhancing(false); } };
   
   const handleGenerateNew = async () => {
     if (!prompt) return;
@@ -895,7 +958,7 @@ export const CharacterEditorModal: React.FC<Props> = ({ character, isOpen, onClo
             finalPrompt += " (IMPORTANT: Modify ONLY the area highlighted in translucent strokes/mask. Keep the rest of the image exactly as is.)";
         }
         
-        const newImageUrl = await generateImage(finalPrompt, refs, character.aspectRatio || "16:9", imageModel);
+        const newImageUrl = await generateImage(finalPrompt, refs, character.aspectRatio || "16:9", imageModel, undefined, usageSource);
         
         const img = new Image();
         img.crossOrigin = "anonymous";
@@ -929,7 +992,7 @@ export const CharacterEditorModal: React.FC<Props> = ({ character, isOpen, onClo
     try {
         const expandPrompt = "Expand the provided image outward on all sides by approximately 40% of the original width and height. Preserve the original content exactly as-is, without any modifications, alterations, or distortions. Seamlessly continue the scene, style, lighting, perspective, and composition into the newly added areas so that the final result appears as a natural, coherent extension of the original. Do not crop, reframe, or reinterpret the input—only add new content around it";
         
-        const newImageUrl = await generateImage(expandPrompt, [selectedObj.src], character.aspectRatio || "16:9", imageModel);
+        const newImageUrl = await generateImage(expandPrompt, [selectedObj.src], character.aspectRatio || "16:9", imageModel, undefined, usageSource);
 
         const img = new Image();
         img.crossOrigin = "anonymous";
@@ -987,10 +1050,10 @@ export const CharacterEditorModal: React.FC<Props> = ({ character, isOpen, onClo
                     <button 
                          onClick={() => fileInputRef.current?.click()}
                          className="p-3 rounded-xl transition-all w-12 h-12 flex items-center justify-center shrink-0 text-gray-400 hover:text-white hover:bg-[#333]"
-                         title="Add Image to Canvas"
+                         title="Add Image or PSD to Canvas"
                     >
                         <ImageIcon size={20} />
-                        <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleAddImage} />
+                        <input type="file" ref={fileInputRef} className="hidden" accept="image/*,.psd" onChange={handleAddImage} />
                     </button>
 
                     {/* Shapes Group */}
@@ -3,8 +3,10 @@ import React, { useState, useCallback, memo } from 'react';
 import { Character } from '../types';
 import { generateImage, enhancePrompt } from '../services/geminiService';
 import { driveService } from '../services/driveService';
+import { resolveImageUrl, layerDocumentFor } from '../services/imageStore';
 import { Trash2, Plus, User, Sparkles, Upload, Box, MapPin, Image as ImageIcon, Download, Wand2, RefreshCw, Paperclip, X, Pencil, Maximize2, Minimize2, Expand, Info, Tag, Monitor, Star, LayoutGrid, Backpack, MoreHorizontal, Settings2, Eraser, Search, Filter, ChevronLeft, ChevronRight } from 'lucide-react';
 import { ImageEditorModal } from './ImageEditorModal';
+import { StoredImage } from './StoredImage';
 import { ASPECT_RATIOS, MODEL_IMAGE_PRO, IMAGE_SIZES } from '../constants';
 
 interface Props {
@@ -160,7 +162,7 @@ const AssetCard = memo(({
                     
                     {char.image ? (
                         <>
-                            <img src={char.image} alt={char.name} className="w-full h-full object-contain" />
+                            <StoredImage src={char.image} alt={char.name} className="w-full h-full object-contain" />
                             {/* Overlay Controls */}
                             <div className="absolute top-2 right-2 flex flex-col gap-1 opacity-0 group-hover/image:opacity-100 transition-all translate-x-2 group-hover/image:translate-x-0 z-20">
                                 <button onClick={() => onEditImage(char)} className="p-2 bg-black/70 text-white rounded-md hover:bg-[var(--accent)] backdrop-blur-md shadow-lg" title="Edit in Canvas"><Pencil size={14}/></button>
@@ -304,7 +306,7 @@ const AssetCard = memo(({
                         <div className="flex gap-1.5 overflow-x-auto pb-1 custom-scrollbar border-t border-[#333] pt-2">
                             {char.additionalReferences.map((ref, idx) => (
                                 <div key={idx} className="relative group flex-shrink-0 w-8 h-8 rounded border border-[#333] overflow-hidden">
-                                    <img src={ref} className="w-full h-full object-cover" alt="ref" />
+                                    <StoredImage src={ref} className="w-full h-full object-cover" alt="ref" />
                                     <button onClick={() => onRemoveRef(char.id, idx)} className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 flex items-center justify-center text-white transition-opacity">
                                         <X size={10} />
                                     </button>
@@ -372,7 +374,7 @@ export const CharacterManager: React.FC<Props> = ({ characters, onUpdate, imageM
       }
 
       const refs = [char.image, ...(char.additionalReferences || [])].filter(Boolean) as string[];
-      const imageUrl = await generateImage(promptToUse, refs.length ? refs : undefined, char.aspectRatio || "16:9", imageModel, char.imageSize);
+      const imageUrl = await generateImage(promptToUse, refs.length ? refs : undefined, char.aspectRatio || "16:9", imageModel, char.imageSize, { type: 'asset', id: char.id, name: char.name });
       
       onUpdate(current => current.map(c => {
           if (c.id === char.id) {
@@ -478,8 +480,8 @@ export const CharacterManager: React.FC<Props> = ({ characters, onUpdate, imageM
                 onDelete={deleteChar}
                 onGenerate={handleGenerate}
                 onEditImage={setEditingChar}
-                onDownload={(c) => { 
-                    const a = document.createElement('a'); a.href = c.image!; a.download = 'asset.png'; a.click(); 
+                onDownload={async (c) => { 
+                    const a = document.createElement('a'); a.href = await resolveImageUrl(c.image!); a.download = 'asset.png'; a.click(); 
                 }}
                 onFillFrame={(c) => {
                     const desc = c.description + ", full frame zoom out";
@@ -488,7 +490,7 @@ export const CharacterManager: React.FC<Props> = ({ characters, onUpdate, imageM
                 }}
                 onEnhance={async (c) => {
                     setIsEnhancing(c.id);
-                    try { const res = await enhancePrompt(c.description); updateChar(c.id, 'description', res); }
+                    try { const res = await enhancePrompt(c.description, undefined, { type: 'asset', id: c.id, name: c.name }); updateChar(c.id, 'description', res); }
                     catch(e) { console.error(e); } finally { setIsEnhancing(null); }
                 }}
                 onMainUpload={(id, e) => {
@@ -515,11 +517,12 @@ export const CharacterManager: React.FC<Props> = ({ characters, onUpdate, imageM
         <ImageEditorModal 
           imageUrl={editingChar.image}
           historyImages={editingChar.imageHistory || (editingChar.image ? [editingChar.image] : [])}
+          layers={layerDocumentFor(editingChar.image, editingChar.layers)}
           isOpen={!!editingChar}
           onClose={() => setEditingChar(null)}
-          onSave={(newImg) => {
+          onSave={(newImg, layers) => {
               onUpdate(prev => prev.map(c => {
-                  if (c.id === editingChar.id) return { ...c, image: newImg, imageHistory: [...(c.imageHistory||[]), newImg] };
+                  if (c.id === editingChar.id) return { ...c, image: newImg, imageHistory: [...(c.imageHistory||[]), newImg], layers };
                   return c;
               }));
           }}
@@ -529,6 +532,7 @@ export const CharacterManager: React.FC<Props> = ({ characters, onUpdate, imageM
           initialPrompt={editingChar.description}
           initialAspectRatio={editingChar.aspectRatio} 
           huggingFaceToken={huggingFaceToken}
+          usageSource={{ type: 'asset', id: editingChar.id, name: editingChar.name }}
         />
       )}
     </div>
@@ -1,9 +1,11 @@
 
 import React, { useState, useRef, useEffect, useMemo, memo } from 'react';
-import { Paperclip, X, Image as ImageIcon, FileText, Bot, User, Settings2, PlusCircle, Check, Film, ArrowRight, CornerDownLeft, ChevronUp, Maximize2, Minimize2, Eraser, Trash2, Copy, Mic, StopCircle, Download, FileAudio, AlertTriangle } from 'lucide-react';
+import { Paperclip, X, Image as ImageIcon, FileText, Bot, User, Settings2, PlusCircle, Check, Film, ArrowRight, CornerDownLeft, ChevronUp, Maximize2, Minimize2, Eraser, Trash2, Copy, Mic, StopCircle, Download, FileAudio, AlertTriangle, Loader2, Square, Wrench } from 'lucide-react';
 import { DIRECTOR_STYLES, INITIAL_VALERA_MESSAGES, CINEMATIC_EXPANSION_PROMPT, STORYBOARD_V3_META_PROMPT } from '../constants';
 import { ChatMessage, ChatAttachment, Character, LabAssetSuggestion, TimelineSuggestion, DirectorAction, TimelineFrame } from '../types';
-import { sendDirectorMessage } from '../services/geminiService';
+import { sendDirectorMessage, repairDirectorBlock } from '../services/geminiService';
+import { parseMessageContent, findBlockErrors, replaceBlock, BlockError } from '../services/directorSchema';
+import { resolveImageData } from '../services/imageStore';
 
 interface Props {
     messages: ChatMessage[];
@@ -35,64 +37,6 @@ interface Props {
 
 // --- HELPER FUNCTIONS ---
 
-const safeJsonParse = (str: string) => {
-    try {
-        return JSON.parse(str);
-    } catch (e) {
-        // Try a simple cleanup for common LLM JSON errors (trailing commas)
-        try {
-            const fixed = str.replace(/,\s*]/g, ']').replace(/,\s*}/g, '}');
-            return JSON.parse(fixed);
-        } catch (e2) {
-            throw e;
-        }
-    }
-};
-
-const parseMessageContent = (text: string, msgId: string) => {
-    const parts: { type: 'text' | 'assets' | 'timeline' | 'actions', content: any }[] = [];
-    let cursor = 0;
-    // Improved Regex to handle optional spaces: ``` json_assets
-    const combinedRegex = /```\s*(json_assets|json_timeline|json_actions)([\s\S]*?)```/g;
-    let match;
-
-    while ((match = combinedRegex.exec(text)) !== null) {
-        if (match.index > cursor) {
-            parts.push({ type: 'text', content: text.substring(cursor, match.index) });
-        }
-        
-        const blockType = match[1];
-        const jsonStr = match[2].trim(); 
-
-        try {
-            let data = safeJsonParse(jsonStr);
-            
-            // CRITICAL FIX: Ensure data is an array for these block types
-            if ((blockType === 'json_assets' || blockType === 'json_timeline' || blockType === 'json_actions') && !Array.isArray(data)) {
-                data = [data];
-            }
-
-            if (blockType === 'json_assets') {
-                parts.push({ type: 'assets', content: data });
-            } else if (blockType === 'json_timeline') {
-                parts.push({ type: 'timeline', content: data });
-            } else if (blockType === 'json_actions') {
-                parts.push({ type: 'actions', content: data });
-            }
-        } catch (e) {
-            console.warn(`Failed to parse ${blockType} block in message ${msgId}`, e);
-        }
-
-        cursor = match.index + match[0].length;
-    }
-
-    if (cursor < text.length) {
-        parts.push({ type: 'text', content: text.substring(cursor) });
-    }
-
-    return parts;
-};
-
 const renderTextWithLinks = (text: string) => {
   // Исправлен сплит для корректной работы с React ключами
   const parts = text.split(/(\[.*?\]\(.*?\))/g);
@@ -126,7 +70,10 @@ const MessageBubble = memo(({
     onAddTimeline,
     setAddedAssets,
     setAddedTimelines,
-    fontSize
+    fontSize,
+    isStreaming = false,
+    isRepairing = false,
+    onRepair
 }: {
     msg: ChatMessage;
     addedAssets: Record<string, boolean>;
@@ -137,9 +84,12 @@ const MessageBubble = memo(({
     setAddedAssets: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
     setAddedTimelines: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
     fontSize: number;
+    isStreaming?: boolean;
+    isRepairing?: boolean;
+    onRepair?: (msg: ChatMessage) => void;
 }) => {
     // Memoize parsed content to avoid regex heavy lifting on every parent render
-    const parsedContent = useMemo(() => parseMessageContent(msg.text, msg.id), [msg.text, msg.id]);
+    const parsedContent = useMemo(() => parseMessageContent(msg.text), [msg.text]);
 
     const handleAddAssetClick = (asset: LabAssetSuggestion) => {
         onAddAsset(asset);
@@ -196,6 +146,38 @@ const MessageBubble = memo(({
                         const partKey = `part-${idx}`;
                         if (part.type === 'text') {
                             return <span key={partKey}>{renderTextWithLinks(part.content as string)}</span>;
+                        } else if (part.type === 'pending') {
+                            const blockLabel = part.content === 'json_timeline' ? 'Storyboard' : part.content === 'json_assets' ? 'Assets' : 'Actions';
+                            return (
+                                <div key={partKey} className="my-2 px-3 py-2 bg-[var(--bg-input)] border border-dashed border-[var(--border-color)] rounded-md flex items-center gap-2 text-[10px] font-bold uppercase text-[var(--text-muted)]">
+                                    {isStreaming
+                                        ? <><Loader2 size={12} className="animate-spin text-[var(--accent)]"/> Writing {blockLabel}...</>
+                                        : <><AlertTriangle size={12} className="text-yellow-500"/> {blockLabel} block incomplete (stopped)</>}
+                                </div>
+                            );
+                        } else if (part.type === 'error') {
+                            const blockError = part.content as BlockError;
+                            const blockLabel = blockError.blockType === 'json_timeline' ? 'Storyboard' : blockError.blockType === 'json_assets' ? 'Assets' : 'Actions';
+                            return (
+                                <div key={partKey} className="my-2 px-3 py-2 bg-red-500/5 border border-red-500/30 rounded-md flex items-start gap-2 text-[10px]">
+                                    <AlertTriangle size={12} className="text-red-400 mt-0.5 shrink-0"/>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-bold uppercase text-red-400">{blockLabel} block is malformed</div>
+                                        <div className="text-[var(--text-muted)] truncate" title={blockError.errors.join('\n')}>
+                                            {blockError.errors.slice(0, 2).join('; ')}{blockError.errors.length > 2 ? ` +${blockError.errors.length - 2}` : ''}
+                                        </div>
+                                    </div>
+                                    {!isStreaming && onRepair && (
+                                        <button
+                                            onClick={() => onRepair(msg)}
+                                            disabled={isRepairing}
+                                            className="shrink-0 px-2 py-1 rounded border border-[var(--border-color)] bg-[var(--bg-card)] text-[var(--text-main)] hover:border-[var(--accent)] hover:text-[var(--accent)] font-bold uppercase flex items-center gap-1 disabled:opacity-50"
+                                        >
+                                            {isRepairing ? <Loader2 size={10} className="animate-spin"/> : <Wrench size={10}/>} Repair
+                                        </button>
+                                    )}
+                                </div>
+                            );
                         } else if (part.type === 'actions') {
                             const actions = part.content as DirectorAction[];
                             return (
@@ -315,6 +297,9 @@ export const DirectingHub: React.FC<Props> = ({
   const [isInputExpanded, setIsInputExpanded] = useState(false); 
   const [isRecording, setIsRecording] = useState(false);
   const [isClearingHistory, setIsClearingHistory] = useState(false);
+  const [streamingMsg, setStreamingMsg] = useState<ChatMessage | null>(null); // Reply being streamed, not yet in history
+  const [repairingIds, setRepairingIds] = useState<Record<string, boolean>>({}); // Messages with a block repair in flight
+  const abortRef = useRef<AbortController | null>(null);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -326,10 +311,11 @@ export const DirectingHub: React.FC<Props> = ({
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingMsg?.text]);
 
   useEffect(() => {
       return () => {
+          abortRef.current?.abort();
           if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
               mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
               mediaRecorderRef.current.stop();
@@ -446,6 +432,10 @@ export const DirectingHub: React.FC<Props> = ({
       setAttachments([]);
       setIsTyping(true);
 
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const replyId = (Date.now() + 1).toString();
+
       try {
           const historyForApi = [...messages];
           if (hiddenPromptOverride) {
@@ -468,17 +458,22 @@ export const DirectingHub: React.FC<Props> = ({
               activeFrame, 
               timelineFrames || [], 
               currentRatio,
-              resolutionLabel
+              resolutionLabel,
+              {
+                  signal: controller.signal,
+                  onText: (text) => setStreamingMsg({ id: replyId, role: 'model', text, timestamp: Date.now() })
+              }
           );
 
           const modelMsg: ChatMessage = {
-              id: (Date.now() + 1).toString(),
+              id: replyId,
               role: 'model',
-              text: responseText,
+              text: controller.signal.aborted ? `${responseText}\n\n⏹ Stopped.`.trim() : responseText,
               timestamp: Date.now()
           };
 
           onUpdateMessages(prev => [...prev, modelMsg]);
+          if (!controller.signal.aborted) repairMessage(modelMsg);
       } catch (error) {
           console.error("Director Chat Error:", error);
           const errorMsg: ChatMessage = {
@@ -489,10 +484,44 @@ export const DirectingHub: React.FC<Props> = ({
           };
           onUpdateMessages(prev => [...prev, errorMsg]);
       } finally {
+          abortRef.current = null;
+          setStreamingMsg(null);
           setIsTyping(false);
       }
   };
 
+  /**
+   * Sends every block of the message that failed schema validation back to the model for repair
+   * and splices the fixed JSON into the message. Blocks that can't be repaired keep their error chip.
+   */
+  const repairMessage = async (msg: ChatMessage) => {
+      const blockErrors = findBlockErrors(msg.text);
+      if (blockErrors.length === 0) return;
+
+      setRepairingIds(prev => ({ ...prev, [msg.id]: true }));
+      let text = msg.text;
+      // Back to front so earlier offsets stay valid after each replacement
+      for (const blockError of [...blockErrors].reverse()) {
+          try {
+              const items = await repairDirectorBlock(blockError.blockType, blockError.raw, blockError.errors);
+              text = replaceBlock(text, blockError, items);
+          } catch (e) {
+              console.warn(`Repair of ${blockError.blockType} block failed`, e);
+          }
+      }
+      if (text !== msg.text) {
+          onUpdateMessages(prev => prev.map(m => m.id === msg.id ? { ...m, text } : m));
+      }
+      setRepairingIds(prev => {
+          const { [msg.id]: _, ...rest } = prev;
+          return rest;
+      });
+  };
+
+  const handleStop = () => {
+      abortRef.current?.abort();
+  };
+
   const handleClearHistory = () => {
       if (isClearingHistory) {
           const resetMessage: ChatMessage = {
@@ -665,7 +694,7 @@ export const DirectingHub: React.FC<Props> = ({
           if (activeFrame?.image) {
               variantAttachments.push({
                   type: 'image',
-                  data: activeFrame.image,
+                  data: await resolveImageData(activeFrame.image),
                   mimeType: 'image/png',
                   name: 'Reference Frame'
               });
@@ -693,7 +722,7 @@ export const DirectingHub: React.FC<Props> = ({
           if (activeFrame?.image) {
               variantAttachments.push({
                   type: 'image',
-                  data: activeFrame.image,
+                  data: await resolveImageData(activeFrame.image),
                   mimeType: 'image/png',
                   name: 'Reference Frame'
               });
@@ -803,10 +832,28 @@ export const DirectingHub: React.FC<Props> = ({
                         setAddedAssets={setAddedAssets}
                         setAddedTimelines={setAddedTimelines}
                         fontSize={chatFontSize}
+                        isRepairing={!!repairingIds[msg.id]}
+                        onRepair={repairMessage}
                     />
                 ))}
+
+                {streamingMsg && streamingMsg.text && (
+                    <MessageBubble 
+                        key={streamingMsg.id}
+                        msg={streamingMsg}
+                        addedAssets={addedAssets}
+                        addedTimelines={addedTimelines}
+                        onActionClick={handleActionClick}
+                        onAddAsset={onAddAsset}
+                        onAddTimeline={onAddTimeline}
+                        setAddedAssets={setAddedAssets}
+                        setAddedTimelines={setAddedTimelines}
+                        fontSize={chatFontSize}
+                        isStreaming
+                    />
+                )}
                 
-                {isTyping && (
+                {isTyping && !streamingMsg?.text && (
                      <div className="flex gap-4">
                         <div className="w-8 h-8 rounded-full bg-[var(--bg-header)] border border-[var(--border-color)] text-[var(--accent)] flex items-center justify-center flex-shrink-0 shadow-sm">
                             <Bot size={14} />
@@ -929,6 +976,15 @@ export const DirectingHub: React.FC<Props> = ({
                         >
                             {isClearingHistory ? <AlertTriangle size={18}/> : <Trash2 size={18}/>}
                         </button>
+                        {isTyping ? (
+                        <button 
+                            onClick={handleStop} 
+                            className="p-2 rounded-md transition-all shadow-sm flex-shrink-0 bg-red-600 text-white hover:brightness-110"
+                            title="Stop (keeps the partial reply)"
+                        >
+                            <Square size={18} />
+                        </button>
+                        ) : (
                         <button 
                             onClick={() => handleSend()} 
                             disabled={!draftInput.trim() && attachments.length === 0} 
@@ -939,6 +995,7 @@ export const DirectingHub: React.FC<Props> = ({
                         >
                             <CornerDownLeft size={18} />
                         </button>
+                        )}
                      </div>
                 </div>
             </div>
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { TimelineImportResult } from '../services/conformService';
+import { X, Scissors, Check, Plus, Minus, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  fileName: string;
+  result: TimelineImportResult;
+  onApply: (keepRemoved: boolean) => void;
+  onClose: () => void;
+}
+
+/**
+ * Preview of an edit coming back from the NLE before it replaces the storyboard order and durations.
+ */
+export const EditImportModal: React.FC<Props> = ({ fileName, result, onApply, onClose }) => {
+  const [keepRemoved, setKeepRemoved] = useState(false);
+  const totalSeconds = result.frames.reduce((sum, f) => sum + (f.duration || 0), 0);
+
+  const stat = (value: number, label: string) => (
+    <div className="bg-[#111] rounded-lg border border-[#333] p-2">
+        <div className="text-lg font-bold text-white">{value}</div>
+        <div className="text-[9px] font-bold uppercase text-gray-500">{label}</div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-[#1e1e1e] border border-[#333] rounded-xl shadow-2xl flex flex-col max-h-[85vh]">
+          <div className="px-4 py-3 border-b border-[#333] flex items-center gap-2">
+              <Scissors size={16} className="text-[var(--accent)]"/>
+              <h3 className="text-xs font-bold text-gray-200 uppercase tracking-widest flex-1 truncate">Import Edit ({result.format}): {fileName}</h3>
+              <button onClick={onClose} className="p-1 text-gray-500 hover:text-white"><X size={16}/></button>
+          </div>
+
+          <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+              {/* Summary */}
+              <div className="grid grid-cols-4 gap-2 text-center">
+                  {stat(result.matched, 'Matched')}
+                  {stat(result.retimed, 'Re-timed')}
+                  {stat(result.added.length, 'New')}
+                  {stat(result.removed.length, 'Not in cut')}
+              </div>
+              <p className="text-[10px] text-gray-500">
+                  The cut has {result.frames.length} scenes, {totalSeconds.toFixed(1)}s at {result.fps} fps. Scene order and durations will follow it.
+              </p>
+
+              {result.added.length > 0 && (
+                  <div className="space-y-1">
+                      <div className="flex items-center gap-2 text-[11px] font-bold text-green-400"><Plus size={14}/> New scenes ({result.added.length})</div>
+                      <ul className="text-[10px] text-gray-400 pl-6 list-disc max-h-32 overflow-y-auto custom-scrollbar">
+                          {result.added.map((name, i) => <li key={i}>{name}</li>)}
+                      </ul>
+                  </div>
+              )}
+              {result.removed.length > 0 && (
+                  <div className="space-y-1">
+                      <div className="flex items-center gap-2 text-[11px] font-bold text-yellow-400"><Minus size={14}/> Not in the cut ({result.removed.length})</div>
+                      <ul className="text-[10px] text-gray-400 pl-6 list-disc max-h-32 overflow-y-auto custom-scrollbar">
+                          {result.removed.map(f => <li key={f.id}>{f.title}</li>)}
+                      </ul>
+                      <label className="flex items-center gap-2 text-[10px] text-gray-300 pt-1 cursor-pointer">
+                          <input type="checkbox" checked={keepRemoved} onChange={(e) => setKeepRemoved(e.target.checked)} className="accent-[var(--accent)]"/>
+                          Keep them (appended at the end)
+                      </label>
+                  </div>
+              )}
+              {result.warnings.map((w, i) => (
+                  <p key={i} className="text-[10px] text-gray-500 flex gap-1.5"><AlertTriangle size={11} className="shrink-0 mt-0.5"/> {w}</p>
+              ))}
+          </div>
+
+          {/* Actions */}
+          <div className="px-4 py-3 border-t border-[#333] grid grid-cols-2 gap-2">
+              <button onClick={() => onApply(keepRemoved)} className="py-2.5 bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2">
+                  <Check size={14}/> Apply to Timeline
+              </button>
+              <button onClick={onClose} className="py-2.5 bg-[#222] hover:bg-[#333] text-gray-300 hover:text-white border border-[#333] rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2">
+                  Cancel
+              </button>
+          </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { Character, TimelineFrame } from '../types';
+import { FountainImport } from '../services/fountainService';
+import { enhancePrompt } from '../services/geminiService';
+import { X, ScrollText, Check, Plus, Link2, Sparkles, Loader2, User, MapPin } from 'lucide-react';
+
+interface Props {
+  fileName: string;
+  result: FountainImport;
+  library: Character[];
+  timelineLength: number;
+  onApply: (frames: TimelineFrame[], newAssets: Character[], replaceTimeline: boolean) => void;
+  onClose: () => void;
+}
+
+/**
+ * Preview of a parsed screenplay before its scenes and assets go into the project.
+ * The AI polish is optional and runs here, one text call per scene, before anything is applied.
+ */
+export const FountainImportModal: React.FC<Props> = ({ fileName, result, library, timelineLength, onApply, onClose }) => {
+  const [replaceTimeline, setReplaceTimeline] = useState(false);
+  const [polish, setPolish] = useState(false);
+  const [polished, setPolished] = useState<number | null>(null);
+  const cancelRef = useRef(false);
+
+  const totalSeconds = result.frames.reduce((sum, f) => sum + (f.duration || 0), 0);
+  const isPolishing = polished !== null;
+
+  const handleApply = async () => {
+    if (!polish) {
+      onApply(result.frames, result.newAssets, replaceTimeline);
+      return;
+    }
+    cancelRef.current = false;
+    setPolished(0);
+    const assets = [...library, ...result.newAssets];
+    const frames: TimelineFrame[] = [];
+    for (const frame of result.frames) {
+      if (cancelRef.current) return;
+      const linked = assets.filter(c => frame.assignedAssetIds.includes(c.id));
+      const assetContext = linked.map(c => `${c.name} (${c.triggerWord || 'no trigger'})`).join(', ');
+      const description = frame.description
+        ? await enhancePrompt(frame.description, assetContext, { type: 'frame', id: frame.id, name: frame.title })
+        : frame.description;
+      frames.push({ ...frame, description });
+      setPolished(frames.length);
+    }
+    onApply(frames, result.newAssets, replaceTimeline);
+  };
+
+  const handleClose = () => {
+    cancelRef.current = true;
+    onClose();
+  };
+
+  const stat = (value: number, label: string) => (
+    <div className="bg-[#111] rounded-lg border border-[#333] p-2">
+        <div className="text-lg font-bold text-white">{value}</div>
+        <div className="text-[9px] font-bold uppercase text-gray-500">{label}</div>
+    </div>
+  );
+
+  const assetList = (assets: Character[], icon: React.ReactNode, title: string) => assets.length > 0 && (
+    <div className="space-y-1">
+        <div className="flex items-center gap-2 text-[11px] font-bold text-gray-300">{icon} {title} ({assets.length})</div>
+        <div className="flex flex-wrap gap-1 pl-6">
+            {assets.map(a => (
+                <span key={a.id} className="px-1.5 py-0.5 rounded bg-[#111] border border-[#333] text-[10px] text-gray-400 flex items-center gap-1">
+                    {a.type === 'location' ? <MapPin size={9}/> : <User size={9}/>} {a.name}
+                </span>
+            ))}
+        </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-[#1e1e1e] border border-[#333] rounded-xl shadow-2xl flex flex-col max-h-[85vh]">
+          <div className="px-4 py-3 border-b border-[#333] flex items-center gap-2">
+              <ScrollText size={16} className="text-[var(--accent)]"/>
+              <h3 className="text-xs font-bold text-gray-200 uppercase tracking-widest flex-1 truncate">Import Screenplay: {result.title || fileName}</h3>
+              <button onClick={handleClose} className="p-1 text-gray-500 hover:text-white"><X size={16}/></button>
+          </div>
+
+          <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+              {/* Summary */}
+              <div className="grid grid-cols-3 gap-2 text-center">
+                  {stat(result.frames.length, 'Scenes')}
+                  {stat(result.newAssets.length, 'New assets')}
+                  {stat(result.matchedAssets.length, 'From library')}
+              </div>
+              <p className="text-[10px] text-gray-500">
+                  {totalSeconds.toFixed(1)}s estimated from dialogue length (at least 4s per scene). Headings become scene titles, action the description, dialogue goes to each scene's script.
+              </p>
+
+              {result.frames.length > 0 && (
+                  <ul className="text-[10px] text-gray-400 pl-6 list-decimal max-h-32 overflow-y-auto custom-scrollbar">
+                      {result.frames.map(f => <li key={f.id}>{f.title}</li>)}
+                  </ul>
+              )}
+              {assetList(result.newAssets, <Plus size={14} className="text-green-400"/>, 'New assets')}
+              {assetList(result.matchedAssets, <Link2 size={14} className="text-blue-400"/>, 'Linked to existing')}
+
+              <div className={`space-y-2 ${isPolishing ? 'opacity-50 pointer-events-none' : ''}`}>
+                  {timelineLength > 0 && (
+                      <label className="flex items-center gap-2 text-[10px] text-gray-300 cursor-pointer">
+                          <input type="checkbox" checked={replaceTimeline} onChange={(e) => setReplaceTimeline(e.target.checked)} className="accent-[var(--accent)]"/>
+                          Replace the current {timelineLength} scenes (otherwise appended)
+                      </label>
+                  )}
+                  <label className="flex items-center gap-2 text-[10px] text-gray-300 cursor-pointer">
+                      <input type="checkbox" checked={polish} onChange={(e) => setPolish(e.target.checked)} className="accent-[var(--accent)]"/>
+                      <Sparkles size={11} className="text-[var(--accent)]"/> Polish descriptions into image prompts with AI ({result.frames.length} calls)
+                  </label>
+              </div>
+
+              {isPolishing && (
+                  <div className="space-y-1">
+                      <div className="flex justify-between text-[10px] text-gray-400">
+                          <span className="flex items-center gap-1.5"><Loader2 size={11} className="animate-spin"/> Polishing scenes</span>
+                          <span className="font-mono">{polished}/{result.frames.length}</span>
+                      </div>
+                      <div className="h-1.5 bg-[#111] rounded-full overflow-hidden">
+                          <div className="h-full bg-[var(--accent)] transition-all" style={{ width: `${Math.round((polished! / Math.max(1, result.frames.length)) * 100)}%` }}/>
+                      </div>
+                  </div>
+              )}
+          </div>
+
+          {/* Actions */}
+          <div className="px-4 py-3 border-t border-[#333] grid grid-cols-2 gap-2">
+              <button onClick={handleApply} disabled={isPolishing || result.frames.length === 0} className="py-2.5 bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2 disabled:opacity-50">
+                  <Check size={14}/> Import
+              </button>
+              <button onClick={handleClose} className="py-2.5 bg-[#222] hover:bg-[#333] text-gray-300 hover:text-white border border-[#333] rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2">
+                  Cancel
+              </button>
+          </div>
+      </div>
+    </div>
+  );
+};
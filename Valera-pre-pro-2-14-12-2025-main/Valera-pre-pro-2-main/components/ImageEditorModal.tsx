@@ -1,8 +1,12 @@
 
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { generateImage, enhancePrompt } from '../services/geminiService';
+import { UsageSource, LayerDocument, LayerObject } from '../types';
+import { generateImage, enhancePrompt, editImageRegion } from '../services/geminiService';
+import { MaskShapes, rasterizeMask, cutOutMaskedRegion, closestAspectRatio } from '../services/inpaintService';
+import { exportLayeredPsd, importLayeredPsd, PsdLayerInput } from '../services/psdService';
 import { driveService } from '../services/driveService';
+import { resolveImageUrl, storeLayerImages } from '../services/imageStore';
 import { 
   X, Save, RefreshCw, Wand2, PenTool, Type, Undo, Image as ImageIcon, Sparkles, 
   Download, Eraser, MousePointer, Square, Circle, Paperclip, ArrowRight, 
@@ -11,10 +15,11 @@ import {
   Grid, Layers, Eye, EyeOff, Lock, Unlock, ArrowUp, ArrowDown, ChevronDown, 
   ChevronUp, Lasso, Maximize2, Minimize2, Scissors, ScanLine, Combine, 
   BoxSelect, Focus, Grid3X3, Ruler, PanelRightClose, PanelRightOpen, Anchor, Search,
-  Sliders, Check, Ratio, Aperture, Activity, Sun, Moon, Droplet, Thermometer, CircleDashed, Hash, Triangle, EyeIcon, Menu, LogOut, Filter, Film, Palette, History, Box as BoxIcon
+  Sliders, Check, Ratio, Aperture, Activity, Sun, Moon, Droplet, Thermometer, CircleDashed, Hash, Triangle, EyeIcon, Menu, LogOut, Filter, Film, Palette, History, Box as BoxIcon, FileDown
 } from 'lucide-react';
 import { EDITOR_FONTS } from '../constants';
 import { StudioViewport } from './StudioViewport'; // Import the new 3D component
+import { StoredImage } from './StoredImage';
 
 interface Props {
   imageUrl: string | null;
@@ -23,13 +28,15 @@ interface Props {
   onImageChange?: (newUrl: string) => void;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (newImage: string) => void;
+  onSave: (newImage: string, layers?: LayerDocument) => void; // No layers when an image layer couldn't be stored
+  layers?: LayerDocument; // Saved layers of `imageUrl`; reopened editable instead of the flat image
   imageModel: string;
   isDriveConnected?: boolean;
   onNotify?: (msg: string, type: 'info' | 'success') => void;
   initialPrompt?: string;
   initialAspectRatio?: string;
   huggingFaceToken?: string;
+  usageSource?: UsageSource; // Scene or asset being edited, for cost reporting
 }
 
 type ToolType = 'select' | 'brush' | 'inpaint' | 'eraser' | 'lasso' | 'text' | 'rect' | 'circle' | 'arrow' | 'hand' | 'pen' | 'frame';
@@ -65,13 +72,19 @@ interface BaseObject {
 interface PathObject extends BaseObject { type: 'path'; points: Point[]; isEraser: boolean; isInpaint?: boolean; isLasso?: boolean; isPen?: boolean; opacity: number; }
 interface ShapeObject extends BaseObject { type: 'rect' | 'circle'; x: number; y: number; w: number; h: number; filled?: boolean; }
 interface ArrowObject extends BaseObject { type: 'arrow'; x1: number; y1: number; x2: number; y2: number; }
-interface ImageObj extends BaseObject { type: 'image'; x: number; y: number; w: number; h: number; src: string; }
+interface ImageObj extends BaseObject { type: 'image'; x: number; y: number; w: number; h: number; src: string; opacity?: number; }
 interface TextObject extends BaseObject { type: 'text'; x: number; y: number; text: string; fontFamily: string; fontSize: number; }
 interface MaskObject extends BaseObject { type: 'mask'; points: Point[]; mode: 'erase' | 'isolate'; }
 interface RefItem { id: string; src: string; orientation: 'portrait' | 'landscape' | 'square'; }
 
 type CanvasObject = PathObject | ShapeObject | TextObject | ArrowObject | ImageObj | MaskObject;
 
+// Layer documents store the editor objects field for field (see LayerDocument in types)
+const toLayerObject = (obj: CanvasObject): LayerObject => ({ ...obj });
+// Objects of kinds this editor cannot draw are dropped on restore
+const CANVAS_OBJECT_TYPES = ['path', 'rect', 'circle', 'arrow', 'image', 'text', 'mask'];
+const isCanvasObject = (obj: LayerObject): obj is LayerObject & CanvasObject => CANVAS_OBJECT_TYPES.includes(obj.type);
+
 const hexToRgba = (hex: string, alpha: number) => {
     let c: any;
     if(/^#([A-Fa-f0-9]{3}){1,2}$/.test(hex)){
@@ -88,6 +101,27 @@ const DEFAULT_FILTERS: FilterState = {
     highlights: 0, shadows: 0, vignette: 0, grain: 0, sharpen: 0, blur: 0
 };
 
+// Crops a canvas to its non-transparent pixels; null when it is empty
+const trimCanvas = (source: HTMLCanvasElement): { canvas: HTMLCanvasElement, x: number, y: number, w: number, h: number } | null => {
+    const ctx = source.getContext('2d');
+    if (!ctx) return null;
+    const { data, width, height } = ctx.getImageData(0, 0, source.width, source.height);
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] === 0) continue;
+            if (x < minX) minX = x; if (x > maxX) maxX = x;
+            if (y < minY) minY = y; if (y > maxY) maxY = y;
+        }
+    }
+    if (maxX < 0) return null;
+    const w = maxX - minX + 1, h = maxY - minY + 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = w; canvas.height = h;
+    canvas.getContext('2d')?.drawImage(source, minX, minY, w, h, 0, 0, w, h);
+    return { canvas, x: minX, y: minY, w, h };
+};
+
 const RESOLUTION_PRESETS = [
     { label: "1080p HD (16:9)", w: 1920, h: 1080, icon: <Monitor size={12}/> },
     { label: "Vertical HD (9:16)", w: 1080, h: 1920, icon: <Smartphone size={12}/> },
@@ -104,7 +138,7 @@ const ToolButton = ({ icon, active, onClick, title }: { icon: React.ReactNode, a
     </button>
 );
 
-export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = [], globalHistory = [], onImageChange, isOpen, onClose, onSave, imageModel, isDriveConnected, onNotify, initialPrompt, initialAspectRatio = "16:9", huggingFaceToken }) => {
+export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = [], globalHistory = [], onImageChange, isOpen, onClose, onSave, layers, imageModel, isDriveConnected, onNotify, initialPrompt, initialAspectRatio = "16:9", huggingFaceToken, usageSource }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -263,7 +297,41 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
       setSelectedIds([newLayer.id]);
   };
 
-  const handleAddImageLayer = (src: string) => {
+  /**
+   * Adds the layers of a PSD on top of the stack, grouped names kept as prefixes. An empty editor takes
+   * the PSD's document size; otherwise the PSD is centred on the current document.
+   */
+  const handleImportPSD = async (file: File) => {
+      try {
+          const psd = importLayeredPsd(await file.arrayBuffer());
+          const isEmpty = objects.length === 0;
+          const dx = isEmpty ? 0 : Math.round((docSize.w - psd.width) / 2);
+          const dy = isEmpty ? 0 : Math.round((docSize.h - psd.height) / 2);
+          const stamp = Date.now();
+          const layers: CanvasObject[] = psd.layers.map((layer, i): CanvasObject => {
+              const base = { id: `${stamp}-${i}`, name: layer.name, lineWidth: 0, visible: !layer.hidden, locked: false, filters: { ...DEFAULT_FILTERS } };
+              if (layer.text) {
+                  const { text, x, y, fontFamily, fontSize, color } = layer.text;
+                  return { ...base, type: 'text', color, text, fontFamily, fontSize, x: x + dx, y: y + dy };
+              }
+              return { ...base, type: 'image', color: '#fff', src: layer.src, x: layer.x + dx, y: layer.y + dy, w: layer.w, h: layer.h, opacity: layer.opacity };
+          });
+          if (layers.length === 0) { onNotify?.("The PSD has no layers with pixels", "info"); return; }
+
+          if (isEmpty) fitDocument(psd.width, psd.height);
+          setObjects(prev => [...prev, ...layers]);
+          setTool('select');
+          setSelectedIds([]);
+          setShowLayers(true);
+          onNotify?.(`Imported ${layers.length} layers from ${file.name}${psd.skipped.length ? ` (${psd.skipped.length} adjustment or empty layers skipped)` : ''}`, "success");
+      } catch (e: any) {
+          console.error(e);
+          onNotify?.(e?.message ? `PSD import failed: ${e.message}` : "PSD import failed", "info");
+      }
+  };
+
+  const handleAddImageLayer = async (source: string) => {
+      const src = await resolveImageUrl(source);
       const img = new Image();
       img.crossOrigin = "anonymous";
       img.src = src;
@@ -306,38 +374,51 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
       setOverlayType(modes[nextIdx]);
   };
 
+  // Sets the document size and fits it into the viewport
+  const fitDocument = (w: number, h: number) => {
+      setDocSize({ w, h });
+      if (!containerRef.current) return;
+      const cw = containerRef.current.clientWidth; const ch = containerRef.current.clientHeight; const padding = 60; 
+      const scale = Math.min((cw - padding) / w, (ch - padding) / h, 1);
+      setView({ scale, x: (cw - w * scale) / 2, y: (ch - h * scale) / 2 });
+  };
+
   useEffect(() => {
     if (isOpen && objects.length === 0) {
       const initCanvas = () => {
           if (!containerRef.current) { setTimeout(initCanvas, 50); return; }
-          if (imageUrl) {
-              const img = new Image(); img.crossOrigin = "anonymous"; img.src = imageUrl;
-              img.onload = () => {
-                if (!containerRef.current) return;
+          if (layers) {
+              // Image layers are stored as references; the editor draws from displayable URLs
+              Promise.all(layers.objects.map(async o => o.src ? { ...o, src: await resolveImageUrl(o.src) } : o)).then(restored => {
+                  fitDocument(layers.docSize.w, layers.docSize.h);
+                  setObjects(restored.filter(isCanvasObject).map(o => ({ ...o, filters: o.filters || { ...DEFAULT_FILTERS } })));
+              });
+          } else if (imageUrl) {
+              resolveImageUrl(imageUrl).then(src => {
+                  const img = new Image(); img.crossOrigin = "anonymous"; img.src = src;
+                  img.onload = () => {
+                    if (!containerRef.current) return;
                 
-                let initW = img.naturalWidth;
-                let initH = img.naturalHeight;
+                    let initW = img.naturalWidth;
+                    let initH = img.naturalHeight;
                 
-                if (initW < 100) initW = 1920; 
-                if (initH < 100) initH = 1080;
+                    if (initW < 100) initW = 1920; 
+                    if (initH < 100) initH = 1080;
 
-                setDocSize({ w: initW, h: initH });
+                    fitDocument(initW, initH);
                 
-                const cw = containerRef.current.clientWidth; const ch = containerRef.current.clientHeight; const padding = 60; 
-                const scale = Math.min((cw - padding) / initW, (ch - padding) / initH, 1);
-                setView({ scale, x: (cw - initW * scale) / 2, y: (ch - initH * scale) / 2 });
-                
-                const newImgObj: ImageObj = { 
-                    id: 'main-image', type: 'image', name: 'Main Image', 
-                    color: '#fff', lineWidth: 0, visible: true, locked: false, 
-                    src: imageUrl, 
-                    x: 0, 
-                    y: 0, 
-                    w: initW, h: initH,
-                    filters: { ...DEFAULT_FILTERS }
-                };
-                setObjects([newImgObj]); imageCache.set('main-image', img);
-              };
+                    const newImgObj: ImageObj = { 
+                        id: 'main-image', type: 'image', name: 'Main Image', 
+                        color: '#fff', lineWidth: 0, visible: true, locked: false, 
+                        src: src, 
+                        x: 0, 
+                        y: 0, 
+                        w: initW, h: initH,
+                        filters: { ...DEFAULT_FILTERS }
+                    };
+                    setObjects([newImgObj]); imageCache.set('main-image', img);
+                  };
+              });
           }
       };
       initCanvas();
@@ -481,7 +562,7 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
         else if (obj.type === 'rect') { const s = obj as ShapeObject; ctx.strokeStyle = s.color; ctx.lineWidth = s.lineWidth; if(s.filled){ ctx.fillStyle = s.color; ctx.fillRect(s.x, s.y, s.w, s.h); } ctx.strokeRect(s.x, s.y, s.w, s.h); }
         else if (obj.type === 'circle') { const s = obj as ShapeObject; ctx.strokeStyle = s.color; ctx.lineWidth = s.lineWidth; ctx.beginPath(); ctx.ellipse(s.x + s.w/2, s.y + s.h/2, Math.abs(s.w/2), Math.abs(s.h/2), 0, 0, 2*Math.PI); if(s.filled){ ctx.fillStyle = s.color; ctx.fill(); } ctx.stroke(); }
         else if (obj.type === 'arrow') { const arrow = obj as ArrowObject; const headlen = arrow.lineWidth * 3; const angle = Math.atan2(arrow.y2 - arrow.y1, arrow.x2 - arrow.x1); ctx.strokeStyle = arrow.color; ctx.lineWidth = arrow.lineWidth; ctx.lineCap = 'round'; ctx.beginPath(); ctx.moveTo(arrow.x1, arrow.y1); ctx.lineTo(arrow.x2, arrow.y2); ctx.stroke(); ctx.beginPath(); ctx.moveTo(arrow.x2 - headlen * Math.cos(angle - Math.PI / 6), arrow.y2 - headlen * Math.sin(angle - Math.PI / 6)); ctx.lineTo(arrow.x2, arrow.y2); ctx.lineTo(arrow.x2 - headlen * Math.cos(angle + Math.PI / 6), arrow.y2 - headlen * Math.sin(angle + Math.PI / 6)); ctx.stroke(); }
-        else if (obj.type === 'image') { const imgObj = obj as ImageObj; let img = imageCache.get(imgObj.id); if (!img) { img = new Image(); img.crossOrigin = "anonymous"; img.src = imgObj.src; imageCache.set(imgObj.id, img); } if (img.complete) { ctx.drawImage(img, imgObj.x, imgObj.y, imgObj.w, imgObj.h); } }
+        else if (obj.type === 'image') { const imgObj = obj as ImageObj; let img = imageCache.get(imgObj.id); if (!img) { img = new Image(); img.crossOrigin = "anonymous"; img.src = imgObj.src; imageCache.set(imgObj.id, img); } if (img.complete) { ctx.globalAlpha = imgObj.opacity ?? 1; ctx.drawImage(img, imgObj.x, imgObj.y, imgObj.w, imgObj.h); } }
         else if (obj.type === 'text') { const t = obj as TextObject; if(textInput && textInput.id === obj.id) return; ctx.fillStyle = t.color; const fontName = t.fontFamily.split(',')[0].replace(/['"]/g, ''); ctx.font = `bold ${t.fontSize}px "${fontName}"`; ctx.textBaseline = 'top'; ctx.fillText(t.text, t.x, t.y); }
         
         if (obj.filters && (obj.filters.vignette > 0 || obj.filters.grain > 0 || obj.type === 'image')) {
@@ -791,113 +872,181 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
       setTimeout(handleFitView, 50);
   };
 
-  const handleSaveAndClose = () => {
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = docSize.w;
-      tempCanvas.height = docSize.h;
-      const ctx = tempCanvas.getContext('2d');
-      if (!ctx) return;
-
-      // Draw background
-      ctx.fillStyle = '#000000';
-      ctx.fillRect(0, 0, docSize.w, docSize.h);
+  // One object as the viewport draws it (filters, vignette, grain; masks erase what is below), for offscreen rendering
+  const drawFlatObject = (ctx: CanvasRenderingContext2D, obj: CanvasObject) => {
+      ctx.save();
+      if (obj.filters) { 
+         const f = obj.filters; 
+         ctx.filter = `brightness(${f.exposure}%) contrast(${f.contrast}%) saturate(${f.saturation}%) sepia(${f.warmth}%) blur(${f.blur}px)`; 
+      }
 
-      objects.forEach(obj => {
-          if (!obj.visible) return;
-          ctx.save();
-          if (obj.filters) { 
-             const f = obj.filters; 
-             ctx.filter = `brightness(${f.exposure}%) contrast(${f.contrast}%) saturate(${f.saturation}%) sepia(${f.warmth}%) blur(${f.blur}px)`; 
+      if (obj.type === 'image') {
+          const imgObj = obj as ImageObj;
+          const img = imageCache.get(imgObj.id);
+          if (img && img.complete) {
+              ctx.globalAlpha = imgObj.opacity ?? 1;
+              ctx.drawImage(img, imgObj.x, imgObj.y, imgObj.w, imgObj.h);
           }
-
-          if (obj.type === 'image') {
-              const imgObj = obj as ImageObj;
-              const img = imageCache.get(imgObj.id);
-              if (img && img.complete) {
-                  ctx.drawImage(img, imgObj.x, imgObj.y, imgObj.w, imgObj.h);
-              }
-          } else if (obj.type === 'rect') {
-              const s = obj as ShapeObject;
-              ctx.strokeStyle = s.color; ctx.lineWidth = s.lineWidth;
-              if(s.filled){ ctx.fillStyle = s.color; ctx.fillRect(s.x, s.y, s.w, s.h); }
-              ctx.strokeRect(s.x, s.y, s.w, s.h);
-          } else if (obj.type === 'circle') {
-              const s = obj as ShapeObject;
-              ctx.strokeStyle = s.color; ctx.lineWidth = s.lineWidth;
-              ctx.beginPath();
-              ctx.ellipse(s.x + s.w/2, s.y + s.h/2, Math.abs(s.w/2), Math.abs(s.h/2), 0, 0, 2*Math.PI);
-              if(s.filled){ ctx.fillStyle = s.color; ctx.fill(); }
-              ctx.stroke();
-          } else if (obj.type === 'arrow') {
-              const arrow = obj as ArrowObject;
-              const headlen = arrow.lineWidth * 3;
-              const angle = Math.atan2(arrow.y2 - arrow.y1, arrow.x2 - arrow.x1);
-              ctx.strokeStyle = arrow.color; ctx.lineWidth = arrow.lineWidth; ctx.lineCap = 'round';
-              ctx.beginPath(); ctx.moveTo(arrow.x1, arrow.y1); ctx.lineTo(arrow.x2, arrow.y2); ctx.stroke();
-              ctx.beginPath(); ctx.moveTo(arrow.x2 - headlen * Math.cos(angle - Math.PI / 6), arrow.y2 - headlen * Math.sin(angle - Math.PI / 6));
-              ctx.lineTo(arrow.x2, arrow.y2);
-              ctx.lineTo(arrow.x2 - headlen * Math.cos(angle + Math.PI / 6), arrow.y2 - headlen * Math.sin(angle + Math.PI / 6));
-              ctx.stroke();
-          } else if (obj.type === 'text') {
-              const t = obj as TextObject;
-              ctx.fillStyle = t.color;
-              const fontName = t.fontFamily.split(',')[0].replace(/['"]/g, '');
-              ctx.font = `bold ${t.fontSize}px "${fontName}"`;
-              ctx.textBaseline = 'top';
-              ctx.fillText(t.text, t.x, t.y);
-          } else if (obj.type === 'path' || obj.type === 'mask') {
-              const p = obj as PathObject | MaskObject;
-              if (p.points.length > 0) {
-                  if (obj.type === 'mask') {
-                      const m = obj as MaskObject;
-                      ctx.beginPath();
-                      if (m.mode === 'isolate') {
-                          ctx.rect(-20000, -20000, 40000, 40000); 
-                          ctx.moveTo(m.points[0].x, m.points[0].y); 
-                          for (let i = 1; i < m.points.length; i++) ctx.lineTo(m.points[i].x, m.points[i].y); 
-                          ctx.closePath(); 
-                          ctx.globalCompositeOperation = 'destination-out'; 
-                          ctx.fill('evenodd');
-                      } else {
-                          ctx.moveTo(m.points[0].x, m.points[0].y); 
-                          for (let i = 1; i < m.points.length; i++) ctx.lineTo(m.points[i].x, m.points[i].y); 
-                          ctx.closePath(); 
-                          ctx.globalCompositeOperation = 'destination-out'; 
-                          ctx.fill();
-                      }
+      } else if (obj.type === 'rect') {
+          const s = obj as ShapeObject;
+          ctx.strokeStyle = s.color; ctx.lineWidth = s.lineWidth;
+          if(s.filled){ ctx.fillStyle = s.color; ctx.fillRect(s.x, s.y, s.w, s.h); }
+          ctx.strokeRect(s.x, s.y, s.w, s.h);
+      } else if (obj.type === 'circle') {
+          const s = obj as ShapeObject;
+          ctx.strokeStyle = s.color; ctx.lineWidth = s.lineWidth;
+          ctx.beginPath();
+          ctx.ellipse(s.x + s.w/2, s.y + s.h/2, Math.abs(s.w/2), Math.abs(s.h/2), 0, 0, 2*Math.PI);
+          if(s.filled){ ctx.fillStyle = s.color; ctx.fill(); }
+          ctx.stroke();
+      } else if (obj.type === 'arrow') {
+          const arrow = obj as ArrowObject;
+          const headlen = arrow.lineWidth * 3;
+          const angle = Math.atan2(arrow.y2 - arrow.y1, arrow.x2 - arrow.x1);
+          ctx.strokeStyle = arrow.color; ctx.lineWidth = arrow.lineWidth; ctx.lineCap = 'round';
+          ctx.beginPath(); ctx.moveTo(arrow.x1, arrow.y1); ctx.lineTo(arrow.x2, arrow.y2); ctx.stroke();
+          ctx.beginPath(); ctx.moveTo(arrow.x2 - headlen * Math.cos(angle - Math.PI / 6), arrow.y2 - headlen * Math.sin(angle - Math.PI / 6));
+          ctx.lineTo(arrow.x2, arrow.y2);
+          ctx.lineTo(arrow.x2 - headlen * Math.cos(angle + Math.PI / 6), arrow.y2 - headlen * Math.sin(angle + Math.PI / 6));
+          ctx.stroke();
+      } else if (obj.type === 'text') {
+          const t = obj as TextObject;
+          ctx.fillStyle = t.color;
+          const fontName = t.fontFamily.split(',')[0].replace(/['"]/g, '');
+          ctx.font = `bold ${t.fontSize}px "${fontName}"`;
+          ctx.textBaseline = 'top';
+          ctx.fillText(t.text, t.x, t.y);
+      } else if (obj.type === 'path' || obj.type === 'mask') {
+          const p = obj as PathObject | MaskObject;
+          if (p.points.length > 0) {
+              if (obj.type === 'mask') {
+                  const m = obj as MaskObject;
+                  ctx.beginPath();
+                  if (m.mode === 'isolate') {
+                      ctx.rect(-20000, -20000, 40000, 40000); 
+                      ctx.moveTo(m.points[0].x, m.points[0].y); 
+                      for (let i = 1; i < m.points.length; i++) ctx.lineTo(m.points[i].x, m.points[i].y); 
+                      ctx.closePath(); 
+                      ctx.globalCompositeOperation = 'destination-out'; 
+                      ctx.fill('evenodd');
                   } else {
-                      const path = obj as PathObject;
-                      if (path.isEraser) ctx.globalCompositeOperation = 'destination-out';
-                      else ctx.globalCompositeOperation = 'source-over';
-                      
-                      let strokeColor = path.color;
-                      if (path.isInpaint) strokeColor = hexToRgba(path.color, 0.5);
-                      else if (path.opacity < 1.0) strokeColor = hexToRgba(path.color, path.opacity);
-                      
-                      ctx.strokeStyle = strokeColor;
-                      ctx.lineWidth = path.lineWidth;
-                      ctx.lineCap = 'round';
-                      ctx.lineJoin = 'round';
-                      ctx.beginPath();
-                      ctx.moveTo(path.points[0].x, path.points[0].y);
-                      for (let i = 1; i < path.points.length; i++) ctx.lineTo(path.points[i].x, path.points[i].y);
-                      ctx.stroke();
+                      ctx.moveTo(m.points[0].x, m.points[0].y); 
+                      for (let i = 1; i < m.points.length; i++) ctx.lineTo(m.points[i].x, m.points[i].y); 
+                      ctx.closePath(); 
+                      ctx.globalCompositeOperation = 'destination-out'; 
+                      ctx.fill();
                   }
+              } else {
+                  const path = obj as PathObject;
+                  if (path.isEraser) ctx.globalCompositeOperation = 'destination-out';
+                  else ctx.globalCompositeOperation = 'source-over';
+                  
+                  let strokeColor = path.color;
+                  if (path.isInpaint) strokeColor = hexToRgba(path.color, 0.5);
+                  else if (path.opacity < 1.0) strokeColor = hexToRgba(path.color, path.opacity);
+                  
+                  ctx.strokeStyle = strokeColor;
+                  ctx.lineWidth = path.lineWidth;
+                  ctx.lineCap = 'round';
+                  ctx.lineJoin = 'round';
+                  ctx.beginPath();
+                  ctx.moveTo(path.points[0].x, path.points[0].y);
+                  for (let i = 1; i < path.points.length; i++) ctx.lineTo(path.points[i].x, path.points[i].y);
+                  ctx.stroke();
+              }
+          }
+      }
+
+      if (obj.type !== 'mask' && obj.filters && (obj.filters.vignette > 0 || obj.filters.grain > 0)) {
+          const bounds = getObjectBounds(obj);
+          if (bounds) {
+              if (obj.filters.vignette > 0) {
+                  ctx.globalCompositeOperation = 'source-over';
+                  const cx = bounds.x + bounds.w/2;
+                  const cy = bounds.y + bounds.h/2;
+                  const radius = Math.max(bounds.w, bounds.h) * 0.8;
+                  const grad = ctx.createRadialGradient(cx, cy, radius * 0.4, cx, cy, radius);
+                  grad.addColorStop(0, 'rgba(0,0,0,0)');
+                  grad.addColorStop(1, `rgba(0,0,0,${obj.filters.vignette/150})`); 
+                  ctx.fillStyle = grad;
+                  ctx.fillRect(bounds.x, bounds.y, bounds.w, bounds.h);
+              }
+              if (obj.filters.grain > 0 && noisePattern) {
+                  ctx.globalCompositeOperation = 'overlay';
+                  ctx.globalAlpha = obj.filters.grain / 200; 
+                  ctx.fillStyle = noisePattern;
+                  ctx.fillRect(bounds.x, bounds.y, bounds.w, bounds.h);
+                  ctx.globalAlpha = 1.0;
               }
           }
-          ctx.restore();
+      }
+      ctx.restore();
+  };
+
+  const createDocCanvas = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = docSize.w;
+      canvas.height = docSize.h;
+      const ctx = canvas.getContext('2d');
+      return ctx ? { canvas, ctx } : null;
+  };
+
+  // Visible layers on a document-size canvas; `skip` leaves objects out (inpaint strokes when flattening for an AI edit).
+  // A null background keeps the document transparent.
+  const renderFlattened = (skip?: (obj: CanvasObject) => boolean, background: string | null = '#000000'): HTMLCanvasElement | null => {
+      const doc = createDocCanvas();
+      if (!doc) return null;
+
+      if (background) {
+          doc.ctx.fillStyle = background;
+          doc.ctx.fillRect(0, 0, docSize.w, docSize.h);
+      }
+      objects.forEach(obj => {
+          if (obj.visible && !skip?.(obj)) drawFlatObject(doc.ctx, obj);
       });
+      return doc.canvas;
+  };
 
+  const handleSaveAndClose = async () => {
+      const tempCanvas = renderFlattened();
+      if (!tempCanvas) return;
       const dataUrl = tempCanvas.toDataURL('image/png');
-      onSave(dataUrl);
+      // The layer stack goes along with the flat image, so reopening it keeps everything editable
+      const saved = await storeLayerImages({ image: dataUrl, docSize, objects: objects.map(toLayerObject) }, id => imageCache.get(id));
+      onSave(dataUrl, saved);
       onClose();
   };
 
+  const isInpaintStroke = (obj: CanvasObject): obj is PathObject => obj.type === 'path' && !!(obj as PathObject).isInpaint;
+
+  /**
+   * Sends the flattened document and a mask of `strokes` + `regions` to the image model and adds the
+   * repainted area as a new layer at its place. The strokes are consumed; the layer below is untouched.
+   */
+  const runInpaint = async (instruction: string, strokes: PathObject[], regions: Point[][], layerName: string) => {
+      const shapes: MaskShapes = { strokes: strokes.map(p => ({ points: p.points, lineWidth: p.lineWidth })), regions };
+      const mask = rasterizeMask(shapes, docSize.w, docSize.h);
+      if (!mask) { onNotify?.("Mask is outside the canvas", "info"); return; }
+      const flattened = renderFlattened(isInpaintStroke);
+      if (!flattened) return;
+
+      const edited = await editImageRegion(instruction, flattened.toDataURL('image/png'), mask.dataUrl, closestAspectRatio(docSize.w, docSize.h), imageModel, usageSource);
+      const src = await cutOutMaskedRegion(edited, shapes, docSize.w, docSize.h, mask.bounds);
+      const layer: ImageObj = {
+          id: Date.now().toString(), type: 'image', name: layerName, color: '#fff', lineWidth: 0, src,
+          ...mask.bounds, visible: true, locked: false, filters: { ...DEFAULT_FILTERS }
+      };
+      const consumed = new Set(strokes.map(p => p.id));
+      setObjects(prev => [...prev.filter(o => !consumed.has(o.id)), layer]);
+      setTool('select');
+      setSelectedIds([layer.id]);
+  };
+
   const handleEnhancePrompt = async () => {
       if (!prompt) return;
       setIsEnhancing(true);
       try {
-          const res = await enhancePrompt(prompt);
+          const res = await enhancePrompt(prompt, undefined, usageSource);
           setPrompt(res);
       } catch (e) {
           console.error(e);
@@ -911,21 +1060,110 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
       setIsGenerating(true);
       setGenStatusMsg("Generating...");
       try {
-          // If inpaint mask exists, we should use it?
-          // For now, simpler implementation:
-          const res = await generateImage(prompt, references.map(r => r.src), initialAspectRatio || "16:9", imageModel);
-          handleAddImageLayer(res);
-      } catch (e) {
+          // Painted inpaint strokes (and an open lasso) turn Gen into a masked edit of the canvas
+          const strokes = objects.filter(isInpaintStroke).filter(o => o.visible);
+          if (strokes.length > 0 || activeLasso) {
+              setGenStatusMsg("Inpainting...");
+              await runInpaint(prompt, strokes, activeLasso ? [activeLasso.points] : [], 'Inpaint');
+              setActiveLasso(null);
+          } else {
+              const res = await generateImage(prompt, references.map(r => r.src), initialAspectRatio || "16:9", imageModel, undefined, usageSource);
+              handleAddImageLayer(res);
+          }
+      } catch (e: any) {
           console.error(e);
-          onNotify?.("Generation failed", "info");
+          onNotify?.(e?.message ? `Generation failed: ${e.message}` : "Generation failed", "info");
       } finally {
           setIsGenerating(false);
       }
   };
 
+  // Masks and eraser strokes cut through every layer below them rather than drawing anything of their own
+  const erasesBelow = (obj: CanvasObject) => obj.type === 'mask' || (obj.type === 'path' && (obj as PathObject).isEraser);
+
+  /**
+   * Rasterises the visible layers in `ids` into one image layer at the place of the topmost one.
+   * Hidden layers and inpaint strokes stay as they are. Masks and erasers between the merged layers are
+   * baked in; a selected one is only removed when no other layer below still depends on it.
+   */
+  const mergeLayers = (ids: string[], name: string) => {
+      const idSet = new Set(ids);
+      const merging = objects.filter(o => idSet.has(o.id) && o.visible && !isInpaintStroke(o));
+      if (merging.length < 2) { onNotify?.("Select at least two visible layers to merge", "info"); return; }
+      const first = objects.indexOf(merging[0]);
+      const last = objects.indexOf(merging[merging.length - 1]);
+
+      const doc = createDocCanvas();
+      if (!doc) return;
+      objects.slice(first, last + 1).forEach(obj => {
+          if (obj.visible && (merging.includes(obj) || erasesBelow(obj))) drawFlatObject(doc.ctx, obj);
+      });
+      const trimmed = trimCanvas(doc.canvas);
+      if (!trimmed) { onNotify?.("Nothing visible to merge", "info"); return; }
+
+      const consumed = new Set(merging.filter(obj => {
+          if (!erasesBelow(obj)) return true;
+          const below = objects.slice(0, objects.indexOf(obj));
+          return !below.some(o => o.visible && !idSet.has(o.id) && !erasesBelow(o));
+      }).map(o => o.id));
+      const merged: ImageObj = {
+          id: Date.now().toString(), type: 'image', name, color: '#fff', lineWidth: 0, src: trimmed.canvas.toDataURL('image/png'),
+          x: trimmed.x, y: trimmed.y, w: trimmed.w, h: trimmed.h, visible: true, locked: false, filters: { ...DEFAULT_FILTERS }
+      };
+      const topId = objects[last].id;
+      setObjects(prev => prev.flatMap(o => {
+          const kept = consumed.has(o.id) ? [] : [o];
+          return o.id === topId ? [...kept, merged] : kept;
+      }));
+      setSelectedIds([merged.id]);
+  };
+
   const handleMergeLayers = () => {
       if (selectedIds.length < 2) return;
-      alert("Merge functionality coming soon. Please save and re-open to merge visible layers.");
+      mergeLayers(selectedIds, 'Merged');
+  };
+
+  const selectedIndex = selectedIds.length === 1 ? objects.findIndex(o => o.id === selectedIds[0]) : -1;
+  const layerBelow = selectedIndex > 0 && !erasesBelow(objects[selectedIndex - 1]) ? objects[selectedIndex - 1] : null;
+
+  // Merges the selected layer into the one below, keeping the lower layer's name
+  const handleMergeDown = () => {
+      if (!layerBelow) return;
+      mergeLayers([layerBelow.id, selectedIds[0]], layerBelow.name || 'Merged');
+  };
+
+  /**
+   * Downloads the document as a layered PSD: one layer per object, bottom to top, with the masks and
+   * erasers above each layer baked into it. Text stays editable unless something cuts into it.
+   */
+  const handleExportPSD = () => {
+      const layers: PsdLayerInput[] = [];
+      objects.forEach((obj, index) => {
+          if (erasesBelow(obj) || isInpaintStroke(obj)) return;
+          const doc = createDocCanvas();
+          if (!doc) return;
+          // Opacity is written as the layer's own, not baked into its pixels
+          drawFlatObject(doc.ctx, obj.type === 'image' ? { ...obj, opacity: 1 } as ImageObj : obj);
+          const cuts = objects.slice(index + 1).filter(o => o.visible && erasesBelow(o));
+          cuts.forEach(o => drawFlatObject(doc.ctx, o));
+
+          const text = obj.type === 'text' && cuts.length === 0 ? obj as TextObject : null;
+          layers.push({
+              name: obj.name || obj.type, canvas: doc.canvas, hidden: !obj.visible, locked: obj.locked,
+              opacity: obj.type === 'image' ? (obj as ImageObj).opacity : undefined,
+              text: text ? { text: text.text, x: text.x, y: text.y, fontName: text.fontFamily.split(',')[0].replace(/['"]/g, ''), fontSize: text.fontSize, color: text.color } : undefined
+          });
+      });
+      const composite = renderFlattened(isInpaintStroke, null);
+      if (layers.length === 0 || !composite) { onNotify?.("No layers to export", "info"); return; }
+
+      const url = URL.createObjectURL(exportLayeredPsd(docSize.w, docSize.h, layers, composite));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Valera_Layers_${new Date().toISOString().slice(0, 10)}.psd`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      onNotify?.(`Exported ${layers.length} layers to PSD`, "success");
   };
 
   const applyLassoAction = (action: 'erase' | 'isolate') => {
@@ -951,10 +1189,8 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
       setIsGenerating(true);
       setGenStatusMsg("Magic Erasing...");
       try {
-          // Placeholder for inpainting without specialized backend
-          const res = await generateImage("Fill background naturally", undefined, "16:9", imageModel);
-          handleAddImageLayer(res);
-      } catch(e) { console.error(e); }
+          await runInpaint("Remove whatever is here and continue the surrounding background naturally, with no new objects.", [], [activeLasso.points], 'Magic Erase');
+      } catch(e: any) { console.error(e); onNotify?.(e?.message ? `Magic erase failed: ${e.message}` : "Magic erase failed", "info"); }
       finally { setIsGenerating(false); setActiveLasso(null); setGenStatusMsg("Generating..."); }
   };
 
@@ -968,7 +1204,7 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
       setIsGenerating(true);
       setGenStatusMsg("Generative Fill...");
       try {
-          const res = await generateImage(prompt || "Fill surroundings", undefined, "16:9", imageModel);
+          const res = await generateImage(prompt || "Fill surroundings", undefined, "16:9", imageModel, undefined, usageSource);
           handleAddImageLayer(res);
       } catch(e) { console.error(e); }
       finally { setIsGenerating(false); setActiveFrame(null); setGenStatusMsg("Generating..."); }
@@ -985,12 +1221,14 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
                 try {
                     const asset = JSON.parse(assetJson);
                     if (asset.image) {
-                        const img = new Image(); img.src = asset.image; 
-                        img.onload = () => { 
-                            if (!containerRef.current) return;
-                            const newImg: ImageObj = { id: Date.now().toString(), type: 'image', name: asset.name, color: '#fff', lineWidth: 0, src: asset.image, x: 0, y: 0, w: img.naturalWidth, h: img.naturalHeight, visible: true, locked: false, filters: { ...DEFAULT_FILTERS } }; 
-                            setObjects(prev => [...prev, newImg]); setTool('select'); setSelectedIds([newImg.id]); 
-                        };
+                        resolveImageUrl(asset.image).then(src => {
+                            const img = new Image(); img.src = src; 
+                            img.onload = () => { 
+                                if (!containerRef.current) return;
+                                const newImg: ImageObj = { id: Date.now().toString(), type: 'image', name: asset.name, color: '#fff', lineWidth: 0, src: src, x: 0, y: 0, w: img.naturalWidth, h: img.naturalHeight, visible: true, locked: false, filters: { ...DEFAULT_FILTERS } }; 
+                                setObjects(prev => [...prev, newImg]); setTool('select'); setSelectedIds([newImg.id]); 
+                            };
+                        });
                     }
                 } catch(e) { console.error(e); }
                 return;
@@ -1007,7 +1245,7 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
                 <div className="bg-[var(--bg-card)] text-[var(--text-main)] rounded-xl shadow-2xl p-1 flex gap-1 border border-[var(--border-color)] pointer-events-auto cursor-default backdrop-blur-md" onMouseDown={e => e.stopPropagation()}>
                     <button onClick={() => applyLassoAction('erase')} className="px-3 py-1.5 hover:bg-white/10 rounded-lg text-xs font-bold flex items-center gap-1 transition-colors" title="Simple Pixel Eraser (Transparent)"><Eraser size={14} className="text-[var(--text-muted)]"/> Erase</button>
                     <div className="w-px bg-[var(--border-color)] my-1"></div>
-                    <button onClick={handleLassoMagicErase} className="px-3 py-1.5 hover:bg-purple-500/20 text-purple-400 rounded-lg text-xs font-bold flex items-center gap-1 transition-colors" title="AI Patch (Generative Fill)"><Sparkles size={14}/> Patch</button>
+                    <button onClick={handleLassoMagicErase} className="px-3 py-1.5 hover:bg-purple-500/20 text-purple-400 rounded-lg text-xs font-bold flex items-center gap-1 transition-colors" title="AI Patch: remove the selection and fill it from the surroundings"><Sparkles size={14}/> Patch</button>
                     <div className="w-px bg-[var(--border-color)] my-1"></div>
                     <button onClick={handleSmartCutAndHeal} className="px-3 py-1.5 hover:bg-blue-500/20 text-blue-400 rounded-lg text-xs font-bold flex items-center gap-1 transition-colors" title="Split Object & Heal Background"><Scissors size={14}/> Cut & Heal</button>
                     <div className="w-px bg-[var(--border-color)] my-1"></div>
@@ -1108,7 +1346,7 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
                                     onClick={() => handleAddImageLayer(src)}
                                     className="aspect-square bg-black/20 rounded border border-[#333] overflow-hidden group cursor-pointer hover:border-[var(--accent)] transition-all relative"
                                 >
-                                    <img src={src} className="w-full h-full object-cover" alt={`History ${i}`} />
+                                    <StoredImage src={src} className="w-full h-full object-cover" alt={`History ${i}`} />
                                     <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                                         <Plus size={20} className="text-white drop-shadow-md"/>
                                     </div>
@@ -1168,10 +1406,10 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
 
                     <ToolButton icon={<Anchor size={20} />} active={tool === 'pen'} onClick={() => setTool('pen')} title="Poly Pen (Bezier Mask)" />
                     <ToolButton icon={<PenTool size={20} />} active={tool === 'brush'} onClick={() => setTool('brush')} title="Brush" />
-                    <ToolButton icon={<Brush size={20} />} active={tool === 'inpaint'} onClick={() => setTool('inpaint')} title="Inpaint Mask" />
+                    <ToolButton icon={<Brush size={20} />} active={tool === 'inpaint'} onClick={() => setTool('inpaint')} title="Inpaint Mask (paint, then Gen repaints it from the prompt)" />
                     <ToolButton icon={<Eraser size={20} />} active={tool === 'eraser'} onClick={() => setTool('eraser')} title="Eraser" />
                     <ToolButton icon={<Type size={20} />} active={tool === 'text'} onClick={() => setTool('text')} title="Text" />
-                    <button onClick={() => fileInputRef.current?.click()} className="p-3 rounded-xl transition-all w-12 h-12 flex items-center justify-center shrink-0 text-gray-400 hover:text-white hover:bg-[#333]" title="Add Image (Real Size)"><ImageIcon size={20} /><input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={(e) => { const file = e.target.files?.[0]; if (file) { const reader = new FileReader(); reader.onload = ev => { const src = ev.target?.result as string; const img = new Image(); img.src = src; img.onload = () => { if (!containerRef.current) return; const newImg: ImageObj = { id: Date.now().toString(), type: 'image', name: file.name || 'Image Layer', color: '#fff', lineWidth: 0, src: src, x: 0, y: 0, w: img.naturalWidth, h: img.naturalHeight, visible: true, locked: false, filters: { ...DEFAULT_FILTERS } }; setObjects(prev => [...prev, newImg]); setTool('select'); setSelectedIds([newImg.id]); }; }; reader.readAsDataURL(file); e.target.value = ''; } }} /></button>
+                    <button onClick={() => fileInputRef.current?.click()} className="p-3 rounded-xl transition-all w-12 h-12 flex items-center justify-center shrink-0 text-gray-400 hover:text-white hover:bg-[#333]" title="Add Image or PSD (Real Size)"><ImageIcon size={20} /><input type="file" ref={fileInputRef} className="hidden" accept="image/*,.psd" onChange={(e) => { const file = e.target.files?.[0]; if (file && /\.psd$/i.test(file.name)) { handleImportPSD(file); e.target.value = ''; return; } if (file) { const reader = new FileReader(); reader.onload = ev => { const src = ev.target?.result as string; const img = new Image(); img.src = src; img.onload = () => { if (!containerRef.current) return; const newImg: ImageObj = { id: Date.now().toString(), type: 'image', name: file.name || 'Image Layer', color: '#fff', lineWidth: 0, src: src, x: 0, y: 0, w: img.naturalWidth, h: img.naturalHeight, visible: true, locked: false, filters: { ...DEFAULT_FILTERS } }; setObjects(prev => [...prev, newImg]); setTool('select'); setSelectedIds([newImg.id]); }; }; reader.readAsDataURL(file); e.target.value = ''; } }} /></button>
 
                     {/* Shapes Group */}
                     <div className="relative group/shapes flex flex-col items-center">
@@ -1230,6 +1468,9 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
                                         <button onClick={handleGenerateNew} className="flex items-center gap-1 px-3 py-1.5 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded text-[10px] font-bold uppercase hover:brightness-110 shadow-lg"><Sparkles size={12} /> <span className="hidden sm:inline">Gen</span></button>
                                     </>
                                 )}
+                                {layerBelow && (
+                                    <button onClick={handleMergeDown} className="flex items-center gap-1 px-3 py-1.5 bg-[#333] hover:bg-white/10 text-white rounded text-[10px] font-bold uppercase transition-colors" title={`Merge into "${layerBelow.name || layerBelow.type}"`}><Combine size={12}/> <span className="hidden sm:inline">Merge Down</span></button>
+                                )}
                                 {selectedIds.length > 1 && (
                                     <button onClick={handleMergeLayers} className="flex items-center gap-1 px-3 py-1.5 bg-[#333] hover:bg-white/10 text-white rounded text-[10px] font-bold uppercase transition-colors"><Combine size={12}/> <span className="hidden sm:inline">Merge</span></button>
                                 )}
@@ -1260,6 +1501,7 @@ export const ImageEditorModal: React.FC<Props> = ({ imageUrl, historyImages = []
                             <button onClick={() => setObjects(prev => prev.slice(0, -1))} className="p-2 text-gray-400 hover:text-white hover:bg-[#333] rounded-lg transition-all" title="Undo"><Undo size={18}/></button>
                             <button onClick={() => handleClearAll()} className="p-2 text-gray-400 hover:text-red-400 hover:bg-[#333] rounded-lg transition-all" title="Clear All"><Trash size={18}/></button>
                             <div className="w-px h-6 bg-[#444] mx-1"></div>
+                            <button onClick={handleExportPSD} className="p-2 text-gray-400 hover:text-white hover:bg-[#333] rounded-lg transition-all" title="Export PSD (layers)"><FileDown size={18}/></button>
                             <button onClick={handleSaveAndClose} className="p-2 bg-[var(--accent)] text-white hover:brightness-110 rounded-lg shadow-lg transition-all" title="Save"><Save size={18}/></button>
                             <button onClick={() => onClose()} className="p-2 text-gray-400 hover:text-white hover:bg-[#333] rounded-lg transition-all" title="Close"><X size={18}/></button>
                         </div>
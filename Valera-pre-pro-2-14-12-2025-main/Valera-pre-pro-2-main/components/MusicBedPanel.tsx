@@ -0,0 +1,103 @@
+import React from 'react';
+import { TimelineFrame, MusicBed, AudioClip } from '../types';
+import { AudioClipSlot, formatAudioDuration } from './AudioClipSlot';
+import { X, Music, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  beds: MusicBed[];
+  frames: TimelineFrame[];
+  onChange: (beds: MusicBed[]) => void;
+  onClose: () => void;
+}
+
+const offsetInput = (value: number | undefined, placeholder: string, onChange: (v: number | undefined) => void) => (
+  <input
+    type="number" min={0} step={0.1}
+    value={value ?? ''}
+    placeholder={placeholder}
+    onChange={(e) => onChange(e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0))}
+    className="mt-1 w-full bg-[#111] border border-[#333] rounded px-2 py-1 text-[10px] text-white font-mono outline-none focus:border-[var(--accent)]"
+  />
+);
+
+/**
+ * Project-wide music beds: each one plays under a run of scenes, trimmed by in/out offsets into the file.
+ */
+export const MusicBedPanel: React.FC<Props> = ({ beds, frames, onChange, onClose }) => {
+  const update = (id: string, changes: Partial<MusicBed>) => onChange(beds.map(b => b.id === id ? { ...b, ...changes } : b));
+
+  const spanSeconds = (bed: MusicBed) => {
+    const first = frames.findIndex(f => f.id === bed.startFrameId);
+    const last = frames.findIndex(f => f.id === bed.endFrameId);
+    if (first === -1) return 0;
+    const [from, to] = last === -1 ? [first, frames.length - 1] : [Math.min(first, last), Math.max(first, last)];
+    return frames.slice(from, to + 1).reduce((sum, f) => sum + (f.duration || 4), 0);
+  };
+
+  const handleAdd = (clip: AudioClip) => {
+    if (frames.length === 0) return;
+    onChange([...beds, {
+      ...clip,
+      id: `bed_${Date.now()}`,
+      startFrameId: frames[0].id,
+      endFrameId: frames[frames.length - 1].id
+    }]);
+  };
+
+  const sceneSelect = (value: string, onSelect: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(e.target.value)}
+      className="mt-1 w-full bg-[#111] border border-[#333] rounded px-2 py-1 text-[10px] text-white outline-none focus:border-[var(--accent)]"
+    >
+      {!frames.some(f => f.id === value) && <option value={value}>Deleted scene</option>}
+      {frames.map((f, i) => <option key={f.id} value={f.id}>{i + 1}. {f.title}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="absolute bottom-full right-4 mb-2 w-80 bg-[#1e1e1e] border border-[#333] rounded-lg shadow-2xl z-50 flex flex-col max-h-[60vh] animate-fade-in">
+      <div className="px-3 py-2 border-b border-[#333] flex items-center gap-2">
+        <Music size={13} className="text-violet-400"/>
+        <span className="text-[10px] font-bold text-gray-200 uppercase tracking-widest flex-1">Music Beds</span>
+        <button onClick={onClose} className="p-0.5 text-gray-500 hover:text-white"><X size={14}/></button>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar p-3 space-y-3">
+        {beds.map(bed => {
+          const span = spanSeconds(bed);
+          const available = (bed.outOffset && bed.outOffset > (bed.inOffset || 0) ? bed.outOffset : bed.duration) - (bed.inOffset || 0);
+          return (
+            <div key={bed.id} className="space-y-2 pb-3 border-b border-[#333]">
+              <AudioClipSlot
+                clip={bed}
+                emptyLabel="Attach music"
+                onAttach={(clip) => update(bed.id, { ...clip, volume: bed.volume, inOffset: undefined, outOffset: undefined })}
+                onVolumeChange={(volume) => update(bed.id, { volume })}
+                onRemove={() => onChange(beds.filter(b => b.id !== bed.id))}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-[9px] text-gray-500 uppercase font-bold">From scene{sceneSelect(bed.startFrameId, id => update(bed.id, { startFrameId: id }))}</label>
+                <label className="text-[9px] text-gray-500 uppercase font-bold">To scene{sceneSelect(bed.endFrameId, id => update(bed.id, { endFrameId: id }))}</label>
+                <label className="text-[9px] text-gray-500 uppercase font-bold">In (sec){offsetInput(bed.inOffset, '0', v => update(bed.id, { inOffset: v }))}</label>
+                <label className="text-[9px] text-gray-500 uppercase font-bold">Out (sec){offsetInput(bed.outOffset, bed.duration.toFixed(1), v => update(bed.id, { outOffset: v }))}</label>
+              </div>
+              {span === 0 ? (
+                <div className="text-[9px] text-red-400 flex items-center gap-1"><AlertTriangle size={10}/> Its first scene was deleted; the bed is left out of exports.</div>
+              ) : available > 0 && available < span ? (
+                <div className="text-[9px] text-yellow-400 flex items-center gap-1"><AlertTriangle size={10}/> Plays {formatAudioDuration(available)} of a {formatAudioDuration(span)} span, then silence.</div>
+              ) : (
+                <div className="text-[9px] text-gray-500">Covers {formatAudioDuration(span)}; cut at the last scene.</div>
+              )}
+            </div>
+          );
+        })}
+
+        {frames.length === 0
+          ? <p className="text-[10px] text-gray-500 text-center py-3">Add scenes before laying music.</p>
+          : <AudioClipSlot emptyLabel="Add music bed" onAttach={handleAdd} onVolumeChange={() => {}} onRemove={() => {}} />}
+        <div className="text-[9px] text-gray-500">Beds go on A2 in FCPXML, EDL and the Resolve script; scene voice-overs go on A1.</div>
+      </div>
+    </div>
+  );
+};
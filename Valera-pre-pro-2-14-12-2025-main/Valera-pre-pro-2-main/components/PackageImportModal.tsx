@@ -0,0 +1,83 @@
+import React from 'react';
+import { PackageImportResult } from '../services/packageService';
+import { X, PackageOpen, FolderPlus, GitMerge, AlertTriangle, CheckCircle, FileWarning } from 'lucide-react';
+
+interface Props {
+  fileName: string;
+  result: PackageImportResult;
+  onOpenAsNew: () => void;
+  onMerge: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Shows what was read from a Master Package and lets the user choose how to load it.
+ */
+export const PackageImportModal: React.FC<Props> = ({ fileName, result, onOpenAsNew, onMerge, onClose }) => {
+  const { project, report } = result;
+  const hasProblems = report.missing.length > 0 || report.corrupted.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-[#1e1e1e] border border-[#333] rounded-xl shadow-2xl flex flex-col max-h-[85vh]">
+          <div className="px-4 py-3 border-b border-[#333] flex items-center gap-2">
+              <PackageOpen size={16} className="text-[var(--accent)]"/>
+              <h3 className="text-xs font-bold text-gray-200 uppercase tracking-widest flex-1 truncate">Open Package: {fileName}</h3>
+              <button onClick={onClose} className="p-1 text-gray-500 hover:text-white"><X size={16}/></button>
+          </div>
+
+          <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+              {/* Summary */}
+              <div className="grid grid-cols-3 gap-2 text-center">
+                  <div className="bg-[#111] rounded-lg border border-[#333] p-2">
+                      <div className="text-lg font-bold text-white">{project.timeline.length}</div>
+                      <div className="text-[9px] font-bold uppercase text-gray-500">Scenes</div>
+                  </div>
+                  <div className="bg-[#111] rounded-lg border border-[#333] p-2">
+                      <div className="text-lg font-bold text-white">{project.references.length}</div>
+                      <div className="text-[9px] font-bold uppercase text-gray-500">Assets</div>
+                  </div>
+                  <div className="bg-[#111] rounded-lg border border-[#333] p-2">
+                      <div className="text-lg font-bold text-white">{report.restored}</div>
+                      <div className="text-[9px] font-bold uppercase text-gray-500">Images</div>
+                  </div>
+              </div>
+
+              {/* Report */}
+              {!hasProblems && (
+                  <div className="flex items-center gap-2 text-[11px] text-green-400"><CheckCircle size={14}/> All images were re-attached.</div>
+              )}
+              {report.missing.length > 0 && (
+                  <div className="space-y-1">
+                      <div className="flex items-center gap-2 text-[11px] font-bold text-yellow-400"><AlertTriangle size={14}/> Missing ({report.missing.length})</div>
+                      <ul className="text-[10px] text-gray-400 pl-6 list-disc max-h-32 overflow-y-auto custom-scrollbar">
+                          {report.missing.map((m, i) => <li key={i}>{m}</li>)}
+                      </ul>
+                  </div>
+              )}
+              {report.corrupted.length > 0 && (
+                  <div className="space-y-1">
+                      <div className="flex items-center gap-2 text-[11px] font-bold text-red-400"><FileWarning size={14}/> Corrupted ({report.corrupted.length})</div>
+                      <ul className="text-[10px] text-gray-400 pl-6 list-disc max-h-32 overflow-y-auto custom-scrollbar">
+                          {report.corrupted.map((m, i) => <li key={i}>{m}</li>)}
+                      </ul>
+                  </div>
+              )}
+              {report.warnings.map((w, i) => (
+                  <p key={i} className="text-[10px] text-gray-500">{w}</p>
+              ))}
+          </div>
+
+          {/* Actions */}
+          <div className="px-4 py-3 border-t border-[#333] grid grid-cols-2 gap-2">
+              <button onClick={onOpenAsNew} className="py-2.5 bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2">
+                  <FolderPlus size={14}/> Open as New Project
+              </button>
+              <button onClick={onMerge} className="py-2.5 bg-[#222] hover:bg-[#333] text-gray-300 hover:text-white border border-[#333] rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2">
+                  <GitMerge size={14}/> Merge into Current
+              </button>
+          </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState, memo } from 'react';
+import { ProjectSummary } from '../types';
+import { FolderOpen, Plus, Copy, Trash2, Pencil, Check, X, Film, Users, Clock, Image as ImageIcon } from 'lucide-react';
+
+interface Props {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatModified = (ts: number) => {
+    const diff = Date.now() - ts;
+    if (diff < 60 * 1000) return 'Just now';
+    if (diff < 60 * 60 * 1000) return `${Math.floor(diff / 60000)} min ago`;
+    if (diff < 24 * 60 * 60 * 1000) return `${Math.floor(diff / 3600000)} h ago`;
+    return new Date(ts).toLocaleDateString();
+};
+
+// --- PROJECT CARD COMPONENT ---
+const ProjectCard = memo(({
+    project,
+    isActive,
+    onOpen,
+    onRename,
+    onDuplicate,
+    onDelete
+}: {
+    project: ProjectSummary;
+    isActive: boolean;
+    onOpen: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+}) => {
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [draftName, setDraftName] = useState(project.name);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+
+    const commitRename = () => {
+        const name = draftName.trim();
+        if (name && name !== project.name) onRename(project.id, name);
+        setIsRenaming(false);
+    };
+
+    return (
+        <div className={`bg-[#252525] rounded-lg border shadow-sm overflow-hidden flex flex-col transition-all group ${isActive ? 'border-[var(--accent)] ring-1 ring-[var(--accent)]' : 'border-[#333] hover:border-[#444]'}`}>
+            {/* Thumbnail */}
+            <button onClick={() => onOpen(project.id)} className="relative aspect-video bg-[#111] flex items-center justify-center overflow-hidden">
+                {project.thumbnail
+                    ? <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover group-hover:scale-105 transition-transform" />
+                    : <ImageIcon size={28} className="text-gray-700" />}
+                {isActive && (
+                    <span className="absolute top-2 left-2 px-1.5 py-0.5 rounded-sm text-[9px] font-bold uppercase bg-[var(--accent)] text-[var(--accent-text)]">Open</span>
+                )}
+            </button>
+
+            {/* Name */}
+            <div className="px-3 pt-2 flex items-center gap-1 min-h-[32px]">
+                {isRenaming ? (
+                    <>
+                        <input
+                            autoFocus
+                            value={draftName}
+                            onChange={(e) => setDraftName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setIsRenaming(false); }}
+                            className="bg-[#111] border border-[#333] rounded px-2 py-1 text-xs font-bold text-gray-200 focus:outline-none focus:border-[var(--accent)] w-full"
+                        />
+                        <button onClick={commitRename} className="p-1 text-green-400 hover:bg-[#333] rounded"><Check size={12}/></button>
+                        <button onClick={() => { setDraftName(project.name); setIsRenaming(false); }} className="p-1 text-gray-500 hover:bg-[#333] rounded"><X size={12}/></button>
+                    </>
+                ) : (
+                    <span className="text-xs font-bold text-gray-200 truncate flex-1" title={project.name}>{project.name}</span>
+                )}
+            </div>
+
+            {/* Metadata */}
+            <div className="px-3 pb-2 flex items-center gap-3 text-[9px] text-gray-500 font-medium">
+                <span className="flex items-center gap-1"><Film size={10}/> {project.sceneCount} scenes</span>
+                <span className="flex items-center gap-1"><Users size={10}/> {project.assetCount} assets</span>
+                <span className="flex items-center gap-1 ml-auto"><Clock size={10}/> {formatModified(project.updatedAt)}</span>
+            </div>
+
+            {/* Actions */}
+            <div className="border-t border-[#333] flex items-center justify-between px-2 py-1.5 bg-[#2a2a2a]">
+                <button onClick={() => onOpen(project.id)} className="px-2 py-1 text-[10px] font-bold uppercase text-[var(--accent)] hover:bg-[#333] rounded flex items-center gap-1">
+                    <FolderOpen size={12}/> Open
+                </button>
+                <div className="flex items-center gap-1">
+                    <button onClick={() => { setDraftName(project.name); setIsRenaming(true); }} className="p-1.5 text-gray-500 hover:text-white hover:bg-[#333] rounded-md" title="Rename">
+                        <Pencil size={12}/>
+                    </button>
+                    <button onClick={() => onDuplicate(project.id)} className="p-1.5 text-gray-500 hover:text-white hover:bg-[#333] rounded-md" title="Duplicate">
+                        <Copy size={12}/>
+                    </button>
+                    <button
+                        onClick={() => {
+                            if (confirmDelete) {
+                                onDelete(project.id);
+                            } else {
+                                setConfirmDelete(true);
+                                setTimeout(() => setConfirmDelete(false), 3000);
+                            }
+                        }}
+                        className={`p-1.5 rounded-md transition-all flex items-center justify-center ${confirmDelete ? 'bg-red-500 text-white px-2' : 'text-gray-500 hover:text-red-400 hover:bg-[#333]'}`}
+                        title="Delete Project"
+                    >
+                        {confirmDelete ? <span className="text-[10px] font-bold">Confirm</span> : <Trash2 size={12}/>}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+});
+
+export const ProjectBrowser: React.FC<Props> = ({ projects, activeProjectId, onOpen, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = () => {
+      onCreate(newName.trim() || `Untitled Project ${projects.length + 1}`);
+      setNewName('');
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto animate-fade-in pb-32 pt-8 px-4 h-full overflow-y-auto">
+      <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-[var(--text-main)] tracking-tight">Projects</h2>
+          <div className="flex items-center gap-2 bg-[var(--bg-input)] p-1 rounded-lg border border-[var(--border-color)]">
+              <input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                  placeholder="New project name..."
+                  className="bg-transparent text-xs text-[var(--text-main)] w-48 px-2 focus:outline-none placeholder-[var(--text-muted)]"
+              />
+              <button onClick={handleCreate} className="px-3 py-1.5 bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 rounded-md text-[10px] font-bold uppercase flex items-center gap-1">
+                  <Plus size={12}/> New
+              </button>
+          </div>
+      </div>
+
+      {projects.length === 0 ? (
+          <div className="text-center text-xs text-[var(--text-muted)] py-20">No projects yet.</div>
+      ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
+              {projects.map(p => (
+                  <ProjectCard
+                      key={p.id}
+                      project={p}
+                      isActive={p.id === activeProjectId}
+                      onOpen={onOpen}
+                      onRename={onRename}
+                      onDuplicate={onDuplicate}
+                      onDelete={onDelete}
+                  />
+              ))}
+          </div>
+      )}
+    </div>
+  );
+};
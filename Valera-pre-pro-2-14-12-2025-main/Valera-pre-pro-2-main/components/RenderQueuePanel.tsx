@@ -0,0 +1,149 @@
+import React from 'react';
+import { TimelineFrame } from '../types';
+import { RenderQueueState, RenderQueueLimits, RenderJob, getRenderQueueProgress, MAX_RENDER_CONCURRENCY } from '../services/renderQueue';
+import { X, Layers, Play, Pause, Square, RefreshCw, CheckCircle, AlertTriangle, Clock, Trash2 } from 'lucide-react';
+
+interface Props {
+  queue: RenderQueueState;
+  frames: TimelineFrame[];
+  selectedFrameIds: string[];
+  limits: RenderQueueLimits;
+  providerLabel: string;
+  onLimitsChange: (limits: RenderQueueLimits) => void;
+  onEnqueue: (frameIds: string[]) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetry: (jobId?: string) => void;
+  onClearFinished: () => void;
+  onClearSelection: () => void;
+  onClose: () => void;
+}
+
+const StatusIcon = ({ job }: { job: RenderJob }) => {
+  if (job.status === 'running') return <RefreshCw size={11} className="text-[var(--accent)] animate-spin shrink-0"/>;
+  if (job.status === 'done') return <CheckCircle size={11} className="text-green-500 shrink-0"/>;
+  if (job.status === 'failed') return <AlertTriangle size={11} className="text-red-400 shrink-0"/>;
+  return <Clock size={11} className="text-gray-500 shrink-0"/>;
+};
+
+/**
+ * Batch rendering for the timeline: pick what to render, set throughput for the image provider,
+ * watch progress and retry failures one by one.
+ */
+export const RenderQueuePanel: React.FC<Props> = ({
+  queue, frames, selectedFrameIds, limits, providerLabel,
+  onLimitsChange, onEnqueue, onPause, onResume, onCancel, onRetry, onClearFinished, onClearSelection, onClose
+}) => {
+  const progress = getRenderQueueProgress(queue);
+  const renderable = frames.filter(f => f.description);
+  const missing = renderable.filter(f => !f.image);
+  const selected = renderable.filter(f => selectedFrameIds.includes(f.id));
+  const pending = progress.queued + progress.running;
+  const percent = progress.total > 0 ? Math.round(((progress.done + progress.failed) / progress.total) * 100) : 0;
+
+  const frameLabel = (frameId: string) => {
+    const index = frames.findIndex(f => f.id === frameId);
+    return index === -1 ? 'Deleted scene' : `${index + 1}. ${frames[index].title}`;
+  };
+
+  const enqueueButton = (label: string, list: TimelineFrame[]) => (
+    <button
+      onClick={() => onEnqueue(list.map(f => f.id))}
+      disabled={list.length === 0}
+      className="flex-1 py-1.5 bg-[#222] hover:bg-[var(--accent)] hover:text-[var(--accent-text)] text-gray-300 border border-[#333] rounded text-[10px] font-bold uppercase disabled:opacity-40 disabled:hover:bg-[#222] disabled:hover:text-gray-300"
+    >
+      {label} ({list.length})
+    </button>
+  );
+
+  return (
+    <div className="absolute bottom-full right-4 mb-2 w-80 bg-[#1e1e1e] border border-[#333] rounded-lg shadow-2xl z-50 flex flex-col max-h-[60vh] animate-fade-in">
+      <div className="px-3 py-2 border-b border-[#333] flex items-center gap-2">
+        <Layers size={13} className="text-[var(--accent)]"/>
+        <span className="text-[10px] font-bold text-gray-200 uppercase tracking-widest flex-1">Render Queue</span>
+        <button onClick={onClose} className="p-0.5 text-gray-500 hover:text-white"><X size={14}/></button>
+      </div>
+
+      {/* Enqueue */}
+      <div className="p-3 border-b border-[#333] space-y-2">
+        <div className="flex gap-1.5">
+          {enqueueButton('All', renderable)}
+          {enqueueButton('Selected', selected)}
+          {enqueueButton('Missing', missing)}
+        </div>
+        <div className="text-[9px] text-gray-500">
+          Ctrl/Shift-click scenes in the timeline to select them.
+          {selectedFrameIds.length > 0 && <button onClick={onClearSelection} className="ml-1 text-[var(--accent)] hover:underline">Clear selection</button>}
+        </div>
+      </div>
+
+      {/* Throughput */}
+      <div className="p-3 border-b border-[#333] grid grid-cols-2 gap-2">
+        <label className="text-[9px] text-gray-500 uppercase font-bold">
+          Parallel
+          <input
+            type="number" min={1} max={MAX_RENDER_CONCURRENCY}
+            value={limits.concurrency}
+            onChange={(e) => onLimitsChange({ ...limits, concurrency: parseInt(e.target.value) || 1 })}
+            className="mt-1 w-full bg-[#111] border border-[#333] rounded px-2 py-1 text-xs text-white outline-none focus:border-[var(--accent)]"
+          />
+        </label>
+        <label className="text-[9px] text-gray-500 uppercase font-bold">
+          Per minute (0 = ∞)
+          <input
+            type="number" min={0}
+            value={limits.requestsPerMinute}
+            onChange={(e) => onLimitsChange({ ...limits, requestsPerMinute: parseInt(e.target.value) || 0 })}
+            className="mt-1 w-full bg-[#111] border border-[#333] rounded px-2 py-1 text-xs text-white outline-none focus:border-[var(--accent)]"
+          />
+        </label>
+        <div className="col-span-2 text-[9px] text-gray-500">Limits apply to {providerLabel}.</div>
+      </div>
+
+      {/* Progress */}
+      {progress.total > 0 && (
+        <div className="p-3 border-b border-[#333] space-y-2">
+          <div className="flex justify-between text-[9px] font-bold uppercase text-gray-400">
+            <span>{progress.done}/{progress.total} rendered{progress.failed > 0 && <span className="text-red-400"> · {progress.failed} failed</span>}</span>
+            <span>{queue.paused && pending > 0 ? 'Paused' : `${percent}%`}</span>
+          </div>
+          <div className="h-1.5 bg-[#111] rounded-full overflow-hidden">
+            <div className="h-full bg-[var(--accent)] transition-all" style={{ width: `${percent}%` }}></div>
+          </div>
+          <div className="flex gap-1.5">
+            {pending > 0 && (queue.paused
+              ? <button onClick={onResume} className="flex-1 py-1 bg-[var(--accent)] text-[var(--accent-text)] rounded text-[10px] font-bold uppercase flex items-center justify-center gap-1"><Play size={10}/> Resume</button>
+              : <button onClick={onPause} className="flex-1 py-1 bg-[#222] text-gray-300 border border-[#333] rounded text-[10px] font-bold uppercase flex items-center justify-center gap-1 hover:text-white"><Pause size={10}/> Pause</button>)}
+            {progress.failed > 0 && (
+              <button onClick={() => onRetry()} className="flex-1 py-1 bg-[#222] text-gray-300 border border-[#333] rounded text-[10px] font-bold uppercase flex items-center justify-center gap-1 hover:text-white"><RefreshCw size={10}/> Retry failed</button>
+            )}
+            {pending > 0 ? (
+              <button onClick={onCancel} className="px-2 py-1 text-red-400 border border-red-500/30 hover:bg-red-500/10 rounded text-[10px] font-bold uppercase flex items-center gap-1"><Square size={10}/> Cancel</button>
+            ) : (
+              <button onClick={onClearFinished} className="px-2 py-1 text-gray-500 hover:text-white rounded text-[10px] font-bold uppercase flex items-center gap-1"><Trash2 size={10}/> Clear</button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Jobs */}
+      <div className="overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {progress.total === 0 && <p className="text-[10px] text-gray-500 text-center py-3">Queue is empty.</p>}
+        {queue.jobs.map(job => (
+          <div key={job.id} className="px-2 py-1 rounded bg-[#111] text-[10px]">
+            <div className="flex items-center gap-2">
+              <StatusIcon job={job}/>
+              <span className="flex-1 truncate text-gray-300">{frameLabel(job.frameId)}</span>
+              {job.attempts > 1 && <span className="text-[8px] text-gray-600">×{job.attempts}</span>}
+              {job.status === 'failed' && (
+                <button onClick={() => onRetry(job.id)} className="p-0.5 text-gray-500 hover:text-[var(--accent)]" title="Retry"><RefreshCw size={10}/></button>
+              )}
+            </div>
+            {job.error && <div className="text-[9px] text-red-400/80 mt-0.5 pl-5 break-words line-clamp-2" title={job.error}>{job.error}</div>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
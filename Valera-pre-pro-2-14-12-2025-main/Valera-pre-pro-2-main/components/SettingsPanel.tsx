@@ -2,8 +2,8 @@
 import React, { useEffect, useState } from 'react';
 import { AppSettings } from '../types';
 import { THEME_PRESETS, APP_FONTS, MODEL_IMAGE_FLASH, MODEL_IMAGE_PRO, OPENROUTER_IMAGE_MODELS } from '../constants';
-import { Palette, Type, Cpu, Zap, Star, CheckCircle, Cloud, MessageSquare, ChevronDown, Check, LogOut, Key, Globe, Server, Save } from 'lucide-react';
-import { clearApiKey, hasValidKey, saveKey, setActiveProvider as setGlobalProvider, getStoredKey, getApiSettings, ApiProvider } from '../services/geminiService';
+import { Palette, Type, Cpu, Zap, Star, CheckCircle, Cloud, MessageSquare, ChevronDown, Check, LogOut, Key, Globe, Server, Save, HardDrive } from 'lucide-react';
+import { clearApiKey, hasValidKey, saveKey, setActiveProvider as setGlobalProvider, getStoredKey, getApiSettings, ApiProvider, getCustomProviderConfig, saveCustomProviderConfig, CustomProviderConfig } from '../services/aiProvider';
 
 interface Props {
   settings: AppSettings;
@@ -23,6 +23,7 @@ export const SettingsPanel: React.FC<Props> = ({ settings, onUpdate, onConnectDr
   const [googleKey, setGoogleKey] = useState('');
   const [orKey, setOrKey] = useState('');
   const [activeProv, setActiveProv] = useState<ApiProvider>('google');
+  const [customConfig, setCustomConfig] = useState<CustomProviderConfig>(getCustomProviderConfig());
 
   // Load provider keys on mount
   useEffect(() => {
@@ -43,6 +44,10 @@ export const SettingsPanel: React.FC<Props> = ({ settings, onUpdate, onConnectDr
           if (settings.imageModel !== MODEL_IMAGE_FLASH && settings.imageModel !== MODEL_IMAGE_PRO) {
               update('imageModel', MODEL_IMAGE_FLASH);
           }
+      } else if (provider === 'custom') {
+          // Images go to the custom endpoint too; Google model ids would route to Google (hybrid).
+          // Empty until an image model is configured, image calls then fail with a hint to set one
+          update('imageModel', customConfig.imageModel);
       } else {
           // If current is not in OpenRouter list (and not a hybrid one), default to Flux
           const isValid = OPENROUTER_IMAGE_MODELS.some(m => m.value === settings.imageModel);
@@ -52,9 +57,15 @@ export const SettingsPanel: React.FC<Props> = ({ settings, onUpdate, onConnectDr
       }
   };
 
+  const updateCustom = (key: keyof CustomProviderConfig, value: string) => {
+      setCustomConfig(prev => ({ ...prev, [key]: value }));
+      if (key === 'imageModel' && activeProv === 'custom') update('imageModel', value);
+  };
+
   const handleSaveApi = () => {
       saveKey('google', googleKey);
       saveKey('openrouter', orKey);
+      saveCustomProviderConfig(customConfig);
       setGlobalProvider(activeProv);
       window.location.reload();
   };
@@ -127,7 +138,7 @@ export const SettingsPanel: React.FC<Props> = ({ settings, onUpdate, onConnectDr
               {/* Active Provider Toggle */}
               <div className="space-y-2">
                   <label className="text-[10px] font-bold text-[var(--text-muted)] uppercase">Active Provider</label>
-                  <div className="grid grid-cols-2 gap-2">
+                  <div className="grid grid-cols-3 gap-2">
                       <button 
                           onClick={() => handleProviderSwitch('google')}
                           className={`p-3 rounded-lg border text-left transition-all relative overflow-hidden
@@ -146,6 +157,15 @@ export const SettingsPanel: React.FC<Props> = ({ settings, onUpdate, onConnectDr
                           <div className="text-[9px] opacity-70">Proxy. Works globally.</div>
                           {activeProv === 'openrouter' && <div className="absolute top-2 right-2 w-2 h-2 bg-purple-500 rounded-full shadow-[0_0_5px_purple]"></div>}
                       </button>
+                      <button 
+                          onClick={() => handleProviderSwitch('custom')}
+                          className={`p-3 rounded-lg border text-left transition-all relative overflow-hidden
+                          ${activeProv === 'custom' ? 'bg-emerald-500/10 border-emerald-500 text-emerald-400' : 'bg-[var(--bg-input)] border-[var(--border-color)] text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+                      >
+                          <div className="flex items-center gap-2 mb-1"><HardDrive size={14}/> <span className="font-bold text-xs">Custom / Local</span></div>
+                          <div className="text-[9px] opacity-70">OpenAI-compatible URL. Works offline.</div>
+                          {activeProv === 'custom' && <div className="absolute top-2 right-2 w-2 h-2 bg-emerald-500 rounded-full shadow-[0_0_5px_green]"></div>}
+                      </button>
                   </div>
               </div>
 
@@ -183,6 +203,36 @@ export const SettingsPanel: React.FC<Props> = ({ settings, onUpdate, onConnectDr
                   </div>
               </div>
 
+              {/* Custom Endpoint */}
+              <div className="space-y-2">
+                  <label className="text-[10px] font-bold text-[var(--text-muted)] uppercase flex items-center gap-2">
+                      <HardDrive size={12}/> Custom Endpoint (llama.cpp, Ollama, ComfyUI bridge)
+                  </label>
+                  <input 
+                      type="text" 
+                      value={customConfig.baseUrl}
+                      onChange={(e) => updateCustom('baseUrl', e.target.value)}
+                      placeholder="http://localhost:11434/v1"
+                      className="w-full bg-[var(--bg-input)] border border-[var(--border-color)] rounded-lg px-3 py-2.5 text-xs text-[var(--text-main)] focus:border-emerald-500 focus:outline-none transition-colors"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                      <input 
+                          type="text" 
+                          value={customConfig.chatModel}
+                          onChange={(e) => updateCustom('chatModel', e.target.value)}
+                          placeholder="Chat model (e.g. llama3.1:8b)"
+                          className="w-full bg-[var(--bg-input)] border border-[var(--border-color)] rounded-lg px-3 py-2 text-xs text-[var(--text-main)] focus:border-emerald-500 focus:outline-none transition-colors"
+                      />
+                      <input 
+                          type="password" 
+                          value={customConfig.apiKey}
+                          onChange={(e) => updateCustom('apiKey', e.target.value)}
+                          placeholder="API key (optional)"
+                          className="w-full bg-[var(--bg-input)] border border-[var(--border-color)] rounded-lg px-3 py-2 text-xs text-[var(--text-main)] focus:border-emerald-500 focus:outline-none transition-colors"
+                      />
+                  </div>
+              </div>
+
               {/* Actions */}
               <div className="flex justify-end gap-3 pt-2">
                   {hasValidKey() && (
@@ -252,6 +302,24 @@ export const SettingsPanel: React.FC<Props> = ({ settings, onUpdate, onConnectDr
                   </div>
               )}
 
+              {activeProv === 'custom' && (
+                  <div className="space-y-2">
+                      <label className="text-[10px] font-bold text-[var(--text-muted)] uppercase flex items-center gap-2">
+                          <HardDrive size={12}/> Custom Image Model
+                      </label>
+                      <input 
+                          type="text" 
+                          value={customConfig.imageModel}
+                          onChange={(e) => updateCustom('imageModel', e.target.value)}
+                          placeholder="e.g. sdxl-turbo (required for image generation)"
+                          className="w-full bg-[var(--bg-input)] border border-[var(--border-color)] rounded-lg px-3 py-2 text-xs text-[var(--text-main)] focus:border-emerald-500 focus:outline-none transition-colors"
+                      />
+                      <p className="text-[9px] text-[var(--text-muted)] leading-relaxed">
+                          Sent to <code>/images/generations</code> on the custom endpoint. Reference images are not supported there.
+                      </p>
+                  </div>
+              )}
+
           </div>
       </section>
 
@@ -0,0 +1,144 @@
+import React, { useState, useMemo, memo } from 'react';
+import { ProjectData, ProjectSnapshot } from '../types';
+import { diffProjects, isEmptyDiff, ProjectDiff } from '../services/snapshotService';
+import { X, History, Bookmark, Bot, RotateCcw, Trash2, Plus, Check } from 'lucide-react';
+
+interface Props {
+  snapshots: ProjectSnapshot[];
+  current: ProjectData;
+  onCreate: (name: string) => void;
+  onRestore: (snapshot: ProjectSnapshot) => void;
+  onDelete: (snapshotId: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString([], { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const DiffList = ({ label, items, className }: { label: string, items: string[], className: string }) => {
+  if (items.length === 0) return null;
+  return (
+    <div className="text-[10px] leading-snug">
+      <span className={`font-bold ${className}`}>{label} ({items.length}): </span>
+      <span className="text-gray-400">{items.slice(0, 4).join(', ')}{items.length > 4 ? ` +${items.length - 4}` : ''}</span>
+    </div>
+  );
+};
+
+/**
+ * Diff is "since the snapshot": restoring undoes exactly these changes.
+ */
+const DiffSummary = ({ diff }: { diff: ProjectDiff }) => {
+  if (isEmptyDiff(diff)) return <div className="text-[10px] text-gray-500">Identical to the current project.</div>;
+  return (
+    <div className="space-y-0.5">
+      <DiffList label="Scenes added since" items={diff.scenesAdded} className="text-green-400" />
+      <DiffList label="Scenes removed since" items={diff.scenesRemoved} className="text-red-400" />
+      <DiffList label="Scenes edited" items={diff.scenesChanged} className="text-yellow-400" />
+      <DiffList label="Assets added since" items={diff.assetsAdded} className="text-green-400" />
+      <DiffList label="Assets removed since" items={diff.assetsRemoved} className="text-red-400" />
+      <DiffList label="Assets edited" items={diff.assetsChanged} className="text-yellow-400" />
+    </div>
+  );
+};
+
+const SnapshotRow = memo(({ snapshot, current, onRestore, onDelete }: {
+  snapshot: ProjectSnapshot,
+  current: ProjectData,
+  onRestore: (snapshot: ProjectSnapshot) => void,
+  onDelete: (snapshotId: string) => void
+}) => {
+  const [confirm, setConfirm] = useState<'restore' | 'delete' | null>(null);
+  const diff = useMemo(() => diffProjects(snapshot.data, current), [snapshot, current]);
+  const isAuto = snapshot.kind === 'auto';
+
+  return (
+    <div className="relative pl-6 pb-4">
+      <div className="absolute left-[7px] top-0 bottom-0 w-px bg-[#333]"></div>
+      <div className={`absolute left-0 top-1 w-[15px] h-[15px] rounded-full border-2 flex items-center justify-center ${isAuto ? 'border-[#444] bg-[#1e1e1e]' : 'border-[var(--accent)] bg-[var(--accent)]/20'}`}></div>
+
+      <div className="bg-[#111] border border-[#333] rounded-lg p-3 space-y-2">
+        <div className="flex items-start gap-2">
+          {isAuto ? <Bot size={13} className="text-gray-500 mt-0.5 shrink-0"/> : <Bookmark size={13} className="text-[var(--accent)] mt-0.5 shrink-0"/>}
+          <div className="flex-1 min-w-0">
+            <div className="text-xs font-bold text-gray-200 truncate" title={snapshot.name}>{snapshot.name}</div>
+            <div className="text-[9px] text-gray-500 uppercase font-bold">
+              {formatTime(snapshot.createdAt)} · {isAuto ? 'Auto' : 'Manual'} · {snapshot.data.timeline.length} scenes · {snapshot.data.references.length} assets
+            </div>
+          </div>
+        </div>
+
+        <DiffSummary diff={diff} />
+
+        <div className="flex gap-2 pt-1">
+          {confirm === 'restore' ? (
+            <button onClick={() => { setConfirm(null); onRestore(snapshot); }} className="flex-1 py-1.5 bg-[var(--accent)] text-[var(--accent-text)] rounded text-[10px] font-bold uppercase flex items-center justify-center gap-1.5">
+              <Check size={12}/> Confirm Restore
+            </button>
+          ) : (
+            <button onClick={() => setConfirm('restore')} className="flex-1 py-1.5 bg-[#222] hover:bg-[#333] text-gray-300 hover:text-white border border-[#333] rounded text-[10px] font-bold uppercase flex items-center justify-center gap-1.5">
+              <RotateCcw size={12}/> Restore
+            </button>
+          )}
+          {confirm === 'delete' ? (
+            <button onClick={() => { setConfirm(null); onDelete(snapshot.id); }} className="px-3 py-1.5 bg-red-500/20 text-red-400 border border-red-500/40 rounded text-[10px] font-bold uppercase">
+              Delete?
+            </button>
+          ) : (
+            <button onClick={() => setConfirm('delete')} className="px-2 py-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded" title="Delete Snapshot">
+              <Trash2 size={12}/>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Snapshot timeline of the active project: take a named snapshot, inspect what changed since each one, restore.
+ */
+export const SnapshotPanel: React.FC<Props> = ({ snapshots, current, onCreate, onRestore, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+
+  const handleCreate = () => {
+    onCreate(name);
+    setName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-[#1e1e1e] border border-[#333] rounded-xl shadow-2xl flex flex-col max-h-[85vh]">
+          <div className="px-4 py-3 border-b border-[#333] flex items-center gap-2">
+              <History size={16} className="text-[var(--accent)]"/>
+              <h3 className="text-xs font-bold text-gray-200 uppercase tracking-widest flex-1 truncate">Snapshots: {current.meta.appName}</h3>
+              <button onClick={onClose} className="p-1 text-gray-500 hover:text-white"><X size={16}/></button>
+          </div>
+
+          {/* New Snapshot */}
+          <div className="px-4 py-3 border-b border-[#333] flex gap-2">
+              <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                  placeholder="Snapshot name, e.g. Before client review"
+                  className="flex-1 bg-[#111] border border-[#333] rounded-lg px-3 py-2 text-xs text-white outline-none focus:border-[var(--accent)]"
+              />
+              <button onClick={handleCreate} className="px-3 py-2 bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 rounded-lg text-[10px] font-bold uppercase flex items-center gap-1.5">
+                  <Plus size={14}/> Snapshot
+              </button>
+          </div>
+
+          {/* Timeline */}
+          <div className="p-4 overflow-y-auto custom-scrollbar">
+              {snapshots.length === 0 ? (
+                  <p className="text-[11px] text-gray-500 text-center py-6">No snapshots yet. Auto snapshots are taken before the director clears or reformats the project.</p>
+              ) : (
+                  snapshots.map(snap => (
+                      <SnapshotRow key={snap.id} snapshot={snap} current={current} onRestore={onRestore} onDelete={onDelete} />
+                  ))
+              )}
+          </div>
+      </div>
+    </div>
+  );
+};
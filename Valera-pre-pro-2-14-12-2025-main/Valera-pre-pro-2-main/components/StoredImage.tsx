@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+import { getCachedImageUrl, isImageRef, resolveImageUrl } from '../services/imageStore';
+
+/**
+ * Resolves an image source (blob-store reference, data URL or remote URL) to something <img> can show.
+ * Returns undefined while a reference is still being read from IndexedDB.
+ */
+export const useImageSrc = (src?: string | null): string | undefined => {
+  const [resolved, setResolved] = useState<string | undefined>(() => getCachedImageUrl(src) || undefined);
+
+  useEffect(() => {
+    const cached = getCachedImageUrl(src);
+    setResolved(cached || undefined);
+    if (cached || !src || !isImageRef(src)) return;
+
+    let cancelled = false;
+    resolveImageUrl(src).then(url => {
+      if (!cancelled) setResolved(url || undefined);
+    });
+    return () => { cancelled = true; };
+  }, [src]);
+
+  return resolved;
+};
+
+type Props = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { src?: string | null };
+
+/**
+ * Drop-in <img> for project images stored as references.
+ */
+export const StoredImage: React.FC<Props> = ({ src, ...rest }) => {
+  const url = useImageSrc(src);
+  if (!url) return <div className={rest.className} />;
+  return <img src={url} {...rest} />;
+};
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { ProjectData, SubtitleSettings } from '../types';
+import { buildSubtitleCues, cueText, findFastCues, getSubtitleSettings, generateSRT, generateVTT, generateASS } from '../services/srtService';
+import { X, Captions, Download, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  project: ProjectData;
+  onUpdateSettings: (settings: SubtitleSettings) => void;
+  onExport: (blob: Blob, fileName: string) => void;
+  onClose: () => void;
+}
+
+const FORMATS = [
+  { ext: 'srt', label: 'SRT', mime: 'application/x-subrip', generate: generateSRT },
+  { ext: 'vtt', label: 'WebVTT', mime: 'text/vtt', generate: generateVTT },
+  { ext: 'ass', label: 'ASS (styled)', mime: 'text/x-ssa', generate: generateASS }
+];
+
+/**
+ * Subtitle export with the cue rules (line length, reading speed, speaker labels) saved on the project,
+ * so the animatic player and the video render use the same ones.
+ */
+export const SubtitleExportModal: React.FC<Props> = ({ project, onUpdateSettings, onExport, onClose }) => {
+  const settings = getSubtitleSettings(project);
+  const fps = project.timelineSettings.fps || 24;
+  const cues = useMemo(() => buildSubtitleCues(project), [project]);
+  const fastCues = useMemo(() => findFastCues(cues, settings, fps), [cues, settings.maxCharsPerSecond, fps]);
+
+  const set = <K extends keyof SubtitleSettings>(key: K, value: SubtitleSettings[K]) => onUpdateSettings({ ...settings, [key]: value });
+
+  const handleExport = (format: typeof FORMATS[number]) => {
+    const blob = new Blob([format.generate(project)], { type: `${format.mime};charset=utf-8` });
+    onExport(blob, `Valera_Subtitles_${new Date().toISOString().slice(0, 10)}.${format.ext}`);
+  };
+
+  const sceneNumber = (frameId: string) => project.timeline.findIndex(f => f.id === frameId) + 1;
+
+  const numberInput = (key: 'maxCharsPerLine' | 'maxCharsPerSecond', label: string, min: number, max: number) => (
+    <label className="text-[9px] text-gray-500 uppercase font-bold">{label}
+        <input
+            type="number" min={min} max={max}
+            value={settings[key]}
+            onChange={(e) => set(key, Math.min(max, Math.max(min, parseInt(e.target.value) || min)))}
+            className="mt-1 w-full bg-[#111] border border-[#333] rounded px-2 py-1 text-[10px] text-white outline-none focus:border-[var(--accent)]"
+        />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-md bg-[#1e1e1e] border border-[#333] rounded-xl shadow-2xl flex flex-col max-h-[85vh]">
+          <div className="px-4 py-3 border-b border-[#333] flex items-center gap-2">
+              <Captions size={16} className="text-[var(--accent)]"/>
+              <h3 className="text-xs font-bold text-gray-200 uppercase tracking-widest flex-1">Export Subtitles</h3>
+              <button onClick={onClose} className="p-1 text-gray-500 hover:text-white"><X size={16}/></button>
+          </div>
+
+          <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+              <div className="grid grid-cols-2 gap-2">
+                  {numberInput('maxCharsPerLine', 'Characters per line', 20, 80)}
+                  {numberInput('maxCharsPerSecond', 'Max reading speed (CPS)', 8, 40)}
+              </div>
+              <label className="flex items-center gap-2 text-[10px] text-gray-300 cursor-pointer">
+                  <input type="checkbox" checked={settings.speakerLabels} onChange={(e) => set('speakerLabels', e.target.checked)} className="accent-[var(--accent)]"/>
+                  Speaker labels from linked characters ("Name: line")
+              </label>
+
+              <p className="text-[10px] text-gray-500">
+                  {cues.length} cues, at most two lines each, timed to the frame at {fps} fps. Long dialogue is split and shares its scene's duration by length.
+              </p>
+
+              {cues.length > 0 && (
+                  <div className="bg-[#111] border border-[#333] rounded-lg p-2 max-h-32 overflow-y-auto custom-scrollbar space-y-1.5">
+                      {cues.slice(0, 20).map((cue, i) => (
+                          <div key={i} className="text-[10px] text-gray-300 whitespace-pre-line">
+                              <span className="font-mono text-gray-600 mr-1.5">{cue.start.toFixed(2)}s</span>{cueText(cue, settings.speakerLabels)}
+                          </div>
+                      ))}
+                      {cues.length > 20 && <div className="text-[9px] text-gray-600">+{cues.length - 20} more</div>}
+                  </div>
+              )}
+
+              {fastCues.length > 0 && (
+                  <p className="text-[10px] text-amber-400 flex gap-1.5">
+                      <AlertTriangle size={11} className="shrink-0 mt-0.5"/>
+                      {fastCues.length} {fastCues.length === 1 ? 'cue reads' : 'cues read'} faster than {settings.maxCharsPerSecond} CPS (scenes {[...new Set(fastCues.map(c => sceneNumber(c.frameId)))].join(', ')}). Lengthen those scenes or shorten their dialogue.
+                  </p>
+              )}
+          </div>
+
+          {/* Actions */}
+          <div className="px-4 py-3 border-t border-[#333] grid grid-cols-3 gap-2">
+              {FORMATS.map(format => (
+                  <button
+                      key={format.ext}
+                      onClick={() => handleExport(format)}
+                      disabled={cues.length === 0}
+                      className="py-2.5 bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                      <Download size={14}/> {format.label}
+                  </button>
+              ))}
+          </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { Character, TimelineFrame } from '../types';
+import { ImportedCue, cuesToFrames, retimeFramesToCues } from '../services/srtService';
+import { X, Subtitles, Check, AlertTriangle, Clock } from 'lucide-react';
+
+interface Props {
+  fileName: string;
+  cues: ImportedCue[];
+  timeline: TimelineFrame[];
+  library: Character[];
+  fps: number;
+  aspectRatio: string;
+  onApply: (timeline: TimelineFrame[], summary: string) => void;
+  onClose: () => void;
+}
+
+type Mode = 'create' | 'retime';
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+/**
+ * Preview of a subtitle import: either new scenes from the cues, or the existing scenes
+ * re-timed to the cues that match their dialogue. Nothing changes until Apply.
+ */
+export const SubtitleImportModal: React.FC<Props> = ({ fileName, cues, timeline, library, fps, aspectRatio, onApply, onClose }) => {
+  const canRetime = timeline.some(f => f.dialogue?.trim());
+  const [mode, setMode] = useState<Mode>(canRetime ? 'retime' : 'create');
+  const [sceneGap, setSceneGap] = useState(1.5);
+  const [replaceTimeline, setReplaceTimeline] = useState(false);
+
+  const created = useMemo(
+    () => mode === 'create' ? cuesToFrames(cues, library, { fps, sceneGap, aspectRatio, firstSceneNumber: replaceTimeline ? 1 : timeline.length + 1 }) : [],
+    [mode, cues, library, fps, sceneGap, aspectRatio, replaceTimeline, timeline.length]
+  );
+  const retime = useMemo(() => mode === 'retime' ? retimeFramesToCues(timeline, cues, fps) : null, [mode, timeline, cues, fps]);
+
+  const sceneNumber = (id: string) => timeline.findIndex(f => f.id === id) + 1;
+  const totalSeconds = cues.length ? cues[cues.length - 1].end : 0;
+
+  const handleApply = () => {
+    if (mode === 'create') {
+      onApply(replaceTimeline ? created : [...timeline, ...created], `Imported ${created.length} scenes from ${cues.length} cues`);
+    } else if (retime) {
+      onApply(retime.timeline, `Re-timed ${retime.retimed.length} scenes${retime.unmatchedCues.length ? `, ${retime.unmatchedCues.length} cues unmatched` : ''}${retime.drift.length ? `, ${retime.drift.length} out of sync` : ''}`);
+    }
+  };
+
+  const modeButton = (value: Mode, label: string, disabled = false) => (
+    <button
+        onClick={() => setMode(value)}
+        disabled={disabled}
+        className={`py-2 rounded-lg text-[10px] font-bold uppercase border transition-colors disabled:opacity-40 ${mode === value ? 'bg-[var(--accent)] text-[var(--accent-text)] border-[var(--accent)]' : 'bg-[#111] text-gray-400 border-[#333] hover:text-white'}`}
+    >
+        {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-[#1e1e1e] border border-[#333] rounded-xl shadow-2xl flex flex-col max-h-[85vh]">
+          <div className="px-4 py-3 border-b border-[#333] flex items-center gap-2">
+              <Subtitles size={16} className="text-[var(--accent)]"/>
+              <h3 className="text-xs font-bold text-gray-200 uppercase tracking-widest flex-1 truncate">Import Subtitles: {fileName}</h3>
+              <button onClick={onClose} className="p-1 text-gray-500 hover:text-white"><X size={16}/></button>
+          </div>
+
+          <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+              <p className="text-[10px] text-gray-500">{cues.length} cues, {formatSeconds(totalSeconds)} long. Durations are rounded to whole frames at {fps} fps.</p>
+
+              <div className="grid grid-cols-2 gap-2">
+                  {modeButton('create', 'New scenes')}
+                  {modeButton('retime', 'Re-time scenes', !canRetime)}
+              </div>
+
+              {mode === 'create' && (
+                  <div className="space-y-3">
+                      <label className="flex items-center gap-2 text-[9px] text-gray-500 uppercase font-bold">
+                          New scene after a pause of
+                          <input type="range" min={0} max={5} step={0.5} value={sceneGap} onChange={(e) => setSceneGap(parseFloat(e.target.value))} className="flex-1 accent-[var(--accent)]"/>
+                          <span className="font-mono w-16 text-right text-gray-300">{sceneGap === 0 ? 'each cue' : `${sceneGap.toFixed(1)}s`}</span>
+                      </label>
+                      {timeline.length > 0 && (
+                          <label className="flex items-center gap-2 text-[10px] text-gray-300 cursor-pointer">
+                              <input type="checkbox" checked={replaceTimeline} onChange={(e) => setReplaceTimeline(e.target.checked)} className="accent-[var(--accent)]"/>
+                              Replace the current {timeline.length} scenes (otherwise appended)
+                          </label>
+                      )}
+                      <ul className="text-[10px] text-gray-400 space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                          {created.map(f => (
+                              <li key={f.id} className="flex gap-2">
+                                  <span className="font-mono text-gray-500 w-12 shrink-0">{f.duration?.toFixed(2)}s</span>
+                                  <span className="truncate">{f.title}: {f.dialogue?.replace(/\n/g, ' / ')}</span>
+                              </li>
+                          ))}
+                      </ul>
+                  </div>
+              )}
+
+              {mode === 'retime' && retime && (
+                  <div className="space-y-3">
+                      <div className="space-y-1">
+                          <div className="flex items-center gap-2 text-[11px] font-bold text-gray-300"><Clock size={13} className="text-green-400"/> Re-timed ({retime.retimed.length})</div>
+                          <ul className="text-[10px] text-gray-400 pl-5 space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+                              {retime.retimed.map(r => (
+                                  <li key={r.frameId} className="font-mono">
+                                      Scene {sceneNumber(r.frameId)}: {r.before.toFixed(2)}s → {r.after.toFixed(2)}s <span className="text-gray-600">({r.cues === 0 ? 'lead-in' : `${r.cues} ${r.cues === 1 ? 'cue' : 'cues'}`})</span>
+                                  </li>
+                              ))}
+                          </ul>
+                      </div>
+                      {retime.drift.length > 0 && (
+                          <div className="space-y-1">
+                              <div className="flex items-center gap-2 text-[11px] font-bold text-amber-400"><AlertTriangle size={13}/> Out of sync ({retime.drift.length})</div>
+                              <p className="text-[10px] text-gray-500 pl-5">The scenes before these run longer than the recording leaves room for. Shorten them to bring the cut back onto the line.</p>
+                              <ul className="text-[10px] text-gray-400 pl-5 space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+                                  {retime.drift.map(d => (
+                                      <li key={d.frameId} className="font-mono">Scene {sceneNumber(d.frameId)}: starts {d.seconds.toFixed(2)}s after its first cue</li>
+                                  ))}
+                              </ul>
+                          </div>
+                      )}
+                      {retime.unmatchedCues.length > 0 && (
+                          <div className="space-y-1">
+                              <div className="flex items-center gap-2 text-[11px] font-bold text-amber-400"><AlertTriangle size={13}/> Unmatched cues ({retime.unmatchedCues.length})</div>
+                              <ul className="text-[10px] text-gray-400 pl-5 space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+                                  {retime.unmatchedCues.map(c => (
+                                      <li key={c.index} className="truncate"><span className="font-mono text-gray-600">#{c.index} {formatSeconds(c.start)}</span> {c.text}</li>
+                                  ))}
+                              </ul>
+                          </div>
+                      )}
+                      {retime.unmatchedFrames.length > 0 && (
+                          <p className="text-[10px] text-gray-500">
+                              No cues found for scene {retime.unmatchedFrames.map(f => sceneNumber(f.id)).join(', ')}; their durations stay as they are.
+                          </p>
+                      )}
+                  </div>
+              )}
+          </div>
+
+          {/* Actions */}
+          <div className="px-4 py-3 border-t border-[#333] grid grid-cols-2 gap-2">
+              <button
+                  onClick={handleApply}
+                  disabled={mode === 'create' ? created.length === 0 : !retime?.retimed.length}
+                  className="py-2.5 bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                  <Check size={14}/> Apply
+              </button>
+              <button onClick={onClose} className="py-2.5 bg-[#222] hover:bg-[#333] text-gray-300 hover:text-white border border-[#333] rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2">
+                  Cancel
+              </button>
+          </div>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,31 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { TimelineFrame, Character, TimelineSettings, ChatMessage, LabAssetSuggestion, TimelineSuggestion, DirectorAction, GenerationLogEntry } from '../types';
-import { enhancePrompt, generateImage, generateVoiceDirection } from '../services/geminiService';
+import React, { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+import { TimelineFrame, Character, TimelineSettings, ChatMessage, LabAssetSuggestion, TimelineSuggestion, DirectorAction, GenerationLogEntry, MusicBed, SubtitleSettings, LayerDocument } from '../types';
+import { enhancePrompt, generateImage, generateVoiceDirection, getImageProviderId, getProvider } from '../services/geminiService';
+import { RenderJob, RenderQueueLimits, enqueueFrames, updateRenderJob, retryRenderJobs, getRenderQueueLimits, saveRenderQueueLimits, rateLimitDelay, getRenderQueueProgress, getLiveRenderQueue, subscribeLiveRenderQueue, setLiveRenderQueue, openRenderQueue, settleRenderJob, renderStartTimes } from '../services/renderQueue';
 import { driveService } from '../services/driveService';
-import { Trash2, Film, Sparkles, Wand2, Image as ImageIcon, Music, Mic, Users, Eye, RefreshCw, Maximize2, MapPin, Box, CheckCircle, Clock, ChevronRight, Plus, Monitor, Settings2, Camera, User, ChevronLeft, ChevronDown, ChevronUp, SlidersHorizontal, PanelRightClose, PanelLeftClose, PanelLeftOpen, Upload, Gauge, Pencil, Play, SkipForward, SkipBack, Minimize2, Download, Scaling, ScanLine, Star, Clapperboard, Send, GripHorizontal, X, Eraser, Undo, Redo, PanelRightOpen, ArrowLeft, AlertTriangle, Layout, Video, History, Copy } from 'lucide-react';
+import { resolveImageUrl, layerDocumentFor } from '../services/imageStore';
+import { Trash2, Film, Sparkles, Wand2, Image as ImageIcon, Music, Mic, Users, Eye, RefreshCw, Maximize2, MapPin, Box, CheckCircle, Clock, ChevronRight, Plus, Monitor, Settings2, Camera, User, ChevronLeft, ChevronDown, ChevronUp, SlidersHorizontal, PanelRightClose, PanelLeftClose, PanelLeftOpen, Upload, Gauge, Pencil, Play, SkipForward, SkipBack, Minimize2, Download, Scaling, ScanLine, Star, Clapperboard, Send, GripHorizontal, X, Eraser, Undo, Redo, PanelRightOpen, ArrowLeft, AlertTriangle, Layout, Video, History, Copy, Layers } from 'lucide-react';
 import { ImageEditorModal } from './ImageEditorModal';
+import { RenderQueuePanel } from './RenderQueuePanel';
+import { MusicBedPanel } from './MusicBedPanel';
+import { AnimaticPlayer } from './AnimaticPlayer';
+import { AudioClipSlot } from './AudioClipSlot';
 import { CharacterManager } from './CharacterManager';
 import { DirectingHub } from './DirectingHub';
+import { StoredImage } from './StoredImage';
 import { ASPECT_RATIOS, CAMERA_PRESETS, MODEL_IMAGE_FLASH, MODEL_IMAGE_PRO, TIMELINE_FPS_OPTIONS, TIMELINE_RESOLUTIONS } from '../constants';
 
 interface Props {
+  projectId?: string | null; // Keys the persisted render queue
   frames: TimelineFrame[];
   characters: Character[];
   settings?: TimelineSettings;
+  subtitleSettings?: SubtitleSettings;
   onUpdate: (updated: TimelineFrame[] | ((prev: TimelineFrame[]) => TimelineFrame[])) => void;
   onUpdateSettings?: (settings: TimelineSettings) => void;
   onUpdateAssets?: (updated: Character[] | ((prev: Character[]) => Character[])) => void;
+  musicBeds?: MusicBed[];
+  onUpdateMusicBeds?: (beds: MusicBed[]) => void;
   imageModel: string;
   isDriveConnected?: boolean;
   onNotify?: (msg: string, type: 'info' | 'success') => void;
@@ -30,6 +41,7 @@ interface Props {
   directorDraft: string;
   onDirectorDraftChange: (text: string) => void;
   onHandleDirectorAction?: (action: DirectorAction) => void;
+  onBeforeDestructiveAction?: (label: string) => void; // Lets the parent snapshot the project first
   chatFontSize?: number;
   
   // Director Full Screen State (Passed from App)
@@ -151,7 +163,7 @@ const ActiveSceneEditor: React.FC<{
       }
       setIsVoiceGenerating(true);
       try {
-          const instructions = await generateVoiceDirection(frame.dialogue, frame.description || frame.title);
+          const instructions = await generateVoiceDirection(frame.dialogue, frame.description || frame.title, { type: 'frame', id: frame.id, name: frame.title });
           onUpdate(frame.id, { speechPrompt: instructions });
       } catch (e) {
           alert("Failed to generate voice instructions: " + e);
@@ -200,7 +212,7 @@ const ActiveSceneEditor: React.FC<{
                             `}
                         >
                             <div className="w-8 h-8 rounded-sm bg-black/30 overflow-hidden flex-shrink-0">
-                                {char.image ? <img src={char.image} className="w-full h-full object-cover" alt={char.name} /> : <User size={12} className="m-auto text-gray-600"/>}
+                                {char.image ? <StoredImage src={char.image} className="w-full h-full object-cover" alt={char.name} /> : <User size={12} className="m-auto text-gray-600"/>}
                             </div>
                             <div className="min-w-0">
                                 <div className={`text-[9px] font-bold truncate ${isSelected ? 'text-[var(--accent)]' : 'text-[var(--text-muted)]'}`}>{char.name}</div>
@@ -337,6 +349,22 @@ const ActiveSceneEditor: React.FC<{
                             className="w-full bg-[var(--bg-input)] text-[var(--text-main)] p-3 rounded-md border border-[var(--border-color)] focus:border-orange-500 focus:outline-none text-xs resize-y placeholder-[var(--text-muted)]"
                             minHeight="h-28"
                         />
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[9px] text-orange-400 font-bold uppercase flex items-center gap-1"><Mic size={10} /> Voice-over Recording</label>
+                        <AudioClipSlot
+                            clip={frame.voiceOver}
+                            emptyLabel="Attach VO file"
+                            onAttach={(clip) => onUpdate(frame.id, { voiceOver: { ...clip, volume: frame.voiceOver?.volume ?? 1 } })}
+                            onVolumeChange={(volume) => frame.voiceOver && onUpdate(frame.id, { voiceOver: { ...frame.voiceOver, volume } })}
+                            onRemove={() => onUpdate(frame.id, { voiceOver: undefined })}
+                        />
+                        {frame.voiceOver && frame.voiceOver.duration > (frame.duration || 4) && (
+                            <div className="text-[9px] text-yellow-400 flex items-center gap-1">
+                                <AlertTriangle size={10}/> Longer than the scene; exports cut it at {frame.duration || 4}s.
+                                <button onClick={() => onUpdate(frame.id, { duration: Math.ceil(frame.voiceOver!.duration * 2) / 2 })} className="underline hover:text-yellow-300">Fit scene</button>
+                            </div>
+                        )}
                     </div>
                      <div className="space-y-1">
                         <div className="flex justify-between items-end mb-1">
@@ -393,12 +421,16 @@ const ActiveSceneEditor: React.FC<{
 };
 
 export const TimelineManager: React.FC<Props> = ({ 
+    projectId = null,
     frames, 
     characters, 
     settings, 
+    subtitleSettings,
     onUpdate, 
     onUpdateSettings, 
     onUpdateAssets, 
+    musicBeds = [],
+    onUpdateMusicBeds,
     imageModel, 
     isDriveConnected, 
     onNotify, 
@@ -412,6 +444,7 @@ export const TimelineManager: React.FC<Props> = ({
     directorDraft,
     onDirectorDraftChange,
     onHandleDirectorAction,
+    onBeforeDestructiveAction,
     chatFontSize,
     onLogGeneration,
     isDirectorFullScreen,
@@ -438,6 +471,19 @@ export const TimelineManager: React.FC<Props> = ({
   const [editingImageFrame, setEditingImageFrame] = useState<TimelineFrame | null>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [selectedFrameIds, setSelectedFrameIds] = useState<string[]>([]);
+
+  // Batch render queue (see services/renderQueue); it lives outside the component so closing the tab doesn't drop it
+  const renderQueue = useSyncExternalStore(subscribeLiveRenderQueue, getLiveRenderQueue);
+  const setRenderQueue = setLiveRenderQueue;
+  const [isQueueOpen, setIsQueueOpen] = useState(false);
+  const [isMusicOpen, setIsMusicOpen] = useState(false);
+  const [isAnimaticOpen, setIsAnimaticOpen] = useState(false);
+  const [queueTick, setQueueTick] = useState(0); // Re-runs the scheduler when a rate-limit wait is over
+  const framesRef = useRef(frames);
+  framesRef.current = frames;
+  const imageProviderId = getImageProviderId(imageModel);
+  const [queueLimits, setQueueLimits] = useState<RenderQueueLimits>(() => getRenderQueueLimits(imageProviderId));
 
   const [resizingFrameId, setResizingFrameId] = useState<string | null>(null);
   const resizeStartXRef = useRef<number>(0);
@@ -489,12 +535,14 @@ export const TimelineManager: React.FC<Props> = ({
   // Intercept Director Actions for special logic like clearing the project
   const handleDirectorActionInternal = (action: DirectorAction) => {
       if (action.action === 'CREATE_NEW_PROJECT') {
+          onBeforeDestructiveAction?.("Before director cleared the project");
           onUpdate([]); // Clear Timeline
           if (onUpdateAssets) onUpdateAssets([]); // Clear Assets
           onNotify?.("Project Cleared. Fresh Start.", "info");
       }
       else if (action.action === 'SET_FORMAT') {
           const ratio = action.payload; // "16:9" or "9:16" or "1:1"
+          onBeforeDestructiveAction?.(`Before switching format to ${ratio}`);
           let newWidth = 1920;
           let newHeight = 1080;
 
@@ -778,15 +826,18 @@ export const TimelineManager: React.FC<Props> = ({
           const linkedAssets = characters.filter(c => (frame.assignedAssetIds || []).includes(c.id));
           const assetContext = linkedAssets.map(c => `${c.name} (${c.triggerWord || 'no trigger'})`).join(', ');
           
-          const enhanced = await enhancePrompt(frame.description, assetContext);
+          const enhanced = await enhancePrompt(frame.description, assetContext, { type: 'frame', id: frame.id, name: frame.title });
           updateFrame(frame.id, { description: enhanced, enhancedPrompt: undefined });
       } catch (e) {
           console.error(e);
       }
   };
 
-  const handleRenderImage = async (frame: TimelineFrame) => {
-      if (!frame.description) return;
+  /**
+   * Renders one frame from its description and linked assets. Throws on failure;
+   * shared by the Render Frame button and the batch queue.
+   */
+  const renderFrameImage = async (frame: TimelineFrame) => {
       setProcessingFrames(prev => ({ ...prev, [frame.id]: true }));
       try {
           // 1. Gather Assigned Assets (Characters/Items/Locations)
@@ -834,7 +885,9 @@ export const TimelineManager: React.FC<Props> = ({
               fullPrompt, 
               validRefImages.length > 0 ? validRefImages : undefined, 
               frame.aspectRatio || "16:9", 
-              imageModel
+              imageModel,
+              undefined,
+              { type: 'frame', id: frame.id, name: frame.title }
           );
 
           updateFrame(frame.id, { 
@@ -852,14 +905,97 @@ export const TimelineManager: React.FC<Props> = ({
                   sourceName: frame.title
               });
           }
+      } finally {
+          setProcessingFrames(prev => { const n = {...prev}; delete n[frame.id]; return n; });
+      }
+  };
+
+  const handleRenderImage = async (frame: TimelineFrame) => {
+      if (!frame.description) return;
+      try {
+          await renderFrameImage(frame);
       } catch (e) {
           console.error("Render failed", e);
           onNotify?.("Render failed", "info");
-      } finally {
-          setProcessingFrames(prev => { const n = {...prev}; delete n[frame.id]; return n; });
       }
   };
 
+  // --- RENDER QUEUE ---
+
+  // A queue restored from storage (after a reload) comes back paused; re-opening the tab keeps the live one
+  useEffect(() => {
+      const restored = openRenderQueue(projectId ?? null);
+      if (!restored) return;
+      setSelectedFrameIds([]);
+      const pending = restored.jobs.filter(j => j.status === 'queued').length;
+      if (restored.paused && pending > 0) onNotify?.(`Render queue restored: ${pending} scenes waiting. Resume to continue.`, "info");
+  }, [projectId]);
+
+  useEffect(() => { setQueueLimits(getRenderQueueLimits(imageProviderId)); }, [imageProviderId]);
+
+  const runRenderJob = async (job: RenderJob) => {
+      const owner = renderQueue.projectId;
+      setRenderQueue(q => updateRenderJob(q, job.id, { status: 'running', attempts: job.attempts + 1, error: undefined }));
+      const frame = framesRef.current.find(f => f.id === job.frameId);
+      try {
+          if (!frame) throw new Error("Scene was deleted");
+          if (!frame.description) throw new Error("Scene has no description");
+          await renderFrameImage(frame);
+          settleRenderJob(owner, job.id, { status: 'done' });
+      } catch (e: any) {
+          console.error("Queued render failed", e);
+          settleRenderJob(owner, job.id, { status: 'failed', error: e?.message || String(e) });
+      }
+  };
+
+  // Scheduler: start queued jobs up to the provider's concurrency, spaced by its per-minute limit
+  useEffect(() => {
+      if (renderQueue.paused || renderQueue.projectId !== (projectId ?? null)) return; // Not switched over yet
+      const running = renderQueue.jobs.filter(j => j.status === 'running').length;
+      const next = renderQueue.jobs.find(j => j.status === 'queued');
+      if (!next || running >= queueLimits.concurrency) return;
+
+      const delay = rateLimitDelay(renderStartTimes, queueLimits.requestsPerMinute);
+      if (delay > 0) {
+          const timer = setTimeout(() => setQueueTick(t => t + 1), delay);
+          return () => clearTimeout(timer);
+      }
+      renderStartTimes.push(Date.now());
+      runRenderJob(next);
+  }, [renderQueue, queueTick, queueLimits]);
+
+  // Report once when the last job settles
+  const queuePending = renderQueue.jobs.some(j => j.status === 'queued' || j.status === 'running');
+  const wasQueuePendingRef = useRef(queuePending);
+  useEffect(() => {
+      if (wasQueuePendingRef.current && !queuePending && renderQueue.jobs.length > 0) {
+          const { done, failed } = getRenderQueueProgress(renderQueue);
+          onNotify?.(failed > 0 ? `Render queue finished: ${done} rendered, ${failed} failed` : `Render queue finished: ${done} rendered`, failed > 0 ? "info" : "success");
+      }
+      wasQueuePendingRef.current = queuePending;
+  }, [queuePending]);
+
+  const handleEnqueue = (frameIds: string[]) => {
+      if (frameIds.length === 0) return;
+      setRenderQueue(q => ({ ...enqueueFrames(q, frameIds), paused: false }));
+  };
+
+  const handleCancelQueue = () => {
+      const inFlight = renderQueue.jobs.filter(j => j.status === 'running').length;
+      // In-flight renders can't be recalled; they still land on their frames
+      setRenderQueue(q => ({ ...q, jobs: [], paused: false }));
+      onNotify?.(inFlight > 0 ? `Queue cancelled. ${inFlight} render(s) already in progress will finish.` : "Queue cancelled", "info");
+  };
+
+  const handleQueueLimitsChange = (limits: RenderQueueLimits) => {
+      setQueueLimits(saveRenderQueueLimits(imageProviderId, limits));
+  };
+
+  const toggleFrameSelection = (frameId: string) => {
+      setSelectedFrameIds(prev => prev.includes(frameId) ? prev.filter(id => id !== frameId) : [...prev, frameId]);
+  };
+
+
   const handleAddFrame = () => {
       const newFrame: TimelineFrame = {
           id: Date.now().toString(),
@@ -888,10 +1024,11 @@ export const TimelineManager: React.FC<Props> = ({
       updateFrame(frame.id, { image: newUrl });
   };
 
-  const handleImageEditSave = (frame: TimelineFrame, newImg: string) => {
+  const handleImageEditSave = (frame: TimelineFrame, newImg: string, layers?: LayerDocument) => {
       updateFrame(frame.id, { 
           image: newImg,
-          imageHistory: [...(frame.imageHistory || []), newImg]
+          imageHistory: [...(frame.imageHistory || []), newImg],
+          layers
       });
       // Also Log this edit
       if (onLogGeneration) {
@@ -911,7 +1048,7 @@ export const TimelineManager: React.FC<Props> = ({
       setProcessingFrames(prev => ({ ...prev, [frame.id]: true }));
       try {
           const prompt = "Outpainting. Fill the surroundings seamlessly matching the style and lighting.";
-          const newImage = await generateImage(prompt, [frame.image], frame.aspectRatio || "16:9", imageModel);
+          const newImage = await generateImage(prompt, [frame.image], frame.aspectRatio || "16:9", imageModel, undefined, { type: 'frame', id: frame.id, name: frame.title });
           updateFrame(frame.id, { 
               image: newImage, 
               imageHistory: [...(frame.imageHistory || []), newImage]
@@ -933,10 +1070,10 @@ export const TimelineManager: React.FC<Props> = ({
       }
   };
 
-  const downloadImage = (frame: TimelineFrame) => {
+  const downloadImage = async (frame: TimelineFrame) => {
       if (!frame.image) return;
       const a = document.createElement('a');
-      a.href = frame.image;
+      a.href = await resolveImageUrl(frame.image);
       a.download = `Scene_${frame.title.replace(/\s+/g, '_')}.png`;
       a.click();
   };
@@ -997,6 +1134,16 @@ export const TimelineManager: React.FC<Props> = ({
       updateFrame(frame.id, { image: history[newIdx] });
   };
 
+  // Scenes with a music bed under them, for the strip indicator
+  const musicCoverage = new Set<string>();
+  musicBeds.forEach(bed => {
+      const first = frames.findIndex(f => f.id === bed.startFrameId);
+      if (first === -1) return;
+      const found = frames.findIndex(f => f.id === bed.endFrameId);
+      const last = found === -1 ? frames.length - 1 : found;
+      frames.slice(Math.min(first, last), Math.max(first, last) + 1).forEach(f => musicCoverage.add(f.id));
+  });
+
   const renderTimelineStrip = (isVerticalLayout: boolean = false) => { 
       let pxPerSec = isVerticalLayout ? 8 : 20; 
       if (isTimelineFit && timelineContainerRef.current) { const availableWidth = timelineContainerRef.current.clientWidth - 100; const totalSecs = Math.max(totalDuration, 1); pxPerSec = availableWidth / totalSecs; }
@@ -1016,12 +1163,12 @@ export const TimelineManager: React.FC<Props> = ({
                     return ( 
                         <div 
                             key={frame.id} 
-                            onClick={() => setActiveFrameId(frame.id)} 
+                            onClick={(e) => (e.ctrlKey || e.metaKey || e.shiftKey) ? toggleFrameSelection(frame.id) : setActiveFrameId(frame.id)} 
                             draggable={true}
                             onDragStart={(e) => handleDragStartTimeline(e, index)}
                             onDragOver={handleDragOverTimeline}
                             onDrop={(e) => handleDropTimeline(e, index)}
-                            className={`relative rounded-md overflow-hidden border-2 cursor-pointer transition-all group flex-shrink-0 ${activeFrameId === frame.id ? 'border-[var(--accent)] ring-2 ring-[var(--accent)]/30 z-10' : 'border-[#333] opacity-80 hover:opacity-100'} ${isVerticalProject ? 'aspect-[9/16]' : ''}`} 
+                            className={`relative rounded-md overflow-hidden border-2 cursor-pointer transition-all group flex-shrink-0 ${activeFrameId === frame.id ? 'border-[var(--accent)] ring-2 ring-[var(--accent)]/30 z-10' : selectedFrameIds.includes(frame.id) ? 'border-[var(--accent)]/60' : 'border-[#333] opacity-80 hover:opacity-100'} ${isVerticalProject ? 'aspect-[9/16]' : ''}`} 
                             style={{ width: `${Math.max(width, minWidth)}px`, height: isVerticalProject ? '130px' : '96px' }} 
                             title={`${frame.title} (${frame.duration}s)`} 
                         > 
@@ -1047,10 +1194,13 @@ export const TimelineManager: React.FC<Props> = ({
                                 {isDeleting ? <CheckCircle size={12}/> : <X size={12} />}
                             </button>
 
-                            {frame.image ? ( <img src={frame.image} className="w-full h-full object-cover pointer-events-none" alt={frame.title} /> ) : ( <div className="w-full h-full bg-[#1a1a1a] flex flex-col items-center justify-center p-1 gap-1 pointer-events-none"> <span className="text-[9px] text-gray-500 font-bold truncate w-full text-center">{frame.title}</span> </div> )} 
+                            {frame.image ? ( <StoredImage src={frame.image} className="w-full h-full object-cover pointer-events-none" alt={frame.title} /> ) : ( <div className="w-full h-full bg-[#1a1a1a] flex flex-col items-center justify-center p-1 gap-1 pointer-events-none"> <span className="text-[9px] text-gray-500 font-bold truncate w-full text-center">{frame.title}</span> </div> )} 
                             <div className="absolute bottom-0 left-0 w-full bg-gradient-to-t from-black/90 to-transparent px-1.5 py-1 pointer-events-none"> <div className="flex justify-between items-end"> <span className="text-[9px] text-white font-bold truncate max-w-[70%]">{index + 1}. {frame.title}</span> </div> </div> 
                             <div className="absolute top-1 right-1 bg-black/60 px-1 rounded text-[8px] text-[var(--accent)] font-mono font-bold pointer-events-none">{frame.duration}s</div>
                             <div className="absolute right-0 top-0 bottom-0 w-3 cursor-col-resize hover:bg-[var(--accent)]/50 transition-colors z-20 group-hover:bg-white/10" onMouseDown={(e) => handleFrameResizeStart(e, frame, pxPerSec)} title="Drag to resize duration"> <div className="absolute right-1 top-1/2 -translate-y-1/2 w-0.5 h-4 bg-white/30 rounded-full"></div> </div>
+                            {frame.voiceOver && ( <div className="absolute top-1 right-8 bg-black/60 p-0.5 rounded text-orange-400 pointer-events-none" title={`VO: ${frame.voiceOver.name}`}> <Mic size={9} /> </div> )}
+                            {musicCoverage.has(frame.id) && ( <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-violet-400 pointer-events-none z-10" title="Under a music bed"></div> )}
+                            {selectedFrameIds.includes(frame.id) && ( <div className="absolute top-6 left-1 w-4 h-4 rounded-sm bg-[var(--accent)] text-[var(--accent-text)] flex items-center justify-center pointer-events-none z-30"> <CheckCircle size={10} /> </div> )}
                             {processingFrames[frame.id] && ( <div className="absolute inset-0 bg-black/60 flex items-center justify-center backdrop-blur-[1px] pointer-events-none"> <RefreshCw size={16} className="text-[var(--accent)] animate-spin" /> </div> )} 
                         </div> 
                     ); 
@@ -1124,7 +1274,7 @@ export const TimelineManager: React.FC<Props> = ({
                     <div className="flex-1 flex flex-col items-center justify-center p-4 min-h-0 overflow-hidden relative">
                         {activeFrame ? (
                             <div ref={previewRef} className={`relative group shadow-2xl rounded-sm overflow-hidden bg-[#2a0505] ring-1 ring-white/5 transition-all duration-300 flex flex-col items-center justify-center shrink-0 border-none`} style={projectAspectRatioStyle}>
-                                {activeFrame.image ? ( <><img src={activeFrame.image} className="w-full h-full object-contain" alt="Preview" /><div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center pointer-events-none"> <button onClick={() => setEditingImageFrame(activeFrame)} className="pointer-events-auto bg-black/50 hover:bg-[var(--accent)] text-white backdrop-blur-md px-4 py-2 rounded-full flex items-center gap-2 border border-white/10 font-bold text-xs uppercase transition-all transform hover:scale-105"> <Pencil size={14} /> Edit Image </button> </div></> ) : ( 
+                                {activeFrame.image ? ( <><StoredImage src={activeFrame.image} className="w-full h-full object-contain" alt="Preview" /><div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center pointer-events-none"> <button onClick={() => setEditingImageFrame(activeFrame)} className="pointer-events-auto bg-black/50 hover:bg-[var(--accent)] text-white backdrop-blur-md px-4 py-2 rounded-full flex items-center gap-2 border border-white/10 font-bold text-xs uppercase transition-all transform hover:scale-105"> <Pencil size={14} /> Edit Image </button> </div></> ) : ( 
                                     <div className="w-full h-full bg-[#1a1a1a] flex flex-col items-center justify-center p-1 gap-2 relative"> 
                                         <div className="w-20 h-20 rounded-xl bg-[var(--bg-header)] flex items-center justify-center shadow-lg border border-[var(--border-color)]"> 
                                             <ImageIcon size={40} className="opacity-30" /> 
@@ -1208,7 +1358,7 @@ export const TimelineManager: React.FC<Props> = ({
                                                         e.dataTransfer.effectAllowed = 'copy';
                                                     }}
                                                 >
-                                                    <img src={entry.imageData} className="w-full h-full object-cover" alt={entry.prompt} />
+                                                    <StoredImage src={entry.imageData} className="w-full h-full object-cover" alt={entry.prompt} />
                                                     <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity p-2 flex flex-col justify-end">
                                                         <div className="text-[9px] text-white font-bold truncate">{entry.sourceName || 'Generated'}</div>
                                                         <div className="text-[8px] text-gray-400 truncate">{new Date(entry.timestamp).toLocaleTimeString()}</div>
@@ -1245,7 +1395,33 @@ export const TimelineManager: React.FC<Props> = ({
             {/* TIMELINE STRIP */}
             {isSequenceVisible && ( <div className="h-1 bg-[var(--border-color)] hover:bg-[var(--accent)] cursor-row-resize z-20 transition-colors hidden md:flex items-center justify-center" onMouseDown={() => { isResizingTimelineRef.current = true; document.body.style.cursor = 'row-resize'; }}> <GripHorizontal size={12} className="text-gray-500"/> </div> )}
             {isSequenceVisible ? (
-                <div className={`border-t border-[var(--border-color)] bg-[var(--bg-card)] flex flex-col shrink-0 transition-none ${mobileView === 'stage' ? 'flex' : 'hidden md:flex'}`} style={{ height: isMobile ? 'auto' : `${timelineHeight}px`, maxHeight: '50vh', minHeight: isMobile ? '160px' : 'auto' }}>
+                <div className={`relative border-t border-[var(--border-color)] bg-[var(--bg-card)] flex flex-col shrink-0 transition-none ${mobileView === 'stage' ? 'flex' : 'hidden md:flex'}`} style={{ height: isMobile ? 'auto' : `${timelineHeight}px`, maxHeight: '50vh', minHeight: isMobile ? '160px' : 'auto' }}>
+                    {isMusicOpen && (
+                        <MusicBedPanel
+                            beds={musicBeds}
+                            frames={frames}
+                            onChange={(beds) => onUpdateMusicBeds?.(beds)}
+                            onClose={() => setIsMusicOpen(false)}
+                        />
+                    )}
+                    {isQueueOpen && (
+                        <RenderQueuePanel
+                            queue={renderQueue}
+                            frames={frames}
+                            selectedFrameIds={selectedFrameIds}
+                            limits={queueLimits}
+                            providerLabel={getProvider(imageProviderId).label}
+                            onLimitsChange={handleQueueLimitsChange}
+                            onEnqueue={handleEnqueue}
+                            onPause={() => setRenderQueue(q => ({ ...q, paused: true }))}
+                            onResume={() => setRenderQueue(q => ({ ...q, paused: false }))}
+                            onCancel={handleCancelQueue}
+                            onRetry={(jobId) => setRenderQueue(q => ({ ...retryRenderJobs(q, jobId), paused: false }))}
+                            onClearFinished={() => setRenderQueue(q => ({ ...q, jobs: q.jobs.filter(j => j.status === 'queued' || j.status === 'running') }))}
+                            onClearSelection={() => setSelectedFrameIds([])}
+                            onClose={() => setIsQueueOpen(false)}
+                        />
+                    )}
                     <div className="h-10 border-b border-[var(--border-color)] bg-[var(--bg-header)] px-4 flex items-center justify-between">
                         <div className="flex items-center gap-4 text-[10px] font-bold text-[var(--text-muted)] uppercase overflow-hidden"> 
                             <span className="flex items-center gap-2 text-[var(--accent)] flex-shrink-0"><Film size={12} /> <span className="hidden sm:inline">Master Sequence</span></span> 
@@ -1294,12 +1470,35 @@ export const TimelineManager: React.FC<Props> = ({
                                 {activeFrame && processingFrames[activeFrame.id] ? <RefreshCw size={12} className="animate-spin"/> : <Sparkles size={12} fill="currentColor"/>}
                                 Render Frame
                             </button>
+                            {/* BATCH QUEUE */}
+                            <div className="ml-2">
+                                <button
+                                    onClick={() => { setIsQueueOpen(!isQueueOpen); setIsMusicOpen(false); }}
+                                    className={`px-3 py-1 rounded-sm text-[10px] font-bold uppercase tracking-wider flex items-center gap-2 border transition-all
+                                    ${isQueueOpen || queuePending ? 'border-[var(--accent)] text-[var(--accent)]' : 'border-[#444] text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+                                    title="Batch Render Queue"
+                                >
+                                    <Layers size={12}/>
+                                    {queuePending
+                                        ? `${getRenderQueueProgress(renderQueue).done}/${renderQueue.jobs.length}${renderQueue.paused ? ' ❚❚' : ''}`
+                                        : 'Queue'}
+                                </button>
+                            </div>
+                            {/* MUSIC BEDS */}
+                            <button
+                                onClick={() => { setIsMusicOpen(!isMusicOpen); setIsQueueOpen(false); }}
+                                className={`px-3 py-1 rounded-sm text-[10px] font-bold uppercase tracking-wider flex items-center gap-2 border transition-all
+                                ${isMusicOpen ? 'border-violet-400 text-violet-400' : 'border-[#444] text-[var(--text-muted)] hover:text-[var(--text-main)]'}`}
+                                title="Music Beds"
+                            >
+                                <Music size={12}/> {musicBeds.length > 0 ? musicBeds.length : 'Music'}
+                            </button>
                         </div>
                         <div className="flex gap-2 items-center"> 
                             <div className="flex gap-2 mr-4 border-r border-[#444] pr-4"> 
                                 <button onClick={() => setIsTimelineFit(!isTimelineFit)} className={`p-1 rounded transition-colors ${isTimelineFit ? 'bg-[var(--accent)] text-white' : 'hover:text-[var(--accent)] text-[var(--text-muted)]'}`} title="Fit to Screen"> <Scaling size={12}/> </button> 
                                 <button onClick={goToPrevFrame} className="p-1 hover:text-[var(--text-main)] text-[var(--text-muted)]"><SkipBack size={12}/></button> 
-                                <button className="p-1 hover:text-[var(--accent)] text-[var(--text-muted)]"><Play size={12}/></button> 
+                                <button onClick={() => setIsAnimaticOpen(true)} disabled={frames.length === 0} className="p-1 hover:text-[var(--accent)] text-[var(--text-muted)] disabled:opacity-40" title="Play Animatic"><Play size={12}/></button> 
                                 <button onClick={goToNextFrame} className="p-1 hover:text-[var(--text-main)] text-[var(--text-muted)]"><SkipForward size={12}/></button> 
                             </div> 
                             <button onClick={() => setIsSequenceVisible(false)} className="text-[var(--text-muted)] hover:text-[var(--text-main)]" title="Hide Timeline"> <ChevronDown size={14} /> </button> 
@@ -1310,6 +1509,19 @@ export const TimelineManager: React.FC<Props> = ({
             ) : ( <div className="h-6 bg-[var(--bg-card)] border-t border-[var(--border-color)] flex items-center justify-center hover:bg-[var(--bg-header)] cursor-pointer transition-colors" onClick={() => setIsSequenceVisible(true)}> <ChevronUp size={14} className="text-[var(--text-muted)]" /> </div> )}
         </div>
         
+        {isAnimaticOpen && (
+            <AnimaticPlayer
+                frames={frames}
+                musicBeds={musicBeds}
+                settings={settings}
+                characters={characters}
+                subtitleSettings={subtitleSettings}
+                startFrameId={activeFrameId}
+                onUpdateFrame={updateFrame}
+                onClose={() => setIsAnimaticOpen(false)}
+            />
+        )}
+
         {editingImageFrame && ( 
             <ImageEditorModal 
                 isOpen={!!editingImageFrame} 
@@ -1318,10 +1530,12 @@ export const TimelineManager: React.FC<Props> = ({
                 globalHistory={generationLog.map(g => g.imageData)} // Pass global log
                 onImageChange={(newUrl) => handleImageHistoryChange(editingImageFrame, newUrl)} 
                 onClose={() => setEditingImageFrame(null)} 
-                onSave={(newImg) => handleImageEditSave(editingImageFrame, newImg)} 
+                onSave={(newImg, layers) => handleImageEditSave(editingImageFrame, newImg, layers)} 
+                layers={layerDocumentFor(editingImageFrame.image, editingImageFrame.layers)}
                 imageModel={imageModel} 
                 initialPrompt={editingImageFrame.enhancedPrompt || editingImageFrame.description} 
                 initialAspectRatio={editingImageFrame.aspectRatio} 
+                usageSource={{ type: 'frame', id: editingImageFrame.id, name: editingImageFrame.title }}
             /> 
         )}
     </div>
@@ -0,0 +1,197 @@
+import React, { useState, useMemo } from 'react';
+import { ProjectData } from '../types';
+import { ModelPrice, UsageRow, UsageTotals, buildUsageReport, getPriceTable, savePriceTable, resetPriceTable, DEFAULT_PRICE_TABLE, formatCost, formatTokens } from '../services/usageService';
+import { IMAGE_SIZES } from '../constants';
+import { X, Coins, Film, Box, Cpu, Tag, Plus, Trash2, RotateCcw, Save, Check } from 'lucide-react';
+
+interface Props {
+  project: ProjectData;
+  onClearLog: () => void;
+  onClose: () => void;
+}
+
+type Tab = 'scenes' | 'assets' | 'models' | 'prices';
+
+const StatCard = ({ label, value }: { label: string, value: string }) => (
+  <div className="bg-[#111] border border-[#333] rounded-lg px-3 py-2">
+    <div className="text-[9px] text-gray-500 uppercase font-bold">{label}</div>
+    <div className="text-sm text-gray-100 font-bold font-mono">{value}</div>
+  </div>
+);
+
+const UsageTable = ({ rows, empty }: { rows: UsageRow[], empty: string }) => {
+  if (rows.length === 0) return <p className="text-[11px] text-gray-500 text-center py-6">{empty}</p>;
+  return (
+    <table className="w-full text-[10px]">
+      <thead>
+        <tr className="text-gray-500 uppercase text-left">
+          <th className="py-1 font-bold">Name</th>
+          <th className="py-1 font-bold text-right">Calls</th>
+          <th className="py-1 font-bold text-right">Tokens in/out</th>
+          <th className="py-1 font-bold text-right">Images</th>
+          <th className="py-1 font-bold text-right">Est. cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-t border-[#2a2a2a]">
+            <td className={`py-1.5 pr-2 truncate max-w-[180px] ${row.missing ? 'text-gray-600 line-through' : 'text-gray-300'}`} title={row.missing ? 'Removed from the project' : row.label}>{row.label}</td>
+            <td className="py-1.5 text-right text-gray-400 font-mono">{row.requests}</td>
+            <td className="py-1.5 text-right text-gray-400 font-mono">{formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}</td>
+            <td className="py-1.5 text-right text-gray-400 font-mono">{row.images}</td>
+            <td className="py-1.5 text-right text-[var(--accent)] font-mono font-bold">{formatCost(row.cost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const totalsRow = (key: string, label: string, totals: UsageTotals): UsageRow[] =>
+  totals.requests > 0 ? [{ key, label, ...totals }] : [];
+
+const numberInput = (value: number, onChange: (v: number) => void) => (
+  <input
+    type="number" min={0} step="0.001"
+    value={value}
+    onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+    className="w-full bg-[#111] border border-[#333] rounded px-1.5 py-1 text-[10px] text-white font-mono outline-none focus:border-[var(--accent)]"
+  />
+);
+
+/**
+ * Editable price table. Prices are app-wide; the report re-prices as soon as they are saved.
+ */
+const PriceEditor = ({ onSaved }: { onSaved: () => void }) => {
+  const [rows, setRows] = useState<ModelPrice[]>(() => getPriceTable());
+  const [saved, setSaved] = useState(false);
+
+  const update = (index: number, changes: Partial<ModelPrice>) => {
+    setSaved(false);
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleSave = () => {
+    savePriceTable(rows);
+    setSaved(true);
+    onSaved();
+  };
+
+  const handleReset = () => {
+    resetPriceTable();
+    setRows(DEFAULT_PRICE_TABLE);
+    onSaved();
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] text-gray-500">USD. Model ids match by substring, the longest match wins. Calls to unlisted models count as free.</p>
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr className="text-gray-500 uppercase text-left">
+            <th className="py-1 font-bold">Model</th>
+            <th className="py-1 font-bold w-16">In / 1M</th>
+            <th className="py-1 font-bold w-16">Out / 1M</th>
+            {IMAGE_SIZES.map(size => <th key={size} className="py-1 font-bold w-14">{size} img</th>)}
+            <th className="w-6"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={i}>
+              <td className="py-0.5 pr-1">
+                <input
+                  value={row.model}
+                  onChange={(e) => update(i, { model: e.target.value })}
+                  className="w-full bg-[#111] border border-[#333] rounded px-1.5 py-1 text-[10px] text-white font-mono outline-none focus:border-[var(--accent)]"
+                />
+              </td>
+              <td className="py-0.5 pr-1">{numberInput(row.inputPerMTok, v => update(i, { inputPerMTok: v }))}</td>
+              <td className="py-0.5 pr-1">{numberInput(row.outputPerMTok, v => update(i, { outputPerMTok: v }))}</td>
+              {IMAGE_SIZES.map(size => (
+                <td key={size} className="py-0.5 pr-1">{numberInput(row.perImage[size] || 0, v => update(i, { perImage: { ...row.perImage, [size]: v } }))}</td>
+              ))}
+              <td className="py-0.5 text-center">
+                <button onClick={() => { setSaved(false); setRows(prev => prev.filter((_, idx) => idx !== i)); }} className="p-1 text-gray-500 hover:text-red-400"><Trash2 size={11}/></button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex gap-2 pt-1">
+        <button onClick={() => { setSaved(false); setRows(prev => [...prev, { model: '', inputPerMTok: 0, outputPerMTok: 0, perImage: {} }]); }} className="px-2 py-1.5 bg-[#222] hover:bg-[#333] text-gray-300 border border-[#333] rounded text-[10px] font-bold uppercase flex items-center gap-1"><Plus size={11}/> Model</button>
+        <button onClick={handleReset} className="px-2 py-1.5 text-gray-500 hover:text-white rounded text-[10px] font-bold uppercase flex items-center gap-1"><RotateCcw size={11}/> Defaults</button>
+        <div className="flex-1"></div>
+        <button onClick={handleSave} className="px-3 py-1.5 bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 rounded text-[10px] font-bold uppercase flex items-center gap-1">
+          {saved ? <><Check size={11}/> Saved</> : <><Save size={11}/> Save Prices</>}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Per-project API usage: totals, estimated spend by scene, asset and model, and the price table behind the estimates.
+ */
+export const UsageDashboard: React.FC<Props> = ({ project, onClearLog, onClose }) => {
+  const [tab, setTab] = useState<Tab>('scenes');
+  const [priceVersion, setPriceVersion] = useState(0); // Bumped when prices are saved
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const report = useMemo(() => buildUsageReport(project, getPriceTable()), [project, priceVersion]);
+  const log = project.usageLog || [];
+  const since = log.length > 0 ? new Date(log.reduce((min, e) => Math.min(min, e.timestamp), Infinity)).toLocaleDateString() : null;
+
+  const tabButton = (id: Tab, label: string, Icon: any) => (
+    <button
+      onClick={() => setTab(id)}
+      className={`px-3 py-2 text-[10px] font-bold uppercase flex items-center gap-1.5 border-b-2 transition-colors ${tab === id ? 'border-[var(--accent)] text-[var(--accent)]' : 'border-transparent text-gray-500 hover:text-gray-300'}`}
+    >
+      <Icon size={12}/> {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-2xl bg-[#1e1e1e] border border-[#333] rounded-xl shadow-2xl flex flex-col max-h-[85vh]">
+          <div className="px-4 py-3 border-b border-[#333] flex items-center gap-2">
+              <Coins size={16} className="text-[var(--accent)]"/>
+              <h3 className="text-xs font-bold text-gray-200 uppercase tracking-widest flex-1 truncate">Usage & Cost: {project.meta.appName}</h3>
+              <button onClick={onClose} className="p-1 text-gray-500 hover:text-white"><X size={16}/></button>
+          </div>
+
+          {/* Totals */}
+          <div className="p-4 grid grid-cols-5 gap-2 border-b border-[#333]">
+              <StatCard label="Est. cost" value={formatCost(report.total.cost)} />
+              <StatCard label="Calls" value={String(report.total.requests)} />
+              <StatCard label="Tokens in" value={formatTokens(report.total.inputTokens)} />
+              <StatCard label="Tokens out" value={formatTokens(report.total.outputTokens)} />
+              <StatCard label="Images" value={String(report.total.images)} />
+          </div>
+
+          <div className="px-4 flex border-b border-[#333]">
+              {tabButton('scenes', 'By Scene', Film)}
+              {tabButton('assets', 'By Asset', Box)}
+              {tabButton('models', 'By Model', Cpu)}
+              {tabButton('prices', 'Prices', Tag)}
+          </div>
+
+          <div className="p-4 overflow-y-auto custom-scrollbar flex-1">
+              {tab === 'scenes' && <UsageTable rows={[...report.scenes, ...totalsRow('director', 'Director chat', report.director), ...totalsRow('other', 'Unattributed', report.unattributed)]} empty="No AI calls logged for this project yet." />}
+              {tab === 'assets' && <UsageTable rows={report.assets} empty="No asset generations logged yet." />}
+              {tab === 'models' && <UsageTable rows={report.models} empty="No AI calls logged for this project yet." />}
+              {tab === 'prices' && <PriceEditor onSaved={() => setPriceVersion(v => v + 1)} />}
+          </div>
+
+          <div className="px-4 py-2 border-t border-[#333] flex items-center gap-2 text-[9px] text-gray-500">
+              <span className="flex-1">{since ? `Logged since ${since}. ` : ''}Estimates only; token counts appear when the provider reports them.</span>
+              {log.length > 0 && (confirmClear ? (
+                  <button onClick={() => { setConfirmClear(false); onClearLog(); }} className="px-2 py-1 bg-red-500/20 text-red-400 border border-red-500/40 rounded text-[10px] font-bold uppercase">Clear log?</button>
+              ) : (
+                  <button onClick={() => setConfirmClear(true)} className="px-2 py-1 text-gray-500 hover:text-red-400 rounded text-[10px] font-bold uppercase flex items-center gap-1"><Trash2 size={11}/> Clear</button>
+              ))}
+          </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProjectData } from '../types';
+import { VideoFormat } from '../services/videoMuxer';
+import { VIDEO_FORMATS, VideoRenderOptions, VideoRenderProgress, getSupportedVideoFormats, renderAnimaticVideo } from '../services/videoRenderService';
+import { X, Video, Loader2, AlertTriangle } from 'lucide-react';
+
+interface Props {
+  project: ProjectData;
+  onRendered: (blob: Blob, fileName: string) => void;
+  onClose: () => void;
+}
+
+const STAGE_LABELS: Record<VideoRenderProgress['stage'], string> = {
+  audio: 'Mixing audio',
+  video: 'Rendering frames',
+  muxing: 'Writing file'
+};
+
+/**
+ * Options and progress for rendering the animatic to a video file in the browser.
+ */
+export const VideoRenderModal: React.FC<Props> = ({ project, onRendered, onClose }) => {
+  const { width, height, fps } = project.timelineSettings;
+  const [formats, setFormats] = useState<VideoFormat[] | null>(null);
+  const [options, setOptions] = useState<VideoRenderOptions>({
+    format: 'mp4',
+    transition: 'cut',
+    crossfadeSeconds: 0.5,
+    burnSubtitles: false,
+    kenBurns: true,
+    includeAudio: true
+  });
+  const [progress, setProgress] = useState<VideoRenderProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const totalSeconds = project.timeline.reduce((sum, f) => sum + (f.duration || 4), 0);
+  const hasAudio = project.timeline.some(f => f.voiceOver) || (project.musicBeds || []).length > 0;
+  const hasDialogue = project.timeline.some(f => f.dialogue?.trim());
+
+  useEffect(() => {
+    getSupportedVideoFormats(width, height, fps).then(supported => {
+      setFormats(supported);
+      if (supported.length > 0 && !supported.includes('mp4')) setOptions(o => ({ ...o, format: supported[0] }));
+    });
+    return () => abortRef.current?.abort();
+  }, [width, height, fps]);
+
+  const set = <K extends keyof VideoRenderOptions>(key: K, value: VideoRenderOptions[K]) => setOptions(o => ({ ...o, [key]: value }));
+
+  const handleRender = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ stage: 'audio', progress: 0 });
+    try {
+      const blob = await renderAnimaticVideo(project, options, setProgress, controller.signal);
+      onRendered(blob, `Valera_Animatic_${new Date().toISOString().slice(0, 10)}.${options.format}`);
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError(err.message || String(err));
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const checkbox = (key: 'burnSubtitles' | 'kenBurns' | 'includeAudio', label: string, disabled = false) => (
+    <label className={`flex items-center gap-2 text-[10px] text-gray-300 cursor-pointer ${disabled ? 'opacity-40 pointer-events-none' : ''}`}>
+      <input type="checkbox" checked={options[key] && !disabled} onChange={(e) => set(key, e.target.checked)} className="accent-[var(--accent)]"/>
+      {label}
+    </label>
+  );
+
+  const isRendering = progress !== null;
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-md bg-[#1e1e1e] border border-[#333] rounded-xl shadow-2xl flex flex-col max-h-[85vh]">
+          <div className="px-4 py-3 border-b border-[#333] flex items-center gap-2">
+              <Video size={16} className="text-[var(--accent)]"/>
+              <h3 className="text-xs font-bold text-gray-200 uppercase tracking-widest flex-1">Render Animatic</h3>
+              <button onClick={handleClose} className="p-1 text-gray-500 hover:text-white"><X size={16}/></button>
+          </div>
+
+          <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+              <p className="text-[10px] text-gray-500">
+                  {project.timeline.length} scenes, {totalSeconds.toFixed(1)}s at {width}x{height}, {fps} fps. Rendered on this device; nothing is uploaded.
+              </p>
+
+              {formats === null ? (
+                  <div className="flex items-center gap-2 text-[10px] text-gray-400"><Loader2 size={12} className="animate-spin"/> Checking browser codecs...</div>
+              ) : formats.length === 0 ? (
+                  <p className="text-[10px] text-red-400 flex gap-1.5"><AlertTriangle size={11} className="shrink-0 mt-0.5"/> This browser cannot encode video at {width}x{height}. Use a recent Chrome or Edge, or lower the resolution in Timeline settings.</p>
+              ) : (
+                  <div className={`space-y-3 ${isRendering ? 'opacity-50 pointer-events-none' : ''}`}>
+                      <div className="grid grid-cols-2 gap-2">
+                          <label className="text-[9px] text-gray-500 uppercase font-bold">Format
+                              <select value={options.format} onChange={(e) => set('format', e.target.value as VideoFormat)} className="mt-1 w-full bg-[#111] border border-[#333] rounded px-2 py-1 text-[10px] text-white outline-none focus:border-[var(--accent)]">
+                                  {VIDEO_FORMATS.filter(f => formats.includes(f.value)).map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                              </select>
+                          </label>
+                          <label className="text-[9px] text-gray-500 uppercase font-bold">Transitions
+                              <select value={options.transition} onChange={(e) => set('transition', e.target.value as VideoRenderOptions['transition'])} className="mt-1 w-full bg-[#111] border border-[#333] rounded px-2 py-1 text-[10px] text-white outline-none focus:border-[var(--accent)]">
+                                  <option value="cut">Cut</option>
+                                  <option value="crossfade">Crossfade</option>
+                              </select>
+                          </label>
+                      </div>
+                      {options.transition === 'crossfade' && (
+                          <label className="flex items-center gap-2 text-[9px] text-gray-500 uppercase font-bold">
+                              Crossfade
+                              <input
+                                  type="range" min={0.1} max={2} step={0.1}
+                                  value={options.crossfadeSeconds}
+                                  onChange={(e) => set('crossfadeSeconds', parseFloat(e.target.value))}
+                                  className="flex-1 accent-[var(--accent)]"
+                              />
+                              <span className="font-mono w-10 text-right text-gray-300">{options.crossfadeSeconds.toFixed(1)}s</span>
+                          </label>
+                      )}
+                      <div className="space-y-2">
+                          {checkbox('kenBurns', 'Ken Burns moves (set per scene in the player)')}
+                          {checkbox('burnSubtitles', hasDialogue ? 'Burn in subtitles from dialogue' : 'Burn in subtitles (no dialogue yet)', !hasDialogue)}
+                          {checkbox('includeAudio', hasAudio ? 'Mix voice-over and music beds' : 'Mix audio (none attached)', !hasAudio)}
+                      </div>
+                  </div>
+              )}
+
+              {progress && (
+                  <div className="space-y-1">
+                      <div className="flex justify-between text-[10px] text-gray-400">
+                          <span className="flex items-center gap-1.5"><Loader2 size={11} className="animate-spin"/> {STAGE_LABELS[progress.stage]}</span>
+                          <span className="font-mono">{Math.round(progress.progress * 100)}%</span>
+                      </div>
+                      <div className="h-1.5 bg-[#111] rounded-full overflow-hidden">
+                          <div className="h-full bg-[var(--accent)] transition-all" style={{ width: `${Math.round(progress.progress * 100)}%` }}/>
+                      </div>
+                  </div>
+              )}
+              {error && <p className="text-[10px] text-red-400 flex gap-1.5"><AlertTriangle size={11} className="shrink-0 mt-0.5"/> {error}</p>}
+          </div>
+
+          {/* Actions */}
+          <div className="px-4 py-3 border-t border-[#333] grid grid-cols-2 gap-2">
+              <button
+                  onClick={handleRender}
+                  disabled={isRendering || !formats?.length || project.timeline.length === 0}
+                  className="py-2.5 bg-[var(--accent)] text-[var(--accent-text)] hover:brightness-110 rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                  {isRendering ? <Loader2 size={14} className="animate-spin"/> : <Video size={14}/>} Render
+              </button>
+              <button onClick={isRendering ? () => abortRef.current?.abort() : onClose} className="py-2.5 bg-[#222] hover:bg-[#333] text-gray-300 hover:text-white border border-[#333] rounded-lg text-[10px] font-bold uppercase flex items-center justify-center gap-2">
+                  Cancel
+              </button>
+          </div>
+      </div>
+    </div>
+  );
+};
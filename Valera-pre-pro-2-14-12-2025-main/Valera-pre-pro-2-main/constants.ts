@@ -8,6 +8,9 @@ export const MODEL_TEXT = 'gemini-2.5-flash'; // Optimized for speed/chat
 
 export const IMAGE_SIZES = ["1K", "2K", "4K"];
 
+// ProjectData schema version written on save; older data is migrated by services/projectSchema
+export const PROJECT_SCHEMA_VERSION = "3.0";
+
 export const OPENROUTER_IMAGE_MODELS = [
     { label: 'Flux 1 Schnell (Fast)', value: 'black-forest-labs/flux-1-schnell' },
     { label: 'Flux 1 Dev (High Quality)', value: 'black-forest-labs/flux-1-dev' },
@@ -419,7 +422,7 @@ const RANDOM_SCENARIO = DEMO_SCENARIOS[Math.floor(Math.random() * DEMO_SCENARIOS
 export const INITIAL_PROJECT_STATE: ProjectData = {
   meta: {
     appName: "Valera Pre-Production",
-    version: "2.0",
+    version: PROJECT_SCHEMA_VERSION,
     description: "AI-Powered Filmmaking Suite"
   },
   references: [
@@ -0,0 +1,206 @@
+
+/**
+ * Provider layer for all AI calls.
+ * Every backend implements AIProvider; geminiService builds prompts and picks a provider,
+ * it never talks to an API directly. Keys and the custom endpoint live in localStorage.
+ */
+
+export type ApiProvider = 'google' | 'openrouter' | 'custom';
+
+export interface AIAttachment {
+  data: string; // data URL
+  mimeType: string;
+}
+
+export interface AIChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  attachments?: AIAttachment[];
+}
+
+/**
+ * Token counts for one call, as reported by the API. Counts are absent when the response doesn't include them.
+ */
+export interface AIUsage {
+  model: string; // Model id as sent to the API (after provider mapping)
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface AIChatRequest {
+  system?: string;
+  messages: AIChatMessage[];
+  model: string; // Canonical (Google) text model id, providers map it to their own
+  temperature?: number;
+  jsonMode?: boolean;
+  responseSchema?: object; // JSON Schema for the reply; implies jsonMode. Honored natively where supported
+  webSearch?: boolean; // Grounding, where the provider supports it
+  signal?: AbortSignal; // Cancels the request (the Stop button in the director chat)
+  onUsage?: (usage: AIUsage) => void; // Called once per successful response
+}
+
+export interface AIImageRequest {
+  prompt: string;
+  referenceImages: string[]; // data URLs
+  aspectRatio: string;
+  model: string;
+  imageSize?: string;
+  onUsage?: (usage: AIUsage) => void;
+}
+
+/**
+ * Mask-based edit (inpainting): only the white area of `mask` may change.
+ */
+export interface AIImageEditRequest {
+  prompt: string;
+  image: string; // data URL (PNG), the flattened document
+  mask: string; // data URL (PNG), same size as `image`: white = repaint, black = keep
+  aspectRatio: string;
+  model: string;
+  onUsage?: (usage: AIUsage) => void;
+}
+
+export interface AIProviderCapabilities {
+  chat: boolean;
+  text: boolean;
+  image: boolean;
+  imageReferences: boolean; // Image generation accepts reference images
+  imageEdit: boolean; // editImage is supported
+  streaming: boolean; // streamChat delivers tokens incrementally (otherwise it resolves once)
+}
+
+export interface AIProvider {
+  id: ApiProvider;
+  label: string;
+  capabilities: AIProviderCapabilities;
+  /** Multi-turn chat with optional attachments. Returns the reply text. */
+  chat(request: AIChatRequest): Promise<string>;
+  /** Like chat, but calls `onText` with the accumulated reply as tokens arrive. */
+  streamChat(request: AIChatRequest, onText: (text: string) => void): Promise<string>;
+  /** Single-turn text completion. */
+  generateText(prompt: string, system: string, model: string, temperature?: number, onUsage?: (usage: AIUsage) => void): Promise<string>;
+  /** Returns the generated image as a data URL. */
+  generateImage(request: AIImageRequest): Promise<string>;
+  /** Repaints the masked area of an image. Returns the whole edited image as a data URL. */
+  editImage(request: AIImageEditRequest): Promise<string>;
+}
+
+export interface CustomProviderConfig {
+  baseUrl: string; // e.g. http://gpu-box:8080/v1 (llama.cpp, Ollama, ComfyUI bridge)
+  apiKey: string; // Optional for most local servers
+  chatModel: string;
+  imageModel: string;
+}
+
+// --- STORAGE ---
+
+const STORAGE_KEY_GOOGLE = 'valera_api_key_google';
+const STORAGE_KEY_OPENROUTER = 'valera_api_key_openrouter';
+const STORAGE_KEY_CUSTOM = 'valera_api_key_custom';
+const STORAGE_KEY_LEGACY = 'valera_api_key'; // Backward compatibility
+const PROVIDER_KEY = 'valera_api_provider';
+const CUSTOM_CONFIG_KEY = 'valera_custom_provider';
+
+const listeners = new Set<() => void>();
+
+/**
+ * Lets providers drop cached clients when keys or the active provider change.
+ */
+export const onProviderConfigChange = (fn: () => void) => listeners.add(fn);
+
+const notifyConfigChange = () => listeners.forEach(fn => fn());
+
+export const getCustomProviderConfig = (): CustomProviderConfig => {
+  const defaults: CustomProviderConfig = { baseUrl: '', apiKey: '', chatModel: '', imageModel: '' };
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_CONFIG_KEY) || '{}');
+    return { ...defaults, ...saved, apiKey: localStorage.getItem(STORAGE_KEY_CUSTOM) || '' };
+  } catch (e) {
+    return defaults;
+  }
+};
+
+export const saveCustomProviderConfig = (config: CustomProviderConfig) => {
+  const { apiKey, ...rest } = config;
+  localStorage.setItem(CUSTOM_CONFIG_KEY, JSON.stringify({ ...rest, baseUrl: rest.baseUrl.trim().replace(/\/+$/, '') }));
+  localStorage.setItem(STORAGE_KEY_CUSTOM, apiKey.trim());
+  notifyConfigChange();
+};
+
+export const getStoredKey = (provider: ApiProvider): string => {
+  if (provider === 'google') {
+    return localStorage.getItem(STORAGE_KEY_GOOGLE) || localStorage.getItem(STORAGE_KEY_LEGACY) || process.env.API_KEY || '';
+  }
+  if (provider === 'openrouter') {
+    return localStorage.getItem(STORAGE_KEY_OPENROUTER) || '';
+  }
+  if (provider === 'custom') {
+    return localStorage.getItem(STORAGE_KEY_CUSTOM) || '';
+  }
+  return '';
+};
+
+export const getApiSettings = () => {
+  const provider = (localStorage.getItem(PROVIDER_KEY) as ApiProvider) || 'google';
+  const key = getStoredKey(provider);
+  return { key, provider };
+};
+
+export const hasValidKey = (): boolean => {
+  // Any configured backend lets the user in; a custom endpoint may not need a key at all
+  return !!(getStoredKey('google') || getStoredKey('openrouter') || getCustomProviderConfig().baseUrl);
+};
+
+export const saveKey = (provider: ApiProvider, key: string) => {
+  const cleanKey = key.trim();
+  if (provider === 'google') {
+    localStorage.setItem(STORAGE_KEY_GOOGLE, cleanKey);
+    // Clear legacy to avoid confusion if new key is set
+    if (cleanKey) localStorage.removeItem(STORAGE_KEY_LEGACY);
+  } else if (provider === 'openrouter') {
+    localStorage.setItem(STORAGE_KEY_OPENROUTER, cleanKey);
+  } else {
+    localStorage.setItem(STORAGE_KEY_CUSTOM, cleanKey);
+  }
+  notifyConfigChange();
+};
+
+export const setActiveProvider = (provider: ApiProvider) => {
+  localStorage.setItem(PROVIDER_KEY, provider);
+  notifyConfigChange();
+};
+
+export const saveApiKey = (key: string) => {
+  // Default fallback for simple login screen (assumes Google)
+  saveKey('google', key);
+  setActiveProvider('google');
+};
+
+export const clearApiKey = () => {
+  localStorage.removeItem(STORAGE_KEY_GOOGLE);
+  localStorage.removeItem(STORAGE_KEY_OPENROUTER);
+  localStorage.removeItem(STORAGE_KEY_CUSTOM);
+  localStorage.removeItem(STORAGE_KEY_LEGACY);
+  notifyConfigChange();
+};
+
+// --- SHARED HELPERS ---
+
+/**
+ * Fetches a remote image into a data URL. Returns "" on failure.
+ */
+export const urlToBase64 = async (url: string): Promise<string> => {
+  try {
+    const response = await fetch(url);
+    const blob = await response.blob();
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  } catch (e) {
+    console.warn("Failed to fetch image URL:", url, e);
+    return "";
+  }
+};
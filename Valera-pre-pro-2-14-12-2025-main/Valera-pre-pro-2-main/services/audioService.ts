@@ -0,0 +1,117 @@
+
+import { ProjectData, AudioClip } from '../types';
+import { storeImageBlob } from './imageStore';
+import { voiceOverFileName, musicBedFileName } from './packageService';
+
+/**
+ * Voice-over and music beds: reading files into the blob store and laying them out
+ * on the timeline for the exporters (FCPXML, Premiere XML, OTIO, EDL, Resolve script, package).
+ */
+
+const probeDuration = (blob: Blob): Promise<number> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(blob);
+  const audio = new Audio();
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => {
+    URL.revokeObjectURL(url);
+    resolve(Number.isFinite(audio.duration) ? audio.duration : 0);
+  };
+  audio.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('The browser cannot decode this audio file.'));
+  };
+  audio.src = url;
+});
+
+/**
+ * Stores an audio file and returns a clip for it. Throws for files the browser can't play.
+ */
+export const readAudioFile = async (file: File): Promise<AudioClip> => {
+  if (file.type && !file.type.startsWith('audio/')) throw new Error(`${file.name} is not an audio file.`);
+  const duration = await probeDuration(file);
+  const src = await storeImageBlob(file);
+  return { src, name: file.name, mimeType: file.type || 'audio/mpeg', duration, volume: 1 };
+};
+
+export const volumeToDb = (volume: number = 1) => volume <= 0 ? -96 : Math.round(20 * Math.log10(volume) * 100) / 100;
+
+// --- LAYOUT ---
+
+export interface PlacedAudio {
+  id: string; // Frame id for VO, bed id for music
+  sceneIndex: number; // Scene the clip starts with
+  clip: AudioClip;
+  fileName: string; // Under PACKAGE_AUDIO_FOLDER
+  startFrame: number; // Record in, timeline frames
+  durationFrames: number;
+  sourceInFrames: number; // Offset into the file
+  volume: number;
+}
+
+export interface AudioLayout {
+  voiceOver: PlacedAudio[]; // Track A1
+  music: PlacedAudio[]; // Track A2 (beds never overlap in practice, but nothing prevents it)
+}
+
+/**
+ * Places every audio clip in timeline frames. Scene starts use the same per-scene rounding as the
+ * EDL, so audio lines up with the picture in every export. Clips are cut at their scene span and at
+ * the end of the file.
+ */
+export const layoutAudio = (project: Pick<ProjectData, 'timeline' | 'musicBeds'>, fps: number): AudioLayout => {
+  const starts: number[] = [];
+  const lengths: number[] = [];
+  let cursor = 0;
+  project.timeline.forEach(frame => {
+    const length = Math.round((frame.duration || 4) * fps);
+    starts.push(cursor);
+    lengths.push(length);
+    cursor += length;
+  });
+
+  const voiceOver: PlacedAudio[] = [];
+  project.timeline.forEach((frame, index) => {
+    const clip = frame.voiceOver;
+    if (!clip) return;
+    const fileFrames = clip.duration > 0 ? Math.round(clip.duration * fps) : lengths[index];
+    voiceOver.push({
+      id: frame.id,
+      sceneIndex: index,
+      clip,
+      fileName: voiceOverFileName(frame, index),
+      startFrame: starts[index],
+      durationFrames: Math.min(lengths[index], fileFrames),
+      sourceInFrames: 0,
+      volume: clip.volume ?? 1
+    });
+  });
+
+  const music: PlacedAudio[] = [];
+  (project.musicBeds || []).forEach((bed, index) => {
+    let first = project.timeline.findIndex(f => f.id === bed.startFrameId);
+    let last = project.timeline.findIndex(f => f.id === bed.endFrameId);
+    if (first === -1) return; // Its first scene was deleted
+    if (last === -1) last = project.timeline.length - 1;
+    if (last < first) [first, last] = [last, first];
+
+    const spanFrames = starts[last] + lengths[last] - starts[first];
+    const inOffset = Math.max(0, bed.inOffset || 0);
+    const outOffset = bed.outOffset && bed.outOffset > inOffset ? bed.outOffset : bed.duration;
+    const available = outOffset > 0 ? Math.round((outOffset - inOffset) * fps) : spanFrames;
+    const durationFrames = Math.min(spanFrames, available);
+    if (durationFrames <= 0) return;
+
+    music.push({
+      id: bed.id,
+      sceneIndex: first,
+      clip: bed,
+      fileName: musicBedFileName(bed, index),
+      startFrame: starts[first],
+      durationFrames,
+      sourceInFrames: Math.round(inOffset * fps),
+      volume: bed.volume ?? 1
+    });
+  });
+
+  return { voiceOver, music };
+};
@@ -0,0 +1,112 @@
+
+import { ProjectData, TimelineFrame } from '../types';
+import { safeFileName, sceneFileName } from './packageService';
+
+/**
+ * Conform: rebuilds the storyboard timeline from an edit that came back from the editor
+ * (OTIO, EDL...). Format parsers turn their events into CutEvents; matching them to
+ * existing frames, re-timing and reporting is shared here.
+ */
+
+export interface CutEvent {
+  name: string; // Clip name in the edit
+  durationFrames: number;
+  frameId?: string; // Valera frame id carried in the edit's metadata (round-trip)
+  fileName?: string; // Media file name, e.g. Scene_3_Title.png
+  fields?: Partial<TimelineFrame>; // Text to use if the event becomes a new scene
+}
+
+export interface TimelineImportResult {
+  format: string; // e.g. 'OTIO'
+  fps: number;
+  frames: TimelineFrame[]; // The timeline in cut order
+  matched: number;
+  retimed: number; // Matched scenes whose duration changed
+  added: string[]; // Titles of events that had no scene and became new ones
+  removed: TimelineFrame[]; // Scenes that are not in the cut
+  warnings: string[];
+}
+
+const titleKey = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Seconds for a frame count, rounded to the millisecond so re-imports don't drift.
+ */
+export const framesToSeconds = (frames: number, fps: number) => Math.round((frames / fps) * 1000) / 1000;
+
+export const conformTimeline = (project: ProjectData, events: CutEvent[], fps: number, format: string, warnings: string[] = []): TimelineImportResult => {
+  const current = project.timeline;
+  const byId = new Map(current.map(f => [f.id, f]));
+  const byFile = new Map(current.map((f, i) => [sceneFileName(f, i).toLowerCase(), f]));
+  // The scene number in a file name is from export time; the title part still identifies the scene after reordering.
+  // Non-Latin titles reduce to underscores and can't tell scenes apart, nor can titles that reduce to the same key.
+  const bySafeTitle = new Map<string, TimelineFrame>();
+  const ambiguousTitles = new Set<string>();
+  current.forEach(f => {
+    const key = safeFileName(f.title, '').toLowerCase();
+    if (!/[a-z0-9]/.test(key)) return;
+    if (bySafeTitle.has(key)) ambiguousTitles.add(key);
+    else bySafeTitle.set(key, f);
+  });
+  ambiguousTitles.forEach(key => bySafeTitle.delete(key));
+  if (ambiguousTitles.size > 0) {
+    warnings = [...warnings, `Scene titles share a file name (${Array.from(ambiguousTitles).join(', ')}); renumbered clips with these names were matched by clip name only.`];
+  }
+  const byTitle = new Map(current.map(f => [titleKey(f.title || ''), f]));
+
+  const used = new Set<string>();
+  const frames: TimelineFrame[] = [];
+  const added: string[] = [];
+  let matched = 0;
+  let retimed = 0;
+  const stamp = Date.now();
+
+  const findFrame = (event: CutEvent): TimelineFrame | undefined => {
+    if (event.frameId && byId.has(event.frameId)) return byId.get(event.frameId);
+    if (event.fileName) {
+      const base = event.fileName.split(/[\\/]/).pop()!.toLowerCase();
+      if (byFile.has(base)) return byFile.get(base);
+      const titlePart = base.replace(/\.[a-z0-9]+$/, '').replace(/^scene_\d+_/, '');
+      if (titlePart && bySafeTitle.has(titlePart)) return bySafeTitle.get(titlePart);
+    }
+    return byTitle.get(titleKey(event.name));
+  };
+
+  events.forEach((event, i) => {
+    const duration = framesToSeconds(event.durationFrames, fps);
+    const source = findFrame(event);
+
+    if (source && !used.has(source.id)) {
+      used.add(source.id);
+      matched++;
+      if (Math.abs((source.duration || 4) - duration) >= 0.5 / fps) retimed++;
+      frames.push({ ...source, duration });
+    } else if (source) {
+      // The editor used the same shot twice: keep both as separate scenes
+      frames.push({ ...source, id: `${source.id}_c${stamp}${i}`, duration });
+      added.push(`${source.title} (repeat)`);
+    } else {
+      frames.push({
+        id: `cut_${stamp}_${i}`,
+        title: event.name || `Scene ${i + 1}`,
+        description: '',
+        image: null,
+        assignedAssetIds: [],
+        ...event.fields,
+        duration
+      });
+      added.push(event.name || `Scene ${i + 1}`);
+    }
+  });
+
+  return {
+    format,
+    fps,
+    frames,
+    matched,
+    retimed,
+    added,
+    removed: current.filter(f => !used.has(f.id)),
+    warnings
+  };
+};
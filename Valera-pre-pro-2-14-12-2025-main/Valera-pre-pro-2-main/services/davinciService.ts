@@ -1,5 +1,7 @@
 
 import { ProjectData } from '../types';
+import { layoutAudio, volumeToDb, PlacedAudio } from './audioService';
+import { CutEvent, TimelineImportResult, conformTimeline } from './conformService';
 
 // Helper to ensure we always have a string before calling string methods
 const safeStr = (val: any, fallback: string = ""): string => {
@@ -10,7 +12,7 @@ const safeStr = (val: any, fallback: string = ""): string => {
 /**
  * Helper to format frames to Timecode (HH:MM:SS:FF)
  */
-const framesToTimecode = (totalFrames: number, fps: number): string => {
+export const framesToTimecode = (totalFrames: number, fps: number): string => {
     const hours = Math.floor(totalFrames / (3600 * fps));
     const minutes = Math.floor((totalFrames % (3600 * fps)) / (60 * fps));
     const seconds = Math.floor(((totalFrames % (3600 * fps)) % (60 * fps)) / fps);
@@ -41,6 +43,20 @@ export const generateDaVinciPythonScript = (project: ProjectData): string => {
         };
     });
 
+    const audio = layoutAudio(project, fps);
+    const toAudioEntry = (clip: PlacedAudio, track: number) => ({
+        filename: clip.fileName,
+        track,
+        recordFrame: clip.startFrame,
+        sourceIn: clip.sourceInFrames,
+        durationFrames: clip.durationFrames,
+        volumeDb: volumeToDb(clip.volume)
+    });
+    const audioData = [
+        ...audio.voiceOver.map(c => toAudioEntry(c, 1)),
+        ...audio.music.map(c => toAudioEntry(c, 2))
+    ];
+
     const pythonScript = `
 #!/usr/bin/env python
 import sys
@@ -50,7 +66,7 @@ import os
 # 1. Open DaVinci Resolve
 # 2. Go to "Workspace" -> "Console" -> Select "Py3" (Python 3)
 # 3. Drag and drop this file into the console window.
-# NOTE: Ensure the 'images' folder is in the same directory as this script.
+# NOTE: Ensure the 'images' (and 'audio') folders are in the same directory as this script.
 
 def ImportProject():
     resolve = None
@@ -92,6 +108,7 @@ def ImportProject():
     # Configuration
     FPS = ${fps}
     SCENES = ${JSON.stringify(sceneData, null, 4)}
+    AUDIO = ${JSON.stringify(audioData, null, 4)}
     
     # 1. Locate Images Folder
     # We assume the script is located in the root of the exported folder
@@ -189,6 +206,47 @@ def ImportProject():
     else:
         print("No clips were prepared for timeline.")
 
+    # 6. Audio (VO on A1, music beds on A2), placed by record frame
+    if AUDIO:
+        audio_path = os.path.join(script_path, "audio")
+        audio_files = []
+        for clip in AUDIO:
+            full_path = os.path.join(audio_path, clip['filename'])
+            if os.path.exists(full_path):
+                if full_path not in audio_files:
+                    audio_files.append(full_path)
+            else:
+                print(f"Warning: Missing audio file {full_path}")
+
+        audio_lookup = {}
+        if audio_files:
+            for item in mediaPool.ImportMedia(audio_files) or []:
+                audio_lookup[item.GetName()] = item
+
+        while timeline.GetTrackCount("audio") < 2:
+            timeline.AddTrack("audio", "stereo")
+
+        timelineStart = timeline.GetStartFrame()
+        audio_entries = []
+        for clip in AUDIO:
+            if clip['filename'] not in audio_lookup:
+                continue
+            audio_entries.append({
+                "mediaPoolItem": audio_lookup[clip['filename']],
+                "startFrame": clip['sourceIn'],
+                "endFrame": clip['sourceIn'] + clip['durationFrames'],
+                "mediaType": 2, # Audio
+                "trackIndex": clip['track'],
+                "recordFrame": timelineStart + clip['recordFrame']
+            })
+            if clip['volumeDb'] != 0:
+                # The scripting API can't set clip volume
+                print(f"Note: set {clip['filename']} on A{clip['track']} to {clip['volumeDb']} dB")
+
+        if audio_entries:
+            timeline.AppendToTimeline(audio_entries)
+            print(f"Placed {len(audio_entries)} audio clips.")
+
     print("--- Valera Import Complete ---")
 
 if __name__ == "__main__":
@@ -215,6 +273,24 @@ export const generateDaVinciXML = (project: ProjectData): string => {
     let clipsXml = '';
     let currentStartSeconds = 0;
 
+    // Audio rides as connected clips on the scene it starts with (lane -1 VO, lane -2 music)
+    const audio = layoutAudio(project, fps);
+    const connectedAudio: Record<number, string> = {};
+    const rational = (frames: number) => `${frames}/${fps}s`;
+    const addAudio = (clip: PlacedAudio, lane: number, role: string, resId: string) => {
+        const audioName = safeStr(clip.clip.name).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        const fileDuration = clip.clip.duration > 0 ? `${clip.clip.duration}s` : rational(clip.sourceInFrames + clip.durationFrames);
+        resourcesXml += `
+        <asset id="${resId}" name="${clip.fileName}" uid="${resId}" src="./audio/${clip.fileName}" start="0s" duration="${fileDuration}" hasAudio="1" audioSources="1" audioChannels="2" audioRate="48000" />`;
+        const volume = clip.volume !== 1 ? `
+                            <adjust-volume amount="${volumeToDb(clip.volume)}dB"/>` : '';
+        connectedAudio[clip.sceneIndex] = (connectedAudio[clip.sceneIndex] || '') + `
+                        <asset-clip name="${audioName}" ref="${resId}" lane="${lane}" offset="0s" start="${rational(clip.sourceInFrames)}" duration="${rational(clip.durationFrames)}" audioRole="${role}">${volume}
+                        </asset-clip>`;
+    };
+    audio.voiceOver.forEach((clip, i) => addAudio(clip, -1, 'dialogue', `vo${i + 1}`));
+    audio.music.forEach((clip, i) => addAudio(clip, -2, 'music', `mu${i + 1}`));
+
     project.timeline.forEach((frame, index) => {
         const durationSec = frame.duration || 4;
         const rawTitle = frame.title || `Scene_${index+1}`;
@@ -238,7 +314,7 @@ export const generateDaVinciXML = (project: ProjectData): string => {
 
         clipsXml += `
                     <asset-clip name="${clipName}" ref="${resId}" offset="${offset}" start="0s" duration="${durationSec}s" lane="0" format="r1">
-                        <note>${note}</note>
+                        <note>${note}</note>${connectedAudio[index] || ''}
                     </asset-clip>`;
         
         currentStartSeconds += durationSec;
@@ -282,6 +358,14 @@ export const generateEDL = (project: ProjectData): string => {
     let edl = `TITLE: ${title}\nFCM: NON-DROP FRAME\n\n`;
     
     let currentFrameCount = 0;
+    let eventNumber = 0;
+
+    // Audio events follow the video event of the scene they start with
+    const audio = layoutAudio(project, fps);
+    const audioEvents = (index: number) => [
+        ...audio.voiceOver.filter(c => c.sceneIndex === index).map(c => ({ clip: c, channel: 'A ', track: 'A1' })),
+        ...audio.music.filter(c => c.sceneIndex === index).map(c => ({ clip: c, channel: 'A2', track: 'A2' }))
+    ];
 
     project.timeline.forEach((frame, index) => {
         const durationSec = frame.duration || 4;
@@ -291,7 +375,7 @@ export const generateEDL = (project: ProjectData): string => {
         const filename = `Scene_${index + 1}_${safeTitle}.png`;
         
         // EDL Index
-        const editId = (index + 1).toString().padStart(3, '0');
+        const editId = (++eventNumber).toString().padStart(3, '0');
         
         // Source Timecode (Images act as 00:00:00:00 start)
         const srcIn = "00:00:00:00";
@@ -315,8 +399,149 @@ export const generateEDL = (project: ProjectData): string => {
         }
         edl += `\n`;
 
+        audioEvents(index).forEach(({ clip, channel, track }) => {
+            const audioId = (++eventNumber).toString().padStart(3, '0');
+            const aSrcIn = framesToTimecode(clip.sourceInFrames, fps);
+            const aSrcOut = framesToTimecode(clip.sourceInFrames + clip.durationFrames, fps);
+            const aRecIn = framesToTimecode(clip.startFrame, fps);
+            const aRecOut = framesToTimecode(clip.startFrame + clip.durationFrames, fps);
+            edl += `${audioId}  AX       ${channel}    C        ${aSrcIn} ${aSrcOut} ${aRecIn} ${aRecOut}\n`;
+            edl += `* FROM CLIP NAME: ${clip.fileName}\n`;
+            if (clip.volume !== 1) {
+                edl += `* AUDIO LEVEL AT ${aRecIn} IS ${volumeToDb(clip.volume).toFixed(2)} DB  (REEL AX ${track})\n`;
+            }
+            edl += `\n`;
+        });
+
         currentFrameCount += durationFrames;
     });
 
     return edl;
 };
+
+// --- EDL IMPORT ---
+
+interface EDLLine {
+    event: string;
+    reel: string;
+    channels: string; // V, A, A2, AA, AA/V, B...
+    transition: string; // C, D, Wnnn, K...
+    recIn: number; // Frames
+    recOut: number;
+}
+
+interface EDLEvent {
+    lines: EDLLine[];
+    fromClip?: string;
+    toClip?: string; // Incoming clip of a dissolve or wipe
+    sourceFile?: string;
+    comments: string[];
+}
+
+const TC = '(\\d{1,2}[:;.]\\d{2}[:;.]\\d{2}[:;.]\\d{2})';
+// 001  AX  V  C  [dur]  srcIn srcOut recIn recOut
+const EVENT_RE = new RegExp(`^(\\d{1,6})\\s+(\\S+)\\s+(\\S+)\\s+(C|D|W\\d{3}|K[BO]?)\\s+(?:\\d{1,3}\\s+)?${TC}\\s+${TC}\\s+${TC}\\s+${TC}\\s*$`, 'i');
+
+/**
+ * Timecode to a frame count. Drop-frame (29.97/59.94) skips 2 or 4 frame numbers every minute
+ * except each tenth; `nominal` is the rounded rate (30 for 29.97).
+ */
+export const timecodeToFrames = (timecode: string, nominal: number, dropFrame: boolean): number => {
+    const [h, m, s, f] = timecode.split(/[:;.]/).map(n => parseInt(n, 10));
+    const totalMinutes = h * 60 + m;
+    const dropped = dropFrame ? Math.round(nominal / 15) * (totalMinutes - Math.floor(totalMinutes / 10)) : 0;
+    return (totalMinutes * 60 + s) * nominal + f - dropped;
+};
+
+/**
+ * Reads a CMX 3600 EDL (as written by Resolve, Premiere, Avid or generateEDL) and conforms the storyboard to
+ * its video events. Clips are matched by their FROM CLIP NAME / SOURCE FILE, which is the exported
+ * Scene_N_Title.png. Audio events are read but not conformed: voice-over and music stay with their scenes.
+ */
+export const importEDL = (text: string, project: ProjectData): TimelineImportResult => {
+    const fps = project.timelineSettings.fps || 24;
+    const nominal = Math.round(fps);
+    const warnings: string[] = [];
+    const events = new Map<string, EDLEvent>();
+    let dropFrame = false;
+    let current: EDLEvent | undefined;
+    let frameOverflow = false;
+    let speedChanges = 0;
+
+    const toFrames = (timecode: string) => {
+        const isDrop = dropFrame || timecode.includes(';');
+        if (parseInt(timecode.slice(-2), 10) >= nominal) frameOverflow = true;
+        return timecodeToFrames(timecode, nominal, isDrop && (nominal === 30 || nominal === 60));
+    };
+
+    text.replace(/\r\n?/g, '\n').split('\n').forEach(raw => {
+        const line = raw.trim();
+        if (!line) return;
+
+        const fcm = line.match(/^FCM:\s*(.+)$/i);
+        if (fcm) {
+            dropFrame = !/NON/i.test(fcm[1]);
+            return;
+        }
+        if (/^TITLE:/i.test(line)) return;
+
+        const match = line.match(EVENT_RE);
+        if (match) {
+            const [, event, reel, channels, transition, , , recIn, recOut] = match;
+            const entry = events.get(event) || { lines: [], comments: [] };
+            entry.lines.push({ event, reel, channels: channels.toUpperCase(), transition: transition.toUpperCase(), recIn: toFrames(recIn), recOut: toFrames(recOut) });
+            events.set(event, entry);
+            current = entry;
+            return;
+        }
+
+        if (/^M2\s/i.test(line)) { speedChanges++; return; }
+        if (!current || !line.startsWith('*')) return;
+
+        const comment = line.replace(/^\*\s*/, '');
+        const field = (label: string) => comment.match(new RegExp(`^${label}\\s*:\\s*(.*)$`, 'i'))?.[1].trim();
+        const from = field('FROM CLIP NAME');
+        const to = field('TO CLIP NAME');
+        const source = field('SOURCE FILE');
+        if (from !== undefined) current.fromClip = from;
+        else if (to !== undefined) current.toClip = to;
+        else if (source !== undefined) current.sourceFile = source;
+        else current.comments.push(field('COMMENT') ?? comment);
+    });
+
+    if (events.size === 0) throw new Error('No CMX 3600 events found');
+    if (frameOverflow) warnings.push(`Some timecodes have frame numbers above ${nominal - 1}: the edit may not be at the project's ${fps} fps.`);
+    if (dropFrame && nominal !== 30 && nominal !== 60) warnings.push(`The EDL is drop-frame but the project is ${fps} fps; timecodes were read as non-drop.`);
+    if (speedChanges > 0) warnings.push(`${speedChanges} speed change(s) (M2) were ignored.`);
+
+    // One picture per event: the incoming side of a dissolve, never its zero-length outgoing line
+    const video = Array.from(events.values())
+        .map(e => ({ event: e, line: [...e.lines].reverse().find(l => l.channels.includes('V') && l.recOut > l.recIn) }))
+        .filter((v): v is { event: EDLEvent, line: EDLLine } => !!v.line)
+        .sort((a, b) => a.line.recIn - b.line.recIn);
+    const audioOnly = Array.from(events.values()).filter(e => !e.lines.some(l => l.channels.includes('V'))).length;
+    if (audioOnly > 0) warnings.push(`${audioOnly} audio event(s) were read but not applied; voice-over and music keep their placement.`);
+    if (video.length === 0) throw new Error('The EDL has no video events');
+
+    let gaps = 0;
+    let overlaps = 0;
+    const cut: CutEvent[] = video.map(({ event, line }, i) => {
+        const previous = video[i - 1]?.line;
+        if (previous && line.recIn > previous.recOut) gaps++;
+        if (previous && line.recIn < previous.recOut && line.transition === 'C') overlaps++;
+        const incoming = line.transition !== 'C' && event.toClip ? event.toClip : event.fromClip;
+        const fileName = event.sourceFile?.split(/[\\/]/).pop() || incoming;
+        return {
+            name: (incoming || line.reel).replace(/\.[a-z0-9]{2,4}$/i, ''),
+            durationFrames: line.recOut - line.recIn,
+            fileName,
+            fields: event.comments.length ? { description: event.comments.join('\n') } : undefined
+        };
+    });
+
+    if (gaps > 0) warnings.push(`${gaps} gap(s) in the cut were dropped; scenes are laid out back to back.`);
+    if (overlaps > 0) warnings.push(`${overlaps} event(s) overlap the one before (multiple video tracks?); each was kept at its full length.`);
+    if (video.some(v => v.line.transition !== 'C')) warnings.push('Dissolves and wipes were read as cuts where the transition starts.');
+
+    return conformTimeline(project, cut, fps, 'EDL', warnings);
+};
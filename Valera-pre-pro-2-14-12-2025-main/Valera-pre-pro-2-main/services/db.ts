@@ -0,0 +1,73 @@
+
+const DB_NAME = 'ValeraPreProDB';
+const DB_VERSION = 4;
+
+export const LEGACY_STORE_NAME = 'project_autosave';
+export const PROJECTS_STORE = 'projects';
+export const SUMMARIES_STORE = 'project_summaries';
+export const IMAGES_STORE = 'image_blobs';
+export const SNAPSHOTS_STORE = 'project_snapshots';
+
+/**
+ * Opens the shared Valera database and creates missing object stores.
+ * v1: single-slot autosave (kept for migration)
+ * v2: multi-project workspace
+ * v3: content-addressed image blobs
+ * v4: per-project snapshots (indexed by projectId)
+ */
+export const openDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      console.error("IDB Open Error");
+      reject("Failed to open database");
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      if (!db.objectStoreNames.contains(LEGACY_STORE_NAME)) {
+        db.createObjectStore(LEGACY_STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE);
+      }
+      if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+        db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+        db.createObjectStore(IMAGES_STORE);
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        snapshots.createIndex('projectId', 'projectId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+  });
+};
+
+/**
+ * Wraps a single IDBRequest in a promise.
+ */
+export const runRequest = <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  return openDB().then(db => new Promise<T>((resolve, reject) => {
+    try {
+      const transaction = db.transaction([storeName], mode);
+      const req = action(transaction.objectStore(storeName));
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = (e) => {
+        console.warn(`IDB ${mode} Error (${storeName})`, e);
+        reject(`Failed to access ${storeName}`);
+      };
+    } catch (e) {
+      console.warn("IDB Transaction Error", e);
+      reject(e);
+    }
+  }));
+};
@@ -0,0 +1,251 @@
+
+import { LabAssetSuggestion, TimelineSuggestion, DirectorAction } from '../types';
+
+/**
+ * Schemas for the director's structured blocks (```json_assets / json_timeline / json_actions).
+ * Written as plain JSON Schema so the same object validates replies locally and is sent
+ * to providers that support schema-constrained output.
+ */
+
+export type DirectorBlockType = 'json_assets' | 'json_timeline' | 'json_actions';
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  pattern?: string;
+  description?: string;
+}
+
+const ASSET_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['type', 'name', 'description'],
+  properties: {
+    type: { type: 'string', enum: ['character', 'item', 'location'] },
+    name: { type: 'string' },
+    description: { type: 'string', description: 'Visual description used as the image prompt' },
+    triggerWord: { type: 'string' }
+  }
+};
+
+const TIMELINE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['title', 'visualDescription'],
+  properties: {
+    title: { type: 'string' },
+    visualDescription: { type: 'string' },
+    shotType: { type: 'string' },
+    duration: { type: 'number', description: 'Seconds' },
+    musicMood: { type: 'string' },
+    sunoPrompt: { type: 'string' },
+    dialogue: { type: 'string' },
+    speechPrompt: { type: 'string' },
+    videoPrompt: { type: 'string' },
+    assetNames: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+const ACTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['label', 'action'],
+  properties: {
+    label: { type: 'string' },
+    // Not an enum: DirectingHub handles more actions than the DirectorAction union lists
+    action: { type: 'string', pattern: '^[A-Z0-9_]+$' },
+    payload: {}
+  }
+};
+
+export const DIRECTOR_BLOCK_SCHEMAS: Record<DirectorBlockType, JsonSchema> = {
+  json_assets: { type: 'array', items: ASSET_SCHEMA },
+  json_timeline: { type: 'array', items: TIMELINE_SCHEMA },
+  json_actions: { type: 'array', items: ACTION_SCHEMA }
+};
+
+// --- VALIDATION ---
+
+/**
+ * Validates `value` against a schema, coercing the harmless deviations models produce
+ * (numeric strings, enum casing, lower-case action ids). Returns the coerced value and error paths.
+ */
+const validate = (value: any, schema: JsonSchema, path: string, errors: string[]): any => {
+  if (!schema.type) return value;
+
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path}: expected an object`);
+        return value;
+      }
+      const result: any = { ...value };
+      (schema.required || []).forEach(key => {
+        if (result[key] === undefined || result[key] === null || result[key] === '') errors.push(`${path}.${key}: required`);
+      });
+      Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+        if (result[key] !== undefined && result[key] !== null) result[key] = validate(result[key], propSchema, `${path}.${key}`, errors);
+      });
+      return result;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: expected an array`);
+        return value;
+      }
+      return value.map((item, i) => (schema.items ? validate(item, schema.items, `${path}[${i}]`, errors) : item));
+    }
+    case 'number':
+    case 'integer': {
+      const num = typeof value === 'string' ? parseFloat(value) : value;
+      if (typeof num !== 'number' || isNaN(num)) {
+        errors.push(`${path}: expected a number`);
+        return value;
+      }
+      return schema.type === 'integer' ? Math.round(num) : num;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${path}: expected true/false`);
+      return value;
+    case 'string': {
+      if (typeof value === 'number') value = String(value);
+      if (typeof value !== 'string') {
+        errors.push(`${path}: expected a string`);
+        return value;
+      }
+      if (schema.enum) {
+        const match = schema.enum.find(e => e.toLowerCase() === value.trim().toLowerCase());
+        if (!match) errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+        return match || value;
+      }
+      if (schema.pattern) {
+        const normalized = value.trim().toUpperCase().replace(/\s+/g, '_');
+        if (!new RegExp(schema.pattern).test(normalized)) errors.push(`${path}: invalid value "${value}"`);
+        return normalized;
+      }
+      return value;
+    }
+  }
+  return value;
+};
+
+export interface BlockValidation<T> {
+  items: T[]; // Items that passed validation
+  errors: string[];
+}
+
+/**
+ * Validates a parsed block. A single object is accepted as a one-item array.
+ * Invalid items are dropped from `items` and reported in `errors`.
+ */
+export const validateDirectorBlock = <T = any>(blockType: DirectorBlockType, data: any): BlockValidation<T> => {
+  const list = Array.isArray(data) ? data : [data];
+  const itemSchema = DIRECTOR_BLOCK_SCHEMAS[blockType].items!;
+  const items: T[] = [];
+  const errors: string[] = [];
+
+  list.forEach((item, i) => {
+    const itemErrors: string[] = [];
+    const coerced = validate(item, itemSchema, `[${i}]`, itemErrors);
+    if (itemErrors.length === 0) items.push(coerced);
+    else errors.push(...itemErrors);
+  });
+  return { items, errors };
+};
+
+// --- MESSAGE PARSING ---
+
+export const safeJsonParse = (str: string) => {
+  try {
+    return JSON.parse(str);
+  } catch (e) {
+    // Try a simple cleanup for common LLM JSON errors (trailing commas, smart quotes, // comments)
+    try {
+      const fixed = str
+        .replace(/^\s*\/\/.*$/gm, '')
+        .replace(/[“”]/g, '"')
+        .replace(/,\s*]/g, ']')
+        .replace(/,\s*}/g, '}');
+      return JSON.parse(fixed);
+    } catch (e2) {
+      throw e;
+    }
+  }
+};
+
+export type MessagePart =
+  | { type: 'text', content: string }
+  | { type: 'assets', content: LabAssetSuggestion[] }
+  | { type: 'timeline', content: TimelineSuggestion[] }
+  | { type: 'actions', content: DirectorAction[] }
+  | { type: 'pending', content: DirectorBlockType } // Block whose closing fence hasn't arrived (streaming or stopped mid-block)
+  | { type: 'error', content: BlockError };
+
+export interface BlockError {
+  blockType: DirectorBlockType;
+  raw: string; // Block body as the model wrote it
+  errors: string[];
+  start: number; // Offsets of the whole fenced block in the message text
+  end: number;
+}
+
+const PART_TYPES: Record<DirectorBlockType, 'assets' | 'timeline' | 'actions'> = {
+  json_assets: 'assets',
+  json_timeline: 'timeline',
+  json_actions: 'actions'
+};
+
+/**
+ * Splits a director message into text and validated structured blocks.
+ * Blocks that fail to parse or validate come back as 'error' parts (next to any valid items)
+ * so the UI can show them and offer a repair.
+ */
+export const parseMessageContent = (text: string): MessagePart[] => {
+  const parts: MessagePart[] = [];
+  let cursor = 0;
+  // Improved Regex to handle optional spaces: ``` json_assets
+  const combinedRegex = /```\s*(json_assets|json_timeline|json_actions)([\s\S]*?)```/g;
+  let match;
+
+  while ((match = combinedRegex.exec(text)) !== null) {
+    if (match.index > cursor) {
+      parts.push({ type: 'text', content: text.substring(cursor, match.index) });
+    }
+
+    const blockType = match[1] as DirectorBlockType;
+    const raw = match[2].trim();
+    const location = { start: match.index, end: match.index + match[0].length };
+
+    try {
+      const { items, errors } = validateDirectorBlock(blockType, safeJsonParse(raw));
+      if (items.length > 0) parts.push({ type: PART_TYPES[blockType], content: items } as MessagePart);
+      if (errors.length > 0) parts.push({ type: 'error', content: { blockType, raw, errors, ...location } });
+    } catch (e: any) {
+      parts.push({ type: 'error', content: { blockType, raw, errors: [`Invalid JSON: ${e.message}`], ...location } });
+    }
+
+    cursor = location.end;
+  }
+
+  if (cursor < text.length) {
+    const rest = text.substring(cursor);
+    const open = rest.match(/```\s*(json_assets|json_timeline|json_actions)/);
+    if (open && open.index !== undefined) {
+      if (open.index > 0) parts.push({ type: 'text', content: rest.substring(0, open.index) });
+      parts.push({ type: 'pending', content: open[1] as DirectorBlockType });
+    } else {
+      parts.push({ type: 'text', content: rest });
+    }
+  }
+
+  return parts;
+};
+
+export const findBlockErrors = (text: string): BlockError[] =>
+  parseMessageContent(text).filter(p => p.type === 'error').map(p => p.content as BlockError);
+
+/**
+ * Replaces a fenced block in the message text with a clean, re-serialized one.
+ */
+export const replaceBlock = (text: string, error: BlockError, items: any[]): string =>
+  `${text.slice(0, error.start)}\`\`\`${error.blockType}\n${JSON.stringify(items, null, 2)}\n\`\`\`${text.slice(error.end)}`;
@@ -0,0 +1,50 @@
+import { ProjectData } from '../types';
+import { timelineToScreenplay } from './fountainService';
+
+const escapeXml = (val: any): string => String(val ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const paragraph = (type: string, text: string, attrs: string = '', inner: string = ''): string =>
+    `    <Paragraph${attrs} Type="${type}">${inner}\n      <Text>${escapeXml(text)}</Text>\n    </Paragraph>`;
+
+/**
+ * Generates a Final Draft (.fdx) screenplay with the same scenes as the Fountain export.
+ * Scene titles that aren't headings are kept as the Final Draft scene title (Scene Navigator).
+ */
+export const generateFDX = (project: ProjectData): string => {
+    const title = project.meta?.appName || 'Valera Project';
+    const body: string[] = [];
+
+    timelineToScreenplay(project).forEach(scene => {
+        const number = scene.sceneNumber ? ` Number="${escapeXml(scene.sceneNumber)}"` : '';
+        const properties = scene.synopsis ? `\n      <SceneProperties Title="${escapeXml(scene.synopsis)}"/>` : '';
+        body.push(paragraph('Scene Heading', scene.heading, number, properties));
+        scene.action.forEach(p => body.push(paragraph('Action', p)));
+        scene.speeches.forEach(s => {
+            body.push(paragraph('Character', s.character.toUpperCase()));
+            if (s.parenthetical) body.push(paragraph('Parenthetical', s.parenthetical));
+            body.push(paragraph('Dialogue', s.text || '...'));
+        });
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+${body.join('\n')}
+  </Content>
+  <TitlePage>
+    <Content>
+      <Paragraph Alignment="Center" Type="Action">
+        <Text>${escapeXml(title.toUpperCase())}</Text>
+      </Paragraph>
+      <Paragraph Alignment="Center" Type="Action">
+        <Text>Draft ${new Date().toISOString().slice(0, 10)}</Text>
+      </Paragraph>
+    </Content>
+  </TitlePage>
+</FinalDraft>
+`;
+};
@@ -0,0 +1,450 @@
+
+import { Character, TimelineFrame, ProjectData } from '../types';
+
+/**
+ * Fountain screenplay import (https://fountain.io/syntax). Deterministic: scene headings become
+ * timeline frames, action becomes the description, character cues + dialogue become `dialogue`,
+ * and every distinct character and location becomes an asset, matched against the existing library.
+ * The export goes the other way for Fountain; fdxService writes the same scenes as Final Draft XML.
+ */
+
+export interface FountainSpeech {
+  character: string; // Cue without extensions, e.g. "ANNA" for "ANNA (V.O.)"
+  parenthetical?: string;
+  text: string;
+}
+
+export interface FountainScene {
+  heading: string; // As written, without the scene number; '' for action before the first heading
+  intExt?: string; // INT, EXT, INT/EXT, EST
+  location: string;
+  timeOfDay?: string;
+  sceneNumber?: string;
+  synopsis?: string;
+  action: string[]; // Paragraphs
+  speeches: FountainSpeech[];
+}
+
+export interface FountainScript {
+  titlePage: Record<string, string>; // Lowercased keys: title, credit, author, draft date...
+  scenes: FountainScene[];
+  characters: string[]; // Distinct cue names, in order of first appearance
+  locations: string[];
+}
+
+// --- PARSER ---
+
+// Russian scripts write ИНТ./НАТ. for INT./EXT.
+const HEADING_RE = /^(INT\.?\/EXT|INT\/EXT|I\/E|INT|EXT|EST|ИНТ\.?\/НАТ|НАТ\.?\/ИНТ|ИНТ|НАТ)[\.\s]/iu;
+const SCENE_NUMBER_RE = /\s*#([\w.\-]+)#\s*$/;
+const TRANSITION_RE = /^[\p{Lu}\s]+TO:$/u;
+
+const stripEmphasis = (text: string) => text
+  .replace(/\\([*_])/g, '\u0000$1')
+  .replace(/\*{1,3}([^*]+?)\*{1,3}/g, '$1')
+  .replace(/_([^_]+?)_/g, '$1')
+  .replace(/\u0000/g, '');
+
+const isUpperCue = (line: string) => {
+  const name = line.replace(/\(.*\)\s*$/, '').replace(/\^$/, '').trim();
+  // Any script's capitals (ИВАН as well as ANNA); names without letters are not cues
+  return /\p{Lu}/u.test(name) && name === name.toUpperCase() && name !== name.toLowerCase();
+};
+
+export const cueName = (cue: string) => cue
+  .replace(/^@/, '')
+  .replace(/\^$/, '')
+  .replace(/\(.*?\)/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const parseHeading = (raw: string): Pick<FountainScene, 'heading' | 'intExt' | 'location' | 'timeOfDay' | 'sceneNumber'> => {
+  let heading = raw.startsWith('.') ? raw.slice(1).trim() : raw.trim();
+  let sceneNumber: string | undefined;
+  const numberMatch = heading.match(SCENE_NUMBER_RE);
+  if (numberMatch) {
+    sceneNumber = numberMatch[1];
+    heading = heading.replace(SCENE_NUMBER_RE, '');
+  }
+
+  let rest = heading;
+  let intExt: string | undefined;
+  const prefix = heading.match(HEADING_RE);
+  if (prefix) {
+    intExt = prefix[1].toUpperCase().replace('.', '').replace('I/E', 'INT/EXT');
+    rest = heading.slice(prefix[0].length).replace(/^[.\s]+/, '');
+  }
+
+  // "HOUSE - KITCHEN - NIGHT": the last part is the time of day
+  const parts = rest.split(/\s+[-–—]\s+/).map(p => p.trim()).filter(Boolean);
+  const timeOfDay = parts.length > 1 ? parts.pop() : undefined;
+  return { heading, intExt, location: parts.join(' - ') || rest, timeOfDay, sceneNumber };
+};
+
+const parseTitlePage = (lines: string[]): { titlePage: Record<string, string>, bodyStart: number } => {
+  const titlePage: Record<string, string> = {};
+  if (!/^[A-Za-z][A-Za-z ]*:/.test(lines[0] || '')) return { titlePage, bodyStart: 0 };
+
+  let key = '';
+  let i = 0;
+  for (; i < lines.length && lines[i].trim() !== ''; i++) {
+    const line = lines[i];
+    const match = line.match(/^([A-Za-z][A-Za-z ]*):\s*(.*)$/);
+    if (match && !/^\s/.test(line)) {
+      key = match[1].trim().toLowerCase();
+      titlePage[key] = stripEmphasis(match[2].trim());
+    } else if (key) {
+      titlePage[key] = [titlePage[key], stripEmphasis(line.trim())].filter(Boolean).join('\n');
+    }
+  }
+  return { titlePage, bodyStart: i };
+};
+
+/**
+ * Parses Fountain text into scenes. Notes, boneyard, sections, transitions and page breaks are dropped.
+ */
+export const parseFountain = (text: string): FountainScript => {
+  const cleaned = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '') // Boneyard
+    .replace(/[ \t]*\[\[[\s\S]*?\]\]/g, ''); // Notes
+  const lines = cleaned.split('\n');
+  const { titlePage, bodyStart } = parseTitlePage(lines);
+
+  const scenes: FountainScene[] = [];
+  const characters: string[] = [];
+  const locations: string[] = [];
+  let scene: FountainScene | null = null;
+  let paragraph: string[] = [];
+
+  const current = (): FountainScene => {
+    if (!scene) {
+      scene = { heading: '', location: '', action: [], speeches: [] };
+      scenes.push(scene);
+    }
+    return scene;
+  };
+  const flushAction = () => {
+    const textBlock = paragraph.join('\n').trim();
+    if (textBlock) current().action.push(textBlock);
+    paragraph = [];
+  };
+
+  for (let i = bodyStart; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    const prevBlank = i === bodyStart || lines[i - 1].trim() === '';
+    const next = (lines[i + 1] ?? '').trim();
+
+    if (trimmed === '') { flushAction(); continue; }
+    if (/^={3,}$/.test(trimmed)) { flushAction(); continue; } // Page break
+    if (trimmed.startsWith('#')) { flushAction(); continue; } // Section
+
+    if (trimmed.startsWith('=')) {
+      flushAction();
+      const synopsis = trimmed.replace(/^=\s*/, '');
+      const target = current();
+      target.synopsis = [target.synopsis, synopsis].filter(Boolean).join(' ');
+      continue;
+    }
+
+    // Scene heading (forced with a leading '.', but not '...')
+    if (prevBlank && ((HEADING_RE.test(trimmed)) || /^\.[^.]/.test(trimmed))) {
+      flushAction();
+      scene = { ...parseHeading(trimmed), action: [], speeches: [] };
+      scenes.push(scene);
+      // Forced headings without INT/EXT (".FLASHBACK") aren't places
+      if (scene.intExt && scene.location && !locations.includes(scene.location.toUpperCase())) locations.push(scene.location.toUpperCase());
+      continue;
+    }
+
+    // Transition
+    if ((prevBlank && next === '' && TRANSITION_RE.test(trimmed)) || (trimmed.startsWith('>') && !trimmed.endsWith('<'))) {
+      flushAction();
+      continue;
+    }
+
+    // Character cue followed by parentheticals and dialogue up to the next blank line
+    const forcedCue = trimmed.startsWith('@');
+    if (prevBlank && next !== '' && !trimmed.startsWith('!') && (forcedCue || isUpperCue(trimmed))) {
+      flushAction();
+      const name = cueName(trimmed);
+      let parenthetical: string | undefined;
+      const text: string[] = [];
+      let j = i + 1;
+      for (; j < lines.length && lines[j].trim() !== ''; j++) {
+        const dl = lines[j].trim();
+        if (/^\(.*\)$/.test(dl)) {
+          if (text.length === 0) parenthetical = dl;
+          else text.push(dl);
+        } else {
+          text.push(stripEmphasis(dl.replace(/^~\s*/, '')));
+        }
+      }
+      i = j - 1;
+      if (text.length === 0 && !parenthetical) continue;
+      current().speeches.push({ character: name, parenthetical, text: text.join(' ') });
+      if (name && !characters.includes(name)) characters.push(name);
+      continue;
+    }
+
+    // Action (forced with '!', centered with '>...<')
+    const actionLine = trimmed.startsWith('!') ? trimmed.slice(1) : trimmed.startsWith('>') && trimmed.endsWith('<') ? trimmed.slice(1, -1).trim() : line.trimEnd();
+    paragraph.push(stripEmphasis(actionLine));
+  }
+  flushAction();
+
+  return { titlePage, scenes: scenes.filter(s => s.heading || s.action.length || s.speeches.length), characters, locations };
+};
+
+// --- ASSETS & FRAMES ---
+
+export interface FountainImport {
+  title?: string;
+  frames: TimelineFrame[];
+  newAssets: Character[];
+  matchedAssets: Character[]; // Library assets the script refers to, left unchanged
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/^the\s+/, '').replace(/\s+/g, ' ').trim();
+
+const titleCase = (name: string) => name.toLowerCase().replace(/(^|[\s\-/.'])(\p{L})/gu, (_, sep, ch) => sep + ch.toUpperCase());
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, name: string) => !!name && new RegExp(`(^|[^\\p{L}])${escapeRegExp(name)}($|[^\\p{L}])`, 'iu').test(text);
+
+// Rough reading pace so each scene holds its dialogue; storyboard default otherwise
+const WORDS_PER_SECOND = 2.5;
+const MIN_SCENE_SECONDS = 4;
+
+export const estimateSceneDuration = (scene: FountainScene): number => {
+  const words = scene.speeches.reduce((sum, s) => sum + s.text.split(/\s+/).filter(Boolean).length, 0);
+  return Math.max(MIN_SCENE_SECONDS, Math.ceil((words / WORDS_PER_SECOND) * 2) / 2);
+};
+
+/**
+ * Turns a parsed script into frames and assets. Characters and locations already in `library`
+ * (same type, by name or trigger word, case-insensitive) are linked instead of duplicated.
+ */
+export const buildFountainImport = (script: FountainScript, library: Character[], aspectRatio: string): FountainImport => {
+  const stamp = Date.now();
+  const newAssets: Character[] = [];
+  const matched = new Map<string, Character>();
+
+  const sceneList = (test: (s: FountainScene) => boolean) => {
+    const numbers = script.scenes.map((s, i) => test(s) ? i + 1 : 0).filter(Boolean);
+    return `scene${numbers.length === 1 ? '' : 's'} ${numbers.join(', ')}`;
+  };
+
+  const resolveAsset = (type: 'character' | 'location', scriptName: string, describe: () => string): Character => {
+    const key = normalizeName(scriptName);
+    const existing = library.find(c => c.type === type && (normalizeName(c.name) === key || (!!c.triggerWord && normalizeName(c.triggerWord) === key)));
+    if (existing) {
+      matched.set(existing.id, existing);
+      return existing;
+    }
+    const created = newAssets.find(c => c.type === type && normalizeName(c.name) === key);
+    if (created) return created;
+    const asset: Character = {
+      id: `${stamp}_${type}_${newAssets.length}`,
+      type,
+      name: titleCase(scriptName),
+      description: describe(),
+      image: null,
+      aspectRatio
+    };
+    newAssets.push(asset);
+    return asset;
+  };
+
+  const characterAssets = new Map<string, Character>();
+  script.characters.forEach(name => {
+    characterAssets.set(name, resolveAsset('character', name, () => {
+      // The introduction is usually the first action paragraph that names them
+      const intro = script.scenes.flatMap(s => s.action).find(p => mentions(p, name));
+      const scenesWith = sceneList(s => s.speeches.some(sp => sp.character === name));
+      return [intro, `Speaks in ${scenesWith}.`].filter(Boolean).join('\n');
+    }));
+  });
+
+  const locationAssets = new Map<string, Character>();
+  script.locations.forEach(location => {
+    locationAssets.set(location, resolveAsset('location', location, () => {
+      const first = script.scenes.find(s => s.location.toUpperCase() === location);
+      const kinds = Array.from(new Set(script.scenes.filter(s => s.location.toUpperCase() === location).map(s => s.intExt).filter(Boolean)));
+      const setting = [kinds.join('/'), `${sceneList(s => s.location.toUpperCase() === location)}`].filter(Boolean).join(', ');
+      return [first?.action[0], `Setting (${setting}).`].filter(Boolean).join('\n');
+    }));
+  });
+
+  // Everything an action line can name: this script's cast plus the whole library
+  const mentionable = [...Array.from(characterAssets.values()), ...library, ...newAssets]
+    .filter((c, i, all) => all.findIndex(o => o.id === c.id) === i);
+
+  const frames: TimelineFrame[] = script.scenes.map((scene, i) => {
+    const linked = new Set<string>();
+    const location = locationAssets.get(scene.location.toUpperCase());
+    if (location) linked.add(location.id);
+    scene.speeches.forEach(s => { const c = characterAssets.get(s.character); if (c) linked.add(c.id); });
+    const description = scene.action.join('\n\n');
+    mentionable.forEach(c => {
+      if (c.type !== 'location' && (mentions(description, c.name) || (!!c.triggerWord && mentions(description, c.triggerWord)))) linked.add(c.id);
+    });
+
+    const dialogue = scene.speeches
+      .map(s => `${characterAssets.get(s.character)?.name || titleCase(s.character)}: ${s.parenthetical ? `${s.parenthetical} ` : ''}${s.text}`)
+      .join('\n');
+
+    return {
+      id: `${stamp}_${i}`,
+      title: [scene.sceneNumber, scene.heading || 'Opening'].filter(Boolean).join('. '),
+      description: description || scene.synopsis || scene.heading,
+      duration: estimateSceneDuration(scene),
+      dialogue: dialogue || undefined,
+      assignedAssetIds: Array.from(linked),
+      image: null,
+      aspectRatio
+    };
+  });
+
+  return { title: script.titlePage.title, frames, newAssets, matchedAssets: Array.from(matched.values()) };
+};
+
+// --- DIALOGUE LINES ---
+
+export interface DialogueLine {
+  speaker?: string; // Undefined when nothing names one and the scene has no linked character
+  parenthetical?: string; // Leading "(beat)"
+  text: string;
+}
+
+// "Name: (beat) line" as written by the import
+const SPEAKER_RE = /^([^:()\n]{1,40}):\s*(.*)$/;
+
+/**
+ * Reads a scene's `dialogue` field line by line. Labels are matched to character assets (scene links
+ * first, then names and trigger words) and unknown all-caps labels are kept as they are; unlabeled lines
+ * continue the previous speaker, or go to the scene's first linked character. Shared by the screenplay
+ * exports and the subtitles so both attribute the same lines to the same speakers.
+ */
+export const splitDialogueLines = (dialogue: string, sceneCast: Character[], allCast: Character[]): DialogueLine[] => {
+  const lines: DialogueLine[] = [];
+  dialogue.split('\n').map(l => l.trim()).filter(Boolean).forEach(line => {
+    let speaker: string | undefined;
+    let text = line;
+    const match = line.match(SPEAKER_RE);
+    if (match) {
+      const label = match[1].trim();
+      const asset = [...sceneCast, ...allCast].find(c => normalizeName(c.name) === normalizeName(label) || (!!c.triggerWord && normalizeName(c.triggerWord) === normalizeName(label)));
+      if (asset || label === label.toUpperCase()) {
+        speaker = asset ? asset.name : label;
+        text = match[2];
+      }
+    }
+    speaker = speaker || lines[lines.length - 1]?.speaker || sceneCast[0]?.name;
+
+    let parenthetical: string | undefined;
+    const paren = text.match(/^(\([^)]*\))\s*(.*)$/);
+    if (paren) {
+      parenthetical = paren[1];
+      text = paren[2];
+    }
+    lines.push({ speaker, parenthetical, text });
+  });
+  return lines;
+};
+
+// --- EXPORT ---
+
+const NUMBERED_TITLE_RE = /^(\d+[A-Z]?)\.\s+(.+)$/;
+
+const parseDialogue = (dialogue: string, sceneCast: Character[], allCast: Character[]): FountainSpeech[] => {
+  const speeches: FountainSpeech[] = [];
+  splitDialogueLines(dialogue, sceneCast, allCast).forEach(({ speaker = 'Narrator', parenthetical, text }) => {
+    const previous = speeches[speeches.length - 1];
+    if (previous && previous.character === speaker && !parenthetical) previous.text = `${previous.text} ${text}`.trim();
+    else speeches.push({ character: speaker, parenthetical, text });
+  });
+  return speeches;
+};
+
+/**
+ * Screenplay scenes from the timeline, shared by the Fountain and FDX exports. Titles that already
+ * read as scene headings are kept; otherwise the heading comes from the first linked location
+ * (EXT when its description says so) and the title becomes the synopsis.
+ */
+export const timelineToScreenplay = (project: Pick<ProjectData, 'timeline' | 'references'>): FountainScene[] => {
+  const allCast = project.references.filter(c => c.type === 'character');
+  return project.timeline.map(frame => {
+    const linked = project.references.filter(c => frame.assignedAssetIds.includes(c.id));
+    const location = linked.find(c => c.type === 'location');
+    const cast = linked.filter(c => c.type === 'character');
+
+    let title = (frame.title || '').trim();
+    let sceneNumber: string | undefined;
+    const numbered = title.match(NUMBERED_TITLE_RE);
+    if (numbered && HEADING_RE.test(numbered[2])) {
+      sceneNumber = numbered[1];
+      title = numbered[2];
+    }
+
+    let heading: Pick<FountainScene, 'heading' | 'intExt' | 'location' | 'timeOfDay'>;
+    let synopsis: string | undefined;
+    if (HEADING_RE.test(title)) {
+      heading = parseHeading(title);
+    } else if (location) {
+      const intExt = /\bEXT\b|exterior/i.test(`${location.name} ${location.description}`) ? 'EXT' : 'INT';
+      heading = { heading: `${intExt}. ${location.name.toUpperCase()}`, intExt, location: location.name.toUpperCase() };
+      synopsis = title || undefined;
+    } else {
+      heading = { heading: (title || 'Untitled scene').toUpperCase(), location: '' };
+    }
+
+    return {
+      ...heading,
+      sceneNumber,
+      synopsis,
+      action: (frame.description || '').split(/\n\s*\n/).map(p => p.trim()).filter(Boolean),
+      speeches: frame.dialogue?.trim() ? parseDialogue(frame.dialogue, cast, allCast) : []
+    };
+  });
+};
+
+// Lines the Fountain parser would read as something else get forced to action with '!'
+const fountainAction = (paragraph: string) => paragraph.split('\n').map(line => {
+  const t = line.trim();
+  const ambiguous = /^[.@>=#~!\[]/.test(t) || HEADING_RE.test(t) || TRANSITION_RE.test(t) || isUpperCue(t);
+  return ambiguous ? `!${line}` : line;
+}).join('\n');
+
+const fountainCue = (name: string) => {
+  const cue = name.toUpperCase();
+  return isUpperCue(cue) ? cue : `@${cue}`;
+};
+
+/**
+ * Generates a .fountain screenplay (Highland, Slugline, Fade In, WriterDuet, Final Draft 12+).
+ */
+export const generateFountain = (project: ProjectData): string => {
+  const lines: string[] = [
+    `Title: ${project.meta?.appName || 'Valera Project'}`,
+    `Draft date: ${new Date().toISOString().slice(0, 10)}`,
+    ''
+  ];
+
+  timelineToScreenplay(project).forEach(scene => {
+    lines.push('');
+    const number = scene.sceneNumber ? ` #${scene.sceneNumber}#` : '';
+    lines.push(`${scene.intExt ? '' : '.'}${scene.heading}${number}`, '');
+    if (scene.synopsis) lines.push(`= ${scene.synopsis}`, '');
+    scene.action.forEach(p => lines.push(fountainAction(p), ''));
+    scene.speeches.forEach(s => {
+      lines.push(fountainCue(s.character));
+      if (s.parenthetical) lines.push(s.parenthetical);
+      lines.push(s.text || '...', '');
+    });
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+};
@@ -1,138 +1,72 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
 import { MODEL_IMAGE_FLASH, MODEL_TEXT, VAL_SYSTEM_PROMPT } from "../constants";
-import { ChatMessage, Character, TimelineFrame } from "../types";
-
-export type ApiProvider = 'google' | 'openrouter';
-
-// Singleton instance for Google SDK
-let clientInstance: GoogleGenAI | null = null;
-
-const STORAGE_KEY_GOOGLE = 'valera_api_key_google';
-const STORAGE_KEY_OPENROUTER = 'valera_api_key_openrouter';
-const STORAGE_KEY_LEGACY = 'valera_api_key'; // Backward compatibility
-const PROVIDER_KEY = 'valera_api_provider';
-
-// --- API KEY & PROVIDER MANAGEMENT ---
-
-export const getStoredKey = (provider: ApiProvider): string => {
-    if (provider === 'google') {
-        return localStorage.getItem(STORAGE_KEY_GOOGLE) || localStorage.getItem(STORAGE_KEY_LEGACY) || process.env.API_KEY || '';
-    }
-    if (provider === 'openrouter') {
-        return localStorage.getItem(STORAGE_KEY_OPENROUTER) || '';
-    }
-    return '';
+import { ChatMessage, Character, TimelineFrame, UsageEntry, UsageSource } from "../types";
+import { isImageRef, resolveImageData } from "./imageStore";
+import { getActiveProjectId } from "./storageService";
+import { AIProvider, AIChatRequest, AIUsage, ApiProvider, getApiSettings, urlToBase64 } from "./aiProvider";
+import { googleProvider } from "./googleProvider";
+import { openRouterProvider, customProvider } from "./openAICompatibleProvider";
+import { DirectorBlockType, DIRECTOR_BLOCK_SCHEMAS, safeJsonParse, validateDirectorBlock } from "./directorSchema";
+
+// --- PROVIDER REGISTRY ---
+
+const PROVIDERS: Record<ApiProvider, AIProvider> = {
+    google: googleProvider,
+    openrouter: openRouterProvider,
+    custom: customProvider
 };
 
-export const getApiSettings = () => {
-    const provider = (localStorage.getItem(PROVIDER_KEY) as ApiProvider) || 'google';
-    const key = getStoredKey(provider);
-    return { key, provider };
-};
-
-export const hasValidKey = (): boolean => {
-    // Check if current provider has key, OR if we have keys at all to let user switch
-    const gKey = getStoredKey('google');
-    const oKey = getStoredKey('openrouter');
-    return !!(gKey || oKey);
-};
+/**
+ * Returns a provider by id, defaulting to the one selected in Settings.
+ */
+export const getProvider = (id: ApiProvider = getApiSettings().provider): AIProvider => PROVIDERS[id] || googleProvider;
 
-export const saveKey = (provider: ApiProvider, key: string) => {
-    const cleanKey = key.trim();
-    if (provider === 'google') {
-        localStorage.setItem(STORAGE_KEY_GOOGLE, cleanKey);
-        // Clear legacy to avoid confusion if new key is set
-        if (cleanKey) localStorage.removeItem(STORAGE_KEY_LEGACY); 
-    } else {
-        localStorage.setItem(STORAGE_KEY_OPENROUTER, cleanKey);
-    }
-    clientInstance = null;
-};
+/**
+ * Provider that generateImage will use for `modelName`.
+ * If the requested model starts with 'gemini-', we assume user wants Google Native generation.
+ * This allows users to use OpenRouter for Chat but Google for Images (if they provided a Google Key).
+ */
+export const getImageProviderId = (modelName: string): ApiProvider =>
+  modelName.startsWith('gemini-') ? 'google' : getApiSettings().provider;
 
-export const setActiveProvider = (provider: ApiProvider) => {
-    localStorage.setItem(PROVIDER_KEY, provider);
-    clientInstance = null;
-};
+// --- USAGE RECORDING ---
 
-export const saveApiKey = (key: string) => {
-    // Default fallback for simple login screen (assumes Google)
-    saveKey('google', key);
-    setActiveProvider('google');
-};
+type UsageListener = (entry: UsageEntry, projectId: string | null) => void;
 
-export const clearApiKey = () => {
-    localStorage.removeItem(STORAGE_KEY_GOOGLE);
-    localStorage.removeItem(STORAGE_KEY_OPENROUTER);
-    localStorage.removeItem(STORAGE_KEY_LEGACY);
-    clientInstance = null;
-};
+const usageListeners = new Set<UsageListener>();
 
-// Helper: Get Google Client (Explicitly)
-const getGoogleClient = () => {
-  if (clientInstance) return clientInstance;
-  const key = getStoredKey('google');
-  
-  if (!key) throw new Error("Google API Key is missing. Please add it in Settings.");
-  
-  clientInstance = new GoogleGenAI({ apiKey: key });
-  return clientInstance;
+/**
+ * Subscribes to every successful AI call, with the project that was active when the call started.
+ * App appends the entries to that project's usageLog. Returns an unsubscribe function.
+ */
+export const onUsageRecorded = (fn: UsageListener) => {
+  usageListeners.add(fn);
+  return () => { usageListeners.delete(fn); };
 };
 
-// --- OPENROUTER FETCH HELPER ---
-const callOpenRouter = async (
-    model: string, 
-    messages: any[], 
-    temperature: number = 0.7,
-    jsonMode: boolean = false
-) => {
-    const key = getStoredKey('openrouter');
-    if (!key) throw new Error("OpenRouter API Key is missing.");
-    
-    let orModel = model;
-    // Basic mapping for Text
-    if (model.startsWith('gemini') && !model.includes('/')) {
-        orModel = `google/${model}`; 
-        if (model.includes('flash')) orModel = 'google/gemini-2.0-flash-001';
-        if (model.includes('pro')) orModel = 'google/gemini-2.0-pro-exp-02-05:free';
-    }
-
-    const payload: any = {
-        model: orModel,
-        messages: messages,
-        temperature: temperature,
-        top_p: 0.9,
+let usageCounter = 0;
+
+// Created when the call starts, so a project switch during a long generation doesn't move its spend
+const usageRecorder = (provider: AIProvider, kind: UsageEntry['kind'], source?: UsageSource, imageSize?: string) => {
+  const projectId = getActiveProjectId();
+  return (usage: AIUsage) => {
+    const entry: UsageEntry = {
+      id: `usage-${Date.now()}-${usageCounter++}`,
+      timestamp: Date.now(),
+      provider: provider.id,
+      model: usage.model,
+      kind,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      ...(kind === 'image' ? { images: 1, imageSize: imageSize || '1K' } : {}),
+      source
     };
-
-    if (jsonMode) {
-        payload.response_format = { type: "json_object" };
-    }
-
-    try {
-        const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${key}`,
-                "HTTP-Referer": window.location.href, // Required by OpenRouter
-                "X-Title": "Valera Pre-Production", // Required by OpenRouter
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify(payload)
-        });
-
-        if (!response.ok) {
-            const errText = await response.text();
-            throw new Error(`OpenRouter Error ${response.status}: ${errText}`);
-        }
-
-        const data = await response.json();
-        return data.choices[0].message.content;
-    } catch (e: any) {
-        console.error("OpenRouter Call Failed:", e);
-        throw e;
-    }
+    usageListeners.forEach(fn => fn(entry, projectId));
+  };
 };
 
+const DIRECTOR_SOURCE: UsageSource = { type: 'director', name: 'Director chat' };
+
 // --- RETRY HELPER ---
 const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -152,26 +86,20 @@ async function retryOperation<T>(operation: () => Promise<T>, retries = 3, delay
   }
 }
 
-// Helper: Convert URL to Base64 Data URL
-const urlToBase64 = async (url: string): Promise<string> => {
-    try {
-        const response = await fetch(url);
-        const blob = await response.blob();
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve(reader.result as string);
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-        });
-    } catch (e) {
-        console.warn("Failed to fetch image URL:", url, e);
-        return "";
-    }
+const extractRefinedPrompt = (text: string) => {
+  const match = text.match(/Refined Prompt:\s*([\s\S]+?)(?=\s*(?:🧩|Elements|$))/i);
+  return match && match[1] ? match[1].trim() : text;
 };
 
+export interface DirectorStreamOptions {
+  onText: (text: string) => void; // Accumulated reply so far
+  signal?: AbortSignal;
+}
+
 /**
  * Main Director Chat Function
- * Supports both Google Native and OpenRouter
+ * Runs on the provider selected in Settings. With `stream`, tokens are delivered as they arrive;
+ * aborting through `stream.signal` resolves with the partial reply instead of an error.
  */
 export const sendDirectorMessage = async (
   history: ChatMessage[],
@@ -182,10 +110,11 @@ export const sendDirectorMessage = async (
   activeFrameContext?: TimelineFrame | null,
   timelineContext?: TimelineFrame[],
   currentRatio: string = "16:9",
-  resolutionLabel: string = ""
+  resolutionLabel: string = "",
+  stream?: DirectorStreamOptions
 ): Promise<string> => {
   
-  const { provider } = getApiSettings();
+  const provider = getProvider();
 
   // --- CONTEXT BUILDING (Shared) ---
   const chars = projectContext.filter(c => c.type === 'character');
@@ -220,69 +149,28 @@ export const sendDirectorMessage = async (
 
   const finalSystemInstruction = `${VAL_SYSTEM_PROMPT}\n\n${styleSuffix}${formatRule}${assetsDesc}${timelineSummary}${sceneContext}`;
 
-  // === BRANCH 1: OPENROUTER ===
-  if (provider === 'openrouter') {
-      const messages: any[] = [
-          { role: 'system', content: finalSystemInstruction },
-          ...history.map(msg => ({
-              role: msg.role === 'model' ? 'assistant' : 'user',
-              content: msg.text || "..."
-          })),
-      ];
-
-      // Add new message with attachments
-      const userContent: any[] = [{ type: "text", text: newMessage }];
-      if (attachments.length > 0) {
-          attachments.forEach(att => {
-              // OpenRouter standard image format
-              userContent.push({
-                  type: "image_url",
-                  image_url: { url: att.data } 
-              });
-          });
-      }
-      messages.push({ role: 'user', content: userContent });
-
-      return await retryOperation(() => callOpenRouter(MODEL_TEXT, messages, 0.85));
-  }
-
-  // === BRANCH 2: GOOGLE NATIVE ===
-  const ai = getGoogleClient();
-  const contents = history.map((msg) => {
-    return {
-      role: msg.role,
-      parts: [{ text: msg.text || "" }]
-    };
-  });
-
-  const newParts: any[] = [];
-  attachments.forEach(att => {
-    newParts.push({
-      inlineData: {
-        mimeType: att.mimeType,
-        data: att.data.split(',')[1]
-      }
-    });
-  });
-  newParts.push({ text: newMessage });
-  
-  contents.push({ role: 'user', parts: newParts });
-
+  const request: AIChatRequest = {
+      system: finalSystemInstruction,
+      messages: [
+          ...history.map(msg => ({ role: msg.role === 'model' ? 'assistant' as const : 'user' as const, text: msg.text })),
+          { role: 'user' as const, text: newMessage, attachments }
+      ],
+      model: MODEL_TEXT,
+      temperature: 0.85,
+      webSearch: true,
+      signal: stream?.signal,
+      onUsage: usageRecorder(provider, 'chat', DIRECTOR_SOURCE)
+  };
+
+  let partial = "";
   try {
-    const response = await retryOperation<GenerateContentResponse>(async () => {
-        return await ai.models.generateContent({
-          model: MODEL_TEXT,
-          contents: contents,
-          config: {
-            systemInstruction: finalSystemInstruction,
-            temperature: 0.85,
-            tools: [{ googleSearch: {} }] 
-          }
-        });
-    });
-    return response.text || "Error: Empty response";
+    const reply = stream
+        ? await retryOperation(() => provider.streamChat(request, text => { partial = text; stream.onText(text); }))
+        : await retryOperation(() => provider.chat(request));
+    return reply || "Error: Empty response";
   } catch (error: any) {
-    console.error("Gemini Error", error);
+    if (stream?.signal?.aborted) return partial;
+    console.error(`${provider.label} Error`, error);
     if (error.message?.includes('429')) return "🛑 Quota Exceeded (429). Wait a bit.";
     return `Error: ${error.message}`;
   }
@@ -291,32 +179,15 @@ export const sendDirectorMessage = async (
 /**
  * Enhances prompt (Text Only)
  */
-export const enhancePrompt = async (userInput: string, assetsContext?: string): Promise<string> => {
-  const { provider } = getApiSettings();
+export const enhancePrompt = async (userInput: string, assetsContext?: string, source?: UsageSource): Promise<string> => {
+  const provider = getProvider();
   const systemInstruction = `You are NanoBanana Prompt Polisher. Transform prompts into detailed cinematic descriptions. English only.`;
   let prompt = `Raw idea: "${userInput}".`;
   if (assetsContext) prompt += `\nContext: ${assetsContext}`;
 
   try {
-      if (provider === 'openrouter') {
-          const messages = [
-              { role: 'system', content: systemInstruction },
-              { role: 'user', content: prompt }
-          ];
-          const text = await retryOperation(() => callOpenRouter(MODEL_TEXT, messages, 0.7));
-          const match = text.match(/Refined Prompt:\s*([\s\S]+?)(?=\s*(?:🧩|Elements|$))/i);
-          return match && match[1] ? match[1].trim() : text;
-      } else {
-          const ai = getGoogleClient();
-          const response = await retryOperation<GenerateContentResponse>(() => ai.models.generateContent({
-            model: MODEL_TEXT,
-            contents: prompt,
-            config: { systemInstruction, temperature: 0.7 }
-          }));
-          const fullText = response.text || userInput;
-          const match = fullText.match(/Refined Prompt:\s*([\s\S]+?)(?=\s*(?:🧩|Elements|$))/i);
-          return match && match[1] ? match[1].trim() : fullText; 
-      }
+      const text = await retryOperation(() => provider.generateText(prompt, systemInstruction, MODEL_TEXT, 0.7, usageRecorder(provider, 'text', source)));
+      return extractRefinedPrompt(text || userInput);
   } catch (error) {
     return userInput; 
   }
@@ -324,134 +195,100 @@ export const enhancePrompt = async (userInput: string, assetsContext?: string):
 
 /**
  * Generate Image
- * Supports Hybrid Logic: Can force Google Model usage even when OpenRouter is selected for Text.
+ * Supports Hybrid Logic: Can force Google Model usage even when another provider is selected for Text.
  */
 export const generateImage = async (
   prompt: string, 
   referenceImages?: string[],
   aspectRatio: string = "16:9",
   modelName: string = MODEL_IMAGE_FLASH,
-  imageSize?: string
+  imageSize?: string,
+  source?: UsageSource // Scene or asset the image is for (cost reporting)
 ): Promise<string> => {
-  const { provider } = getApiSettings();
-
-  // HYBRID LOGIC CHECK
-  // If the requested model starts with 'gemini-', we assume user wants Google Native generation.
-  // This allows users to use OpenRouter for Chat but Google for Images (if they provided a Google Key).
-  const isGoogleModel = modelName.startsWith('gemini-');
-  
-  if (isGoogleModel) {
-      // Use Google Native Client
-      const ai = getGoogleClient();
-      const parts: any[] = [];
-
-      if (referenceImages && referenceImages.length > 0) {
-        const processedImages = await Promise.all(referenceImages.map(async (img) => {
-            if (img.startsWith('http')) return await urlToBase64(img);
-            return img;
-        }));
-
-        processedImages.forEach(img => {
-            if (!img) return;
-            const matches = img.match(/^data:(.+);base64,(.+)$/);
-            if (matches) {
-                parts.push({
-                    inlineData: { mimeType: matches[1], data: matches[2] }
-                });
-            }
-        });
-        parts.push({ text: "Using the visual style and subjects from references: " + prompt });
-      } else {
-        parts.push({ text: prompt });
-      }
-
-      const config: any = { imageConfig: { aspectRatio: aspectRatio as any } };
-      
-      try {
-          const response = await retryOperation<GenerateContentResponse>(() => ai.models.generateContent({
-            model: modelName,
-            contents: { parts },
-            config
-          }));
-
-          if (response.candidates?.[0]?.content?.parts) {
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData?.data) {
-                    return `data:image/png;base64,${part.inlineData.data}`;
-                }
-            }
-          }
-          throw new Error("No image data returned from Gemini.");
-      } catch (error: any) {
-          if (error.message?.includes('429')) throw new Error("API Quota Limit (429).");
-          throw error;
-      }
+  // HYBRID LOGIC CHECK (see getImageProviderId)
+  const provider = getProvider(getImageProviderId(modelName));
+  if (!provider.capabilities.image) throw new Error(`${provider.label} does not support image generation`);
+
+  let references: string[] = [];
+  if (provider.capabilities.imageReferences && referenceImages && referenceImages.length > 0) {
+    references = await Promise.all(referenceImages.map(async (img) => {
+        if (isImageRef(img)) return await resolveImageData(img);
+        if (img.startsWith('http')) return await urlToBase64(img);
+        return img;
+    }));
   }
 
-  // Handle Images via OpenRouter (Experimental/Standard OpenAI API)
-  if (provider === 'openrouter') {
-      const key = getStoredKey('openrouter');
-      if (!key) throw new Error("OpenRouter Key Missing");
-
-      // Use the selected model (e.g. 'black-forest-labs/flux-1-schnell')
-      const orImageModel = modelName || 'black-forest-labs/flux-1-schnell'; 
-
-      try {
-          const response = await fetch("https://openrouter.ai/api/v1/images/generations", {
-              method: "POST",
-              headers: {
-                  "Authorization": `Bearer ${key}`,
-                  "HTTP-Referer": window.location.href,
-                  "X-Title": "Valera Pre-Production",
-                  "Content-Type": "application/json"
-              },
-              body: JSON.stringify({
-                  model: orImageModel,
-                  prompt: prompt,
-                  size: "1024x1024", // Flux usually handles standard sizes
-                  // Note: OpenRouter Image API param names might vary per model, but this is OpenAI standard
-                  response_format: "b64_json" 
-              })
-          });
-
-          if (!response.ok) {
-             const txt = await response.text();
-             throw new Error(`OpenRouter Image Error: ${txt}`);
-          }
-          const data = await response.json();
-          // Standard OpenAI format
-          if (data.data && data.data[0]) {
-              const b64 = data.data[0].b64_json;
-              if (b64) return `data:image/png;base64,${b64}`;
-              if (data.data[0].url) {
-                  return await urlToBase64(data.data[0].url);
-              }
-          }
-          throw new Error("No image data returned from OpenRouter");
-      } catch (e) {
-          console.error("OpenRouter Image Gen Failed", e);
-          throw e;
-      }
-  }
-  
-  // Fallback (Should not reach here if keys properly managed)
-  throw new Error("Invalid Provider Configuration");
+  return retryOperation(() => provider.generateImage({
+      prompt,
+      referenceImages: references.filter(Boolean),
+      aspectRatio,
+      model: modelName,
+      imageSize,
+      onUsage: usageRecorder(provider, 'image', source, imageSize)
+  }));
 };
 
-export const generateVoiceDirection = async (dialogue: string, sceneDescription: string): Promise<string> => {
-  const { provider } = getApiSettings();
+/**
+ * Inpainting: repaints the white area of `mask` in `image` (both data URLs at the same size).
+ * Uses the same provider choice as generateImage; throws if that provider can't edit with a mask.
+ */
+export const editImageRegion = async (
+  prompt: string,
+  image: string,
+  mask: string,
+  aspectRatio: string = "16:9",
+  modelName: string = MODEL_IMAGE_FLASH,
+  source?: UsageSource
+): Promise<string> => {
+  const provider = getProvider(getImageProviderId(modelName));
+  if (!provider.capabilities.imageEdit) throw new Error(`${provider.label} does not support masked image edits. Use a Gemini image model or a custom endpoint.`);
+
+  return retryOperation(() => provider.editImage({
+      prompt,
+      image,
+      mask,
+      aspectRatio,
+      model: modelName,
+      onUsage: usageRecorder(provider, 'image', source)
+  }));
+};
+
+export const generateVoiceDirection = async (dialogue: string, sceneDescription: string, source?: UsageSource): Promise<string> => {
   const system = `You are a Voice Director. Rewrite dialogue for TTS. Use CAPS for stress.`;
   const prompt = `Context: "${sceneDescription}"\nDialogue: "${dialogue}"`;
+  const provider = getProvider();
 
   try {
-      if (provider === 'openrouter') {
-          return await callOpenRouter(MODEL_TEXT, [{role:'system',content:system},{role:'user',content:prompt}]);
-      } else {
-          const ai = getGoogleClient();
-          const res = await ai.models.generateContent({
-              model: MODEL_TEXT, contents: prompt, config: { systemInstruction: system }
-          });
-          return res.text || "";
-      }
+      return await provider.generateText(prompt, system, MODEL_TEXT, undefined, usageRecorder(provider, 'text', source));
   } catch (e) { return ""; }
 };
+
+/**
+ * Repair round-trip for a director block that failed validation.
+ * Sends the broken block and the validation errors back to the model with the block schema
+ * (schema-constrained where the provider supports it, JSON mode otherwise).
+ * Returns the validated items or throws with the remaining errors.
+ */
+export const repairDirectorBlock = async (blockType: DirectorBlockType, raw: string, errors: string[]): Promise<any[]> => {
+  // JSON mode requires an object at the top level, so the array is wrapped in { items }
+  const responseSchema = { type: 'object', required: ['items'], properties: { items: DIRECTOR_BLOCK_SCHEMAS[blockType] } };
+  const system = `You repair structured output of a film pre-production assistant. Return ONLY JSON: an object with an "items" array matching the schema. Keep the original content and language, fix only structure, types and missing required fields.`;
+  const prompt = `Block type: ${blockType}\nSchema for each item: ${JSON.stringify(DIRECTOR_BLOCK_SCHEMAS[blockType].items)}\nValidation errors:\n${errors.map(e => `- ${e}`).join('\n')}\n\nBroken block:\n${raw}`;
+
+  const provider = getProvider();
+  const reply = await retryOperation(() => provider.chat({
+      system,
+      messages: [{ role: 'user', text: prompt }],
+      model: MODEL_TEXT,
+      temperature: 0.2,
+      jsonMode: true,
+      responseSchema,
+      onUsage: usageRecorder(provider, 'chat', DIRECTOR_SOURCE)
+  }));
+
+  const cleaned = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  const parsed = safeJsonParse(cleaned);
+  const result = validateDirectorBlock(blockType, Array.isArray(parsed) ? parsed : parsed?.items);
+  if (result.errors.length > 0) throw new Error(result.errors.join('; '));
+  return result.items;
+};
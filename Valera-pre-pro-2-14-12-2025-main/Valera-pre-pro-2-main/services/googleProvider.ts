@@ -0,0 +1,146 @@
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { AIProvider, AIChatRequest, AIImageRequest, AIImageEditRequest, AIUsage, getStoredKey, onProviderConfigChange } from "./aiProvider";
+
+// Singleton instance for Google SDK
+let clientInstance: GoogleGenAI | null = null;
+onProviderConfigChange(() => { clientInstance = null; });
+
+const getGoogleClient = () => {
+  if (clientInstance) return clientInstance;
+  const key = getStoredKey('google');
+
+  if (!key) throw new Error("Google API Key is missing. Please add it in Settings.");
+
+  clientInstance = new GoogleGenAI({ apiKey: key });
+  return clientInstance;
+};
+
+const toInlineData = (dataUrl: string, fallbackMime?: string) => {
+  const matches = dataUrl.match(/^data:(.+?);base64,(.+)$/);
+  if (!matches) return null;
+  return { inlineData: { mimeType: fallbackMime || matches[1], data: matches[2] } };
+};
+
+const reportUsage = (model: string, response: GenerateContentResponse | undefined, onUsage?: (usage: AIUsage) => void) => {
+  if (!onUsage) return;
+  const meta = response?.usageMetadata;
+  onUsage({ model, inputTokens: meta?.promptTokenCount, outputTokens: meta?.candidatesTokenCount });
+};
+
+const generateImageContent = async (model: string, parts: any[], aspectRatio: string, onUsage?: (usage: AIUsage) => void): Promise<string> => {
+  try {
+    const response: GenerateContentResponse = await getGoogleClient().models.generateContent({
+      model,
+      contents: { parts },
+      config: { imageConfig: { aspectRatio: aspectRatio as any } } as any
+    });
+
+    if (response.candidates?.[0]?.content?.parts) {
+      for (const part of response.candidates[0].content.parts) {
+        if (part.inlineData?.data) {
+          reportUsage(model, response, onUsage);
+          return `data:image/png;base64,${part.inlineData.data}`;
+        }
+      }
+    }
+    throw new Error("No image data returned from Gemini.");
+  } catch (error: any) {
+    if (error.message?.includes('429')) throw new Error("API Quota Limit (429).");
+    throw error;
+  }
+};
+
+const buildChatParams = ({ system, messages, model, temperature, jsonMode, responseSchema, webSearch, signal }: AIChatRequest) => {
+  const contents = messages.map(msg => {
+    const parts: any[] = [];
+    (msg.attachments || []).forEach(att => {
+      const part = toInlineData(att.data, att.mimeType);
+      if (part) parts.push(part);
+    });
+    parts.push({ text: msg.text || "" });
+    return { role: msg.role === 'assistant' ? 'model' : 'user', parts };
+  });
+
+  const config: any = { systemInstruction: system, temperature, abortSignal: signal };
+  if (webSearch) config.tools = [{ googleSearch: {} }];
+  // Search grounding and JSON mime type can't be combined
+  else if (jsonMode || responseSchema) {
+    config.responseMimeType = 'application/json';
+    if (responseSchema) config.responseJsonSchema = responseSchema;
+  }
+
+  return { model, contents, config };
+};
+
+/**
+ * Google AI Studio via the official SDK. The only provider with search grounding
+ * and reference-image conditioning.
+ */
+export const googleProvider: AIProvider = {
+  id: 'google',
+  label: 'Google Native',
+  capabilities: { chat: true, text: true, image: true, imageReferences: true, imageEdit: true, streaming: true },
+
+  async chat(request: AIChatRequest) {
+    const ai = getGoogleClient();
+    const response: GenerateContentResponse = await ai.models.generateContent(buildChatParams(request));
+    reportUsage(request.model, response, request.onUsage);
+    return response.text || "";
+  },
+
+  async streamChat(request: AIChatRequest, onText: (text: string) => void) {
+    const ai = getGoogleClient();
+    const stream = await ai.models.generateContentStream(buildChatParams(request));
+    let text = "";
+    let last: GenerateContentResponse | undefined;
+    for await (const chunk of stream) {
+      last = chunk; // Usage totals arrive on the final chunk
+      if (!chunk.text) continue;
+      text += chunk.text;
+      onText(text);
+    }
+    reportUsage(request.model, last, request.onUsage);
+    return text;
+  },
+
+  async generateText(prompt: string, system: string, model: string, temperature?: number, onUsage?: (usage: AIUsage) => void) {
+    const ai = getGoogleClient();
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: { systemInstruction: system, temperature }
+    });
+    reportUsage(model, response, onUsage);
+    return response.text || "";
+  },
+
+  async generateImage({ prompt, referenceImages, aspectRatio, model, onUsage }: AIImageRequest) {
+    const parts: any[] = [];
+
+    if (referenceImages.length > 0) {
+      referenceImages.forEach(img => {
+        const part = img ? toInlineData(img) : null;
+        if (part) parts.push(part);
+      });
+      parts.push({ text: "Using the visual style and subjects from references: " + prompt });
+    } else {
+      parts.push({ text: prompt });
+    }
+
+    return generateImageContent(model, parts, aspectRatio, onUsage);
+  },
+
+  // Gemini image models have no mask parameter: the mask goes in as a second image with instructions.
+  // Callers composite the result through the mask, so anything changed outside it is discarded anyway.
+  async editImage({ prompt, image, mask, aspectRatio, model, onUsage }: AIImageEditRequest) {
+    const parts = [toInlineData(image), toInlineData(mask)].filter(Boolean) as any[];
+    if (parts.length < 2) throw new Error("Image and mask must be data URLs.");
+    parts.push({
+      text: "Edit the first image. The second image is a mask of the same size: repaint only the white area and keep " +
+        "everything under the black area unchanged, matching perspective, lighting and grain at the edges. " +
+        `Return the full image at the same framing. In the white area: ${prompt}`
+    });
+    return generateImageContent(model, parts, aspectRatio, onUsage);
+  }
+};
@@ -0,0 +1,360 @@
+
+import { ProjectData, Character, TimelineFrame, GenerationLogEntry, AudioClip, LayerDocument } from '../types';
+import { openDB, IMAGES_STORE } from './db';
+
+/**
+ * Content-addressed image store.
+ * Images live as Blobs in their own object store, keyed by a hash of their bytes.
+ * ProjectData only carries `valera-img://<hash>` references, which are resolved
+ * lazily for display (object URLs), export (Blobs) and API calls (data URLs).
+ * Audio clips (voice-over, music beds) are stored the same way.
+ */
+
+export const IMAGE_REF_PREFIX = 'valera-img://';
+
+// Resolved object URLs, kept for the lifetime of the page
+const objectUrlCache = new Map<string, string>();
+// In-flight blob reads, so concurrent resolves of one ref hit IDB once
+const pendingBlobReads = new Map<string, Promise<Blob | null>>();
+
+export const isImageRef = (src?: string | null): boolean => !!src && src.startsWith(IMAGE_REF_PREFIX);
+
+export const isInlineImage = (src?: string | null): boolean => !!src && src.startsWith('data:image');
+
+const refToHash = (ref: string) => ref.slice(IMAGE_REF_PREFIX.length);
+
+// --- HASHING ---
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of the image bytes. crypto.subtle only exists in secure contexts
+ * (https / localhost), so LAN access over plain http falls back to a 53-bit cyrb hash.
+ */
+const hashBytes = async (buffer: ArrayBuffer): Promise<string> => {
+  if (window.crypto?.subtle) {
+    return toHex(await window.crypto.subtle.digest('SHA-256', buffer));
+  }
+  const bytes = new Uint8Array(buffer);
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < bytes.length; i++) {
+    h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+    h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `c53-${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)}-${bytes.length.toString(16)}`;
+};
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'image/png';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = reject;
+  reader.readAsDataURL(blob);
+});
+
+// --- IDB ACCESS ---
+
+const readBlob = (hash: string): Promise<Blob | null> => {
+  const pending = pendingBlobReads.get(hash);
+  if (pending) return pending;
+
+  const read = openDB().then(db => new Promise<Blob | null>((resolve) => {
+    try {
+      const req = db.transaction([IMAGES_STORE], 'readonly').objectStore(IMAGES_STORE).get(hash);
+      req.onsuccess = () => resolve((req.result as Blob) || null);
+      req.onerror = () => resolve(null);
+    } catch (e) {
+      resolve(null);
+    }
+  })).catch(() => null);
+
+  pendingBlobReads.set(hash, read);
+  read.finally(() => pendingBlobReads.delete(hash));
+  return read;
+};
+
+const writeBlob = (hash: string, blob: Blob): Promise<void> => {
+  return openDB().then(db => new Promise<void>((resolve, reject) => {
+    const store = db.transaction([IMAGES_STORE], 'readwrite').objectStore(IMAGES_STORE);
+    // Content-addressed: an existing key already holds identical bytes
+    const countReq = store.count(hash);
+    countReq.onsuccess = () => {
+      if (countReq.result > 0) return resolve();
+      const putReq = store.put(blob, hash);
+      putReq.onsuccess = () => resolve();
+      putReq.onerror = () => reject("Failed to store image blob");
+    };
+    countReq.onerror = () => reject("Failed to store image blob");
+  }));
+};
+
+// --- PUBLIC API ---
+
+/**
+ * Stores an image Blob and returns its reference.
+ */
+// Blobs written in the last few minutes, which the state referencing them may not have saved yet
+const RECENT_WRITE_GRACE = 5 * 60 * 1000;
+const recentWrites = new Map<string, number>();
+
+export const storeImageBlob = async (blob: Blob): Promise<string> => {
+  const hash = await hashBytes(await blob.arrayBuffer());
+  const ref = IMAGE_REF_PREFIX + hash;
+  recentWrites.set(ref, Date.now());
+  await writeBlob(hash, blob);
+  if (!objectUrlCache.has(ref)) objectUrlCache.set(ref, URL.createObjectURL(blob));
+  return ref;
+};
+
+/**
+ * Stores an inline data URL and returns its reference.
+ * References and remote URLs are returned unchanged.
+ */
+export const storeImage = async (src: string): Promise<string> => {
+  if (!isInlineImage(src)) return src;
+  return storeImageBlob(dataUrlToBlob(src));
+};
+
+/**
+ * Returns the Blob behind any image source (reference, data URL or remote URL).
+ */
+export const resolveImageBlob = async (src?: string | null): Promise<Blob | null> => {
+  if (!src) return null;
+  if (isImageRef(src)) return readBlob(refToHash(src));
+  if (isInlineImage(src)) return dataUrlToBlob(src);
+  try {
+    return await (await fetch(src)).blob();
+  } catch (e) {
+    console.warn("Failed to fetch image URL:", src, e);
+    return null;
+  }
+};
+
+/**
+ * Returns a data URL for a reference. Used where base64 is required (AI APIs, PDF, PPTX).
+ */
+export const resolveImageData = async (src: string): Promise<string> => {
+  if (!isImageRef(src)) return src;
+  const blob = await readBlob(refToHash(src));
+  return blob ? blobToDataUrl(blob) : '';
+};
+
+/**
+ * Synchronous lookup of an already-resolved reference. Non-references pass through.
+ */
+export const getCachedImageUrl = (src?: string | null): string | null => {
+  if (!src) return null;
+  if (!isImageRef(src)) return src;
+  return objectUrlCache.get(src) || null;
+};
+
+/**
+ * Returns a displayable URL (object URL for references). Safe for <img> and canvas.
+ */
+export const resolveImageUrl = async (src: string): Promise<string> => {
+  const cached = getCachedImageUrl(src);
+  if (cached) return cached;
+  const blob = await readBlob(refToHash(src));
+  if (!blob) return '';
+  const url = objectUrlCache.get(src) || URL.createObjectURL(blob);
+  objectUrlCache.set(src, url);
+  return url;
+};
+
+// --- LAYER DOCUMENTS ---
+
+/**
+ * The saved layer document for an image, or undefined when it belongs to an earlier image.
+ */
+export const layerDocumentFor = (image: string | null | undefined, layers?: LayerDocument): LayerDocument | undefined =>
+  image && layers && layers.image === image ? layers : undefined;
+
+// PNG of an image the editor already has loaded; null while it is still loading or when it is cross-origin
+const loadedImageBlob = (img: HTMLImageElement): Promise<Blob | null> => {
+  if (!img.complete || !img.naturalWidth) return Promise.resolve(null);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  canvas.getContext('2d')?.drawImage(img, 0, 0);
+  return new Promise(resolve => {
+    try {
+      canvas.toBlob(resolve, 'image/png');
+    } catch (e) {
+      resolve(null);
+    }
+  });
+};
+
+/**
+ * Moves the image layers of a document into the blob store. Editor layers may hold data URLs or
+ * object URLs of resolved references; both come back as references (the same one for unchanged
+ * images, since the store is content-addressed). A source that can't be read any more (a revoked
+ * object URL) is stored from the editor's loaded copy, `loadedImage(layerId)`. Returns undefined when
+ * a layer can't be stored either way: an object URL is dead after a reload, so only the flat image is kept.
+ */
+export const storeLayerImages = async (
+  doc: LayerDocument,
+  loadedImage?: (layerId: string) => HTMLImageElement | undefined
+): Promise<LayerDocument | undefined> => {
+  const objects = [];
+  for (const obj of doc.objects) {
+    if (!obj.src || isImageRef(obj.src)) { objects.push(obj); continue; }
+    try {
+      const blob = isInlineImage(obj.src) ? null : await resolveImageBlob(obj.src);
+      objects.push({ ...obj, src: blob ? await storeImageBlob(blob) : await storeImage(obj.src) });
+    } catch (e) {
+      const img = loadedImage?.(obj.id);
+      const blob = img ? await loadedImageBlob(img) : null;
+      const src = blob ? await storeImageBlob(blob).catch(() => null) : null;
+      if (!src) {
+        console.warn("Failed to store layer image, keeping the flat image only", obj.name, e);
+        return undefined;
+      }
+      objects.push({ ...obj, src });
+    }
+  }
+  return { ...doc, objects };
+};
+
+// --- PROJECT-LEVEL HELPERS ---
+
+const mapLayerDocument = (doc: LayerDocument, fn: (src: string) => string): LayerDocument => ({
+  ...doc,
+  image: fn(doc.image),
+  objects: doc.objects.map(o => o.src ? { ...o, src: fn(o.src) } : o)
+});
+
+const mapCharacterImages = (c: Character, fn: (src: string) => string): Character => ({
+  ...c,
+  image: c.image ? fn(c.image) : c.image,
+  imageHistory: c.imageHistory?.map(fn),
+  additionalReferences: c.additionalReferences?.map(fn),
+  layers: c.layers ? mapLayerDocument(c.layers, fn) : c.layers
+});
+
+const mapAudio = <T extends AudioClip>(clip: T, fn: (src: string) => string): T => ({ ...clip, src: fn(clip.src) });
+
+const mapFrameImages = (f: TimelineFrame, fn: (src: string) => string): TimelineFrame => ({
+  ...f,
+  image: f.image ? fn(f.image) : f.image,
+  imageHistory: f.imageHistory?.map(fn),
+  voiceOver: f.voiceOver ? mapAudio(f.voiceOver, fn) : f.voiceOver,
+  layers: f.layers ? mapLayerDocument(f.layers, fn) : f.layers
+});
+
+const mapLogImages = (l: GenerationLogEntry, fn: (src: string) => string): GenerationLogEntry => ({
+  ...l,
+  imageData: l.imageData ? fn(l.imageData) : l.imageData
+});
+
+/**
+ * Applies `fn` to every media slot of the project (images and audio clips).
+ */
+export const mapProjectImages = (project: ProjectData, fn: (src: string) => string): ProjectData => ({
+  ...project,
+  references: project.references.map(c => mapCharacterImages(c, fn)),
+  timeline: project.timeline.map(f => mapFrameImages(f, fn)),
+  musicBeds: project.musicBeds?.map(b => mapAudio(b, fn)),
+  generationLog: project.generationLog?.map(l => mapLogImages(l, fn))
+});
+
+const collectImages = (project: ProjectData, predicate: (src: string) => boolean): Set<string> => {
+  const found = new Set<string>();
+  mapProjectImages(project, src => {
+    if (predicate(src)) found.add(src);
+    return src;
+  });
+  return found;
+};
+
+export const hasInlineImages = (project: ProjectData): boolean => collectImages(project, isInlineImage).size > 0;
+
+export const collectImageRefs = (project: ProjectData): Set<string> => collectImages(project, isImageRef);
+
+/**
+ * Moves every inline image of the project into the blob store.
+ * Returns a map from the inline data URL to its reference; images that fail to store are left out.
+ */
+export const ingestInlineImages = async (project: ProjectData): Promise<Map<string, string>> => {
+  const refs = new Map<string, string>();
+  for (const src of collectImages(project, isInlineImage)) {
+    try {
+      refs.set(src, await storeImage(src));
+    } catch (e) {
+      console.warn("Failed to move image into blob store", e);
+    }
+  }
+  return refs;
+};
+
+/**
+ * Replaces inline images with their references. Pure, so it can run inside a state updater.
+ */
+export const applyImageRefs = (project: ProjectData, refs: Map<string, string>): ProjectData => {
+  if (refs.size === 0) return project;
+  return mapProjectImages(project, src => refs.get(src) || src);
+};
+
+export const dehydrateProject = async (project: ProjectData): Promise<ProjectData> => {
+  return applyImageRefs(project, await ingestInlineImages(project));
+};
+
+/**
+ * Resolves the current asset and scene images back to data URLs for exporters
+ * that need inline base64 (PDF, PPTX). History and generation log are left as references.
+ */
+export const hydrateProjectImages = async (project: ProjectData): Promise<ProjectData> => {
+  const resolve = async (src: string | null) => (src ? (await resolveImageData(src)) || null : src);
+  return {
+    ...project,
+    references: await Promise.all(project.references.map(async c => ({ ...c, image: await resolve(c.image) }))),
+    timeline: await Promise.all(project.timeline.map(async f => ({ ...f, image: await resolve(f.image) })))
+  };
+};
+
+/**
+ * Deletes every stored blob whose reference is not in `keep`. Blobs stored within
+ * RECENT_WRITE_GRACE are kept too: an ingest or editor save may not have reached the state yet.
+ */
+export const pruneImages = async (keep: Set<string>): Promise<number> => {
+  const now = Date.now();
+  recentWrites.forEach((time, ref) => {
+    if (now - time < RECENT_WRITE_GRACE) keep.add(ref);
+    else recentWrites.delete(ref);
+  });
+  const db = await openDB();
+  return new Promise((resolve) => {
+    let removed = 0;
+    try {
+      const transaction = db.transaction([IMAGES_STORE], 'readwrite');
+      const cursorReq = transaction.objectStore(IMAGES_STORE).openKeyCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        const ref = IMAGE_REF_PREFIX + String(cursor.primaryKey);
+        if (!keep.has(ref)) {
+          transaction.objectStore(IMAGES_STORE).delete(cursor.primaryKey);
+          const url = objectUrlCache.get(ref);
+          if (url) URL.revokeObjectURL(url);
+          objectUrlCache.delete(ref);
+          removed++;
+        }
+        cursor.continue();
+      };
+      transaction.oncomplete = () => resolve(removed);
+      transaction.onerror = () => resolve(removed);
+    } catch (e) {
+      resolve(removed);
+    }
+  });
+};
@@ -0,0 +1,118 @@
+import { ASPECT_RATIOS } from '../constants';
+
+/**
+ * Canvas helpers for inpainting in the image editor: painted strokes and lasso selections become a
+ * black/white mask at document resolution, and the edited image comes back cut to the masked area.
+ */
+
+export interface MaskPoint { x: number; y: number; }
+
+export interface MaskShapes {
+  strokes: { points: MaskPoint[]; lineWidth: number }[]; // Inpaint brush strokes
+  regions: MaskPoint[][]; // Closed lasso polygons
+}
+
+export interface MaskBounds { x: number; y: number; w: number; h: number; }
+
+// Soft edge (px) where the repainted area blends into the original
+const FEATHER = 4;
+
+const drawShapes = (ctx: CanvasRenderingContext2D, shapes: MaskShapes) => {
+  ctx.fillStyle = '#ffffff';
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  shapes.strokes.forEach(stroke => {
+    if (stroke.points.length === 0) return;
+    ctx.lineWidth = stroke.lineWidth;
+    ctx.beginPath();
+    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+    // A single click still paints a dot
+    if (stroke.points.length === 1) ctx.lineTo(stroke.points[0].x + 0.01, stroke.points[0].y);
+    stroke.points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+  });
+  shapes.regions.filter(r => r.length > 2).forEach(region => {
+    ctx.beginPath();
+    ctx.moveTo(region[0].x, region[0].y);
+    region.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.fill();
+  });
+};
+
+const maskBounds = (shapes: MaskShapes, width: number, height: number): MaskBounds | null => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const include = (p: MaskPoint, pad: number) => {
+    minX = Math.min(minX, p.x - pad); minY = Math.min(minY, p.y - pad);
+    maxX = Math.max(maxX, p.x + pad); maxY = Math.max(maxY, p.y + pad);
+  };
+  shapes.strokes.forEach(s => s.points.forEach(p => include(p, s.lineWidth / 2 + FEATHER)));
+  shapes.regions.filter(r => r.length > 2).forEach(r => r.forEach(p => include(p, FEATHER)));
+
+  const x = Math.max(0, Math.floor(minX));
+  const y = Math.max(0, Math.floor(minY));
+  const w = Math.min(width, Math.ceil(maxX)) - x;
+  const h = Math.min(height, Math.ceil(maxY)) - y;
+  return w > 0 && h > 0 ? { x, y, w, h } : null;
+};
+
+/**
+ * The mask as a PNG data URL at document size (white = repaint, black = keep) and the
+ * document-space box around the white area. Null when nothing inside the document is masked.
+ */
+export const rasterizeMask = (shapes: MaskShapes, width: number, height: number): { dataUrl: string, bounds: MaskBounds } | null => {
+  const bounds = maskBounds(shapes, width, height);
+  if (!bounds) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  drawShapes(ctx, shapes);
+  return { dataUrl: canvas.toDataURL('image/png'), bounds };
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Could not load the edited image'));
+  img.src = src;
+});
+
+/**
+ * Cuts the masked area out of the edited image with a feathered edge, as a PNG the size of `bounds`,
+ * to be placed at bounds.x/y. The edited image is stretched to the document in case the model
+ * returned a different resolution.
+ */
+export const cutOutMaskedRegion = async (edited: string, shapes: MaskShapes, width: number, height: number, bounds: MaskBounds): Promise<string> => {
+  const img = await loadImage(edited);
+  const canvas = document.createElement('canvas');
+  canvas.width = bounds.w;
+  canvas.height = bounds.h;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  ctx.translate(-bounds.x, -bounds.y);
+  ctx.filter = `blur(${FEATHER / 2}px)`;
+  drawShapes(ctx, shapes);
+  ctx.filter = 'none';
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * The supported generation aspect ratio closest to a document size.
+ */
+export const closestAspectRatio = (width: number, height: number): string => {
+  const ratio = width / height;
+  const value = (r: string) => { const [w, h] = r.split(':').map(Number); return w / h; };
+  return ASPECT_RATIOS
+    .map(r => r.value)
+    .reduce((best, r) => Math.abs(Math.log(value(r) / ratio)) < Math.abs(Math.log(value(best) / ratio)) ? r : best);
+};
@@ -0,0 +1,300 @@
+
+import { AIProvider, AIChatRequest, AIImageRequest, AIImageEditRequest, AIProviderCapabilities, AIUsage, ApiProvider, getStoredKey, getCustomProviderConfig, urlToBase64 } from "./aiProvider";
+
+interface OpenAICompatibleOptions {
+  id: ApiProvider;
+  label: string;
+  capabilities: AIProviderCapabilities;
+  getBaseUrl: () => string;
+  getApiKey: () => string;
+  requiresKey: boolean;
+  extraHeaders?: () => Record<string, string>;
+  mapChatModel: (model: string) => string;
+  mapImageModel: (model: string) => string;
+  imageSize: (aspectRatio: string) => string;
+  structuredOutput: 'json_schema' | 'json_object'; // How a responseSchema is requested
+}
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+// /images/edits takes the mask as transparency: fully transparent pixels are repainted
+const maskToAlpha = async (mask: string): Promise<Blob> => {
+  const bitmap = await createImageBitmap(await dataUrlToBlob(mask));
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  const pixels = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  for (let i = 0; i < pixels.data.length; i += 4) pixels.data[i + 3] = 255 - pixels.data[i];
+  ctx.putImageData(pixels, 0, 0);
+  bitmap.close();
+  return canvas.convertToBlob({ type: 'image/png' });
+};
+
+/**
+ * Builds a provider for any server speaking the OpenAI REST dialect
+ * (/chat/completions, /images/generations and /images/edits).
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): AIProvider => {
+  const { label } = options;
+
+  const endpoint = (path: string) => {
+    const base = options.getBaseUrl();
+    if (!base) throw new Error(`${label}: base URL is not configured. Please add it in Settings.`);
+    return `${base}${path}`;
+  };
+
+  const headers = () => {
+    const key = options.getApiKey();
+    if (!key && options.requiresKey) throw new Error(`${label} API Key is missing.`);
+    return {
+      ...(key ? { "Authorization": `Bearer ${key}` } : {}),
+      ...(options.extraHeaders ? options.extraHeaders() : {}),
+      "Content-Type": "application/json"
+    };
+  };
+
+  const send = async (path: string, payload: any, signal?: AbortSignal) => {
+    const response = await fetch(endpoint(path), {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify(payload),
+      signal
+    });
+    if (!response.ok) {
+      const errText = await response.text();
+      throw new Error(`${label} Error ${response.status}: ${errText}`);
+    }
+    return response;
+  };
+
+  const post = async (path: string, payload: any, signal?: AbortSignal) => (await send(path, payload, signal)).json();
+
+  // Chat endpoints report prompt/completion tokens, image endpoints input/output tokens (when at all)
+  const reportUsage = (model: string, usage: any, onUsage?: (usage: AIUsage) => void) => {
+    if (!onUsage) return;
+    onUsage({
+      model,
+      inputTokens: usage?.prompt_tokens ?? usage?.input_tokens,
+      outputTokens: usage?.completion_tokens ?? usage?.output_tokens
+    });
+  };
+
+  // Standard OpenAI image response: b64_json, or a URL to fetch
+  const readImage = async (data: any, model: string, onUsage?: (usage: AIUsage) => void): Promise<string> => {
+    if (data.data && data.data[0]) {
+      reportUsage(model, data.usage, onUsage);
+      const b64 = data.data[0].b64_json;
+      if (b64) return `data:image/png;base64,${b64}`;
+      if (data.data[0].url) {
+        return await urlToBase64(data.data[0].url);
+      }
+    }
+    throw new Error(`No image data returned from ${label}`);
+  };
+
+  const chatPayload = (messages: any[], model: string, temperature: number = 0.7, jsonMode: boolean = false, responseSchema?: object) => {
+    const payload: any = {
+      model: options.mapChatModel(model),
+      messages,
+      temperature,
+      top_p: 0.9,
+    };
+    if (responseSchema && options.structuredOutput === 'json_schema') {
+      payload.response_format = { type: "json_schema", json_schema: { name: "response", schema: responseSchema } };
+    } else if (jsonMode || responseSchema) {
+      payload.response_format = { type: "json_object" };
+    }
+    return payload;
+  };
+
+  const requestPayload = (request: AIChatRequest) =>
+    chatPayload(toPayloadMessages(request), request.model, request.temperature, request.jsonMode, request.responseSchema);
+
+  const complete = async (payload: any, signal?: AbortSignal, onUsage?: (usage: AIUsage) => void): Promise<string> => {
+    try {
+      const data = await post('/chat/completions', payload, signal);
+      reportUsage(data.model || payload.model, data.usage, onUsage);
+      return data.choices[0].message.content;
+    } catch (e: any) {
+      console.error(`${label} Call Failed:`, e);
+      throw e;
+    }
+  };
+
+  /**
+   * Reads a server-sent-events completion stream ("data: {json}" lines, terminated by "data: [DONE]").
+   */
+  const completeStream = async (payload: any, onText: (text: string) => void, signal?: AbortSignal, onUsage?: (usage: AIUsage) => void): Promise<string> => {
+    const response = await send('/chat/completions', { ...payload, stream: true, stream_options: { include_usage: true } }, signal);
+    if (!response.body) return complete(payload, signal, onUsage);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    let usage: any = null; // Sent in a final chunk with empty choices
+    const finish = () => {
+      reportUsage(payload.model, usage, onUsage);
+      return text;
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue; // Comments (": OPENROUTER PROCESSING") and blank keep-alives
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') return finish();
+        try {
+          const chunk = JSON.parse(data);
+          if (chunk.usage) usage = chunk.usage;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onText(text);
+          }
+        } catch (e) {
+          console.warn(`${label}: skipped malformed stream chunk`, data);
+        }
+      }
+    }
+    return finish();
+  };
+
+  const toPayloadMessages = ({ system, messages }: AIChatRequest) => {
+    const payloadMessages: any[] = system ? [{ role: 'system', content: system }] : [];
+    messages.forEach(msg => {
+      if (msg.attachments && msg.attachments.length > 0) {
+        payloadMessages.push({
+          role: msg.role,
+          content: [
+            { type: "text", text: msg.text },
+            ...msg.attachments.map(att => ({ type: "image_url", image_url: { url: att.data } }))
+          ]
+        });
+      } else {
+        payloadMessages.push({ role: msg.role, content: msg.text || "..." });
+      }
+    });
+    return payloadMessages;
+  };
+
+  return {
+    id: options.id,
+    label,
+    capabilities: options.capabilities,
+
+    chat(request: AIChatRequest) {
+      return complete(requestPayload(request), request.signal, request.onUsage);
+    },
+
+    streamChat(request: AIChatRequest, onText: (text: string) => void) {
+      return completeStream(requestPayload(request), onText, request.signal, request.onUsage);
+    },
+
+    generateText(prompt: string, system: string, model: string, temperature?: number, onUsage?: (usage: AIUsage) => void) {
+      return complete(chatPayload([{ role: 'system', content: system }, { role: 'user', content: prompt }], model, temperature), undefined, onUsage);
+    },
+
+    async generateImage({ prompt, aspectRatio, model, onUsage }: AIImageRequest) {
+      const apiModel = options.mapImageModel(model);
+      try {
+        const data = await post('/images/generations', {
+          model: apiModel,
+          prompt,
+          size: options.imageSize(aspectRatio),
+          response_format: "b64_json"
+        });
+        return await readImage(data, apiModel, onUsage);
+      } catch (e) {
+        console.error(`${label} Image Gen Failed`, e);
+        throw e;
+      }
+    },
+
+    async editImage({ prompt, image, mask, aspectRatio, model, onUsage }: AIImageEditRequest) {
+      if (!options.capabilities.imageEdit) throw new Error(`${label} does not support masked image edits`);
+      const apiModel = options.mapImageModel(model);
+      const form = new FormData();
+      form.append('model', apiModel);
+      form.append('prompt', prompt);
+      form.append('size', options.imageSize(aspectRatio));
+      form.append('response_format', 'b64_json');
+      form.append('image', await dataUrlToBlob(image), 'image.png');
+      form.append('mask', await maskToAlpha(mask), 'mask.png');
+
+      try {
+        // Multipart: fetch sets the Content-Type with its boundary
+        const { "Content-Type": _json, ...formHeaders } = headers();
+        const response = await fetch(endpoint('/images/edits'), { method: "POST", headers: formHeaders, body: form });
+        if (!response.ok) throw new Error(`${label} Error ${response.status}: ${await response.text()}`);
+        return await readImage(await response.json(), apiModel, onUsage);
+      } catch (e) {
+        console.error(`${label} Image Edit Failed`, e);
+        throw e;
+      }
+    }
+  };
+};
+
+// --- OPENROUTER ---
+
+export const openRouterProvider = createOpenAICompatibleProvider({
+  id: 'openrouter',
+  label: 'OpenRouter',
+  capabilities: { chat: true, text: true, image: true, imageReferences: false, imageEdit: false, streaming: true },
+  getBaseUrl: () => "https://openrouter.ai/api/v1",
+  getApiKey: () => getStoredKey('openrouter'),
+  requiresKey: true,
+  extraHeaders: () => ({
+    "HTTP-Referer": window.location.href, // Required by OpenRouter
+    "X-Title": "Valera Pre-Production" // Required by OpenRouter
+  }),
+  mapChatModel: (model) => {
+    // Basic mapping for Text
+    if (model.startsWith('gemini') && !model.includes('/')) {
+      if (model.includes('flash')) return 'google/gemini-2.0-flash-001';
+      if (model.includes('pro')) return 'google/gemini-2.0-pro-exp-02-05:free';
+      return `google/${model}`;
+    }
+    return model;
+  },
+  // Use the selected model (e.g. 'black-forest-labs/flux-1-schnell')
+  mapImageModel: (model) => model || 'black-forest-labs/flux-1-schnell',
+  imageSize: () => "1024x1024", // Flux usually handles standard sizes
+  structuredOutput: 'json_object' // json_schema support varies per routed model
+});
+
+// --- CUSTOM (local llama.cpp / Ollama / ComfyUI bridge) ---
+
+// Common SDXL-friendly sizes per aspect ratio; servers that don't care just ignore them
+const CUSTOM_IMAGE_SIZES: Record<string, string> = {
+  "16:9": "1344x768",
+  "9:16": "768x1344",
+  "1:1": "1024x1024",
+  "4:3": "1152x896",
+  "3:4": "896x1152"
+};
+
+export const customProvider = createOpenAICompatibleProvider({
+  id: 'custom',
+  label: 'Custom Endpoint',
+  capabilities: { chat: true, text: true, image: true, imageReferences: false, imageEdit: true, streaming: true }, // /images/edits (LocalAI, ComfyUI bridges)
+  getBaseUrl: () => getCustomProviderConfig().baseUrl,
+  getApiKey: () => getCustomProviderConfig().apiKey,
+  requiresKey: false,
+  // Canonical Google ids mean nothing to a local server, so the configured models win
+  mapChatModel: (model) => getCustomProviderConfig().chatModel || model,
+  mapImageModel: (model) => {
+    const imageModel = getCustomProviderConfig().imageModel || model;
+    if (!imageModel) throw new Error('Custom Endpoint has no image model. Set "Custom Image Model" in Settings.');
+    return imageModel;
+  },
+  imageSize: (aspectRatio) => CUSTOM_IMAGE_SIZES[aspectRatio] || "1024x1024",
+  structuredOutput: 'json_schema' // llama.cpp and Ollama constrain decoding with it
+});
@@ -0,0 +1,286 @@
+
+import { ProjectData, TimelineFrame } from '../types';
+import { sceneFileName, PACKAGE_AUDIO_FOLDER } from './packageService';
+import { layoutAudio, PlacedAudio } from './audioService';
+import { CutEvent, TimelineImportResult, conformTimeline } from './conformService';
+
+/**
+ * OpenTimelineIO (.otio JSON) export and import.
+ * Export writes schema versions every OTIO release can read (Clip.1, Marker.2, Gap.1).
+ * Each storyboard clip carries its Valera fields in metadata.valera so an edited cut can be conformed back.
+ * Attached voice-over and music beds get their own audio tracks next to the dialogue and music placeholders.
+ */
+
+const rationalTime = (value: number, rate: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate, value });
+
+const timeRange = (start: number, duration: number, rate: number) => ({
+  OTIO_SCHEMA: 'TimeRange.1',
+  start_time: rationalTime(start, rate),
+  duration: rationalTime(duration, rate)
+});
+
+const gap = (duration: number, rate: number) => ({
+  OTIO_SCHEMA: 'Gap.1',
+  name: '',
+  source_range: timeRange(0, duration, rate),
+  effects: [],
+  markers: [],
+  metadata: {}
+});
+
+const placeholderClip = (name: string, duration: number, rate: number, metadata: any) => ({
+  OTIO_SCHEMA: 'Clip.1',
+  name,
+  source_range: timeRange(0, duration, rate),
+  media_reference: { OTIO_SCHEMA: 'MissingReference.1', name: '', available_range: null, metadata: {} },
+  effects: [],
+  markers: [],
+  metadata
+});
+
+const track = (name: string, kind: 'Video' | 'Audio', children: any[]) => ({
+  OTIO_SCHEMA: 'Track.1',
+  name,
+  kind,
+  source_range: null,
+  effects: [],
+  markers: [],
+  metadata: {},
+  children
+});
+
+/**
+ * Audio clips placed by layoutAudio on one track, with gaps between them. A clip that starts
+ * before the previous one ends is trimmed at its head.
+ */
+const placedAudioItems = (clips: PlacedAudio[], fps: number) => {
+  const items: any[] = [];
+  let cursor = 0;
+  [...clips].sort((a, b) => a.startFrame - b.startFrame).forEach(placed => {
+    const overlap = Math.max(0, cursor - placed.startFrame);
+    const duration = placed.durationFrames - overlap;
+    if (duration <= 0) return;
+    if (placed.startFrame > cursor) items.push(gap(placed.startFrame - cursor, fps));
+    const fileFrames = placed.clip.duration > 0 ? Math.round(placed.clip.duration * fps) : null;
+    items.push({
+      OTIO_SCHEMA: 'Clip.1',
+      name: placed.clip.name,
+      source_range: timeRange(placed.sourceInFrames + overlap, duration, fps),
+      media_reference: {
+        OTIO_SCHEMA: 'ExternalReference.1',
+        name: placed.fileName,
+        target_url: `${PACKAGE_AUDIO_FOLDER}/${placed.fileName}`,
+        available_range: fileFrames ? timeRange(0, fileFrames, fps) : null,
+        metadata: {}
+      },
+      effects: [],
+      markers: [],
+      metadata: { valera: { id: placed.id, volume: placed.volume } } // OTIO has no standard level effect
+    });
+    cursor = placed.startFrame + placed.durationFrames;
+  });
+  return items;
+};
+
+const frameCount = (frame: TimelineFrame, fps: number) => Math.max(1, Math.round((frame.duration || 4) * fps));
+
+/**
+ * Marker comment readable in any NLE; the same fields are kept structured in the marker metadata.
+ */
+const markerComment = (frame: TimelineFrame) => [
+  frame.description && `DESCRIPTION: ${frame.description}`,
+  frame.dialogue && `DIALOGUE: ${frame.dialogue}`,
+  frame.videoPrompt && `VIDEO PROMPT: ${frame.videoPrompt}`
+].filter(Boolean).join('\n');
+
+export const generateOTIO = (project: ProjectData): string => {
+  const fps = project.timelineSettings.fps || 24;
+  const frames = project.timeline;
+
+  const videoClips = frames.map((frame, index) => {
+    const duration = frameCount(frame, fps);
+    const fileName = sceneFileName(frame, index);
+    return {
+      OTIO_SCHEMA: 'Clip.1',
+      name: frame.title || `Scene ${index + 1}`,
+      source_range: timeRange(0, duration, fps),
+      media_reference: {
+        OTIO_SCHEMA: 'ExternalReference.1',
+        name: fileName,
+        target_url: `images/${fileName}`,
+        available_range: null, // Stills can be extended freely
+        metadata: {}
+      },
+      effects: [],
+      markers: [{
+        OTIO_SCHEMA: 'Marker.2',
+        name: `Scene ${index + 1}`,
+        color: 'RED',
+        marked_range: timeRange(0, 0, fps),
+        comment: markerComment(frame),
+        metadata: { valera: { description: frame.description || '', dialogue: frame.dialogue || '', videoPrompt: frame.videoPrompt || '' } }
+      }],
+      metadata: {
+        valera: {
+          frameId: frame.id,
+          title: frame.title,
+          shotType: frame.shotType || '',
+          description: frame.description || '',
+          dialogue: frame.dialogue || '',
+          speechPrompt: frame.speechPrompt || '',
+          videoPrompt: frame.videoPrompt || '',
+          musicMood: frame.musicMood || '',
+          sunoPrompt: frame.sunoPrompt || ''
+        }
+      }
+    };
+  });
+
+  // Dialogue placeholders: one clip per scene with dialogue, gaps elsewhere
+  const dialogueItems = frames.map((frame, index) => {
+    const duration = frameCount(frame, fps);
+    if (!frame.dialogue?.trim()) return gap(duration, fps);
+    return placeholderClip(`VO ${index + 1}: ${frame.dialogue.trim().slice(0, 40)}`, duration, fps, {
+      valera: { frameId: frame.id, dialogue: frame.dialogue, speechPrompt: frame.speechPrompt || '' }
+    });
+  });
+
+  // Music placeholders: consecutive scenes with the same mood share one cue
+  const musicItems: any[] = [];
+  let run: { mood: string, suno: string, duration: number } | null = null;
+  const flushRun = () => {
+    if (!run) return;
+    musicItems.push(run.mood
+      ? placeholderClip(`Music: ${run.mood}`, run.duration, fps, { valera: { musicMood: run.mood, sunoPrompt: run.suno } })
+      : gap(run.duration, fps));
+    run = null;
+  };
+  frames.forEach(frame => {
+    const mood = frame.musicMood?.trim() || '';
+    if (run && run.mood === mood) {
+      run.duration += frameCount(frame, fps);
+    } else {
+      flushRun();
+      run = { mood, suno: frame.sunoPrompt || '', duration: frameCount(frame, fps) };
+    }
+  });
+  flushRun();
+
+  const audio = layoutAudio(project, fps);
+
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: project.meta?.appName || 'Valera Project',
+    global_start_time: rationalTime(0, fps),
+    metadata: {
+      valera: { fps, width: project.timelineSettings.width, height: project.timelineSettings.height }
+    },
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers: [],
+      metadata: {},
+      children: [
+        track('Storyboard', 'Video', videoClips),
+        track('Dialogue', 'Audio', dialogueItems),
+        track('Music', 'Audio', musicItems),
+        track('Voice-over', 'Audio', placedAudioItems(audio.voiceOver, fps)),
+        track('Music Bed', 'Audio', placedAudioItems(audio.music, fps))
+      ]
+    }
+  };
+
+  return JSON.stringify(timeline, null, 2);
+};
+
+// --- IMPORT ---
+
+const schemaName = (item: any): string => String(item?.OTIO_SCHEMA || '').split('.')[0];
+
+/** Duration of a RationalTime in frames at `fps` (clips may use a different rate than the timeline). */
+const toFrames = (time: any, fps: number): number => {
+  if (!time || typeof time.value !== 'number') return 0;
+  const rate = time.rate || fps;
+  return Math.round((time.value / rate) * fps);
+};
+
+const mediaFileName = (clip: any): string | undefined => {
+  const refs = clip.media_references
+    ? clip.media_references[clip.active_media_reference_key || 'DEFAULT_MEDIA']
+    : clip.media_reference;
+  const url: string | undefined = refs?.target_url || refs?.target_url_base;
+  return url ? decodeURIComponent(url).split(/[\\/]/).pop() : undefined;
+};
+
+/**
+ * Reads an edited cut. The first video track becomes the storyboard order; gaps and
+ * transitions are reported, audio tracks are ignored (they are derived from scenes on export).
+ */
+export const importOTIO = (text: string, project: ProjectData): TimelineImportResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`Not a valid OTIO file: ${e.message}`);
+  }
+  if (schemaName(data) !== 'Timeline') throw new Error(`Expected an OTIO Timeline, got ${data?.OTIO_SCHEMA || 'unknown content'}`);
+
+  const tracks: any[] = data.tracks?.children || [];
+  const videoTrack = tracks.find(t => schemaName(t) === 'Track' && t.kind === 'Video');
+  if (!videoTrack) throw new Error('The timeline has no video track');
+
+  const fps = project.timelineSettings.fps || 24;
+  const warnings: string[] = [];
+  const clipRate = videoTrack.children?.find((c: any) => c.source_range)?.source_range?.duration?.rate;
+  if (clipRate && Math.abs(clipRate - fps) > 0.01) {
+    warnings.push(`The cut runs at ${clipRate} fps, the project at ${fps} fps. Durations were converted.`);
+  }
+  if (tracks.filter(t => t.kind === 'Video').length > 1) warnings.push('Only the first video track was used.');
+
+  const events: CutEvent[] = [];
+  let gaps = 0;
+  let transitions = 0;
+
+  (videoTrack.children || []).forEach((item: any) => {
+    const kind = schemaName(item);
+    if (kind === 'Gap') { gaps++; return; }
+    if (kind === 'Transition') { transitions++; return; }
+    if (kind !== 'Clip') {
+      warnings.push(`Skipped nested ${kind || 'item'} "${item?.name || ''}".`);
+      return;
+    }
+
+    const range = item.source_range || (item.media_reference || {}).available_range;
+    const durationFrames = toFrames(range?.duration, fps);
+    if (durationFrames <= 0) {
+      warnings.push(`Skipped "${item.name}": no duration.`);
+      return;
+    }
+
+    const valera = item.metadata?.valera || {};
+    const markerData = (item.markers || []).map((m: any) => m.metadata?.valera).find(Boolean) || {};
+    const markerNote = (item.markers || []).map((m: any) => m.comment).filter(Boolean).join('\n');
+
+    events.push({
+      name: item.name || '',
+      durationFrames,
+      frameId: valera.frameId,
+      fileName: mediaFileName(item),
+      fields: {
+        description: valera.description || markerData.description || markerNote || '',
+        dialogue: valera.dialogue || markerData.dialogue || undefined,
+        videoPrompt: valera.videoPrompt || markerData.videoPrompt || undefined,
+        shotType: valera.shotType || undefined,
+        musicMood: valera.musicMood || undefined
+      }
+    });
+  });
+
+  if (gaps > 0) warnings.push(`${gaps} gap(s) in the cut were dropped; scenes are laid out back to back.`);
+  if (transitions > 0) warnings.push(`${transitions} transition(s) were ignored.`);
+  if (events.length === 0) throw new Error('The video track has no clips');
+
+  return conformTimeline(project, events, fps, 'OTIO', warnings);
+};
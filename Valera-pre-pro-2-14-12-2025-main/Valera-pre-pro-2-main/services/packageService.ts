@@ -0,0 +1,305 @@
+
+import JSZip from 'jszip';
+import { ProjectData, Character, TimelineFrame, AudioClip, MusicBed, LayerDocument } from '../types';
+import { IMAGE_REF_PREFIX, isImageRef, isInlineImage, storeImage, storeImageBlob } from './imageStore';
+import { upgradeProject, ProjectSchemaError, UpgradeResult } from './projectSchema';
+
+export const PACKAGE_PROJECT_FILE = 'project_data.json';
+export const PACKAGE_MANIFEST_FILE = 'media_manifest.json';
+export const PACKAGE_MEDIA_FOLDER = 'media';
+export const PACKAGE_AUDIO_FOLDER = 'audio';
+
+export interface PackageImportReport {
+  restored: number; // Images and audio files re-attached from the package
+  missing: string[]; // Human readable descriptions of images that were not found
+  corrupted: string[]; // Files present in the ZIP that are not decodable images
+  warnings: string[];
+}
+
+export interface PackageImportResult {
+  project: ProjectData;
+  report: PackageImportReport;
+}
+
+/**
+ * Maps an image source (reference or URL) to its path inside the package.
+ */
+export type PackageManifest = Record<string, string>;
+
+// File naming shared with the Master Package export (App.handleExportZip)
+export const safeFileName = (value: string | undefined, fallback: string) => (value || fallback).replace(/[^a-z0-9]/gi, '_');
+
+// Numbered like the scenes: names that differ only in non-Latin letters would otherwise share a file
+export const assetFileName = (char: Character, index: number) => `Asset_${index + 1}_${safeFileName(char.name, 'Asset')}.png`;
+
+// Packages exported before asset files were numbered
+const legacyAssetFileName = (char: Character) => `${safeFileName(char.name, 'Asset')}.png`;
+
+export const sceneFileName = (frame: TimelineFrame, index: number) => `Scene_${index + 1}_${safeFileName(frame.title, `Scene_${index + 1}`)}.png`;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3', 'audio/mp3': 'mp3', 'audio/wav': 'wav', 'audio/x-wav': 'wav', 'audio/wave': 'wav',
+  'audio/ogg': 'ogg', 'audio/webm': 'webm', 'audio/aac': 'aac', 'audio/mp4': 'm4a', 'audio/x-m4a': 'm4a', 'audio/flac': 'flac'
+};
+
+const audioExtension = (clip: AudioClip) =>
+  clip.name.match(/\.([a-z0-9]{2,4})$/i)?.[1].toLowerCase() || AUDIO_EXTENSIONS[clip.mimeType] || 'mp3';
+
+export const voiceOverFileName = (frame: TimelineFrame, index: number) =>
+  `VO_${index + 1}_${safeFileName(frame.title, `Scene_${index + 1}`)}.${frame.voiceOver ? audioExtension(frame.voiceOver) : 'mp3'}`;
+
+export const musicBedFileName = (bed: MusicBed, index: number) =>
+  `Music_${index + 1}_${safeFileName(bed.name.replace(/\.[a-z0-9]{2,4}$/i, ''), 'Bed')}.${audioExtension(bed)}`;
+
+export const mediaFileName = (src: string, mimeType: string) => {
+  const ext = mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  return `${PACKAGE_MEDIA_FOLDER}/${src.slice(IMAGE_REF_PREFIX.length)}.${ext}`;
+};
+
+const sniffImageType = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return 'image/gif';
+  if (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 && bytes[8] === 0x57 && bytes[9] === 0x45) return 'image/webp';
+  return null;
+};
+
+/**
+ * Reads a Master Package ZIP produced by the export and re-attaches its images.
+ * Images are looked up through the media manifest first, then by the export's file naming
+ * (images/<Asset>.png, images/Scene_N_<Title>.png), so packages exported before the manifest existed still open.
+ * Every restored image is moved into the blob store; nothing is written to the workspace here.
+ */
+export const importProjectPackage = async (file: Blob): Promise<PackageImportResult> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (e) {
+    throw new Error("The file is not a valid ZIP archive.");
+  }
+
+  const projectEntry = zip.file(PACKAGE_PROJECT_FILE);
+  if (!projectEntry) throw new Error(`${PACKAGE_PROJECT_FILE} is missing from the package.`);
+
+  let raw: any;
+  try {
+    raw = JSON.parse(await projectEntry.async('string'));
+  } catch (e) {
+    throw new Error(`${PACKAGE_PROJECT_FILE} is not valid JSON.`);
+  }
+  let upgraded: UpgradeResult;
+  try {
+    upgraded = upgradeProject(raw);
+  } catch (e) {
+    if (e instanceof ProjectSchemaError) throw new Error(`Invalid ${PACKAGE_PROJECT_FILE}: ${e.issues.join('; ')}`);
+    throw e;
+  }
+  const { project, fromVersion, repairs } = upgraded;
+
+  let manifest: PackageManifest = {};
+  const manifestEntry = zip.file(PACKAGE_MANIFEST_FILE);
+  if (manifestEntry) {
+    try {
+      manifest = JSON.parse(await manifestEntry.async('string'));
+    } catch (e) {
+      manifest = {};
+    }
+  }
+
+  const report: PackageImportReport = { restored: 0, missing: [], corrupted: [], warnings: [] };
+  if (!manifestEntry) report.warnings.push('No media manifest found: images were matched by file name only.');
+
+  // Older exports could write two images to one file name; the file holds the last one written
+  // (the last manifest entry), so the other sources would restore a wrong picture
+  const ambiguous = new Set<string>();
+  const lastSourceByPath = new Map<string, string>();
+  Object.entries(manifest).forEach(([src, path]) => {
+    const previous = lastSourceByPath.get(path);
+    if (previous) ambiguous.add(previous);
+    lastSourceByPath.set(path, src);
+  });
+  if (ambiguous.size > 0) {
+    report.warnings.push(`${ambiguous.size} image(s) shared a file name with another image in the package and could not be restored.`);
+  }
+  if (fromVersion !== project.meta.version) report.warnings.push(`Project data upgraded from schema ${fromVersion} to ${project.meta.version}.`);
+  repairs.forEach(r => report.warnings.push(`Repaired: ${r}`));
+
+  // Cache per zip path, so a file referenced from several slots is decoded once
+  const loadedPaths = new Map<string, string | null>();
+
+  // Audio can't be sniffed reliably, so audio slots pass the type recorded in the project
+  const loadFromZip = async (path: string, audioType?: string): Promise<string | null> => {
+    if (loadedPaths.has(path)) return loadedPaths.get(path)!;
+    const entry = zip.file(path);
+    if (!entry) {
+      loadedPaths.set(path, null);
+      return null;
+    }
+    const bytes = await entry.async('uint8array');
+    const mimeType = audioType || sniffImageType(bytes);
+    if (!mimeType) {
+      report.corrupted.push(path);
+      loadedPaths.set(path, null);
+      return null;
+    }
+    const ref = await storeImageBlob(new Blob([bytes], { type: mimeType }));
+    report.restored++;
+    loadedPaths.set(path, ref);
+    return ref;
+  };
+
+  /**
+   * Resolves one image slot. `fallbackPaths` are the conventional export file names for main images.
+   */
+  const restore = async (src: string | null | undefined, label: string, fallbackPaths: string[] = []): Promise<string | null> => {
+    if (!src) return null;
+    if (isInlineImage(src)) return storeImage(src);
+    if (!isImageRef(src) && !manifest[src]) return src; // Remote URL, kept as-is
+
+    const candidates = ambiguous.has(src) ? [] : [manifest[src], ...fallbackPaths].filter(Boolean) as string[];
+    for (const path of candidates) {
+      const ref = await loadFromZip(path);
+      if (ref) return ref;
+    }
+    report.missing.push(label);
+    return null;
+  };
+
+  const restoreList = async (list: string[] | undefined, label: string): Promise<string[] | undefined> => {
+    if (!list) return list;
+    const restored: string[] = [];
+    for (const [i, src] of list.entries()) {
+      const ref = await restore(src, `${label} #${i + 1}`);
+      if (ref) restored.push(ref);
+    }
+    return restored;
+  };
+
+  const restoreAudio = async <T extends AudioClip>(clip: T | undefined, label: string, fallbackPath: string): Promise<T | undefined> => {
+    if (!clip) return clip;
+    const candidates = [manifest[clip.src], fallbackPath].filter(Boolean) as string[];
+    for (const path of candidates) {
+      const ref = await loadFromZip(path, clip.mimeType || 'audio/mpeg');
+      if (ref) return { ...clip, src: ref };
+    }
+    report.missing.push(label);
+    return undefined;
+  };
+
+  // Layers are all-or-nothing: a document with a missing image falls back to the flattened image
+  const restoreLayers = async (doc: LayerDocument | undefined, label: string): Promise<LayerDocument | undefined> => {
+    if (!doc) return doc;
+    const image = await restore(doc.image, label);
+    if (!image) return undefined;
+    const objects = [];
+    for (const obj of doc.objects) {
+      if (!obj.src) { objects.push(obj); continue; }
+      const src = await restore(obj.src, `${label}, layer "${obj.name}"`);
+      if (!src) return undefined;
+      objects.push({ ...obj, src });
+    }
+    return { ...doc, image, objects };
+  };
+
+  const references: Character[] = [];
+  for (const [idx, char] of project.references.entries()) {
+    const name = char.name || char.id;
+    references.push({
+      ...char,
+      image: await restore(char.image, `Asset "${name}"`, [`images/${assetFileName(char, idx)}`, `images/${legacyAssetFileName(char)}`]),
+      imageHistory: await restoreList(char.imageHistory, `Asset "${name}" history`),
+      additionalReferences: await restoreList(char.additionalReferences, `Asset "${name}" reference`),
+      layers: await restoreLayers(char.layers, `Asset "${name}" layers`)
+    });
+  }
+
+  const timeline: TimelineFrame[] = [];
+  for (const [idx, frame] of project.timeline.entries()) {
+    const name = frame.title || `Scene ${idx + 1}`;
+    timeline.push({
+      ...frame,
+      image: await restore(frame.image, `Scene ${idx + 1} "${name}"`, [`images/${sceneFileName(frame, idx)}`]),
+      imageHistory: await restoreList(frame.imageHistory, `Scene ${idx + 1} history`),
+      voiceOver: await restoreAudio(frame.voiceOver, `Scene ${idx + 1} voice-over`, `${PACKAGE_AUDIO_FOLDER}/${voiceOverFileName(frame, idx)}`),
+      layers: await restoreLayers(frame.layers, `Scene ${idx + 1} layers`)
+    });
+  }
+
+  const musicBeds: MusicBed[] = [];
+  for (const [idx, bed] of (project.musicBeds || []).entries()) {
+    const restored = await restoreAudio(bed, `Music bed "${bed.name}"`, `${PACKAGE_AUDIO_FOLDER}/${musicBedFileName(bed, idx)}`);
+    if (restored) musicBeds.push(restored);
+  }
+
+  const generationLog = [];
+  for (const entry of project.generationLog || []) {
+    const imageData = await restore(entry.imageData, `Generation "${entry.sourceName || entry.id}"`);
+    if (imageData) generationLog.push({ ...entry, imageData });
+  }
+
+  return {
+    project: { ...project, references, timeline, generationLog, musicBeds },
+    report
+  };
+};
+
+/**
+ * Appends the assets and scenes of `incoming` to `current`.
+ * Ids that already exist in the current project are re-issued and scene asset links are remapped.
+ */
+export const mergeProjectData = (current: ProjectData, incoming: ProjectData): ProjectData => {
+  const stamp = Date.now().toString();
+  const usedAssetIds = new Set(current.references.map(c => c.id));
+  const usedFrameIds = new Set(current.timeline.map(f => f.id));
+  const assetIdMap: Record<string, string> = {};
+  const frameIdMap: Record<string, string> = {};
+
+  const references = incoming.references.map((char, i) => {
+    const id = usedAssetIds.has(char.id) ? `${char.id}_m${stamp}${i}` : char.id;
+    assetIdMap[char.id] = id;
+    usedAssetIds.add(id);
+    return { ...char, id };
+  });
+
+  const timeline = incoming.timeline.map((frame, i) => {
+    const id = usedFrameIds.has(frame.id) ? `${frame.id}_m${stamp}${i}` : frame.id;
+    frameIdMap[frame.id] = id;
+    usedFrameIds.add(id);
+    return {
+      ...frame,
+      id,
+      assignedAssetIds: (frame.assignedAssetIds || []).map(a => assetIdMap[a] || a)
+    };
+  });
+
+  const usedBedIds = new Set((current.musicBeds || []).map(b => b.id));
+  const musicBeds = (incoming.musicBeds || []).map((bed, i) => ({
+    ...bed,
+    id: usedBedIds.has(bed.id) ? `${bed.id}_m${stamp}${i}` : bed.id,
+    startFrameId: frameIdMap[bed.startFrameId] || bed.startFrameId,
+    endFrameId: frameIdMap[bed.endFrameId] || bed.endFrameId
+  }));
+
+  return {
+    ...current,
+    references: [...current.references, ...references],
+    timeline: [...current.timeline, ...timeline],
+    musicBeds: [...(current.musicBeds || []), ...musicBeds],
+    // The log doesn't record whether the source is a scene or an asset; their ids don't overlap
+    generationLog: [
+      ...(incoming.generationLog || []).map(entry => {
+        const id = frameIdMap[entry.sourceId] || assetIdMap[entry.sourceId];
+        return id ? { ...entry, sourceId: id } : entry;
+      }),
+      ...(current.generationLog || [])
+    ],
+    // Spend follows the merged scenes and assets
+    usageLog: [
+      ...(current.usageLog || []),
+      ...(incoming.usageLog || []).map(entry => {
+        const ids = entry.source?.type === 'frame' ? frameIdMap : assetIdMap;
+        return entry.source?.id && ids[entry.source.id] ? { ...entry, source: { ...entry.source, id: ids[entry.source.id] } } : entry;
+      })
+    ]
+  };
+};
@@ -0,0 +1,212 @@
+
+import { ProjectData } from '../types';
+import { sceneFileName, PACKAGE_AUDIO_FOLDER } from './packageService';
+import { layoutAudio, PlacedAudio } from './audioService';
+
+const escapeXml = (val: any): string => String(val ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * XMEML describes rates as an integer timebase plus an NTSC flag (23.976 = 24 + TRUE).
+ */
+const rateXml = (fps: number): string => {
+    const timebase = Math.round(fps);
+    const ntsc = Math.abs(fps - timebase) > 0.001 ? 'TRUE' : 'FALSE';
+    return `<rate><timebase>${timebase}</timebase><ntsc>${ntsc}</ntsc></rate>`;
+};
+
+/**
+ * One audio track of clips placed by layoutAudio. Levels are written as the linear gain of the
+ * Audio Levels filter, as Premiere exports them.
+ */
+const audioTrackXml = (clips: PlacedAudio[], idPrefix: string, rate: string, fps: number): string => {
+    const clipsXml = clips.map((placed, i) => {
+        const id = `${idPrefix}-${i + 1}`;
+        const fileFrames = placed.clip.duration > 0
+            ? Math.round(placed.clip.duration * fps)
+            : placed.sourceInFrames + placed.durationFrames;
+        const level = placed.volume !== 1 ? `
+                        <filter>
+                            <effect>
+                                <name>Audio Levels</name>
+                                <effectid>audiolevels</effectid>
+                                <effectcategory>audiolevels</effectcategory>
+                                <effecttype>audiolevels</effecttype>
+                                <mediatype>audio</mediatype>
+                                <parameter>
+                                    <parameterid>level</parameterid>
+                                    <name>Level</name>
+                                    <valuemin>0</valuemin>
+                                    <valuemax>3.98109</valuemax>
+                                    <value>${placed.volume}</value>
+                                </parameter>
+                            </effect>
+                        </filter>` : '';
+        return `
+                    <clipitem id="clipitem-${id}">
+                        <name>${escapeXml(placed.clip.name)}</name>
+                        <enabled>TRUE</enabled>
+                        <duration>${fileFrames}</duration>
+                        ${rate}
+                        <start>${placed.startFrame}</start>
+                        <end>${placed.startFrame + placed.durationFrames}</end>
+                        <in>${placed.sourceInFrames}</in>
+                        <out>${placed.sourceInFrames + placed.durationFrames}</out>
+                        <file id="file-${id}">
+                            <name>${escapeXml(placed.fileName)}</name>
+                            <pathurl>./${PACKAGE_AUDIO_FOLDER}/${escapeXml(placed.fileName)}</pathurl>
+                            ${rate}
+                            <duration>${fileFrames}</duration>
+                            <media>
+                                <audio>
+                                    <samplecharacteristics>
+                                        <depth>16</depth>
+                                        <samplerate>48000</samplerate>
+                                    </samplecharacteristics>
+                                    <channelcount>2</channelcount>
+                                </audio>
+                            </media>
+                        </file>
+                        <sourcetrack>
+                            <mediatype>audio</mediatype>
+                            <trackindex>1</trackindex>
+                        </sourcetrack>${level}
+                    </clipitem>`;
+    }).join('');
+
+    return `
+                <track>
+                    ${clipsXml}
+                    <enabled>TRUE</enabled>
+                    <locked>FALSE</locked>
+                </track>`;
+};
+
+/**
+ * Generates a Final Cut Pro 7 XML (XMEML v4) sequence, the interchange format Premiere Pro imports.
+ * Scenes become still clips on V1 (relinked from ./images), descriptions go into the clip comments,
+ * and dialogue becomes sequence markers spanning each scene. Voice-over goes on A1 and music beds
+ * on A2 (relinked from ./audio).
+ */
+export const generatePremiereXML = (project: ProjectData): string => {
+    const fps = project.timelineSettings.fps || 24;
+    const width = project.timelineSettings.width || 1920;
+    const height = project.timelineSettings.height || 1080;
+    const rate = rateXml(fps);
+    const sequenceName = escapeXml(project.meta?.appName || 'Valera Project');
+
+    let clipsXml = '';
+    let markersXml = '';
+    let currentFrame = 0;
+
+    const audio = layoutAudio(project, fps);
+    const audioTracksXml = audioTrackXml(audio.voiceOver, 'vo', rate, fps) + audioTrackXml(audio.music, 'mu', rate, fps);
+
+    project.timeline.forEach((frame, index) => {
+        const durationFrames = Math.max(1, Math.round((frame.duration || 4) * fps));
+        const start = currentFrame;
+        const end = currentFrame + durationFrames;
+        const filename = sceneFileName(frame, index);
+        const clipName = escapeXml(frame.title || `Scene ${index + 1}`);
+        const description = escapeXml(frame.description || '');
+
+        // Stills have no intrinsic length; the file duration only needs to cover the out point
+        clipsXml += `
+                    <clipitem id="clipitem-${index + 1}">
+                        <name>${clipName}</name>
+                        <enabled>TRUE</enabled>
+                        <duration>${durationFrames}</duration>
+                        ${rate}
+                        <start>${start}</start>
+                        <end>${end}</end>
+                        <in>0</in>
+                        <out>${durationFrames}</out>
+                        <stillframe>TRUE</stillframe>
+                        <file id="file-${index + 1}">
+                            <name>${escapeXml(filename)}</name>
+                            <pathurl>./images/${escapeXml(filename)}</pathurl>
+                            ${rate}
+                            <duration>${durationFrames}</duration>
+                            <media>
+                                <video>
+                                    <samplecharacteristics>
+                                        <width>${width}</width>
+                                        <height>${height}</height>
+                                    </samplecharacteristics>
+                                </video>
+                            </media>
+                        </file>
+                        <logginginfo>
+                            <description>${description}</description>
+                            <scene>${index + 1}</scene>
+                            <shottake>${escapeXml(frame.shotType || '')}</shottake>
+                        </logginginfo>
+                        <comments>
+                            <mastercomment1>${description}</mastercomment1>
+                            <mastercomment2>${escapeXml(frame.videoPrompt || '')}</mastercomment2>
+                        </comments>
+                    </clipitem>`;
+
+        if (frame.dialogue && frame.dialogue.trim()) {
+            markersXml += `
+            <marker>
+                <name>${escapeXml(`Dialogue ${index + 1}`)}</name>
+                <comment>${escapeXml(frame.dialogue.trim())}</comment>
+                <in>${start}</in>
+                <out>${end}</out>
+            </marker>`;
+        }
+
+        currentFrame = end;
+    });
+
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE xmeml>
+<xmeml version="4">
+    <sequence id="sequence-1">
+        <name>${sequenceName}</name>
+        <duration>${currentFrame}</duration>
+        ${rate}
+        <timecode>
+            ${rate}
+            <string>00:00:00:00</string>
+            <frame>0</frame>
+            <displayformat>NDF</displayformat>
+        </timecode>
+        <media>
+            <video>
+                <format>
+                    <samplecharacteristics>
+                        ${rate}
+                        <width>${width}</width>
+                        <height>${height}</height>
+                        <anamorphic>FALSE</anamorphic>
+                        <pixelaspectratio>square</pixelaspectratio>
+                        <fielddominance>none</fielddominance>
+                    </samplecharacteristics>
+                </format>
+                <track>
+                    ${clipsXml}
+                    <enabled>TRUE</enabled>
+                    <locked>FALSE</locked>
+                </track>
+            </video>
+            <audio>
+                <numOutputChannels>2</numOutputChannels>
+                <format>
+                    <samplecharacteristics>
+                        <depth>16</depth>
+                        <samplerate>48000</samplerate>
+                    </samplecharacteristics>
+                </format>${audioTracksXml}
+            </audio>
+        </media>
+        ${markersXml}
+    </sequence>
+</xmeml>`;
+
+    return xml;
+};
@@ -0,0 +1,223 @@
+
+import { ProjectData, TimelineSettings } from '../types';
+import { PROJECT_SCHEMA_VERSION } from '../constants';
+
+/**
+ * ProjectData schema versioning.
+ * Every save carries `meta.version`. Anything loaded from IndexedDB or imported from JSON goes through
+ * `upgradeProject`, which runs the ordered migration chain up to PROJECT_SCHEMA_VERSION, repairs
+ * missing fields and refuses data that can't be interpreted as a project.
+ */
+
+export class ProjectSchemaError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Project data is corrupted: ${issues.join('; ')}`);
+    this.name = 'ProjectSchemaError';
+    this.issues = issues;
+  }
+}
+
+export interface UpgradeResult {
+  project: ProjectData;
+  fromVersion: string;
+  repairs: string[]; // Fields that were missing or invalid and got defaults
+}
+
+const DEFAULT_TIMELINE_SETTINGS: TimelineSettings = { fps: 24, width: 1920, height: 1080 };
+const ASSET_TYPES = ['character', 'item', 'location'];
+
+const isObject = (v: any): boolean => !!v && typeof v === 'object' && !Array.isArray(v);
+
+const compareVersions = (a: string, b: string): number => {
+  const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+  const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+// --- MIGRATIONS (ordered, each lifts data to `to`) ---
+
+interface Migration {
+  to: string;
+  migrate: (data: any, repairs: string[]) => any;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    // 1.x saves predate timelineSettings and scene/asset linking
+    to: '2.0',
+    migrate: (data, repairs) => {
+      if (!isObject(data.timelineSettings)) {
+        data.timelineSettings = { ...DEFAULT_TIMELINE_SETTINGS };
+        repairs.push('Added default timelineSettings');
+      }
+      if (!Array.isArray(data.generationLog)) data.generationLog = [];
+      return data;
+    }
+  },
+  {
+    // 3.0 drops the deprecated Character.quality in favor of imageSize
+    to: '3.0',
+    migrate: (data, repairs) => {
+      data.references = data.references.map((c: any) => {
+        if (!('quality' in c)) return c;
+        const { quality, ...rest } = c;
+        if (quality === 'high' && !rest.imageSize) rest.imageSize = '2K';
+        repairs.push(`Replaced deprecated quality on asset "${c.name || c.id}"`);
+        return rest;
+      });
+      return data;
+    }
+  }
+];
+
+// --- VALIDATION ---
+
+/**
+ * Collects problems that can't be repaired. An empty list means the data can be upgraded.
+ */
+export const validateProjectShape = (data: any): string[] => {
+  const issues: string[] = [];
+  if (!isObject(data)) return ['Root is not a JSON object'];
+
+  if (data.meta !== undefined && !isObject(data.meta)) issues.push('"meta" must be an object');
+  if (data.references !== undefined && !Array.isArray(data.references)) issues.push('"references" must be an array');
+  if (data.timeline !== undefined && !Array.isArray(data.timeline)) issues.push('"timeline" must be an array');
+  if (data.references === undefined && data.timeline === undefined) issues.push('Neither "references" nor "timeline" present');
+
+  (Array.isArray(data.references) ? data.references : []).forEach((c: any, i: number) => {
+    if (!isObject(c)) issues.push(`references[${i}] is not an object`);
+  });
+  (Array.isArray(data.timeline) ? data.timeline : []).forEach((f: any, i: number) => {
+    if (!isObject(f)) issues.push(`timeline[${i}] is not an object`);
+  });
+
+  const version = isObject(data.meta) ? data.meta.version : undefined;
+  if (typeof version === 'string' && compareVersions(version, PROJECT_SCHEMA_VERSION) > 0) {
+    issues.push(`Saved by a newer Valera (schema ${version}, this build reads up to ${PROJECT_SCHEMA_VERSION})`);
+  }
+  return issues;
+};
+
+// --- REPAIR ---
+
+const isAudioClip = (clip: any) => isObject(clip) && typeof clip.src === 'string' && typeof clip.name === 'string';
+
+const isLayerDocument = (doc: any) => isObject(doc) && typeof doc.image === 'string' && isObject(doc.docSize)
+  && Number(doc.docSize.w) > 0 && Number(doc.docSize.h) > 0
+  && Array.isArray(doc.objects) && doc.objects.every((o: any) => isObject(o) && typeof o.id === 'string' && typeof o.type === 'string');
+
+const repairProject = (data: any, repairs: string[]): ProjectData => {
+  const stamp = Date.now().toString();
+
+  if (!Array.isArray(data.references)) { data.references = []; repairs.push('Added empty references'); }
+  if (!Array.isArray(data.timeline)) { data.timeline = []; repairs.push('Added empty timeline'); }
+
+  const settings = isObject(data.timelineSettings) ? data.timelineSettings : {};
+  const fixedSettings: TimelineSettings = {
+    fps: Number(settings.fps) > 0 ? Number(settings.fps) : DEFAULT_TIMELINE_SETTINGS.fps,
+    width: Number(settings.width) > 0 ? Number(settings.width) : DEFAULT_TIMELINE_SETTINGS.width,
+    height: Number(settings.height) > 0 ? Number(settings.height) : DEFAULT_TIMELINE_SETTINGS.height
+  };
+  if (JSON.stringify(fixedSettings) !== JSON.stringify(data.timelineSettings)) repairs.push('Repaired timelineSettings');
+  data.timelineSettings = fixedSettings;
+
+  data.references = data.references.map((c: any, i: number) => {
+    const fixed = { ...c };
+    if (typeof fixed.id !== 'string' || !fixed.id) { fixed.id = `asset_${stamp}_${i}`; repairs.push(`Assigned id to asset #${i + 1}`); }
+    if (!ASSET_TYPES.includes(fixed.type)) { fixed.type = 'character'; repairs.push(`Set type of asset "${fixed.name || fixed.id}" to character`); }
+    if (typeof fixed.name !== 'string') fixed.name = `Asset ${i + 1}`;
+    if (typeof fixed.description !== 'string') fixed.description = '';
+    if (fixed.image === undefined || (fixed.image !== null && typeof fixed.image !== 'string')) fixed.image = null;
+    if (fixed.imageHistory !== undefined && !Array.isArray(fixed.imageHistory)) fixed.imageHistory = [];
+    if (fixed.layers !== undefined && !isLayerDocument(fixed.layers)) {
+      delete fixed.layers;
+      repairs.push(`Removed invalid layers from asset "${fixed.name}"`);
+    }
+    return fixed;
+  });
+
+  const assetIds = new Set(data.references.map((c: any) => c.id));
+  data.timeline = data.timeline.map((f: any, i: number) => {
+    const fixed = { ...f };
+    if (typeof fixed.id !== 'string' || !fixed.id) { fixed.id = `scene_${stamp}_${i}`; repairs.push(`Assigned id to scene #${i + 1}`); }
+    if (typeof fixed.title !== 'string') fixed.title = `Scene ${i + 1}`;
+    if (typeof fixed.description !== 'string') fixed.description = '';
+    if (fixed.image === undefined || (fixed.image !== null && typeof fixed.image !== 'string')) fixed.image = null;
+    if (!Array.isArray(fixed.assignedAssetIds)) {
+      fixed.assignedAssetIds = [];
+      repairs.push(`Added assignedAssetIds to scene "${fixed.title}"`);
+    } else {
+      const linked = fixed.assignedAssetIds.filter((id: any) => assetIds.has(id));
+      if (linked.length !== fixed.assignedAssetIds.length) repairs.push(`Removed dangling asset links from scene "${fixed.title}"`);
+      fixed.assignedAssetIds = linked;
+    }
+    if (fixed.duration !== undefined && !(Number(fixed.duration) > 0)) {
+      delete fixed.duration;
+      repairs.push(`Removed invalid duration from scene "${fixed.title}"`);
+    }
+    if (fixed.imageHistory !== undefined && !Array.isArray(fixed.imageHistory)) fixed.imageHistory = [];
+    if (fixed.voiceOver !== undefined && !isAudioClip(fixed.voiceOver)) {
+      delete fixed.voiceOver;
+      repairs.push(`Removed invalid voice-over from scene "${fixed.title}"`);
+    }
+    if (fixed.layers !== undefined && !isLayerDocument(fixed.layers)) {
+      delete fixed.layers;
+      repairs.push(`Removed invalid layers from scene "${fixed.title}"`);
+    }
+    return fixed;
+  });
+
+  if (data.musicBeds !== undefined) {
+    const beds = Array.isArray(data.musicBeds) ? data.musicBeds : [];
+    const valid = beds.filter((b: any) => isAudioClip(b) && typeof b.id === 'string' && typeof b.startFrameId === 'string');
+    if (valid.length !== beds.length || !Array.isArray(data.musicBeds)) repairs.push('Removed invalid music beds');
+    data.musicBeds = valid;
+  }
+
+  if (data.subtitleSettings !== undefined && !isObject(data.subtitleSettings)) {
+    delete data.subtitleSettings;
+    repairs.push('Removed invalid subtitleSettings');
+  }
+  if (data.directorHistory !== undefined && !Array.isArray(data.directorHistory)) data.directorHistory = [];
+  if (data.generationLog !== undefined && !Array.isArray(data.generationLog)) data.generationLog = [];
+  if (data.usageLog !== undefined && !Array.isArray(data.usageLog)) data.usageLog = [];
+
+  return data as ProjectData;
+};
+
+// --- ENTRY POINT ---
+
+/**
+ * Upgrades raw project data (IndexedDB record or imported JSON) to the current schema.
+ * Throws ProjectSchemaError when the data can't be interpreted as a project.
+ */
+export const upgradeProject = (raw: any): UpgradeResult => {
+  const issues = validateProjectShape(raw);
+  if (issues.length > 0) throw new ProjectSchemaError(issues);
+
+  const repairs: string[] = [];
+  let data: any = { ...raw, meta: { ...(raw.meta || {}) } };
+  const fromVersion = typeof data.meta.version === 'string' ? data.meta.version : '1.0';
+
+  if (!data.meta.appName) data.meta.appName = 'Untitled Project';
+  if (typeof data.meta.description !== 'string') data.meta.description = '';
+  if (!Array.isArray(data.references)) data.references = [];
+  if (!Array.isArray(data.timeline)) data.timeline = [];
+
+  for (const migration of MIGRATIONS) {
+    if (compareVersions(fromVersion, migration.to) < 0) {
+      data = migration.migrate(data, repairs);
+    }
+  }
+
+  const project = repairProject(data, repairs);
+  project.meta.version = PROJECT_SCHEMA_VERSION;
+
+  return { project, fromVersion, repairs };
+};
@@ -0,0 +1,202 @@
+import { readPsd, writePsd, Layer, Psd } from 'ag-psd';
+import { EDITOR_FONTS } from '../constants';
+
+/**
+ * Photoshop (.psd) files for the image editor, via ag-psd. The editor rasterises its own objects;
+ * this module only maps layers to and from the PSD structure.
+ */
+
+export interface PsdTextInput {
+  text: string;
+  x: number; // Top-left of the text box, as the editor draws it
+  y: number;
+  fontName: string;
+  fontSize: number;
+  color: string; // #rrggbb
+}
+
+export interface PsdLayerInput {
+  name: string;
+  canvas: HTMLCanvasElement; // Document-size; transparent borders are trimmed on write
+  hidden: boolean;
+  locked: boolean;
+  opacity?: number; // 0–1
+  text?: PsdTextInput; // Written as an editable text layer
+}
+
+export const PSD_MIME = 'image/vnd.adobe.photoshop';
+
+const hexToRgb = (hex: string) => {
+  const value = /^#?([0-9a-f]{6})$/i.exec(hex)?.[1] || 'ffffff';
+  return { r: parseInt(value.slice(0, 2), 16), g: parseInt(value.slice(2, 4), 16), b: parseInt(value.slice(4, 6), 16) };
+};
+
+// The editor draws text from its top edge, Photoshop positions it on the first baseline
+const BASELINE_RATIO = 0.8;
+
+/**
+ * Layered PSD with `layers` bottom to top. Each layer keeps its position after trimming; locked layers
+ * are fully protected in Photoshop. `composite` is the flattened image shown by viewers and thumbnails.
+ */
+export const exportLayeredPsd = (width: number, height: number, layers: PsdLayerInput[], composite: HTMLCanvasElement): Blob => {
+  const children: Layer[] = layers.map(layer => ({
+    name: layer.name,
+    hidden: layer.hidden,
+    opacity: layer.opacity ?? 1,
+    left: 0,
+    top: 0,
+    canvas: layer.canvas,
+    ...(layer.locked ? { protected: { transparency: true, composite: true, position: true } } : {}),
+    ...(layer.text ? {
+      text: {
+        text: layer.text.text,
+        transform: [1, 0, 0, 1, layer.text.x, layer.text.y + layer.text.fontSize * BASELINE_RATIO],
+        style: { font: { name: layer.text.fontName }, fontSize: layer.text.fontSize, fauxBold: true, fillColor: hexToRgb(layer.text.color) }
+      }
+    } : {})
+  }));
+
+  const buffer = writePsd(
+    { width, height, children, canvas: composite },
+    { trimImageData: true, generateThumbnail: true, noBackground: true, invalidateTextLayers: layers.some(l => l.text) }
+  );
+  return new Blob([buffer], { type: PSD_MIME });
+};
+
+// --- IMPORT ---
+
+export interface PsdImportedText {
+  text: string;
+  x: number; // Top-left, as the editor draws text
+  y: number;
+  fontFamily: string; // One of EDITOR_FONTS, the closest match to the PSD font
+  fontSize: number;
+  color: string; // #rrggbb
+}
+
+export interface PsdImportedLayer {
+  name: string; // Prefixed with its groups, e.g. "Hero / Face / Eyes"
+  src: string; // PNG data URL of the layer pixels with its layer mask applied
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  opacity: number; // 0–1, multiplied by the opacity of its groups
+  hidden: boolean; // Hidden itself or inside a hidden group
+  text?: PsdImportedText; // Set for text layers the editor can keep editable
+}
+
+export interface PsdDocument {
+  width: number;
+  height: number;
+  layers: PsdImportedLayer[]; // Bottom to top
+  skipped: string[]; // Names of layers without pixels (adjustment, fill and empty layers)
+}
+
+export const PSD_GROUP_SEPARATOR = ' / ';
+
+const toHex = (n: number) => Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, '0');
+
+const normalizeFontName = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+// Photoshop stores PostScript names ("Montserrat-Bold"); match them to the editor fonts by family prefix
+const matchEditorFont = (postScriptName?: string): string => {
+  const wanted = normalizeFontName(postScriptName || '');
+  const font = wanted && EDITOR_FONTS.find(f => {
+    const family = normalizeFontName(f.value.split(',')[0]);
+    return wanted.startsWith(family) || family.startsWith(wanted);
+  });
+  return font ? font.value : EDITOR_FONTS[0].value;
+};
+
+/**
+ * Multiplies the layer alpha by its (enabled) user mask. ag-psd gives the mask as a grayscale canvas
+ * in document coordinates; outside of it the mask's default colour applies.
+ */
+const applyLayerMask = (layer: Layer, canvas: HTMLCanvasElement) => {
+  const mask = layer.mask;
+  if (!mask || mask.disabled || !mask.canvas) return;
+  const ctx = canvas.getContext('2d');
+  const maskCtx = mask.canvas.getContext('2d');
+  if (!ctx || !maskCtx) return;
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const maskImage = maskCtx.getImageData(0, 0, mask.canvas.width, mask.canvas.height);
+  const offsetX = (layer.left || 0) - (mask.left || 0);
+  const offsetY = (layer.top || 0) - (mask.top || 0);
+  const outside = mask.defaultColor ?? 255;
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      const mx = x + offsetX, my = y + offsetY;
+      const inside = mx >= 0 && my >= 0 && mx < maskImage.width && my < maskImage.height;
+      const value = inside ? maskImage.data[(my * maskImage.width + mx) * 4] : outside;
+      const i = (y * canvas.width + x) * 4 + 3;
+      image.data[i] = Math.round(image.data[i] * value / 255);
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * Editable text for a layer the editor can draw the same way: one line, one style, left aligned,
+ * not rotated or skewed, fully opaque and unmasked. Null otherwise (the layer stays a raster image).
+ */
+const readTextLayer = (layer: Layer, opacity: number): PsdImportedText | null => {
+  const data = layer.text;
+  if (!data || opacity < 1 || (layer.mask && !layer.mask.disabled)) return null;
+  const text = data.text.trim();
+  const [xx = 1, xy = 0, yx = 0, yy = 1, tx = 0, ty = 0] = data.transform || [];
+  const styles = new Set((data.styleRuns || []).map(run => JSON.stringify(run.style)));
+  const justification = data.paragraphStyle?.justification || 'left';
+  if (!text || /[\r\n]/.test(text) || xy !== 0 || yx !== 0 || xx !== yy || styles.size > 1 || justification !== 'left') return null;
+
+  const style = { ...data.style, ...data.styleRuns?.[0]?.style };
+  const fontSize = (style.fontSize || 12) * yy;
+  const fill = style.fillColor;
+  const color = fill && 'r' in fill ? `#${toHex(fill.r)}${toHex(fill.g)}${toHex(fill.b)}` : '#ffffff';
+  return { text, x: tx, y: ty - fontSize * BASELINE_RATIO, fontFamily: matchEditorFont(style.font?.name), fontSize, color };
+};
+
+/**
+ * Reads a layered PSD into flat layers for the editor. Groups are flattened into name prefixes, their
+ * visibility and opacity passed down to the layers inside. Blend modes, clipping and layer effects
+ * are not applied. Throws when the file is not a PSD.
+ */
+export const importLayeredPsd = (buffer: ArrayBuffer): PsdDocument => {
+  let psd: Psd;
+  try {
+    psd = readPsd(buffer, { skipCompositeImageData: true, skipThumbnail: true, skipLinkedFilesData: true });
+  } catch (e: any) {
+    throw new Error(`Not a readable PSD file${e?.message ? ` (${e.message})` : ''}`);
+  }
+
+  const layers: PsdImportedLayer[] = [];
+  const skipped: string[] = [];
+  const walk = (children: Layer[], prefix: string, hidden: boolean, opacity: number) => {
+    children.forEach(layer => {
+      const name = `${prefix}${layer.name || 'Layer'}`;
+      const layerHidden = hidden || !!layer.hidden;
+      const layerOpacity = opacity * (layer.opacity ?? 1);
+      if (layer.children) {
+        walk(layer.children, `${name}${PSD_GROUP_SEPARATOR}`, layerHidden, layerOpacity);
+        return;
+      }
+      const canvas = layer.canvas;
+      if (!canvas || canvas.width === 0 || canvas.height === 0) {
+        skipped.push(name);
+        return;
+      }
+      const text = readTextLayer(layer, layerOpacity);
+      applyLayerMask(layer, canvas);
+      layers.push({
+        name, src: canvas.toDataURL('image/png'),
+        x: layer.left || 0, y: layer.top || 0, w: canvas.width, h: canvas.height,
+        opacity: layerOpacity, hidden: layerHidden,
+        ...(text ? { text } : {})
+      });
+    });
+  };
+  walk(psd.children || [], '', false, 1);
+
+  return { width: psd.width, height: psd.height, layers, skipped };
+};
@@ -0,0 +1,207 @@
+
+import { ApiProvider } from './aiProvider';
+
+/**
+ * Batch render queue for timeline frames.
+ * TimelineManager schedules the queue; this module holds the job model, per-provider throughput
+ * limits, persistence (so a queue survives a page reload) and the live queue of the open project,
+ * which outlives the studio tab so renders that finish while it is closed still settle their jobs.
+ */
+
+export type RenderJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface RenderJob {
+  id: string;
+  frameId: string;
+  status: RenderJobStatus;
+  attempts: number;
+  error?: string; // Last failure, shown next to the job with a retry button
+}
+
+export interface RenderQueueState {
+  projectId: string | null; // Owner, so a queue is never persisted under another project
+  jobs: RenderJob[];
+  paused: boolean;
+}
+
+export interface RenderQueueLimits {
+  concurrency: number; // Renders in flight at once
+  requestsPerMinute: number; // 0 = unlimited
+}
+
+export interface RenderQueueProgress {
+  total: number;
+  done: number;
+  failed: number;
+  running: number;
+  queued: number;
+}
+
+const QUEUE_KEY_PREFIX = 'valera_render_queue_';
+const LIMITS_KEY = 'valera_render_limits';
+
+// Conservative defaults: AI Studio image quotas are tight, local servers usually render one at a time
+export const DEFAULT_RENDER_LIMITS: Record<ApiProvider, RenderQueueLimits> = {
+  google: { concurrency: 2, requestsPerMinute: 10 },
+  openrouter: { concurrency: 3, requestsPerMinute: 20 },
+  custom: { concurrency: 1, requestsPerMinute: 0 }
+};
+
+export const MAX_RENDER_CONCURRENCY = 8;
+
+export const emptyRenderQueue = (projectId: string | null = null): RenderQueueState => ({ projectId, jobs: [], paused: false });
+
+// --- LIMITS ---
+
+export const getRenderQueueLimits = (provider: ApiProvider): RenderQueueLimits => {
+  const defaults = DEFAULT_RENDER_LIMITS[provider] || DEFAULT_RENDER_LIMITS.google;
+  try {
+    const saved = JSON.parse(localStorage.getItem(LIMITS_KEY) || '{}');
+    return { ...defaults, ...(saved[provider] || {}) };
+  } catch (e) {
+    return defaults;
+  }
+};
+
+export const saveRenderQueueLimits = (provider: ApiProvider, limits: RenderQueueLimits) => {
+  let saved: Record<string, RenderQueueLimits> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(LIMITS_KEY) || '{}');
+  } catch (e) { /* Corrupted entry is overwritten */ }
+  saved[provider] = {
+    concurrency: Math.min(MAX_RENDER_CONCURRENCY, Math.max(1, Math.round(limits.concurrency) || 1)),
+    requestsPerMinute: Math.max(0, Math.round(limits.requestsPerMinute) || 0)
+  };
+  localStorage.setItem(LIMITS_KEY, JSON.stringify(saved));
+  return saved[provider];
+};
+
+/**
+ * Milliseconds until another request may start under a sliding one-minute window.
+ * `startTimes` is pruned in place.
+ */
+export const rateLimitDelay = (startTimes: number[], requestsPerMinute: number, now: number = Date.now()): number => {
+  while (startTimes.length > 0 && now - startTimes[0] >= 60000) startTimes.shift();
+  if (!requestsPerMinute || startTimes.length < requestsPerMinute) return 0;
+  return 60000 - (now - startTimes[0]);
+};
+
+// --- QUEUE OPERATIONS ---
+
+/**
+ * Adds frames to the queue. Frames already waiting or rendering are skipped;
+ * finished or failed ones are queued again.
+ */
+export const enqueueFrames = (state: RenderQueueState, frameIds: string[]): RenderQueueState => {
+  const active = new Set(state.jobs.filter(j => j.status === 'queued' || j.status === 'running').map(j => j.frameId));
+  const requeued = new Set(frameIds);
+  const kept = state.jobs.filter(j => active.has(j.frameId) || !requeued.has(j.frameId));
+  const added: RenderJob[] = frameIds
+    .filter(id => !active.has(id))
+    .map((frameId, i) => ({ id: `job-${Date.now()}-${i}`, frameId, status: 'queued', attempts: 0 }));
+  return { ...state, jobs: [...kept, ...added] };
+};
+
+export const updateRenderJob = (state: RenderQueueState, jobId: string, updates: Partial<RenderJob>): RenderQueueState => ({
+  ...state,
+  jobs: state.jobs.map(j => j.id === jobId ? { ...j, ...updates } : j)
+});
+
+/** Puts one failed job (or all failed jobs) back in line. */
+export const retryRenderJobs = (state: RenderQueueState, jobId?: string): RenderQueueState => ({
+  ...state,
+  jobs: state.jobs.map(j => j.status === 'failed' && (!jobId || j.id === jobId) ? { ...j, status: 'queued', error: undefined } : j)
+});
+
+export const getRenderQueueProgress = (state: RenderQueueState): RenderQueueProgress => {
+  const count = (status: RenderJobStatus) => state.jobs.filter(j => j.status === status).length;
+  return { total: state.jobs.length, done: count('done'), failed: count('failed'), running: count('running'), queued: count('queued') };
+};
+
+// --- PERSISTENCE ---
+
+/**
+ * Restores a project's queue. Jobs that were mid-render when the page closed go back in line,
+ * and a restored queue starts paused so a reload never spends quota unasked.
+ */
+export const loadRenderQueue = (projectId: string): RenderQueueState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(QUEUE_KEY_PREFIX + projectId) || 'null');
+    if (!saved || !Array.isArray(saved.jobs)) return emptyRenderQueue(projectId);
+    const jobs: RenderJob[] = saved.jobs
+      .filter((j: RenderJob) => j && j.frameId && j.status !== 'done')
+      .map((j: RenderJob) => j.status === 'running' ? { ...j, status: 'queued' } : j);
+    return { projectId, jobs, paused: jobs.some(j => j.status === 'queued') };
+  } catch (e) {
+    console.warn("Render queue could not be restored", e);
+    return emptyRenderQueue(projectId);
+  }
+};
+
+export const saveRenderQueue = (state: RenderQueueState) => {
+  if (!state.projectId) return;
+  const key = QUEUE_KEY_PREFIX + state.projectId;
+  if (state.jobs.some(j => j.status !== 'done')) {
+    localStorage.setItem(key, JSON.stringify({ jobs: state.jobs, paused: state.paused }));
+  } else {
+    localStorage.removeItem(key);
+  }
+};
+
+export const clearRenderQueue = (projectId: string) => {
+  localStorage.removeItem(QUEUE_KEY_PREFIX + projectId);
+  if (liveQueue.projectId === projectId) setLiveRenderQueue(emptyRenderQueue());
+};
+
+// --- LIVE QUEUE ---
+
+let liveQueue: RenderQueueState = emptyRenderQueue();
+const liveQueueListeners = new Set<() => void>();
+
+// Start times of recent renders, for rateLimitDelay; kept here so a remount doesn't reset the window
+export const renderStartTimes: number[] = [];
+
+export const getLiveRenderQueue = (): RenderQueueState => liveQueue;
+
+export const subscribeLiveRenderQueue = (fn: () => void) => {
+  liveQueueListeners.add(fn);
+  return () => { liveQueueListeners.delete(fn); };
+};
+
+/**
+ * Replaces the live queue (persisting it) and notifies subscribers.
+ */
+export const setLiveRenderQueue = (update: RenderQueueState | ((state: RenderQueueState) => RenderQueueState)) => {
+  liveQueue = typeof update === 'function' ? update(liveQueue) : update;
+  saveRenderQueue(liveQueue);
+  liveQueueListeners.forEach(fn => fn());
+};
+
+/**
+ * Switches the live queue to `projectId`, restoring its persisted queue. Returns the restored queue,
+ * or null when the live queue already belongs to that project (e.g. the studio tab was re-opened).
+ */
+export const openRenderQueue = (projectId: string | null): RenderQueueState | null => {
+  if (liveQueue.projectId === projectId) return null;
+  setLiveRenderQueue(projectId ? loadRenderQueue(projectId) : emptyRenderQueue());
+  return liveQueue;
+};
+
+/**
+ * Records the outcome of a job started for `projectId`. When another project is open by now,
+ * the job is updated in that project's persisted queue instead.
+ */
+export const settleRenderJob = (projectId: string | null, jobId: string, updates: Partial<RenderJob>) => {
+  if (liveQueue.projectId === projectId) {
+    setLiveRenderQueue(q => updateRenderJob(q, jobId, updates));
+    return;
+  }
+  if (!projectId) return;
+  try {
+    const saved = JSON.parse(localStorage.getItem(QUEUE_KEY_PREFIX + projectId) || 'null');
+    if (!saved || !Array.isArray(saved.jobs)) return;
+    saveRenderQueue(updateRenderJob({ projectId, jobs: saved.jobs, paused: !!saved.paused }, jobId, updates));
+  } catch (e) {
+    console.warn("Render job could not be settled", e);
+  }
+};
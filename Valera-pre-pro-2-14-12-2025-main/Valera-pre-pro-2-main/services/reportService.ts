@@ -0,0 +1,172 @@
+import JSZip from 'jszip';
+import { ProjectData, Character } from '../types';
+import { framesToTimecode } from './davinciService';
+
+/**
+ * Tabular reports for the AD department: a shot list and a per-asset breakdown,
+ * written as CSV (one file per report) or as one XLSX workbook with a sheet per report.
+ */
+
+export type ReportCell = string | number;
+
+export interface ReportTable {
+  name: string; // Sheet name, max 31 characters
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+const ASSET_TYPE_LABELS: Record<Character['type'], string> = { character: 'Cast', location: 'Location', item: 'Prop' };
+
+// Scene lengths in timeline frames, rounded per scene like the EDL
+const sceneFrames = (project: Pick<ProjectData, 'timeline' | 'timelineSettings'>) => {
+  const fps = project.timelineSettings.fps || 24;
+  return project.timeline.map(frame => Math.round((frame.duration || 4) * fps));
+};
+
+export const buildShotList = (project: Pick<ProjectData, 'timeline' | 'references' | 'timelineSettings'>): ReportTable => {
+  const fps = project.timelineSettings.fps || 24;
+  const lengths = sceneFrames(project);
+  const namesOf = (ids: string[], type: Character['type']) => project.references
+    .filter(c => c.type === type && ids.includes(c.id))
+    .map(c => c.name)
+    .join(', ');
+
+  let cursor = 0;
+  const rows = project.timeline.map((frame, index) => {
+    const tcIn = framesToTimecode(cursor, fps);
+    cursor += lengths[index];
+    return [
+      index + 1,
+      frame.title || '',
+      frame.shotType || '',
+      frame.duration || 4,
+      tcIn,
+      framesToTimecode(cursor, fps),
+      namesOf(frame.assignedAssetIds, 'character'),
+      namesOf(frame.assignedAssetIds, 'location'),
+      namesOf(frame.assignedAssetIds, 'item'),
+      frame.dialogue?.trim() || '',
+      frame.videoPrompt?.trim() || ''
+    ];
+  });
+
+  return {
+    name: 'Shot List',
+    columns: ['Scene', 'Title', 'Shot Type', 'Duration (s)', 'TC In', 'TC Out', 'Cast', 'Locations', 'Props', 'Dialogue', 'Video Prompt'],
+    rows
+  };
+};
+
+/**
+ * One row per asset: the scenes it is linked to and its total screen time. Unused assets are listed with zero.
+ */
+export const buildBreakdown = (project: Pick<ProjectData, 'timeline' | 'references' | 'timelineSettings'>): ReportTable => {
+  const fps = project.timelineSettings.fps || 24;
+  const lengths = sceneFrames(project);
+  const order: Character['type'][] = ['character', 'location', 'item'];
+  const assets = [...project.references].sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type));
+
+  const rows = assets.map(asset => {
+    const scenes = project.timeline
+      .map((frame, index) => frame.assignedAssetIds.includes(asset.id) ? index : -1)
+      .filter(index => index !== -1);
+    const frames = scenes.reduce((sum, index) => sum + lengths[index], 0);
+    return [
+      ASSET_TYPE_LABELS[asset.type],
+      asset.name,
+      asset.triggerWord || '',
+      scenes.map(i => i + 1).join(', '),
+      scenes.length,
+      Math.round((frames / fps) * 100) / 100,
+      framesToTimecode(frames, fps)
+    ];
+  });
+
+  return {
+    name: 'Breakdown',
+    columns: ['Type', 'Name', 'Trigger Word', 'Scenes', 'Scene Count', 'Screen Time (s)', 'Screen Time (TC)'],
+    rows
+  };
+};
+
+export const buildReports = (project: Pick<ProjectData, 'timeline' | 'references' | 'timelineSettings'>): ReportTable[] =>
+  [buildShotList(project), buildBreakdown(project)];
+
+// --- CSV ---
+
+const csvCell = (value: ReportCell) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV with a UTF-8 BOM so Excel opens Cyrillic text correctly.
+ */
+export const tableToCSV = (table: ReportTable): string =>
+  '\uFEFF' + [table.columns, ...table.rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+// --- XLSX ---
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+const escapeXml = (val: any): string => String(val ?? '')
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '') // Not allowed in XML 1.0
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+// Cell styles in styles.xml: 0 default, 1 bold header, 2 wrapped text
+const cellXml = (value: ReportCell, ref: string, style: number) => typeof value === 'number'
+  ? `<c r="${ref}"${style ? ` s="${style}"` : ''}><v>${value}</v></c>`
+  : `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+const sheetXml = (table: ReportTable): string => {
+  const widths = table.columns.map((col, c) => Math.min(60, Math.max(8, col.length + 2, ...table.rows.map(r => String(r[c] ?? '').split('\n').reduce((m, l) => Math.max(m, l.length), 0) + 2))));
+  const cols = widths.map((w, c) => `<col min="${c + 1}" max="${c + 1}" width="${w}" customWidth="1"/>`).join('');
+  const header = `<row r="1">${table.columns.map((col, c) => cellXml(col, `${columnName(c)}1`, 1)).join('')}</row>`;
+  const rows = table.rows.map((row, r) =>
+    `<row r="${r + 2}">${row.map((value, c) => cellXml(value, `${columnName(c)}${r + 2}`, typeof value === 'string' && (value.includes('\n') || value.length > 60) ? 2 : 0)).join('')}</row>`
+  ).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${cols}</cols><sheetData>${header}${rows}</sheetData></worksheet>`;
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${NS_MAIN}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf></cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`;
+
+/**
+ * Minimal SpreadsheetML workbook (inline strings, one sheet per table) built with JSZip,
+ * readable by Excel, Google Sheets, Numbers and LibreOffice.
+ */
+export const tablesToXLSX = async (tables: ReportTable[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const sheetName = (name: string) => escapeXml(name.replace(/[\[\]:*?/\\]/g, ' ').slice(0, 31));
+
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${tables.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`);
+
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${NS_PKG_REL}"><Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/></Relationships>`);
+
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}"><sheets>${tables.map((t, i) => `<sheet name="${sheetName(t.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`);
+
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${NS_PKG_REL}">${tables.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}<Relationship Id="rId${tables.length + 1}" Type="${NS_REL}/styles" Target="styles.xml"/></Relationships>`);
+
+  zip.file('xl/styles.xml', STYLES_XML);
+  tables.forEach((table, i) => zip.file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(table)));
+
+  return zip.generateAsync({ type: 'blob', mimeType: XLSX_MIME });
+};
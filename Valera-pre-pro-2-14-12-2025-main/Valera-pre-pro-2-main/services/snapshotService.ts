@@ -0,0 +1,122 @@
+
+import { ProjectData, ProjectSnapshot, Character, TimelineFrame } from '../types';
+import { runRequest, SNAPSHOTS_STORE } from './db';
+import { dehydrateProject, collectImageRefs } from './imageStore';
+import { upgradeProject } from './projectSchema';
+
+/**
+ * Named restore points per project.
+ * Manual snapshots are kept until deleted; auto snapshots (taken before destructive actions)
+ * roll over, keeping the newest MAX_AUTO_SNAPSHOTS per project.
+ */
+
+const MAX_AUTO_SNAPSHOTS = 10;
+
+export interface ProjectDiff {
+  scenesAdded: string[];
+  scenesRemoved: string[];
+  scenesChanged: string[];
+  assetsAdded: string[];
+  assetsRemoved: string[];
+  assetsChanged: string[];
+}
+
+const generateSnapshotId = () => `snap_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const sceneLabel = (f: TimelineFrame, i: number) => f.title || `Scene ${i + 1}`;
+
+// Fields that count as a content change for the diff (images compare by reference)
+const sceneSignature = (f: TimelineFrame) => JSON.stringify([f.title, f.description, f.image, f.duration, f.dialogue, f.shotType, f.assignedAssetIds]);
+const assetSignature = (c: Character) => JSON.stringify([c.name, c.description, c.image, c.type, c.triggerWord]);
+
+/**
+ * Compares two versions of a project by scene and asset id. Returns display names.
+ */
+export const diffProjects = (from: ProjectData, to: ProjectData): ProjectDiff => {
+  const fromScenes = new Map(from.timeline.map(f => [f.id, f]));
+  const toScenes = new Map(to.timeline.map(f => [f.id, f]));
+  const fromAssets = new Map(from.references.map(c => [c.id, c]));
+  const toAssets = new Map(to.references.map(c => [c.id, c]));
+
+  const diff: ProjectDiff = { scenesAdded: [], scenesRemoved: [], scenesChanged: [], assetsAdded: [], assetsRemoved: [], assetsChanged: [] };
+
+  to.timeline.forEach((f, i) => {
+    const before = fromScenes.get(f.id);
+    if (!before) diff.scenesAdded.push(sceneLabel(f, i));
+    else if (sceneSignature(before) !== sceneSignature(f)) diff.scenesChanged.push(sceneLabel(f, i));
+  });
+  from.timeline.forEach((f, i) => { if (!toScenes.has(f.id)) diff.scenesRemoved.push(sceneLabel(f, i)); });
+
+  to.references.forEach(c => {
+    const before = fromAssets.get(c.id);
+    if (!before) diff.assetsAdded.push(c.name);
+    else if (assetSignature(before) !== assetSignature(c)) diff.assetsChanged.push(c.name);
+  });
+  from.references.forEach(c => { if (!toAssets.has(c.id)) diff.assetsRemoved.push(c.name); });
+
+  return diff;
+};
+
+export const isEmptyDiff = (diff: ProjectDiff): boolean => Object.values(diff).every(list => list.length === 0);
+
+/**
+ * Returns the snapshots of a project, newest first.
+ */
+export const listSnapshots = async (projectId: string): Promise<ProjectSnapshot[]> => {
+  try {
+    const snapshots = await runRequest<ProjectSnapshot[]>(SNAPSHOTS_STORE, 'readonly', s => s.index('projectId').getAll(projectId));
+    return (snapshots || []).sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    return [];
+  }
+};
+
+export const deleteSnapshot = async (snapshotId: string): Promise<void> => {
+  await runRequest(SNAPSHOTS_STORE, 'readwrite', s => s.delete(snapshotId));
+};
+
+/**
+ * Stores a copy of the project. Auto snapshots beyond the rolling limit are dropped.
+ */
+export const createSnapshot = async (
+  projectId: string,
+  data: ProjectData,
+  name: string,
+  kind: ProjectSnapshot['kind'] = 'manual'
+): Promise<ProjectSnapshot> => {
+  const snapshot: ProjectSnapshot = {
+    id: generateSnapshotId(),
+    projectId,
+    name: name.trim() || new Date().toLocaleString(),
+    kind,
+    createdAt: Date.now(),
+    data: await dehydrateProject(data)
+  };
+  await runRequest(SNAPSHOTS_STORE, 'readwrite', s => s.put(snapshot));
+
+  if (kind === 'auto') {
+    const autos = (await listSnapshots(projectId)).filter(s => s.kind === 'auto');
+    for (const old of autos.slice(MAX_AUTO_SNAPSHOTS)) await deleteSnapshot(old.id);
+  }
+  return snapshot;
+};
+
+/**
+ * Returns the snapshot's project data upgraded to the current schema.
+ */
+export const getSnapshotData = (snapshot: ProjectSnapshot): ProjectData => upgradeProject(snapshot.data).project;
+
+export const deleteProjectSnapshots = async (projectId: string): Promise<void> => {
+  const snapshots = await listSnapshots(projectId);
+  for (const snap of snapshots) await deleteSnapshot(snap.id);
+};
+
+/**
+ * Image references held by any snapshot, so blob cleanup keeps them alive.
+ */
+export const collectSnapshotImageRefs = async (): Promise<Set<string>> => {
+  const refs = new Set<string>();
+  const snapshots = await runRequest<ProjectSnapshot[]>(SNAPSHOTS_STORE, 'readonly', s => s.getAll());
+  snapshots.forEach(snap => collectImageRefs(snap.data).forEach(ref => refs.add(ref)));
+  return refs;
+};
@@ -1,41 +1,434 @@
 
-import { ProjectData } from '../types';
+import { ProjectData, Character, SubtitleSettings, TimelineFrame } from '../types';
+import { splitDialogueLines } from './fountainService';
 
 /**
- * Formats seconds into SRT timestamp format: HH:MM:SS,ms
+ * Subtitles from scene dialogue: split into readable cues (at most two lines), timed on
+ * timeline frames, and written as SRT, WebVTT or ASS. The import reads SRT/WebVTT back,
+ * to storyboard to a recorded voice-over.
  */
-const formatSRTTime = (seconds: number): string => {
-    const date = new Date(0);
-    date.setMilliseconds(seconds * 1000);
-    const iso = date.toISOString();
-    // Extract HH:MM:SS.ms and replace dot with comma for SRT standard
-    return iso.substr(11, 12).replace('.', ',');
+
+export const DEFAULT_SUBTITLE_SETTINGS: SubtitleSettings = {
+    maxCharsPerLine: 42,
+    maxCharsPerSecond: 17,
+    speakerLabels: true
+};
+
+export const SUBTITLE_MAX_LINES = 2;
+
+export interface SubtitleCue {
+    frameId: string;
+    start: number; // Seconds
+    end: number;
+    startFrame: number; // Timeline frames, the scenes rounded like the EDL
+    endFrame: number;
+    speaker?: string;
+    text: string; // Wrapped lines joined with \n, without the speaker label
+}
+
+type SubtitleSource = Pick<ProjectData, 'timeline'> & Partial<Pick<ProjectData, 'references' | 'timelineSettings' | 'subtitleSettings'>>;
+
+export const getSubtitleSettings = (project: Partial<Pick<ProjectData, 'subtitleSettings'>>): SubtitleSettings =>
+    ({ ...DEFAULT_SUBTITLE_SETTINGS, ...project.subtitleSettings });
+
+// --- SPLITTING ---
+
+/**
+ * Spoken text per speaker, attributed like the screenplay exports (see splitDialogueLines).
+ * Parentheticals aren't spoken, so they go; consecutive lines of one speaker are joined.
+ */
+const splitSpeeches = (dialogue: string, sceneCast: Character[], allCast: Character[]): { speaker?: string, text: string }[] => {
+    const speeches: { speaker?: string, text: string }[] = [];
+    splitDialogueLines(dialogue, sceneCast, allCast).forEach(({ speaker, text: line }) => {
+        const text = line.replace(/\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+        if (!text) return;
+        const previous = speeches[speeches.length - 1];
+        if (previous && previous.speaker === speaker) previous.text = `${previous.text} ${text}`;
+        else speeches.push({ speaker, text });
+    });
+    return speeches;
+};
+
+/**
+ * Greedy word wrap into cues of up to SUBTITLE_MAX_LINES lines. `firstLineBudget` leaves room for the speaker label.
+ */
+const wrapIntoCues = (text: string, lineBudget: number, firstLineBudget: number): string[][] => {
+    const cues: string[][] = [];
+    let lines: string[] = [];
+    let line = '';
+    const budget = () => lines.length === 0 ? firstLineBudget : lineBudget;
+
+    text.split(' ').forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (!line || candidate.length <= budget()) {
+            line = candidate;
+            return;
+        }
+        lines.push(line);
+        line = word;
+        if (lines.length === SUBTITLE_MAX_LINES) {
+            cues.push(lines);
+            lines = [];
+        }
+    });
+    if (line) lines.push(line);
+    if (lines.length) cues.push(lines);
+    return cues;
+};
+
+/**
+ * Subtitle cues from the timeline. Each scene's dialogue is split into cues that share the scene's
+ * frames in proportion to their length, so the reading speed is even within a scene. Every cue gets at
+ * least one frame; pieces beyond the scene's frame count are joined to its last cue.
+ * Shared by the exports, the animatic player and the video render so all show the same text at the same time.
+ */
+export const buildSubtitleCues = (project: SubtitleSource): SubtitleCue[] => {
+    const fps = project.timelineSettings?.fps || 24;
+    const settings = getSubtitleSettings(project);
+    const allCast = (project.references || []).filter(c => c.type === 'character');
+    const cues: SubtitleCue[] = [];
+    let sceneStart = 0;
+
+    project.timeline.forEach((frame) => {
+        const sceneFrames = Math.round((frame.duration || 4) * fps);
+
+        // Only generate subtitles if there is dialogue (and a frame to show it on)
+        if (sceneFrames > 0 && frame.dialogue && frame.dialogue.trim().length > 0) {
+            const sceneCast = allCast.filter(c => frame.assignedAssetIds.includes(c.id));
+            const pieces: { speaker?: string, lines: string[] }[] = [];
+            splitSpeeches(frame.dialogue, sceneCast, allCast).forEach(({ speaker, text }) => {
+                const label = settings.speakerLabels && speaker ? speaker.length + 2 : 0;
+                const firstLine = Math.max(10, settings.maxCharsPerLine - label);
+                wrapIntoCues(text, settings.maxCharsPerLine, firstLine).forEach(lines => pieces.push({ speaker, lines }));
+            });
+
+            const weights = pieces.map(p => p.lines.join(' ').length);
+            const total = weights.reduce((a, b) => a + b, 0) || 1;
+            let cumulative = 0;
+            let cueStart = sceneStart;
+            const sceneEnd = sceneStart + sceneFrames;
+            pieces.forEach((piece, i) => {
+                cumulative += weights[i];
+                if (cueStart >= sceneEnd) {
+                    const last = cues[cues.length - 1];
+                    const label = piece.speaker && piece.speaker !== last.speaker ? `${piece.speaker}: ` : '';
+                    last.text += `\n${label}${piece.lines.join('\n')}`;
+                    return;
+                }
+                const boundary = sceneStart + Math.round((sceneFrames * cumulative) / total);
+                const cueEnd = i === pieces.length - 1 ? sceneEnd : Math.min(sceneEnd, Math.max(cueStart + 1, boundary));
+                cues.push({
+                    frameId: frame.id,
+                    start: cueStart / fps,
+                    end: cueEnd / fps,
+                    startFrame: cueStart,
+                    endFrame: cueEnd,
+                    speaker: piece.speaker,
+                    text: piece.lines.join('\n')
+                });
+                cueStart = cueEnd;
+            });
+        }
+
+        sceneStart += sceneFrames;
+    });
+
+    return cues;
+};
+
+/**
+ * Cue text as displayed, with "Speaker: " in front when labels are on.
+ */
+export const cueText = (cue: SubtitleCue, speakerLabels: boolean = true): string =>
+    speakerLabels && cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+
+/**
+ * Cues that read faster than the limit: the scene is too short for its dialogue.
+ */
+export const findFastCues = (cues: SubtitleCue[], settings: SubtitleSettings, fps: number): SubtitleCue[] =>
+    cues.filter(c => c.text.replace(/\n/g, ' ').length / Math.max(1 / fps, (c.endFrame - c.startFrame) / fps) > settings.maxCharsPerSecond);
+
+// --- TIMESTAMPS ---
+
+/**
+ * Frame-accurate HH:MM:SS + fraction. Hours keep counting past 24 (no Date wrap-around).
+ */
+const formatTime = (frames: number, fps: number, separator: string, digits: 2 | 3, hourDigits: number = 2): string => {
+    const unit = digits === 3 ? 1000 : 100;
+    const ticks = Math.round((frames * unit) / fps);
+    const fraction = ticks % unit;
+    const totalSeconds = Math.floor(ticks / unit);
+    const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+    return `${pad(Math.floor(totalSeconds / 3600), hourDigits)}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}${separator}${pad(fraction, digits)}`;
 };
 
+/**
+ * Formats timeline frames into SRT timestamp format: HH:MM:SS,mmm
+ */
+const formatSRTTime = (frames: number, fps: number): string => formatTime(frames, fps, ',', 3);
+
+// --- WRITERS ---
+
 /**
  * Generates a .srt subtitle file string from the project timeline.
  * Uses 'dialogue' field as the subtitle text.
  */
 export const generateSRT = (project: ProjectData): string => {
-    let srtContent = '';
-    let currentTime = 0;
-    let counter = 1;
+    const fps = project.timelineSettings.fps || 24;
+    const { speakerLabels } = getSubtitleSettings(project);
+    return buildSubtitleCues(project).map((cue, i) =>
+        `${i + 1}\n${formatSRTTime(cue.startFrame, fps)} --> ${formatSRTTime(cue.endFrame, fps)}\n${cueText(cue, speakerLabels)}\n\n`
+    ).join('');
+};
 
-    project.timeline.forEach((frame) => {
-        const duration = frame.duration || 4;
-        const startTime = currentTime;
-        const endTime = currentTime + duration;
-
-        // Only generate subtitle block if there is dialogue
-        if (frame.dialogue && frame.dialogue.trim().length > 0) {
-            srtContent += `${counter}\n`;
-            srtContent += `${formatSRTTime(startTime)} --> ${formatSRTTime(endTime)}\n`;
-            srtContent += `${frame.dialogue.trim()}\n\n`;
-            counter++;
+const escapeVTT = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Generates a WebVTT file. Speakers are voice spans (<v Name>); the label is also kept in the text
+ * because browsers don't display voice names.
+ */
+export const generateVTT = (project: ProjectData): string => {
+    const fps = project.timelineSettings.fps || 24;
+    const { speakerLabels } = getSubtitleSettings(project);
+    const blocks = buildSubtitleCues(project).map((cue, i) => {
+        const time = `${formatTime(cue.startFrame, fps, '.', 3)} --> ${formatTime(cue.endFrame, fps, '.', 3)}`;
+        const text = speakerLabels && cue.speaker ? `<v ${escapeVTT(cue.speaker)}>${escapeVTT(cueText(cue))}` : escapeVTT(cue.text);
+        return `${i + 1}\n${time}\n${text}\n`;
+    });
+    return `WEBVTT\n\n${blocks.join('\n')}`;
+};
+
+// Override tags take &HBBGGRR&
+const ASS_SPEAKER_COLOUR = '&H00D7FF&'; // Amber
+
+const escapeASS = (text: string) => text.replace(/\{/g, '(').replace(/\}/g, ')').replace(/\n/g, '\\N');
+
+/**
+ * Generates an Advanced SubStation Alpha (.ass) file scaled to the timeline resolution:
+ * white text with an outline and soft shadow at the bottom, speaker names in amber.
+ */
+export const generateASS = (project: ProjectData): string => {
+    const { fps, width, height } = project.timelineSettings;
+    const { speakerLabels } = getSubtitleSettings(project);
+    const fontSize = Math.round(height * 0.05);
+    const margin = Math.round(width * 0.08);
+    const marginV = Math.round(height * 0.06);
+    const time = (frames: number) => formatTime(frames, fps || 24, '.', 2, 1);
+
+    const events = buildSubtitleCues(project).map(cue => {
+        const label = speakerLabels && cue.speaker ? `{\\c${ASS_SPEAKER_COLOUR}}${escapeASS(cue.speaker)}:{\\r} ` : '';
+        return `Dialogue: 0,${time(cue.startFrame)},${time(cue.endFrame)},Default,${escapeASS(cue.speaker || '').replace(/,/g, ' ')},0,0,0,,${label}${escapeASS(cue.text)}`;
+    });
+
+    return `[Script Info]
+; Generated by Valera
+Title: ${escapeASS(project.meta?.appName || 'Valera Project')}
+ScriptType: v4.00+
+WrapStyle: 2
+ScaledBorderAndShadow: yes
+PlayResX: ${width}
+PlayResY: ${height}
+YCbCr Matrix: TV.709
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,${fontSize},&H00FFFFFF,&H000000FF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,${Math.max(1, Math.round(fontSize / 16))},${Math.max(1, Math.round(fontSize / 24))},2,${margin},${margin},${marginV},1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+${events.join('\n')}
+`;
+};
+
+// --- IMPORT ---
+
+export interface ImportedCue {
+    index: number; // Position in the file, 1-based
+    start: number; // Seconds
+    end: number;
+    speaker?: string; // From a WebVTT voice span
+    text: string; // Lines joined with spaces, tags removed
+}
+
+const TIMING_RE = /^((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[,.]\d{1,3})/;
+
+const parseTimestamp = (value: string): number => {
+    const [clock, fraction] = value.split(/[,.]/);
+    const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+    return seconds + parseInt(fraction.padEnd(3, '0'), 10) / 1000;
+};
+
+const stripTags = (text: string) => text
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+/**
+ * Reads SRT or WebVTT (detected from the WEBVTT header). Cue numbers are optional, hours may be
+ * left out, and VTT NOTE/STYLE/REGION blocks are skipped. Throws when no cue has a timing line.
+ */
+export const parseSubtitleFile = (content: string): ImportedCue[] => {
+    const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+    const cues: ImportedCue[] = [];
+
+    blocks.forEach(block => {
+        const lines = block.split('\n').filter(l => l.trim());
+        const timingIndex = lines.findIndex(l => TIMING_RE.test(l.trim()));
+        if (timingIndex === -1 || /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+        const [, start, end] = lines[timingIndex].trim().match(TIMING_RE)!;
+        const body = lines.slice(timingIndex + 1);
+        const voice = body.join(' ').match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+        let text = stripTags(body.join(' ')).replace(/\s+/g, ' ').trim();
+        const speaker = voice ? voice[1].trim() : undefined;
+        // Our own VTT export repeats the voice as a label
+        if (speaker && text.toLowerCase().startsWith(`${speaker.toLowerCase()}:`)) text = text.slice(speaker.length + 1).trim();
+        if (!text) return;
+
+        cues.push({ index: cues.length + 1, start: parseTimestamp(start), end: parseTimestamp(end), speaker, text });
+    });
+
+    if (cues.length === 0) throw new Error('No subtitle cues found. Expected SRT or WebVTT.');
+    return cues.sort((a, b) => a.start - b.start);
+};
+
+// Seconds rounded to whole timeline frames, kept short for the duration fields
+const toFrameDuration = (seconds: number, fps: number) =>
+    Math.round((Math.max(1, Math.round(seconds * fps)) / fps) * 1000) / 1000;
+
+const cueDialogue = (cue: ImportedCue) => cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+
+/**
+ * One scene per run of cues: a pause of at least `sceneGap` seconds starts the next scene (0 = one scene per cue).
+ * Each scene lasts until the next one starts, so the cuts stay on the recording's timing; the first scene
+ * also covers any silence before the first cue. Speakers that match character assets are linked to the scene.
+ */
+export const cuesToFrames = (
+    cues: ImportedCue[],
+    library: Character[],
+    options: { fps: number, sceneGap: number, aspectRatio: string, firstSceneNumber: number }
+): TimelineFrame[] => {
+    const { fps, sceneGap, aspectRatio, firstSceneNumber } = options;
+    const groups: ImportedCue[][] = [];
+    cues.forEach((cue, i) => {
+        const previous = cues[i - 1];
+        if (!previous || sceneGap === 0 || cue.start - previous.end >= sceneGap) groups.push([cue]);
+        else groups[groups.length - 1].push(cue);
+    });
+
+    const cast = library.filter(c => c.type === 'character');
+    const stamp = Date.now();
+    return groups.map((group, i) => {
+        const start = i === 0 ? 0 : group[0].start;
+        const end = i === groups.length - 1 ? group[group.length - 1].end : groups[i + 1][0].start;
+
+        const lines: string[] = [];
+        group.forEach((cue, j) => {
+            if (j > 0 && cue.speaker && cue.speaker === group[j - 1].speaker) lines[lines.length - 1] += ` ${cue.text}`;
+            else lines.push(cueDialogue(cue));
+        });
+        const dialogue = lines.join('\n');
+        const speakers = new Set(splitSpeeches(dialogue, [], cast).map(s => s.speaker).filter(Boolean));
+
+        return {
+            id: `${stamp}_${i}`,
+            title: `Scene ${firstSceneNumber + i}`,
+            description: '',
+            duration: toFrameDuration(end - start, fps),
+            dialogue,
+            assignedAssetIds: cast.filter(c => speakers.has(c.name)).map(c => c.id),
+            image: null,
+            aspectRatio
+        };
+    });
+};
+
+export interface RetimeResult {
+    timeline: TimelineFrame[];
+    retimed: { frameId: string, cues: number, before: number, after: number }[]; // cues: 0 for the scene taking the lead-in
+    drift: { frameId: string, seconds: number }[]; // Matched scenes that start after their first cue
+    unmatchedCues: ImportedCue[];
+    unmatchedFrames: TimelineFrame[]; // Scenes with dialogue that no cue matched
+}
+
+// How much of a cue's words must appear in the scene's dialogue
+const MATCH_THRESHOLD = 0.6;
+// How many dialogue scenes ahead a cue may match, so a missing line doesn't derail the rest
+const MATCH_LOOKAHEAD = 3;
+
+const words = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+
+/**
+ * Matches cues to scenes by their dialogue, in order, and re-times the matched scenes: each one lasts
+ * until the next matched scene's first cue (less the scenes without dialogue in between, which keep
+ * their length), the last one until its last cue ends. The silence before the first matched cue goes to
+ * the scene before it, or to the scene itself when it opens the timeline. A scene never gets shorter
+ * than its own cues; when the scenes before a cue run too long for that, the cut lands late and is
+ * reported in `drift`. Scene order and text are left alone.
+ */
+export const retimeFramesToCues = (timeline: TimelineFrame[], cues: ImportedCue[], fps: number): RetimeResult => {
+    const spoken = timeline
+        .map((frame, index) => ({ frame, index, words: new Set(words(splitSpeeches(frame.dialogue || '', [], []).map(s => s.text).join(' '))) }))
+        .filter(s => s.words.size > 0);
+
+    const matches = new Map<number, ImportedCue[]>(); // Timeline index -> cues
+    const unmatchedCues: ImportedCue[] = [];
+    let cursor = 0;
+
+    cues.forEach(cue => {
+        const cueWords = words(cue.text);
+        let best = -1;
+        let bestScore = 0;
+        for (let s = cursor; s < Math.min(spoken.length, cursor + MATCH_LOOKAHEAD + 1); s++) {
+            const score = cueWords.filter(w => spoken[s].words.has(w)).length / Math.max(1, cueWords.length);
+            if (score > bestScore) { best = s; bestScore = score; }
+        }
+        if (best === -1 || bestScore < MATCH_THRESHOLD) {
+            unmatchedCues.push(cue);
+            return;
         }
+        cursor = best;
+        const index = spoken[best].index;
+        matches.set(index, [...(matches.get(index) || []), cue]);
+    });
+
+    const matched = Array.from(matches.keys()).sort((a, b) => a - b);
+    const durations = timeline.map(f => f.duration || 4);
+    const total = (from: number, to: number) => durations.slice(from, to).reduce((a, b) => a + b, 0);
+    const changed = new Set<number>();
+    const retimed: RetimeResult['retimed'] = [];
+    const drift: RetimeResult['drift'] = [];
+    const setDuration = (index: number, seconds: number, cueCount: number) => {
+        const after = toFrameDuration(seconds, fps);
+        retimed.push({ frameId: timeline[index].id, cues: cueCount, before: durations[index], after });
+        durations[index] = after;
+        changed.add(index);
+    };
+
+    if (matched.length > 0 && matched[0] > 0) {
+        const first = matched[0];
+        const leadIn = matches.get(first)![0].start - total(0, first);
+        if (leadIn > 0) setDuration(first - 1, durations[first - 1] + leadIn, 0);
+    }
+
+    matched.forEach((index, k) => {
+        const own = matches.get(index)!;
+        const position = total(0, index); // Start in the re-timed cut
+        const late = position - own[0].start;
+        if (late >= 1 / fps) drift.push({ frameId: timeline[index].id, seconds: Math.round(late * 100) / 100 });
 
-        currentTime += duration;
+        const span = own[own.length - 1].end - own[0].start;
+        const end = k < matched.length - 1
+            ? matches.get(matched[k + 1])![0].start - total(index + 1, matched[k + 1])
+            : own[own.length - 1].end;
+        setDuration(index, Math.max(span, end - position), own.length);
     });
 
-    return srtContent;
+    return {
+        timeline: timeline.map((frame, i) => changed.has(i) ? { ...frame, duration: durations[i] } : frame),
+        retimed,
+        drift,
+        unmatchedCues,
+        unmatchedFrames: spoken.filter(s => !matches.has(s.index)).map(s => s.frame)
+    };
 };
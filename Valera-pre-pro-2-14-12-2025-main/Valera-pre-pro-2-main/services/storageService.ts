@@ -1,78 +1,267 @@
 
-import { ProjectData } from '../types';
+import { ProjectData, ProjectSummary } from '../types';
+import { runRequest, LEGACY_STORE_NAME, PROJECTS_STORE, SUMMARIES_STORE } from './db';
+import { resolveImageUrl, dehydrateProject, collectImageRefs, pruneImages } from './imageStore';
+import { upgradeProject } from './projectSchema';
+import { collectSnapshotImageRefs, deleteProjectSnapshots } from './snapshotService';
+import { clearRenderQueue } from './renderQueue';
 
-const DB_NAME = 'ValeraPreProDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'project_autosave';
-const KEY = 'current_session';
+const LEGACY_KEY = 'current_session';
+const ACTIVE_PROJECT_KEY = 'valera_active_project';
+const THUMB_SIZE = 240;
+const AUTOSAVE_DELAY = 500; // ms of quiet before an autosave is written
+
+// Last thumbnail source per project, so autosave does not re-render the same thumbnail
+const thumbnailCache: Record<string, { source: string; thumb: string | null }> = {};
+
+const generateProjectId = () => `proj_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// --- ACTIVE PROJECT POINTER ---
+
+export const getActiveProjectId = (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const setActiveProjectId = (id: string) => localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+
+// --- THUMBNAILS ---
+
+const pickThumbnailSource = (project: ProjectData): string | null => {
+  const frame = project.timeline.find(f => !!f.image);
+  if (frame?.image) return frame.image;
+  const asset = project.references.find(c => !!c.image);
+  return asset?.image || null;
+};
 
 /**
- * Saves the full project data to IndexedDB.
- * Can handle large base64 strings that fail in localStorage.
+ * Downscales the first available scene (or asset) image into a small JPEG.
+ * Falls back to null when the image can't be drawn (e.g. tainted remote GIF).
  */
-export const saveProjectToIDB = (project: ProjectData): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+const buildThumbnail = async (projectId: string, project: ProjectData): Promise<string | null> => {
+  const source = pickThumbnailSource(project);
+  if (!source) return null;
 
-    request.onerror = () => {
-      console.error("IDB Open Error");
-      reject("Failed to open database");
-    };
+  const cached = thumbnailCache[projectId];
+  if (cached && cached.source === source) return cached.thumb;
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
-      }
-    };
-
-    request.onsuccess = () => {
-      const db = request.result;
+  const url = await resolveImageUrl(source);
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
       try {
-        const transaction = db.transaction([STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const putRequest = store.put(project, KEY);
-
-        putRequest.onsuccess = () => resolve();
-        putRequest.onerror = (e) => {
-          console.warn("IDB Save Error", e);
-          reject("Failed to save to IDB");
-        };
+        const scale = Math.min(1, THUMB_SIZE / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.width * scale));
+        canvas.height = Math.max(1, Math.round(img.height * scale));
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        const thumb = canvas.toDataURL('image/jpeg', 0.7);
+        thumbnailCache[projectId] = { source, thumb };
+        resolve(thumb);
       } catch (e) {
-        console.warn("IDB Transaction Error", e);
-        reject(e);
+        thumbnailCache[projectId] = { source, thumb: null };
+        resolve(null);
       }
     };
+    img.onerror = () => {
+      thumbnailCache[projectId] = { source, thumb: null };
+      resolve(null);
+    };
+    img.src = url;
   });
 };
 
+const buildSummary = async (
+  projectId: string,
+  project: ProjectData,
+  existing?: ProjectSummary | null
+): Promise<ProjectSummary> => ({
+  id: projectId,
+  name: project.meta?.appName || 'Untitled Project',
+  createdAt: existing?.createdAt || Date.now(),
+  updatedAt: Date.now(),
+  thumbnail: await buildThumbnail(projectId, project),
+  sceneCount: project.timeline.length,
+  assetCount: project.references.length
+});
+
+// --- PROJECT CRUD ---
+
 /**
- * Loads the project data from IndexedDB.
+ * Returns all projects in the workspace, most recently modified first.
  */
-export const loadProjectFromIDB = (): Promise<ProjectData | null> => {
-  return new Promise((resolve) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  try {
+    const summaries = await runRequest<ProjectSummary[]>(SUMMARIES_STORE, 'readonly', s => s.getAll());
+    return (summaries || []).sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (e) {
+    return [];
+  }
+};
 
-    request.onerror = () => resolve(null);
-    request.onupgradeneeded = (event) => {
-       const db = (event.target as IDBOpenDBRequest).result;
-       db.createObjectStore(STORE_NAME);
-    };
+// --- SAVE QUEUE ---
 
-    request.onsuccess = () => {
-      const db = request.result;
-      try {
-        const transaction = db.transaction([STORE_NAME], 'readonly');
-        const store = transaction.objectStore(STORE_NAME);
-        const getRequest = store.get(KEY);
-
-        getRequest.onsuccess = () => {
-          resolve(getRequest.result as ProjectData || null);
-        };
-        getRequest.onerror = () => resolve(null);
-      } catch (e) {
-        resolve(null);
-      }
-    };
+// Writes run one at a time, so a slower older save can never land after a newer one
+let saveChain: Promise<void> = Promise.resolve();
+// Debounced autosaves: only the latest state per project is kept
+const pendingSaves = new Map<string, { data: ProjectData; timer: ReturnType<typeof setTimeout> }>();
+// Saves still queued for a project that has been deleted must not re-create it
+const deletedProjects = new Set<string>();
+
+const enqueueSave = (task: () => Promise<void>): Promise<void> => {
+  const run = saveChain.then(task);
+  saveChain = run.catch(() => undefined);
+  return run;
+};
+
+const writeProject = async (data: ProjectData, projectId: string): Promise<void> => {
+  if (deletedProjects.has(projectId)) return;
+  const project = await dehydrateProject(data);
+  const existing = await runRequest<ProjectSummary | undefined>(SUMMARIES_STORE, 'readonly', s => s.get(projectId)).catch(() => undefined);
+  const summary = await buildSummary(projectId, project, existing);
+  if (deletedProjects.has(projectId)) return;
+  await runRequest(PROJECTS_STORE, 'readwrite', s => s.put(project, projectId));
+  await runRequest(SUMMARIES_STORE, 'readwrite', s => s.put(summary));
+};
+
+const takePendingSave = (projectId: string): ProjectData | undefined => {
+  const pending = pendingSaves.get(projectId);
+  if (!pending) return undefined;
+  clearTimeout(pending.timer);
+  pendingSaves.delete(projectId);
+  return pending.data;
+};
+
+/**
+ * Saves the full project data to IndexedDB under its own project id.
+ * Inline images are moved into the blob store first, so only references are written.
+ * Replaces a pending autosave of the same project, and waits for the saves queued before it.
+ */
+export const saveProjectToIDB = (data: ProjectData, projectId: string): Promise<void> => {
+  takePendingSave(projectId);
+  return enqueueSave(() => writeProject(data, projectId));
+};
+
+/**
+ * Autosave: writes `data` once the project has been quiet for AUTOSAVE_DELAY. A newer call
+ * replaces the pending state, so bursts of edits end in a single write of the latest one.
+ */
+export const scheduleProjectSave = (data: ProjectData, projectId: string): void => {
+  takePendingSave(projectId);
+  const timer = setTimeout(() => { flushProjectSaves(projectId); }, AUTOSAVE_DELAY);
+  pendingSaves.set(projectId, { data, timer });
+};
+
+/**
+ * Writes pending autosaves right away (all projects, or just `projectId`) and waits until every
+ * queued save has landed. Never throws; failed autosaves are logged.
+ */
+export const flushProjectSaves = async (projectId?: string): Promise<void> => {
+  const ids = projectId ? [projectId] : Array.from(pendingSaves.keys());
+  ids.forEach(id => {
+    const data = takePendingSave(id);
+    if (data) enqueueSave(() => writeProject(data, id)).catch(e => console.warn("Autosave failed", e));
   });
+  await saveChain;
+};
+
+/**
+ * Loads a project from IndexedDB and upgrades it to the current schema. Defaults to the active project.
+ * Returns null when the project doesn't exist; throws ProjectSchemaError when the stored data is corrupted.
+ */
+export const loadProjectFromIDB = async (projectId: string | null = getActiveProjectId()): Promise<ProjectData | null> => {
+  if (!projectId) return null;
+  await flushProjectSaves(projectId);
+  let data: unknown;
+  try {
+    data = await runRequest<unknown>(PROJECTS_STORE, 'readonly', s => s.get(projectId));
+  } catch (e) {
+    return null;
+  }
+  if (!data) return null;
+
+  const { project, fromVersion, repairs } = upgradeProject(data);
+  if (repairs.length > 0 || fromVersion !== project.meta.version) {
+    console.info(`Project ${projectId} upgraded from schema ${fromVersion}`, repairs);
+  }
+  return project;
+};
+
+/**
+ * Creates a new project from the given data and returns its summary.
+ */
+export const createProject = async (name: string, data: ProjectData): Promise<ProjectSummary> => {
+  const id = generateProjectId();
+  const project: ProjectData = { ...data, meta: { ...data.meta, appName: name } };
+  await saveProjectToIDB(project, id);
+  const summary = await runRequest<ProjectSummary>(SUMMARIES_STORE, 'readonly', s => s.get(id));
+  return summary;
+};
+
+export const renameProject = async (projectId: string, name: string): Promise<void> => {
+  const data = await loadProjectFromIDB(projectId);
+  if (!data) throw new Error("Project not found");
+  await saveProjectToIDB({ ...data, meta: { ...data.meta, appName: name } }, projectId);
+};
+
+export const duplicateProject = async (projectId: string): Promise<ProjectSummary> => {
+  const data = await loadProjectFromIDB(projectId);
+  if (!data) throw new Error("Project not found");
+  return createProject(`${data.meta?.appName || 'Untitled Project'} (Copy)`, data);
+};
+
+/**
+ * Deletes a project with its snapshots and render queue, then the images nothing else uses.
+ * `keep` are image references of unsaved state that must survive the cleanup (see pruneOrphanImages).
+ */
+export const deleteProject = async (projectId: string, keep: Iterable<string> = []): Promise<void> => {
+  deletedProjects.add(projectId);
+  takePendingSave(projectId);
+  await saveChain;
+  await runRequest(PROJECTS_STORE, 'readwrite', s => s.delete(projectId));
+  await runRequest(SUMMARIES_STORE, 'readwrite', s => s.delete(projectId));
+  await deleteProjectSnapshots(projectId);
+  clearRenderQueue(projectId);
+  delete thumbnailCache[projectId];
+  if (getActiveProjectId() === projectId) localStorage.removeItem(ACTIVE_PROJECT_KEY);
+  await pruneOrphanImages(keep);
+};
+
+/**
+ * Removes image blobs no longer referenced by any project or snapshot.
+ * Blobs are shared between projects (duplicates reuse them), so this has to scan the whole workspace.
+ * Pending saves are written first; `live` adds the references of the open project's in-memory state.
+ */
+export const pruneOrphanImages = async (live: Iterable<string> = []): Promise<number> => {
+  try {
+    await flushProjectSaves();
+    const projects = await runRequest<ProjectData[]>(PROJECTS_STORE, 'readonly', s => s.getAll());
+    const keep = await collectSnapshotImageRefs();
+    projects.forEach(p => collectImageRefs(p).forEach(ref => keep.add(ref)));
+    for (const ref of live) keep.add(ref);
+    return await pruneImages(keep);
+  } catch (e) {
+    console.warn("Image cleanup failed", e);
+    return 0;
+  }
+};
+
+/**
+ * Moves the pre-workspace single `current_session` slot into a regular project.
+ * Runs once: the legacy key is removed after a successful move.
+ * Returns the id of the migrated project, or null if there was nothing to migrate.
+ */
+export const migrateLegacySession = async (): Promise<string | null> => {
+  try {
+    const stored = await runRequest<unknown>(LEGACY_STORE_NAME, 'readonly', s => s.get(LEGACY_KEY));
+    if (!stored) return null;
+
+    // Corrupted sessions throw here and stay in the legacy slot untouched
+    const legacy = upgradeProject(stored).project;
+    const summary = await createProject(legacy.meta?.appName || 'Migrated Project', legacy);
+    await runRequest(LEGACY_STORE_NAME, 'readwrite', s => s.delete(LEGACY_KEY));
+    if (!getActiveProjectId()) setActiveProjectId(summary.id);
+    return summary.id;
+  } catch (e) {
+    console.warn("Legacy session migration failed", e);
+    return null;
+  }
 };
@@ -0,0 +1,150 @@
+
+import { ProjectData, UsageEntry } from '../types';
+
+/**
+ * Cost estimates for the per-project usage log.
+ * Prices are an editable, app-wide table (USD); costs are computed on display,
+ * so editing a price re-prices the whole history.
+ */
+
+export interface ModelPrice {
+  model: string; // Matched as a substring of the logged model id; the longest match wins
+  inputPerMTok: number; // USD per 1M input tokens
+  outputPerMTok: number; // USD per 1M output tokens (text replies)
+  perImage: Record<string, number>; // USD per image by size ('1K' | '2K' | '4K')
+}
+
+const PRICE_TABLE_KEY = 'valera_price_table';
+
+// Public list prices at the time of writing; adjust in the dashboard when they change
+export const DEFAULT_PRICE_TABLE: ModelPrice[] = [
+  { model: 'gemini-2.5-flash', inputPerMTok: 0.30, outputPerMTok: 2.50, perImage: {} },
+  { model: 'gemini-2.5-pro', inputPerMTok: 1.25, outputPerMTok: 10, perImage: {} },
+  { model: 'gemini-3-pro', inputPerMTok: 2, outputPerMTok: 12, perImage: {} },
+  { model: 'gemini-2.0-flash', inputPerMTok: 0.10, outputPerMTok: 0.40, perImage: {} },
+  { model: 'gemini-2.5-flash-image', inputPerMTok: 0.30, outputPerMTok: 0, perImage: { '1K': 0.039, '2K': 0.039, '4K': 0.039 } },
+  { model: 'gemini-3-pro-image', inputPerMTok: 2, outputPerMTok: 0, perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 } },
+  { model: 'flux-1-schnell', inputPerMTok: 0, outputPerMTok: 0, perImage: { '1K': 0.003, '2K': 0.003, '4K': 0.003 } }
+];
+
+export const getPriceTable = (): ModelPrice[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PRICE_TABLE_KEY) || 'null');
+    return Array.isArray(saved) ? saved : DEFAULT_PRICE_TABLE;
+  } catch (e) {
+    return DEFAULT_PRICE_TABLE;
+  }
+};
+
+export const savePriceTable = (table: ModelPrice[]) => {
+  localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(table.filter(p => p.model.trim())));
+};
+
+export const resetPriceTable = () => localStorage.removeItem(PRICE_TABLE_KEY);
+
+export const findPrice = (model: string, table: ModelPrice[]): ModelPrice | null => {
+  const id = model.toLowerCase();
+  return table
+    .filter(p => p.model && id.includes(p.model.toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0] || null;
+};
+
+/**
+ * Estimated USD cost of one call. Image calls are billed per image (plus prompt tokens);
+ * their output tokens are the image itself and already in the per-image price.
+ * Unknown models cost 0 (e.g. a local server).
+ */
+export const estimateCost = (entry: UsageEntry, table: ModelPrice[]): number => {
+  const price = findPrice(entry.model, table);
+  if (!price) return 0;
+  const input = ((entry.inputTokens || 0) / 1e6) * price.inputPerMTok;
+  if (entry.kind === 'image') {
+    return input + (entry.images || 0) * (price.perImage[entry.imageSize || '1K'] || 0);
+  }
+  return input + ((entry.outputTokens || 0) / 1e6) * price.outputPerMTok;
+};
+
+// --- AGGREGATION ---
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+export interface UsageRow extends UsageTotals {
+  key: string;
+  label: string;
+  missing?: boolean; // Scene or asset no longer in the project
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  director: UsageTotals;
+  scenes: UsageRow[]; // Timeline order, deleted scenes last
+  assets: UsageRow[];
+  models: UsageRow[]; // Most expensive first
+  unattributed: UsageTotals; // Calls made before usage tracking knew the source
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0 });
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry, cost: number) => {
+  totals.requests += 1;
+  totals.inputTokens += entry.inputTokens || 0;
+  totals.outputTokens += entry.outputTokens || 0;
+  totals.images += entry.images || 0;
+  totals.cost += cost;
+};
+
+const addToRow = (rows: Map<string, UsageRow>, key: string, label: string, entry: UsageEntry, cost: number) => {
+  if (!rows.has(key)) rows.set(key, { key, label, ...emptyTotals() });
+  addEntry(rows.get(key)!, entry, cost);
+};
+
+export const buildUsageReport = (project: ProjectData, table: ModelPrice[]): UsageReport => {
+  const total = emptyTotals();
+  const director = emptyTotals();
+  const unattributed = emptyTotals();
+  const scenes = new Map<string, UsageRow>();
+  const assets = new Map<string, UsageRow>();
+  const models = new Map<string, UsageRow>();
+
+  (project.usageLog || []).forEach(entry => {
+    const cost = estimateCost(entry, table);
+    addEntry(total, entry, cost);
+    addToRow(models, entry.model, `${entry.model} (${entry.provider})`, entry, cost);
+
+    const source = entry.source;
+    if (source?.type === 'director') addEntry(director, entry, cost);
+    else if (source?.type === 'frame' && source.id) addToRow(scenes, source.id, source.name || 'Untitled scene', entry, cost);
+    else if (source?.type === 'asset' && source.id) addToRow(assets, source.id, source.name || 'Untitled asset', entry, cost);
+    else addEntry(unattributed, entry, cost);
+  });
+
+  // Current names and order win over the names logged at call time
+  const ordered = (rows: Map<string, UsageRow>, items: { id: string }[], label: (item: any, index: number) => string) => {
+    const present = items
+      .filter(item => rows.has(item.id))
+      .map(item => ({ ...rows.get(item.id)!, label: label(item, items.indexOf(item)) }));
+    const removed = Array.from(rows.values())
+      .filter(row => !items.some(item => item.id === row.key))
+      .map(row => ({ ...row, missing: true }));
+    return [...present, ...removed];
+  };
+
+  return {
+    total,
+    director,
+    unattributed,
+    scenes: ordered(scenes, project.timeline, (f, i) => `${i + 1}. ${f.title}`),
+    assets: ordered(assets, project.references, c => c.name),
+    models: Array.from(models.values()).sort((a, b) => b.cost - a.cost)
+  };
+};
+
+export const formatCost = (usd: number) => usd === 0 ? '$0' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (n: number) => n >= 1e6 ? `${(n / 1e6).toFixed(1)}M` : n >= 1e3 ? `${(n / 1e3).toFixed(1)}k` : String(n);
@@ -0,0 +1,328 @@
+
+/**
+ * Minimal in-memory muxers for WebCodecs output: MP4 (H.264 + AAC) and WebM (VP8/VP9 + Opus).
+ * The whole file is assembled once encoding is done, so sample tables and sizes are known up front.
+ * Kept to what the animatic render needs: one video track, at most one audio track, constant frame rate.
+ */
+
+export interface MuxSample {
+  data: Uint8Array;
+  timestamp: number; // Microseconds
+  duration: number; // Microseconds
+  key: boolean;
+}
+
+export interface MuxVideoTrack {
+  codec: 'avc' | 'vp8' | 'vp9';
+  width: number;
+  height: number;
+  fps: number;
+  description?: Uint8Array; // avcC for H.264
+  samples: MuxSample[];
+}
+
+export interface MuxAudioTrack {
+  codec: 'aac' | 'opus';
+  sampleRate: number;
+  channels: number;
+  bitrate: number;
+  description?: Uint8Array; // AudioSpecificConfig for AAC, OpusHead for Opus
+  samples: MuxSample[];
+}
+
+export type VideoFormat = 'mp4' | 'webm';
+
+// WebCodecs codec strings for each container
+export const videoCodecFor = (format: VideoFormat, width: number, height: number): string => {
+  const large = width * height > 1920 * 1088;
+  if (format === 'mp4') return large ? 'avc1.640033' : 'avc1.640028'; // High profile, level 5.1 / 4.0
+  return large ? 'vp09.00.51.08' : 'vp09.00.41.08';
+};
+
+export const audioCodecFor = (format: VideoFormat): string => format === 'mp4' ? 'mp4a.40.2' : 'opus';
+
+// --- BYTES ---
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const u8 = (n: number) => Uint8Array.of(n & 0xff);
+const u16 = (n: number) => Uint8Array.of((n >> 8) & 0xff, n & 0xff);
+const u24 = (n: number) => Uint8Array.of((n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff);
+const u32 = (n: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, n >>> 0);
+  return bytes;
+};
+const zeros = (n: number) => new Uint8Array(n);
+const ascii = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0));
+const utf8 = (s: string) => new TextEncoder().encode(s);
+
+// --- MP4 ---
+
+const box = (type: string, ...parts: Uint8Array[]) => {
+  const body = concat(parts);
+  return concat([u32(body.length + 8), ascii(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...parts: Uint8Array[]) => box(type, u8(version), u24(flags), ...parts);
+
+const UNITY_MATRIX = concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32));
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 90000;
+
+// MPEG-4 descriptors with the 4-byte length form, valid for any body under 128 bytes
+const descriptor = (tag: number, ...parts: Uint8Array[]) => {
+  const body = concat(parts);
+  return concat([u8(tag), Uint8Array.of(0x80, 0x80, 0x80, body.length & 0x7f), body]);
+};
+
+// AAC-LC AudioSpecificConfig, for encoders that don't report one
+const defaultAudioSpecificConfig = (sampleRate: number, channels: number) => {
+  const rates = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000];
+  const index = Math.max(0, rates.indexOf(sampleRate));
+  return Uint8Array.of((2 << 3) | (index >> 1), ((index & 1) << 7) | (channels << 3));
+};
+
+const toDeltas = (samples: MuxSample[], timescale: number) =>
+  samples.map(s => Math.max(1, Math.round((s.duration * timescale) / 1e6)));
+
+const stts = (deltas: number[]) => {
+  const runs: [number, number][] = [];
+  deltas.forEach(d => {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === d) last[0]++;
+    else runs.push([1, d]);
+  });
+  return fullBox('stts', 0, 0, u32(runs.length), ...runs.map(([count, delta]) => concat([u32(count), u32(delta)])));
+};
+
+const sampleTable = (entry: Uint8Array, samples: MuxSample[], deltas: number[], offsets: number[], withSync: boolean) => box('stbl',
+  fullBox('stsd', 0, 0, u32(1), entry),
+  stts(deltas),
+  ...(withSync ? [(() => {
+    const keys = samples.map((s, i) => s.key ? i + 1 : 0).filter(Boolean);
+    return fullBox('stss', 0, 0, u32(keys.length), ...keys.map(u32));
+  })()] : []),
+  fullBox('stsc', 0, 0, u32(1), u32(1), u32(1), u32(1)), // One sample per chunk
+  fullBox('stsz', 0, 0, u32(0), u32(samples.length), ...samples.map(s => u32(s.data.length))),
+  fullBox('stco', 0, 0, u32(offsets.length), ...offsets.map(u32))
+);
+
+const trak = (opts: {
+  id: number, handler: 'vide' | 'soun', timescale: number, deltas: number[],
+  width?: number, height?: number, mediaHeader: Uint8Array, stbl: Uint8Array
+}) => {
+  const mediaDuration = opts.deltas.reduce((a, b) => a + b, 0);
+  const movieDuration = Math.round((mediaDuration / opts.timescale) * MOVIE_TIMESCALE);
+  return box('trak',
+    fullBox('tkhd', 0, 3,
+      u32(0), u32(0), u32(opts.id), u32(0), u32(movieDuration), zeros(8),
+      u16(0), u16(0), u16(opts.handler === 'soun' ? 0x0100 : 0), u16(0),
+      UNITY_MATRIX, u32((opts.width || 0) * 65536), u32((opts.height || 0) * 65536)
+    ),
+    box('mdia',
+      fullBox('mdhd', 0, 0, u32(0), u32(0), u32(opts.timescale), u32(mediaDuration), u16(0x55c4), u16(0)),
+      fullBox('hdlr', 0, 0, u32(0), ascii(opts.handler), zeros(12), utf8(opts.handler === 'vide' ? 'VideoHandler\0' : 'SoundHandler\0')),
+      box('minf',
+        opts.mediaHeader,
+        box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+        opts.stbl
+      )
+    )
+  );
+};
+
+/**
+ * ftyp + mdat + moov. Samples are written one per chunk, video first, then audio.
+ */
+export const muxMP4 = (video: MuxVideoTrack, audio?: MuxAudioTrack): Uint8Array => {
+  if (video.codec !== 'avc') throw new Error('MP4 needs H.264 video');
+  if (!video.description) throw new Error('The H.264 encoder did not report its decoder configuration');
+
+  const ftyp = box('ftyp', ascii('isom'), u32(512), ascii('isom'), ascii('iso2'), ascii('avc1'), ascii('mp41'));
+  const mdatHeader = 8;
+  let cursor = ftyp.length + mdatHeader;
+  const offsetsFor = (samples: MuxSample[]) => samples.map(s => {
+    const offset = cursor;
+    cursor += s.data.length;
+    return offset;
+  });
+  const videoOffsets = offsetsFor(video.samples);
+  const audioOffsets = audio ? offsetsFor(audio.samples) : [];
+  const mdat = box('mdat', ...video.samples.map(s => s.data), ...(audio ? audio.samples.map(s => s.data) : []));
+
+  const videoDeltas = toDeltas(video.samples, VIDEO_TIMESCALE);
+  const avc1 = box('avc1',
+    zeros(6), u16(1), zeros(16), u16(video.width), u16(video.height),
+    u32(0x00480000), u32(0x00480000), u32(0), u16(1), zeros(32), u16(0x0018), u16(0xffff),
+    box('avcC', video.description)
+  );
+  const tracks = [trak({
+    id: 1, handler: 'vide', timescale: VIDEO_TIMESCALE, deltas: videoDeltas, width: video.width, height: video.height,
+    mediaHeader: fullBox('vmhd', 0, 1, u16(0), u16(0), u16(0), u16(0)),
+    stbl: sampleTable(avc1, video.samples, videoDeltas, videoOffsets, true)
+  })];
+
+  if (audio && audio.samples.length > 0) {
+    if (audio.codec !== 'aac') throw new Error('MP4 needs AAC audio');
+    const audioDeltas = toDeltas(audio.samples, audio.sampleRate);
+    const asc = audio.description || defaultAudioSpecificConfig(audio.sampleRate, audio.channels);
+    const esds = fullBox('esds', 0, 0, descriptor(0x03, u16(2), u8(0),
+      descriptor(0x04, u8(0x40), u8(0x15), u24(0), u32(audio.bitrate), u32(audio.bitrate), descriptor(0x05, asc)),
+      descriptor(0x06, u8(0x02))
+    ));
+    const mp4a = box('mp4a',
+      zeros(6), u16(1), zeros(8), u16(audio.channels), u16(16), u16(0), u16(0), u32(audio.sampleRate * 65536),
+      esds
+    );
+    tracks.push(trak({
+      id: 2, handler: 'soun', timescale: audio.sampleRate, deltas: audioDeltas,
+      mediaHeader: fullBox('smhd', 0, 0, u16(0), u16(0)),
+      stbl: sampleTable(mp4a, audio.samples, audioDeltas, audioOffsets, false)
+    }));
+  }
+
+  const durationMs = Math.round((videoDeltas.reduce((a, b) => a + b, 0) / VIDEO_TIMESCALE) * MOVIE_TIMESCALE);
+  const moov = box('moov',
+    fullBox('mvhd', 0, 0,
+      u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(durationMs), u32(0x00010000), u16(0x0100), zeros(10),
+      UNITY_MATRIX, zeros(24), u32(tracks.length + 1)
+    ),
+    ...tracks
+  );
+
+  return concat([ftyp, mdat, moov]);
+};
+
+// --- WEBM ---
+
+const idBytes = (id: number) => {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = (id >>> (8 * (length - 1 - i))) & 0xff;
+  return bytes;
+};
+
+const sizeVint = (size: number) => {
+  let length = 1;
+  while (length < 8 && size >= Math.pow(2, 7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+};
+
+const uintBytes = (n: number) => {
+  const bytes: number[] = [];
+  let value = n;
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return Uint8Array.from(bytes);
+};
+
+const floatBytes = (n: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, n);
+  return bytes;
+};
+
+const el = (id: number, ...parts: Uint8Array[]) => {
+  const body = concat(parts);
+  return concat([idBytes(id), sizeVint(body.length), body]);
+};
+const elUint = (id: number, n: number) => el(id, uintBytes(n));
+const elFloat = (id: number, n: number) => el(id, floatBytes(n));
+const elString = (id: number, s: string) => el(id, utf8(s));
+
+// Opus identification header (RFC 7845), for encoders that don't report one
+const OPUS_PRE_SKIP = 312;
+const defaultOpusHead = (sampleRate: number, channels: number) => {
+  const bytes = new Uint8Array(19);
+  bytes.set(ascii('OpusHead'));
+  const view = new DataView(bytes.buffer);
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);
+  return bytes;
+};
+
+/**
+ * EBML header + Segment (Info, Tracks, Clusters). A cluster starts at every video keyframe,
+ * so block offsets stay within the 16-bit range as long as keyframes come at least every 30s.
+ */
+export const muxWebM = (video: MuxVideoTrack, audio?: MuxAudioTrack): Uint8Array => {
+  if (video.codec === 'avc') throw new Error('WebM needs VP8 or VP9 video');
+  const hasAudio = !!audio && audio.samples.length > 0;
+  if (hasAudio && audio!.codec !== 'opus') throw new Error('WebM needs Opus audio');
+
+  const header = el(0x1a45dfa3,
+    elUint(0x4286, 1), elUint(0x42f7, 1), elUint(0x42f2, 4), elUint(0x42f3, 8),
+    elString(0x4282, 'webm'), elUint(0x4287, 2), elUint(0x4285, 2)
+  );
+
+  const last = video.samples[video.samples.length - 1];
+  const durationMs = last ? (last.timestamp + last.duration) / 1000 : 0;
+  const info = el(0x1549a966,
+    elUint(0x2ad7b1, 1000000), // Timestamps in milliseconds
+    elFloat(0x4489, durationMs),
+    elString(0x4d80, 'Valera'),
+    elString(0x5741, 'Valera')
+  );
+
+  const videoEntry = el(0xae,
+    elUint(0xd7, 1), elUint(0x73c5, 1), elUint(0x83, 1), elUint(0x9c, 0),
+    elString(0x86, video.codec === 'vp9' ? 'V_VP9' : 'V_VP8'),
+    elUint(0x23e383, Math.round(1e9 / video.fps)),
+    el(0xe0, elUint(0xb0, video.width), elUint(0xba, video.height))
+  );
+  const audioEntry = hasAudio ? el(0xae,
+    elUint(0xd7, 2), elUint(0x73c5, 2), elUint(0x83, 2), elUint(0x9c, 0),
+    elString(0x86, 'A_OPUS'),
+    el(0x63a2, audio!.description || defaultOpusHead(audio!.sampleRate, audio!.channels)),
+    elUint(0x56aa, Math.round((OPUS_PRE_SKIP / 48000) * 1e9)),
+    elUint(0x56bb, 80000000),
+    el(0xe1, elFloat(0xb5, audio!.sampleRate), elUint(0x9f, audio!.channels))
+  ) : new Uint8Array(0);
+  const tracks = el(0x1654ae6b, videoEntry, audioEntry);
+
+  // Interleave by time, video first on ties so each cluster opens with its keyframe
+  const blocks = [
+    ...video.samples.map(s => ({ track: 1, sample: s })),
+    ...(hasAudio ? audio!.samples.map(s => ({ track: 2, sample: s })) : [])
+  ].sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.track - b.track);
+
+  const clusters: Uint8Array[] = [];
+  let clusterStart = -1;
+  let clusterBlocks: Uint8Array[] = [];
+  const flush = () => {
+    if (clusterStart >= 0) clusters.push(el(0x1f43b675, elUint(0xe7, clusterStart), ...clusterBlocks));
+    clusterBlocks = [];
+  };
+
+  blocks.forEach(({ track, sample }) => {
+    const ms = Math.round(sample.timestamp / 1000);
+    if (clusterStart < 0 || (track === 1 && sample.key) || ms - clusterStart > 30000) {
+      flush();
+      clusterStart = ms;
+    }
+    const relative = ms - clusterStart;
+    const blockHeader = Uint8Array.of(0x80 | track, (relative >> 8) & 0xff, relative & 0xff, sample.key ? 0x80 : 0);
+    clusterBlocks.push(el(0xa3, blockHeader, sample.data));
+  });
+  flush();
+
+  return concat([header, el(0x18538067, info, tracks, ...clusters)]);
+};
@@ -0,0 +1,183 @@
+
+import { ProjectData, KenBurnsMotion } from '../types';
+import { SubtitleCue, buildSubtitleCues, cueText, getSubtitleSettings } from './srtService';
+import { layoutAudio } from './audioService';
+import { resolveImageBlob } from './imageStore';
+import { VideoFormat, videoCodecFor } from './videoMuxer';
+
+/**
+ * Renders the storyboard to an MP4 or WebM animatic in the browser: audio is mixed here with an
+ * OfflineAudioContext, pictures are drawn and encoded with WebCodecs in videoRenderWorker.
+ */
+
+export type VideoTransition = 'cut' | 'crossfade';
+
+export const VIDEO_FORMATS: { value: VideoFormat, label: string, mimeType: string }[] = [
+  { value: 'mp4', label: 'MP4 (H.264 + AAC)', mimeType: 'video/mp4' },
+  { value: 'webm', label: 'WebM (VP9 + Opus)', mimeType: 'video/webm' }
+];
+
+export const RENDER_SAMPLE_RATE = 48000;
+
+export interface VideoRenderOptions {
+  format: VideoFormat;
+  transition: VideoTransition;
+  crossfadeSeconds: number;
+  burnSubtitles: boolean;
+  kenBurns: boolean;
+  includeAudio: boolean;
+}
+
+export interface VideoRenderProgress {
+  stage: 'audio' | 'video' | 'muxing';
+  progress: number; // 0..1 within the stage
+}
+
+// --- WORKER PROTOCOL ---
+
+export interface RenderShot {
+  title: string;
+  image: Blob | null;
+  startFrame: number; // Video frames, rounded per scene like the EDL and audio layout
+  endFrame: number;
+  kenBurns?: KenBurnsMotion;
+}
+
+export interface RenderJob {
+  format: VideoFormat;
+  width: number;
+  height: number;
+  fps: number;
+  shots: RenderShot[];
+  transition: VideoTransition;
+  crossfadeFrames: number;
+  cues: SubtitleCue[]; // Empty unless burned in
+  audio?: { sampleRate: number, channels: Float32Array[] };
+}
+
+export type RenderWorkerMessage =
+  | { type: 'progress', stage: VideoRenderProgress['stage'], progress: number }
+  | { type: 'done', data: ArrayBuffer }
+  | { type: 'error', message: string };
+
+// --- CAPABILITIES ---
+
+/**
+ * Formats this browser can encode at the given size. Empty when WebCodecs is missing (e.g. Firefox < 130, Safari < 16.4).
+ */
+export const getSupportedVideoFormats = async (width: number, height: number, fps: number): Promise<VideoFormat[]> => {
+  if (typeof VideoEncoder === 'undefined' || typeof OffscreenCanvas === 'undefined') return [];
+  const supported: VideoFormat[] = [];
+  for (const { value } of VIDEO_FORMATS) {
+    try {
+      const { supported: ok } = await VideoEncoder.isConfigSupported({ codec: videoCodecFor(value, width, height), width, height, framerate: fps });
+      if (ok) supported.push(value);
+    } catch (e) {
+      // Unsupported codec string
+    }
+  }
+  return supported;
+};
+
+// --- AUDIO ---
+
+/**
+ * Voice-over and music beds mixed to one stereo buffer, placed exactly as in the NLE exports.
+ * Returns undefined when nothing is attached.
+ */
+const mixAudio = async (project: Pick<ProjectData, 'timeline' | 'musicBeds'>, fps: number, totalFrames: number): Promise<RenderJob['audio']> => {
+  const { voiceOver, music } = layoutAudio(project, fps);
+  const placed = [...voiceOver, ...music];
+  if (placed.length === 0) return undefined;
+
+  const ctx = new OfflineAudioContext({ numberOfChannels: 2, length: Math.ceil((totalFrames / fps) * RENDER_SAMPLE_RATE), sampleRate: RENDER_SAMPLE_RATE });
+  let scheduled = 0;
+  for (const item of placed) {
+    const blob = await resolveImageBlob(item.clip.src);
+    if (!blob) continue;
+    let buffer: AudioBuffer;
+    try {
+      buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+    } catch (e) {
+      console.warn(`Skipping undecodable audio ${item.clip.name}`, e);
+      continue;
+    }
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const gain = ctx.createGain();
+    gain.gain.value = item.volume;
+    source.connect(gain).connect(ctx.destination);
+    source.start(item.startFrame / fps, item.sourceInFrames / fps, item.durationFrames / fps);
+    scheduled++;
+  }
+  if (scheduled === 0) return undefined;
+
+  const mixed = await ctx.startRendering();
+  return { sampleRate: mixed.sampleRate, channels: [mixed.getChannelData(0).slice(), mixed.getChannelData(1).slice()] };
+};
+
+// --- RENDER ---
+
+/**
+ * Renders the timeline at the project resolution and frame rate. Rejects with 'Render cancelled'
+ * when `signal` aborts; the worker is terminated either way.
+ */
+export const renderAnimaticVideo = async (
+  project: Pick<ProjectData, 'timeline' | 'musicBeds' | 'timelineSettings' | 'references' | 'subtitleSettings'>,
+  options: VideoRenderOptions,
+  onProgress: (progress: VideoRenderProgress) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const { fps, width, height } = project.timelineSettings;
+  if (project.timeline.length === 0) throw new Error('Add scenes before rendering.');
+
+  let cursor = 0;
+  const shots: RenderShot[] = [];
+  for (const frame of project.timeline) {
+    const length = Math.round((frame.duration || 4) * fps);
+    shots.push({
+      title: frame.title,
+      image: await resolveImageBlob(frame.image),
+      startFrame: cursor,
+      endFrame: cursor + length,
+      kenBurns: options.kenBurns ? frame.kenBurns : undefined
+    });
+    cursor += length;
+  }
+
+  onProgress({ stage: 'audio', progress: 0 });
+  const audio = options.includeAudio ? await mixAudio(project, fps, cursor) : undefined;
+  if (signal?.aborted) throw new Error('Render cancelled');
+
+  const { speakerLabels } = getSubtitleSettings(project);
+  const job: RenderJob = {
+    format: options.format,
+    width,
+    height,
+    fps,
+    shots,
+    transition: options.transition,
+    crossfadeFrames: Math.max(1, Math.round(options.crossfadeSeconds * fps)),
+    cues: options.burnSubtitles ? buildSubtitleCues(project).map(cue => ({ ...cue, text: cueText(cue, speakerLabels) })) : [],
+    audio
+  };
+
+  const worker = new Worker(new URL('./videoRenderWorker.ts', import.meta.url), { type: 'module' });
+  try {
+    const data = await new Promise<ArrayBuffer>((resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(new Error('Render cancelled')));
+      worker.onerror = (e) => reject(new Error(e.message || 'The render worker failed to start.'));
+      worker.onmessage = (e: MessageEvent<RenderWorkerMessage>) => {
+        const msg = e.data;
+        if (msg.type === 'progress') onProgress({ stage: msg.stage, progress: msg.progress });
+        else if (msg.type === 'done') resolve(msg.data);
+        else reject(new Error(msg.message));
+      };
+      worker.postMessage(job, audio ? audio.channels.map(c => c.buffer) : []);
+    });
+    const mimeType = VIDEO_FORMATS.find(f => f.value === options.format)!.mimeType;
+    return new Blob([data], { type: mimeType });
+  } finally {
+    worker.terminate();
+  }
+};
@@ -0,0 +1,288 @@
+
+import { RenderJob, RenderShot, RenderWorkerMessage } from './videoRenderService';
+import { kenBurnsTransform } from './animaticService';
+import { MuxSample, MuxVideoTrack, muxMP4, muxWebM, videoCodecFor, audioCodecFor } from './videoMuxer';
+
+/**
+ * Draws the animatic frame by frame on an OffscreenCanvas and encodes it with WebCodecs.
+ * Receives one RenderJob, posts progress, then the finished file.
+ */
+
+const ctx = self as unknown as Worker;
+
+const post = (msg: RenderWorkerMessage, transfer: Transferable[] = []) => ctx.postMessage(msg, transfer);
+
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const AUDIO_BITRATE = 128000;
+const AUDIO_CHUNK_FRAMES = 4800; // 0.1s at 48kHz
+const MAX_ENCODE_QUEUE = 8;
+
+const toBytes = (src: AllowSharedBufferSource): Uint8Array =>
+  ArrayBuffer.isView(src) ? new Uint8Array(src.buffer, src.byteOffset, src.byteLength).slice() : new Uint8Array(src).slice();
+
+const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await new Promise(r => setTimeout(r, 1));
+};
+
+// --- DRAWING ---
+
+/**
+ * Decoded stills for the shots around the playhead; the rest are closed to keep memory flat on long timelines.
+ */
+const createBitmapCache = (shots: RenderShot[]) => {
+  const cache = new Map<number, ImageBitmap | null>();
+  return {
+    get: async (index: number): Promise<ImageBitmap | null> => {
+      if (!cache.has(index)) {
+        const blob = shots[index].image;
+        let bitmap: ImageBitmap | null = null;
+        if (blob) {
+          try { bitmap = await createImageBitmap(blob); } catch (e) { bitmap = null; }
+        }
+        cache.set(index, bitmap);
+      }
+      return cache.get(index) || null;
+    },
+    release: (keepFrom: number) => {
+      cache.forEach((bitmap, index) => {
+        if (index < keepFrom) {
+          bitmap?.close();
+          cache.delete(index);
+        }
+      });
+    }
+  };
+};
+
+const drawShot = (g: OffscreenCanvasRenderingContext2D, shot: RenderShot, bitmap: ImageBitmap | null, frame: number, alpha: number, width: number, height: number) => {
+  g.save();
+  g.globalAlpha = alpha;
+  if (bitmap) {
+    const progress = (frame - shot.startFrame) / Math.max(1, shot.endFrame - shot.startFrame);
+    const { scale, x, y } = kenBurnsTransform(shot.kenBurns, progress);
+    const cover = Math.max(width / bitmap.width, height / bitmap.height);
+    const w = bitmap.width * cover;
+    const h = bitmap.height * cover;
+    g.translate(width / 2 + x * width, height / 2 + y * height);
+    g.scale(scale, scale);
+    g.drawImage(bitmap, -w / 2, -h / 2, w, h);
+  } else {
+    // Scene without an image: title card, as in the player
+    g.fillStyle = '#111111';
+    g.fillRect(0, 0, width, height);
+    g.fillStyle = '#6b7280';
+    g.font = `bold ${Math.round(height * 0.05)}px sans-serif`;
+    g.textAlign = 'center';
+    g.textBaseline = 'middle';
+    g.fillText(shot.title, width / 2, height / 2, width * 0.9);
+  }
+  g.restore();
+};
+
+const wrapText = (g: OffscreenCanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && g.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    if (line) lines.push(line);
+  });
+  return lines;
+};
+
+const drawSubtitle = (g: OffscreenCanvasRenderingContext2D, text: string, width: number, height: number) => {
+  const size = Math.round(height * 0.045);
+  g.save();
+  g.font = `bold ${size}px sans-serif`;
+  g.textAlign = 'center';
+  g.textBaseline = 'bottom';
+  g.lineJoin = 'round';
+  g.lineWidth = Math.max(2, size * 0.15);
+  g.strokeStyle = 'rgba(0,0,0,0.9)';
+  g.fillStyle = '#ffffff';
+  const lines = wrapText(g, text, width * 0.84);
+  const lineHeight = size * 1.25;
+  const bottom = height * 0.94;
+  lines.forEach((line, i) => {
+    const y = bottom - (lines.length - 1 - i) * lineHeight;
+    g.strokeText(line, width / 2, y);
+    g.fillText(line, width / 2, y);
+  });
+  g.restore();
+};
+
+// --- ENCODING ---
+
+const encodeVideo = async (job: RenderJob): Promise<{ codec: MuxVideoTrack['codec'], samples: MuxSample[], description?: Uint8Array }> => {
+  const { width, height, fps, shots } = job;
+  const totalFrames = shots[shots.length - 1].endFrame;
+  const samples: MuxSample[] = [];
+  let description: Uint8Array | undefined;
+  let failure: Error | null = null;
+
+  const config: VideoEncoderConfig = {
+    codec: videoCodecFor(job.format, width, height),
+    width,
+    height,
+    framerate: fps,
+    bitrate: Math.round(width * height * fps * 0.12),
+    ...(job.format === 'mp4' ? { avc: { format: 'avc' as const } } : {})
+  };
+  if (!(await VideoEncoder.isConfigSupported(config)).supported) {
+    if (job.format === 'mp4') throw new Error(`This browser cannot encode H.264 at ${width}x${height}. Try WebM.`);
+    config.codec = 'vp8';
+    if (!(await VideoEncoder.isConfigSupported(config)).supported) throw new Error(`This browser cannot encode VP9 or VP8 at ${width}x${height}.`);
+  }
+
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      samples.push({ data, timestamp: chunk.timestamp, duration: chunk.duration ?? Math.round(1e6 / fps), key: chunk.type === 'key' });
+      if (!description && meta?.decoderConfig?.description) description = toBytes(meta.decoderConfig.description);
+    },
+    error: (e) => { failure = e; }
+  });
+  encoder.configure(config);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const g = canvas.getContext('2d')!;
+  const bitmaps = createBitmapCache(shots);
+  // Dissolves are centred on the cut so scene timing and audio sync stay the same as with cuts
+  const halfFade = (i: number) => job.transition === 'crossfade' && i + 1 < shots.length
+    ? Math.min(job.crossfadeFrames / 2, (shots[i].endFrame - shots[i].startFrame) / 2, (shots[i + 1].endFrame - shots[i + 1].startFrame) / 2)
+    : 0;
+
+  let shotIndex = 0;
+  let cueIndex = 0;
+  for (let n = 0; n < totalFrames; n++) {
+    if (failure) throw failure;
+    while (n >= shots[shotIndex].endFrame) shotIndex++;
+    bitmaps.release(shotIndex - 1);
+    const shot = shots[shotIndex];
+
+    g.fillStyle = '#000000';
+    g.fillRect(0, 0, width, height);
+
+    const prevHalf = shotIndex > 0 ? halfFade(shotIndex - 1) : 0;
+    const nextHalf = halfFade(shotIndex);
+    if (prevHalf > 0 && n < shot.startFrame + prevHalf) {
+      const alpha = (n - (shot.startFrame - prevHalf) + 0.5) / (2 * prevHalf);
+      drawShot(g, shots[shotIndex - 1], await bitmaps.get(shotIndex - 1), n, 1, width, height);
+      drawShot(g, shot, await bitmaps.get(shotIndex), n, alpha, width, height);
+    } else if (nextHalf > 0 && n >= shot.endFrame - nextHalf) {
+      const alpha = (n - (shot.endFrame - nextHalf) + 0.5) / (2 * nextHalf);
+      drawShot(g, shot, await bitmaps.get(shotIndex), n, 1, width, height);
+      drawShot(g, shots[shotIndex + 1], await bitmaps.get(shotIndex + 1), n, alpha, width, height);
+    } else {
+      drawShot(g, shot, await bitmaps.get(shotIndex), n, 1, width, height);
+    }
+
+    const time = n / fps;
+    while (cueIndex < job.cues.length && job.cues[cueIndex].end <= time) cueIndex++;
+    const cue = job.cues[cueIndex];
+    if (cue && cue.start <= time) drawSubtitle(g, cue.text, width, height);
+
+    const timestamp = Math.round((n * 1e6) / fps);
+    const frame = new VideoFrame(canvas, { timestamp, duration: Math.round(((n + 1) * 1e6) / fps) - timestamp });
+    encoder.encode(frame, { keyFrame: n % Math.round(fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+    frame.close();
+    await waitForQueue(encoder);
+
+    if (n % fps === 0) post({ type: 'progress', stage: 'video', progress: n / totalFrames });
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return { codec: job.format === 'mp4' ? 'avc' : config.codec === 'vp8' ? 'vp8' : 'vp9', samples, description };
+};
+
+const encodeAudio = async (job: RenderJob): Promise<{ samples: MuxSample[], description?: Uint8Array } | undefined> => {
+  if (!job.audio) return undefined;
+  const { sampleRate, channels } = job.audio;
+  const samples: MuxSample[] = [];
+  let description: Uint8Array | undefined;
+  let failure: Error | null = null;
+
+  const config: AudioEncoderConfig = { codec: audioCodecFor(job.format), sampleRate, numberOfChannels: channels.length, bitrate: AUDIO_BITRATE };
+  if (!(await AudioEncoder.isConfigSupported(config)).supported) {
+    throw new Error(job.format === 'mp4'
+      ? 'This browser cannot encode AAC audio. Render WebM or leave audio out.'
+      : 'This browser cannot encode Opus audio. Leave audio out to render.');
+  }
+
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      samples.push({ data, timestamp: chunk.timestamp, duration: chunk.duration ?? Math.round((1024 * 1e6) / sampleRate), key: true });
+      if (!description && meta?.decoderConfig?.description) description = toBytes(meta.decoderConfig.description);
+    },
+    error: (e) => { failure = e; }
+  });
+  encoder.configure(config);
+
+  const length = channels[0].length;
+  for (let offset = 0; offset < length; offset += AUDIO_CHUNK_FRAMES) {
+    if (failure) throw failure;
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, length - offset);
+    const planar = new Float32Array(frames * channels.length);
+    channels.forEach((channel, c) => planar.set(channel.subarray(offset, offset + frames), c * frames));
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels.length,
+      timestamp: Math.round((offset * 1e6) / sampleRate),
+      data: planar
+    });
+    encoder.encode(data);
+    data.close();
+    await waitForQueue(encoder);
+
+    if ((offset / AUDIO_CHUNK_FRAMES) % 50 === 0) post({ type: 'progress', stage: 'audio', progress: offset / length });
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return { samples, description };
+};
+
+ctx.onmessage = async (e: MessageEvent<RenderJob>) => {
+  const job = e.data;
+  try {
+    const audio = await encodeAudio(job);
+    const video = await encodeVideo(job);
+    post({ type: 'progress', stage: 'muxing', progress: 0 });
+
+    const videoTrack = {
+      codec: video.codec,
+      width: job.width,
+      height: job.height,
+      fps: job.fps,
+      description: video.description,
+      samples: video.samples
+    };
+    const audioTrack = audio && {
+      codec: job.format === 'mp4' ? 'aac' as const : 'opus' as const,
+      sampleRate: job.audio!.sampleRate,
+      channels: job.audio!.channels.length,
+      bitrate: AUDIO_BITRATE,
+      description: audio.description,
+      samples: audio.samples
+    };
+    const file = job.format === 'mp4' ? muxMP4(videoTrack, audioTrack) : muxWebM(videoTrack, audioTrack);
+    post({ type: 'done', data: file.buffer as ArrayBuffer }, [file.buffer as ArrayBuffer]);
+  } catch (err: any) {
+    post({ type: 'error', message: err?.message || String(err) });
+  }
+};
@@ -5,12 +5,12 @@ export interface Character {
   name: string;
   triggerWord?: string; // Specific token/keyword for AI generation
   description: string;
-  image: string | null;
-  imageHistory?: string[]; // Array of base64 strings for version history
+  image: string | null; // Image reference (valera-img://<hash>), see services/imageStore
+  imageHistory?: string[]; // Array of image references for version history
   additionalReferences?: string[]; // New field for prompt-specific references
   aspectRatio?: string; // Aspect ratio for generation (e.g. "1:1", "16:9")
-  quality?: 'standard' | 'high'; // Deprecated in favor of global model setting + imageSize
   imageSize?: string; // '1K' | '2K' | '4K' (Only for Pro model)
+  layers?: LayerDocument; // Editable layers behind `image`, saved by the image editor
 }
 
 export interface TimelineFrame {
@@ -18,8 +18,8 @@ export interface TimelineFrame {
   title: string;
   description: string; // User's rough idea
   enhancedPrompt?: string; // Gemini 3 generated prompt
-  image: string | null;
-  imageHistory?: string[]; // Array of base64 strings for version history
+  image: string | null; // Image reference (valera-img://<hash>), see services/imageStore
+  imageHistory?: string[]; // Array of image references for version history
   assignedAssetIds: string[]; // IDs of characters, items, or locations
   
   // Montage & Audio fields
@@ -29,6 +29,7 @@ export interface TimelineFrame {
   speechPrompt?: string; // Detailed instructions for TTS (intonation, pauses)
   musicMood?: string; // Description of music
   sunoPrompt?: string; // Specific prompt for Suno AI
+  voiceOver?: AudioClip; // Recorded VO/dialogue, starts with the scene
   
   // Video Generation
   videoPrompt?: string; // Prompt for video generators (motion, camera)
@@ -37,6 +38,57 @@ export interface TimelineFrame {
   aspectRatio?: string; // e.g., "16:9", "9:16"
   stylePrompt?: string; // The prompt suffix for the style
   quality?: 'standard' | 'high'; // 'standard' = Flash, 'high' = Pro
+  kenBurns?: KenBurnsMotion; // Camera move on the still in the animatic (default: none)
+  layers?: LayerDocument; // Editable layers behind `image`, saved by the image editor
+}
+
+/**
+ * One layer of an editor document, as the image editor keeps it (geometry, colour, text, filters...).
+ */
+export interface LayerObject {
+  id: string;
+  type: string; // 'image' | 'text' | 'path' | 'rect' | 'circle' | 'arrow' | 'mask'
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  src?: string; // Image layers: image reference (valera-img://<hash>)
+  [field: string]: unknown;
+}
+
+/**
+ * The layer stack an image editor saved together with the flattened image, so it can be reopened
+ * editable. Only valid while the owner's image is still `image`; any other change of the image
+ * (regeneration, history, upload) makes it stale.
+ */
+export interface LayerDocument {
+  image: string; // The flattened image saved with these layers
+  docSize: { w: number; h: number };
+  objects: LayerObject[]; // Bottom to top
+  filters?: Record<string, number>; // Document-wide colour corrections, where the editor has them
+}
+
+export type KenBurnsMotion = 'none' | 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'pan-up' | 'pan-down';
+
+/**
+ * An attached sound file. Audio is stored in the same blob store as images, see services/imageStore.
+ */
+export interface AudioClip {
+  src: string; // Media reference (valera-img://<hash>)
+  name: string; // Original file name
+  mimeType: string;
+  duration: number; // Length of the file in seconds
+  volume?: number; // Linear gain 0..1 (default 1)
+}
+
+/**
+ * Project-wide music cue laid under a run of scenes.
+ */
+export interface MusicBed extends AudioClip {
+  id: string;
+  startFrameId: string; // First scene the bed plays under
+  endFrameId: string; // Last scene it covers (inclusive)
+  inOffset?: number; // Seconds into the file where the bed starts
+  outOffset?: number; // Seconds into the file where it stops (default: end of file)
 }
 
 export interface TimelineSettings {
@@ -45,28 +97,78 @@ export interface TimelineSettings {
     height: number;
 }
 
+export interface SubtitleSettings {
+    maxCharsPerLine: number;
+    maxCharsPerSecond: number; // Reading speed above which cues are flagged
+    speakerLabels: boolean; // Prefix cues with the speaking character's name
+}
+
 export interface GenerationLogEntry {
   id: string;
   timestamp: number;
   prompt: string;
-  imageData: string; // base64
+  imageData: string; // Image reference
   sourceId: string; // ID of the character or frame
   sourceName: string; 
 }
 
+/**
+ * What an AI call was made for, so spend can be broken down per scene and per asset.
+ */
+export interface UsageSource {
+  type: 'frame' | 'asset' | 'director';
+  id?: string; // Frame or asset id
+  name?: string; // Title at the time of the call (kept for deleted scenes/assets)
+}
+
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  provider: string; // ApiProvider id
+  model: string; // Model id as sent to the API
+  kind: 'chat' | 'text' | 'image';
+  inputTokens?: number; // Only when the API reports usage
+  outputTokens?: number;
+  images?: number;
+  imageSize?: string; // '1K' | '2K' | '4K'
+  source?: UsageSource;
+}
+
 export interface ProjectData {
   meta: {
     appName: string;
-    version: string;
+    version: string; // Schema version, see PROJECT_SCHEMA_VERSION
     description: string;
   };
   references: Character[];
   timeline: TimelineFrame[];
   timelineSettings: TimelineSettings;
+  subtitleSettings?: SubtitleSettings; // Cue splitting for subtitle exports (defaults in services/srtService)
+  musicBeds?: MusicBed[];
   directorHistory?: ChatMessage[]; // Saved chat history with Valera
   activeDirectorStyleId?: string; // Saved style preference (e.g. 'jcenters')
   directorDraft?: string; // Saved unfinished input text
   generationLog?: GenerationLogEntry[]; // Global history of all generations
+  usageLog?: UsageEntry[]; // Every AI call with token/image counts, for cost reporting
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string; // Mirrors ProjectData.meta.appName
+  createdAt: number;
+  updatedAt: number; // Last autosave
+  thumbnail: string | null; // Small JPEG data URL
+  sceneCount: number;
+  assetCount: number;
+}
+
+export interface ProjectSnapshot {
+  id: string;
+  projectId: string;
+  name: string; // "Before client review", or the action that triggered an auto snapshot
+  kind: 'manual' | 'auto';
+  createdAt: number;
+  data: ProjectData; // Full copy with image references (blobs are shared, not copied)
 }
 
 export interface AppSettings {
@@ -79,7 +181,7 @@ export interface AppSettings {
   assistantIdleImage?: string; // GIF for standing
   assistantSitImage?: string; // GIF for sitting/resting
   chatFontSize?: number; // New: Font size for Director Chat (default 12)
-  apiProvider?: 'google' | 'openrouter'; // NEW: Provider selector
+  apiProvider?: 'google' | 'openrouter' | 'custom'; // Provider selector, see services/aiProvider
 }
 
 export enum GenerationStatus {